@@ -0,0 +1,272 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/IPriceOracle.sol";
+
+/**
+ * @title AggregatedPriceOracle
+ * @notice Median of several price feeds, so one bad or manipulated feed cannot move the price
+ * @dev Sources older than their heartbeat are skipped. Fresh sources further than maxDeviation
+ *      from the median of all fresh sources are rejected as outliers, and the price is the
+ *      median of what is left. Prices use the same 18-decimal USD units as the sources.
+ */
+contract AggregatedPriceOracle is IPriceOracle, Ownable {
+    using SafeMath for uint256;
+
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant MAX_SOURCES = 10;
+
+    struct PriceSource {
+        IPriceOracle feed;
+        uint256 heartbeat; // Max seconds since the feed's last update, 0 = no limit
+    }
+
+    struct AggregationConfig {
+        uint256 maxDeviation; // Max distance from the median in basis points, 0 = keep all sources
+        uint256 minSources; // Sources that must agree for a price to be returned
+    }
+
+    mapping(address => PriceSource[]) private sources; // token => sources
+    mapping(address => AggregationConfig) public aggregationConfigs; // token => config
+
+    event SourceAdded(address indexed token, address indexed feed, uint256 heartbeat);
+    event SourceRemoved(address indexed token, address indexed feed);
+    event AggregationConfigUpdated(address indexed token, uint256 maxDeviation, uint256 minSources);
+    event SourceSpread(address indexed token, address indexed feed, uint256 price, uint256 spread, bool rejected);
+    event PriceAggregated(address indexed token, uint256 price, uint256 sourcesUsed);
+
+    /**
+     * @notice Register a price feed for a token
+     * @param token The token address
+     * @param feed The feed, any IPriceOracle
+     * @param heartbeat Max seconds since the feed's last update, 0 = no limit
+     */
+    function addSource(address token, address feed, uint256 heartbeat) external onlyOwner {
+        require(token != address(0), "Invalid token address");
+        require(feed != address(0) && feed != address(this), "Invalid feed address");
+        require(sources[token].length < MAX_SOURCES, "Too many sources");
+
+        for (uint256 i = 0; i < sources[token].length; i++) {
+            require(address(sources[token][i].feed) != feed, "Source already added");
+        }
+
+        sources[token].push(PriceSource(IPriceOracle(feed), heartbeat));
+        emit SourceAdded(token, feed, heartbeat);
+    }
+
+    /**
+     * @notice Remove a price feed for a token
+     * @param token The token address
+     * @param feed The feed to remove
+     */
+    function removeSource(address token, address feed) external onlyOwner {
+        PriceSource[] storage tokenSources = sources[token];
+        uint256 length = tokenSources.length;
+
+        for (uint256 i = 0; i < length; i++) {
+            if (address(tokenSources[i].feed) == feed) {
+                tokenSources[i] = tokenSources[length - 1];
+                tokenSources.pop();
+                emit SourceRemoved(token, feed);
+                return;
+            }
+        }
+        revert("Source not found");
+    }
+
+    /**
+     * @notice Configure outlier rejection for a token
+     * @param token The token address
+     * @param maxDeviation Max distance from the median in basis points, 0 = keep all sources
+     * @param minSources Sources that must agree for a price to be returned
+     */
+    function setAggregationConfig(address token, uint256 maxDeviation, uint256 minSources) external onlyOwner {
+        require(maxDeviation <= BASIS_POINTS, "Invalid deviation");
+        require(minSources > 0 && minSources <= MAX_SOURCES, "Invalid min sources");
+
+        aggregationConfigs[token] = AggregationConfig(maxDeviation, minSources);
+        emit AggregationConfigUpdated(token, maxDeviation, minSources);
+    }
+
+    /**
+     * @notice Get the registered feeds for a token
+     * @param token The token address
+     * @return feeds The feed addresses
+     * @return heartbeats The heartbeat of each feed
+     */
+    function getSources(address token)
+        external
+        view
+        returns (address[] memory feeds, uint256[] memory heartbeats)
+    {
+        uint256 length = sources[token].length;
+        feeds = new address[](length);
+        heartbeats = new uint256[](length);
+
+        for (uint256 i = 0; i < length; i++) {
+            feeds[i] = address(sources[token][i].feed);
+            heartbeats[i] = sources[token][i].heartbeat;
+        }
+    }
+
+    /**
+     * @notice Get the median price of a token's fresh, non-outlier sources
+     * @param token The token address
+     * @return The aggregated price
+     */
+    function getPrice(address token) external view override returns (uint256) {
+        (uint256 price, , ) = aggregate(token);
+        return price;
+    }
+
+    /**
+     * @notice Get the oldest update time among the sources used for the price
+     * @param token The token address
+     * @return The timestamp of the stalest source that was used
+     */
+    function getLastUpdateTime(address token) external view override returns (uint256) {
+        (, , uint256 lastUpdate) = aggregate(token);
+        return lastUpdate;
+    }
+
+    /**
+     * @dev Prices come from the registered feeds; update those instead
+     */
+    function updatePrice(address, uint256) external pure override {
+        revert("Update the source feeds");
+    }
+
+    /**
+     * @notice Aggregate a token's price and report how far each source is from it
+     * @dev Emits SourceSpread for every fresh source, with its spread measured against the
+     *      aggregated price, so disagreeing feeds can be monitored
+     * @param token The token address
+     * @return price The aggregated price
+     */
+    function pokePrice(address token) external returns (uint256 price) {
+        (uint256[] memory prices, address[] memory feeds, , uint256 count) = getFreshPrices(token);
+        uint256 sourcesUsed;
+        (price, sourcesUsed, ) = aggregate(token);
+
+        uint256 maxDeviation = aggregationConfigs[token].maxDeviation;
+        uint256 fullMedian = median(copy(prices, count), count);
+        for (uint256 i = 0; i < count; i++) {
+            emit SourceSpread(
+                token,
+                feeds[i],
+                prices[i],
+                getSpread(prices[i], price),
+                isOutlier(prices[i], fullMedian, maxDeviation)
+            );
+        }
+
+        emit PriceAggregated(token, price, sourcesUsed);
+    }
+
+    /**
+     * @notice Median of the fresh sources after dropping outliers
+     * @param token The token address
+     * @return price The aggregated price
+     * @return sourcesUsed The number of sources the price was taken from
+     * @return lastUpdate The oldest update time among the sources used
+     */
+    function aggregate(address token)
+        internal
+        view
+        returns (uint256 price, uint256 sourcesUsed, uint256 lastUpdate)
+    {
+        (uint256[] memory prices, , uint256[] memory updateTimes, uint256 count) = getFreshPrices(token);
+        AggregationConfig memory config = aggregationConfigs[token];
+        uint256 minSources = config.minSources == 0 ? 1 : config.minSources;
+        require(count >= minSources, "Not enough fresh sources");
+
+        uint256 fullMedian = median(copy(prices, count), count);
+
+        // Keep the sources close enough to the median of all fresh sources
+        uint256[] memory inliers = new uint256[](count);
+        lastUpdate = type(uint256).max;
+        for (uint256 i = 0; i < count; i++) {
+            if (isOutlier(prices[i], fullMedian, config.maxDeviation)) continue;
+
+            inliers[sourcesUsed] = prices[i];
+            sourcesUsed++;
+            if (updateTimes[i] < lastUpdate) lastUpdate = updateTimes[i];
+        }
+        require(sourcesUsed >= minSources, "Sources disagree");
+
+        price = median(inliers, sourcesUsed);
+    }
+
+    /**
+     * @notice Prices of the sources that have updated within their heartbeat
+     * @dev Feeds that revert, e.g. with no price set, are skipped. Only the first
+     *      `count` entries of the returned arrays are filled.
+     */
+    function getFreshPrices(address token)
+        internal
+        view
+        returns (uint256[] memory prices, address[] memory feeds, uint256[] memory updateTimes, uint256 count)
+    {
+        PriceSource[] storage tokenSources = sources[token];
+        prices = new uint256[](tokenSources.length);
+        feeds = new address[](tokenSources.length);
+        updateTimes = new uint256[](tokenSources.length);
+
+        for (uint256 i = 0; i < tokenSources.length; i++) {
+            PriceSource memory source = tokenSources[i];
+            uint256 updatedAt;
+            try source.feed.getLastUpdateTime(token) returns (uint256 sourceUpdatedAt) {
+                updatedAt = sourceUpdatedAt;
+            } catch {
+                continue;
+            }
+            if (source.heartbeat != 0 && block.timestamp > updatedAt.add(source.heartbeat)) continue;
+
+            try source.feed.getPrice(token) returns (uint256 sourcePrice) {
+                if (sourcePrice == 0) continue;
+                prices[count] = sourcePrice;
+                feeds[count] = address(source.feed);
+                updateTimes[count] = updatedAt;
+                count++;
+            } catch {
+                continue;
+            }
+        }
+    }
+
+    function isOutlier(uint256 price, uint256 referencePrice, uint256 maxDeviation) internal pure returns (bool) {
+        return maxDeviation != 0 && getSpread(price, referencePrice) > maxDeviation;
+    }
+
+    // Distance of a price from a reference price, in basis points
+    function getSpread(uint256 price, uint256 referencePrice) internal pure returns (uint256) {
+        uint256 diff = price > referencePrice ? price - referencePrice : referencePrice - price;
+        return diff.mul(BASIS_POINTS).div(referencePrice);
+    }
+
+    // Sorts the first `length` values in place, fine for the handful of sources per token
+    function median(uint256[] memory values, uint256 length) internal pure returns (uint256) {
+        for (uint256 i = 1; i < length; i++) {
+            uint256 value = values[i];
+            uint256 j = i;
+            while (j > 0 && values[j - 1] > value) {
+                values[j] = values[j - 1];
+                j--;
+            }
+            values[j] = value;
+        }
+
+        uint256 middle = length / 2;
+        if (length % 2 == 1) return values[middle];
+        return values[middle - 1].add(values[middle]).div(2);
+    }
+
+    function copy(uint256[] memory values, uint256 length) internal pure returns (uint256[] memory result) {
+        result = new uint256[](length);
+        for (uint256 i = 0; i < length; i++) {
+            result[i] = values[i];
+        }
+    }
+}
@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
@@ -12,9 +14,10 @@ import "./EnhancedLendingProtocol.sol";
 /**
  * @title AutoRebalancer
  * @notice Automated contract to rebalance positions when conditions are met
- * @dev Uses delegated rights to borrow and adjust positions
+ * @dev Uses delegated rights to borrow and adjust positions.
+ *      Deployed behind an ERC1967 proxy and upgraded by the owner; new state takes slots from __gap.
  */
-contract AutoRebalancer is ReentrancyGuard, Ownable {
+contract AutoRebalancer is Initializable, UUPSUpgradeable, ReentrancyGuard, Ownable {
     using SafeMath for uint256;
 
     // Constants
@@ -39,6 +42,9 @@ contract AutoRebalancer is ReentrancyGuard, Ownable {
     
     // User configurations
     mapping(address => UserConfig) public userConfigs;
+
+    // Reserved slots for state added by later implementations
+    uint256[50] private __gap;
     
     // Events
     event Rebalanced(
@@ -57,25 +63,31 @@ contract AutoRebalancer is ReentrancyGuard, Ownable {
         uint256 cooldownPeriod
     );
 
+    /// @dev Locks the implementation, the proxy is set up through initialize
+    constructor() {
+        _disableInitializers();
+    }
+
     /**
-     * @notice Constructor
+     * @notice Set up the rebalancer behind its proxy
      * @param _delegateManager Address of the delegate manager
      * @param _lendingProtocol Address of the lending protocol
      * @param _priceOracle Address of the price oracle
      * @param _weth Address of the WETH token
      */
-    constructor(
+    function initialize(
         address _delegateManager,
         address _lendingProtocol,
         address _priceOracle,
         address _weth
-    ) {
+    ) external initializer {
         // Cast address to payable address before converting to contract type
         delegateManager = DelegateManager(_delegateManager);
         address payable lendingProtocolPayable = payable(_lendingProtocol);
         lendingProtocol = EnhancedLendingProtocol(lendingProtocolPayable);
         priceOracle = IPriceOracle(_priceOracle);
         weth = IERC20(_weth);
+        _transferOwnership(msg.sender);
     }
     
     /**
@@ -271,8 +283,8 @@ contract AutoRebalancer is ReentrancyGuard, Ownable {
         // Approve lending protocol to spend the borrowed WETH
         weth.approve(address(lendingProtocol), amount);
         
-        // Repay the loan
-        lendingProtocol.repay(token, amount);
+        // Repay the user's loan
+        lendingProtocol.repayFor(user, token, amount);
     }
     
     /**
@@ -292,4 +304,6 @@ contract AutoRebalancer is ReentrancyGuard, Ownable {
         // Increase stake
         delegateManager.increaseStake(user, amount);
     }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../interfaces/ISwapAdapter.sol";
+import "../interfaces/IWETH.sol";
+import "./EnhancedLendingProtocol.sol";
+
+/**
+ * @title CollateralSwap
+ * @notice Swaps one collateral asset for another without repaying the position's debt
+ * @dev The caller's position is moved to this contract for the duration of the swap. The swap
+ *      adapter pays out the new collateral first, which is deposited before the old collateral
+ *      is withdrawn, so the protocol's health check only runs on the final position.
+ *      The adapter is not trusted: the callback must match the requested swap, the output is
+ *      measured by balance and only the requested input is approved to the adapter.
+ *      Needs the protocol's POSITION_MANAGER_ROLE; the owner is the protocol timelock.
+ */
+contract CollateralSwap is Ownable, ReentrancyGuard, ISwapCallback {
+    EnhancedLendingProtocol public lendingProtocol;
+    IWETH public weth;
+    ISwapAdapter public swapAdapter;
+
+    struct PendingSwap {
+        address fromToken;
+        address toToken;
+        uint256 amountIn;
+        uint256 minAmountOut;
+        uint256 balanceBefore;
+        uint256 amountOut;
+    }
+
+    // The swap in flight, set for the duration of the adapter call
+    PendingSwap private pendingSwap;
+
+    event CollateralSwapped(
+        address indexed user,
+        address indexed fromToken,
+        address indexed toToken,
+        uint256 amountIn,
+        uint256 amountOut,
+        uint256 healthFactor
+    );
+    event SwapAdapterUpdated(address indexed oldAdapter, address indexed newAdapter);
+
+    constructor(address _lendingProtocol, address _swapAdapter) {
+        require(_lendingProtocol != address(0), "Invalid lending protocol address");
+        require(_swapAdapter != address(0), "Invalid swap adapter address");
+
+        lendingProtocol = EnhancedLendingProtocol(payable(_lendingProtocol));
+        weth = lendingProtocol.weth();
+        swapAdapter = ISwapAdapter(_swapAdapter);
+    }
+
+    /**
+     * @notice Replace the collateral in fromToken with toToken, keeping the position's debt open
+     * @param fromToken The collateral to swap out of
+     * @param toToken The collateral to swap into
+     * @param amount The amount of fromToken to swap, or type(uint256).max for the whole deposit
+     * @param minAmountOut The least toToken the swap may deposit
+     * @return amountOut The amount of toToken deposited
+     */
+    function swapCollateral(address fromToken, address toToken, uint256 amount, uint256 minAmountOut)
+        external
+        nonReentrant
+        returns (uint256 amountOut)
+    {
+        require(fromToken != toToken, "Identical tokens");
+        require(amount > 0, "Amount must be > 0");
+
+        lendingProtocol.movePosition(msg.sender, address(this));
+
+        uint256 deposited = lendingProtocol.getCurrentDepositAmount(fromToken, address(this));
+        if (amount > deposited) amount = deposited;
+        require(amount > 0, "No collateral to swap");
+
+        pendingSwap = PendingSwap({
+            fromToken: fromToken,
+            toToken: toToken,
+            amountIn: amount,
+            minAmountOut: minAmountOut,
+            balanceBefore: IERC20(toToken).balanceOf(address(this)),
+            amountOut: 0
+        });
+        swapAdapter.swap(fromToken, toToken, amount, minAmountOut);
+        amountOut = pendingSwap.amountOut;
+        delete pendingSwap;
+
+        // The callback sets amountOut, and the adapter must have taken exactly the approved input
+        require(amountOut > 0, "Swap not executed");
+        require(IERC20(fromToken).allowance(address(this), address(swapAdapter)) == 0, "Swap not settled");
+
+        lendingProtocol.movePosition(address(this), msg.sender);
+
+        emit CollateralSwapped(
+            msg.sender,
+            fromToken,
+            toToken,
+            amount,
+            amountOut,
+            lendingProtocol.getLiquidationHealthFactor(msg.sender)
+        );
+    }
+
+    /**
+     * @notice Called by the swap adapter once it has paid out tokenOut
+     * @dev Deposits the tokenOut received, then withdraws tokenIn to pay the adapter. The
+     *      withdrawal reverts if the position ends up unhealthy.
+     * @param tokenIn The collateral being swapped out of
+     * @param tokenOut The collateral being swapped into
+     * @param amountIn The amount of tokenIn owed to the adapter
+     */
+    function onSwap(address tokenIn, address tokenOut, uint256 amountIn, uint256) external {
+        PendingSwap storage swap = pendingSwap;
+        require(
+            msg.sender == address(swapAdapter) && swap.amountIn > 0 && swap.amountOut == 0,
+            "Unexpected swap callback"
+        );
+        require(
+            tokenIn == swap.fromToken && tokenOut == swap.toToken && amountIn == swap.amountIn,
+            "Swap does not match request"
+        );
+
+        // Only what actually arrived counts, whatever the adapter reports
+        uint256 amountOut = IERC20(tokenOut).balanceOf(address(this)) - swap.balanceBefore;
+        require(amountOut > 0 && amountOut >= swap.minAmountOut, "Insufficient output amount");
+        swap.amountOut = amountOut;
+
+        // WETH deposits are taken as ETH and withdrawals are paid out as ETH
+        if (tokenOut == address(weth)) {
+            weth.withdraw(amountOut);
+            lendingProtocol.deposit{value: amountOut}(tokenOut, amountOut);
+        } else {
+            require(IERC20(tokenOut).approve(address(lendingProtocol), amountOut), "Approve failed");
+            lendingProtocol.deposit(tokenOut, amountOut);
+        }
+
+        lendingProtocol.withdraw(tokenIn, amountIn);
+        if (tokenIn == address(weth)) {
+            weth.deposit{value: amountIn}();
+        }
+        require(IERC20(tokenIn).approve(msg.sender, amountIn), "Approve failed");
+    }
+
+    /**
+     * @notice The amount of toToken a swap would currently deposit
+     * @param fromToken The collateral to swap out of
+     * @param toToken The collateral to swap into
+     * @param amount The amount of fromToken to swap
+     * @return The amount of toToken
+     */
+    function quote(address fromToken, address toToken, uint256 amount) external view returns (uint256) {
+        return swapAdapter.getAmountOut(fromToken, toToken, amount);
+    }
+
+    /**
+     * @notice Route future swaps through another adapter
+     * @param _swapAdapter The new swap adapter
+     */
+    function setSwapAdapter(address _swapAdapter) external onlyOwner {
+        require(_swapAdapter != address(0), "Invalid swap adapter address");
+        emit SwapAdapterUpdated(address(swapAdapter), _swapAdapter);
+        swapAdapter = ISwapAdapter(_swapAdapter);
+    }
+
+    // WETH unwrapping and protocol withdrawals of WETH pay out ETH
+    receive() external payable {}
+}
@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
@@ -12,9 +14,10 @@ import "./EnhancedLendingProtocol.sol";
 /**
  * @title DelegateManager
  * @notice Manages borrowing delegation for the EnhancedLendingProtocol
- * @dev Includes security features like delegation caps, required staking, and multisig support
+ * @dev Includes security features like delegation caps, required staking, and multisig support.
+ *      Deployed behind an ERC1967 proxy and upgraded by the owner; new state takes slots from __gap.
  */
-contract DelegateManager is ReentrancyGuard, Ownable {
+contract DelegateManager is Initializable, UUPSUpgradeable, ReentrancyGuard, Ownable {
     using ECDSA for bytes32;
     using EnumerableSet for EnumerableSet.AddressSet;
 
@@ -57,6 +60,9 @@ contract DelegateManager is ReentrancyGuard, Ownable {
     // Nonce for each delegate to prevent replay attacks
     mapping(address => uint256) public nonces;
 
+    // Reserved slots for state added by later implementations
+    uint256[50] private __gap;
+
     // Events
     event DelegationCreated(
         address indexed owner, 
@@ -87,8 +93,17 @@ contract DelegateManager is ReentrancyGuard, Ownable {
         uint256 amount
     );
     
-    // Constructor
-    constructor(address _lendingProtocol, address _stakingToken) {
+    /// @dev Locks the implementation, the proxy is set up through initialize
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Set up the delegate manager behind its proxy
+     * @param _lendingProtocol Address of the lending protocol
+     * @param _stakingToken Address of the token delegates stake
+     */
+    function initialize(address _lendingProtocol, address _stakingToken) external initializer {
         require(_lendingProtocol != address(0), "Invalid lending protocol address");
         require(_stakingToken != address(0), "Invalid staking token address");
         
@@ -96,6 +111,7 @@ contract DelegateManager is ReentrancyGuard, Ownable {
         address payable lendingProtocolPayable = payable(_lendingProtocol);
         lendingProtocol = EnhancedLendingProtocol(lendingProtocolPayable);
         stakingToken = IERC20(_stakingToken);
+        _transferOwnership(msg.sender);
     }
     
     /**
@@ -358,4 +374,6 @@ contract DelegateManager is ReentrancyGuard, Ownable {
     function hasActiveDelegation(address owner, address delegate) external view returns (bool) {
         return delegations[owner][delegate].active;
     }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
 }
\ No newline at end of file
@@ -0,0 +1,320 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "./EnhancedLendingProtocol.sol";
+import "../libraries/InterestMath.sol";
+
+/**
+ * @title EnhancedLendingLens
+ * @notice Read-only helpers for the frontend and off-chain services
+ * @dev Kept out of EnhancedLendingProtocol so the core stays under the contract size limit.
+ *      Everything here is derived from the protocol's public state and views.
+ *      The views that used to live on EnhancedLendingProtocol itself moved here in one ABI change;
+ *      callers of the old ABI must call the lens instead, with the same arguments.
+ */
+contract EnhancedLendingLens {
+    using SafeMath for uint256;
+
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant INITIAL_INTEREST_INDEX = 1e18;
+
+    EnhancedLendingProtocol public immutable lendingProtocol;
+
+    constructor(address _lendingProtocol) {
+        require(_lendingProtocol != address(0), "Invalid lending protocol address");
+        lendingProtocol = EnhancedLendingProtocol(payable(_lendingProtocol));
+    }
+
+    /**
+     * @notice Remaining room under a market's supply and borrow caps
+     * @param token The token address
+     * @return supplyHeadroom Amount that can still be deposited, max uint if uncapped
+     * @return borrowHeadroom Amount that can still be borrowed at either rate, max uint if uncapped
+     */
+    function getCapHeadroom(address token)
+        external
+        view
+        returns (uint256 supplyHeadroom, uint256 borrowHeadroom)
+    {
+        (, , , , , , , , uint256 supplyCap, uint256 borrowCap) = lendingProtocol.tokenConfigs(token);
+        (uint256 stableDebt, , ) = lendingProtocol.stableMarkets(token);
+
+        supplyHeadroom = supplyCap == 0
+            ? type(uint256).max
+            : subOrZero(supplyCap, lendingProtocol.totalDeposits(token));
+        borrowHeadroom = borrowCap == 0
+            ? type(uint256).max
+            : subOrZero(borrowCap, lendingProtocol.totalBorrows(token).add(stableDebt));
+    }
+
+    /**
+     * @notice Pause state of every action in a market
+     * @dev The protocol-wide pause stops all actions regardless of the market's own flags
+     * @param token The token address
+     * @return protocolPaused Whether the whole protocol is paused
+     * @return depositPaused Whether deposits are paused in this market
+     * @return withdrawPaused Whether withdrawals are paused in this market
+     * @return borrowPaused Whether borrows are paused in this market
+     * @return repayPaused Whether repayments are paused in this market
+     * @return liquidatePaused Whether liquidations with this market as debt or collateral are paused
+     */
+    function getPauseStatus(address token)
+        external
+        view
+        returns (
+            bool protocolPaused,
+            bool depositPaused,
+            bool withdrawPaused,
+            bool borrowPaused,
+            bool repayPaused,
+            bool liquidatePaused
+        )
+    {
+        protocolPaused = lendingProtocol.paused();
+        depositPaused = lendingProtocol.actionPaused(token, EnhancedLendingProtocol.Action.Deposit);
+        withdrawPaused = lendingProtocol.actionPaused(token, EnhancedLendingProtocol.Action.Withdraw);
+        borrowPaused = lendingProtocol.actionPaused(token, EnhancedLendingProtocol.Action.Borrow);
+        repayPaused = lendingProtocol.actionPaused(token, EnhancedLendingProtocol.Action.Repay);
+        liquidatePaused = lendingProtocol.actionPaused(token, EnhancedLendingProtocol.Action.Liquidate);
+    }
+
+    /**
+     * @notice Get current protocol reserves including the share of interest not yet booked
+     * @param token The token address
+     * @return The current reserves
+     */
+    function getCurrentReserves(address token) external view returns (uint256) {
+        uint256 storedIndex = lendingProtocol.globalInterestIndices(token);
+        uint256 pendingInterest = getPendingStableInterest(token);
+        if (storedIndex > 0) {
+            pendingInterest = pendingInterest.add(
+                lendingProtocol.totalBorrows(token)
+                    .mul(lendingProtocol.getCurrentGlobalIndex(token).sub(storedIndex))
+                    .div(storedIndex)
+            );
+        }
+        (, , , , , , uint256 reserveFactor, , , ) = lendingProtocol.tokenConfigs(token);
+
+        return lendingProtocol.totalReserves(token).add(pendingInterest.mul(reserveFactor).div(BASIS_POINTS));
+    }
+
+    /**
+     * @notice Get diagnostic information about interest accrual for a token
+     * @param token The token address
+     * @param user The user address (optional, use address(0) for global info)
+     * @return lastUpdate The timestamp the user's position was last updated
+     * @return currentTime The current block timestamp
+     * @return timeElapsed Seconds elapsed since the user's last update
+     * @return marketLastUpdate The timestamp the market's index was last compounded to
+     * @return ratePerSecond The per-second rate the index compounds at, scaled by 1e27
+     * @return currentIndex The user's interest index
+     * @return estimatedNewIndex The estimated new index after an update
+     * @return utilization The market utilization in basis points
+     * @return borrowRate The resulting annual borrow rate in basis points
+     */
+    function getInterestDiagnostics(address token, address user)
+        external
+        view
+        returns (
+            uint256 lastUpdate,
+            uint256 currentTime,
+            uint256 timeElapsed,
+            uint256 marketLastUpdate,
+            uint256 ratePerSecond,
+            uint256 currentIndex,
+            uint256 estimatedNewIndex,
+            uint256 utilization,
+            uint256 borrowRate
+        )
+    {
+        // IMPORTANT: Always use current block timestamp
+        currentTime = block.timestamp;
+
+        // Get user-specific last update time
+        (, , uint256 lastUpdateTime, uint256 interestIndex) = lendingProtocol.userPositions(token, user);
+        lastUpdate = lastUpdateTime;
+
+        // Calculate time difference
+        timeElapsed = currentTime > lastUpdate ? currentTime - lastUpdate : 0;
+
+        // The index compounds every second from the market's last update, no partial period is dropped
+        marketLastUpdate = lendingProtocol.lastGlobalUpdate(token);
+
+        // Get current index
+        currentIndex = interestIndex;
+        if (currentIndex == 0) {
+            currentIndex = INITIAL_INTEREST_INDEX;
+        }
+
+        // Calculate estimated new index
+        estimatedNewIndex = lendingProtocol.getCurrentGlobalIndex(token);
+
+        utilization = getUtilization(token);
+        borrowRate = lendingProtocol.getBorrowRate(token);
+        ratePerSecond = InterestMath.ratePerSecond(borrowRate);
+    }
+
+    /**
+     * @notice Break a user's debt down into principal and interest
+     * @param token The token address
+     * @param user The user address
+     * @return principal The borrow amount last booked on the position
+     * @return currentAmount The borrow amount including interest
+     * @return interestAccrued The interest not yet booked
+     * @return effectiveRate The interest as a share of principal, in basis points
+     * @return secondsAccrued Seconds of compounding since the position was last booked
+     */
+    function getDetailedInterestAccrual(address token, address user)
+        external
+        view
+        returns (
+            uint256 principal,
+            uint256 currentAmount,
+            uint256 interestAccrued,
+            uint256 effectiveRate,
+            uint256 secondsAccrued
+        )
+    {
+        uint256 lastUpdateTime;
+        (, principal, lastUpdateTime, ) = lendingProtocol.userPositions(token, user);
+
+        if (principal == 0) {
+            return (0, 0, 0, 0, 0);
+        }
+        secondsAccrued = block.timestamp > lastUpdateTime ? block.timestamp - lastUpdateTime : 0;
+
+        currentAmount = lendingProtocol.getCurrentBorrowAmount(token, user);
+        interestAccrued = subOrZero(currentAmount, principal);
+
+        // Calculate effective rate as percentage (basis points)
+        if (interestAccrued > 0) {
+            effectiveRate = interestAccrued * BASIS_POINTS / principal;
+        }
+    }
+
+    /**
+     * @notice Break a user's stable-rate debt down and compare their rate with the market
+     * @param token The token address
+     * @param user The user address
+     * @return principal The stable debt last booked for the user
+     * @return currentAmount The stable debt including interest
+     * @return interestAccrued The interest not yet booked
+     * @return userRate The user's stable rate in basis points
+     * @return currentStableRate The rate a new stable borrow would get, in basis points
+     * @return averageRate The market's debt-weighted average stable rate in basis points
+     * @return totalStableDebt The market's stable debt as booked at the last update
+     * @return canRebalance Whether the user's rate has drifted far enough to be rebalanced
+     */
+    function getStableDebtDiagnostics(address token, address user)
+        external
+        view
+        returns (
+            uint256 principal,
+            uint256 currentAmount,
+            uint256 interestAccrued,
+            uint256 userRate,
+            uint256 currentStableRate,
+            uint256 averageRate,
+            uint256 totalStableDebt,
+            bool canRebalance
+        )
+    {
+        (principal, userRate, ) = lendingProtocol.stableDebts(token, user);
+        currentAmount = lendingProtocol.getCurrentStableBorrowAmount(token, user);
+        interestAccrued = subOrZero(currentAmount, principal);
+
+        (, uint256 rateSpread, uint256 rebalanceThreshold) = lendingProtocol.stableRateConfigs(token);
+        currentStableRate = lendingProtocol.getBorrowRate(token).add(rateSpread);
+        (totalStableDebt, averageRate, ) = lendingProtocol.stableMarkets(token);
+
+        if (currentAmount > 0) {
+            uint256 drift = userRate > currentStableRate ? userRate - currentStableRate : currentStableRate - userRate;
+            canRebalance = drift > rebalanceThreshold;
+        }
+    }
+
+    /**
+     * @notice Get accumulated interest for a user's position
+     * @param token The token address
+     * @param user The user address
+     * @return The accumulated interest amount
+     */
+    function getAccumulatedInterest(address token, address user) external view returns (uint256) {
+        (, uint256 borrowAmount, , uint256 interestIndex) = lendingProtocol.userPositions(token, user);
+        if (borrowAmount == 0 || interestIndex == 0) {
+            return 0;
+        }
+
+        return subOrZero(
+            borrowAmount.mul(lendingProtocol.getCurrentGlobalIndex(token)).div(interestIndex),
+            borrowAmount
+        );
+    }
+
+    /**
+     * @notice Get the total yield a user has earned on a market, realized or not
+     * @param token The token address
+     * @param user The user address
+     * @return The yield earned
+     */
+    function getSupplyInterestEarned(address token, address user) external view returns (uint256) {
+        uint256 currentAmount = lendingProtocol.getCurrentDepositAmount(token, user);
+        (uint256 storedAmount, , , ) = lendingProtocol.userPositions(token, user);
+        uint256 realized = lendingProtocol.supplyInterestEarned(token, user);
+
+        if (currentAmount < storedAmount) {
+            return subOrZero(realized, storedAmount - currentAmount);
+        }
+        return realized.add(currentAmount - storedAmount);
+    }
+
+    /**
+     * @notice Current annual supply rate of a market
+     * @dev Variable debt pays the current borrow rate, stable debt the market's average stable rate
+     * @param token The token address
+     * @return The supply rate in basis points
+     */
+    function getSupplyRate(address token) external view returns (uint256) {
+        uint256 deposits = lendingProtocol.totalDeposits(token);
+        if (deposits == 0) return 0;
+
+        (, , , , , , uint256 reserveFactor, , , ) = lendingProtocol.tokenConfigs(token);
+        (uint256 stableDebt, uint256 averageRate, ) = lendingProtocol.stableMarkets(token);
+        uint256 annualInterest = lendingProtocol.totalBorrows(token)
+            .mul(lendingProtocol.getBorrowRate(token))
+            .add(stableDebt.mul(averageRate));
+
+        return annualInterest
+            .div(deposits)
+            .mul(BASIS_POINTS.sub(reserveFactor))
+            .div(BASIS_POINTS);
+    }
+
+    /**
+     * @notice Share of a market's deposits that is currently borrowed, variable and stable
+     * @param token The token address
+     * @return Utilization in basis points
+     */
+    function getUtilization(address token) public view returns (uint256) {
+        uint256 deposits = lendingProtocol.totalDeposits(token);
+        if (deposits == 0) return 0;
+
+        (uint256 stableDebt, , ) = lendingProtocol.stableMarkets(token);
+        uint256 utilization = lendingProtocol.totalBorrows(token)
+            .add(stableDebt)
+            .mul(BASIS_POINTS)
+            .div(deposits);
+        return utilization > BASIS_POINTS ? BASIS_POINTS : utilization;
+    }
+
+    // Mirrors StableDebtLogic's accrual of the market total
+    function getPendingStableInterest(address token) internal view returns (uint256) {
+        (uint256 totalDebt, uint256 averageRate, uint256 lastUpdate) = lendingProtocol.stableMarkets(token);
+        return InterestMath.interestSince(totalDebt, averageRate, lastUpdate);
+    }
+
+    function subOrZero(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a > b ? a - b : 0;
+    }
+}
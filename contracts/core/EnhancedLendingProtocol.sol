@@ -1,69 +1,124 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "@openzeppelin/contracts/utils/Multicall.sol";
+import "@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol";
 import "../interfaces/IWETH.sol";
 import "../interfaces/IPriceOracle.sol";
+import "../interfaces/IPriceOracleSentinel.sol";
+import "../interfaces/IInterestRateModel.sol";
+import "../libraries/DataTypes.sol";
+import "../libraries/InterestMath.sol";
+import "../libraries/InterestLogic.sol";
+import "../libraries/SupplyLogic.sol";
+import "../libraries/StableDebtLogic.sol";
+import "../libraries/BorrowLogic.sol";
+import "../libraries/EModeLogic.sol";
+import "../libraries/LiquidationLogic.sol";
+import "../libraries/PositionLogic.sol";
+import "../libraries/MarketConfigLogic.sol";
 
 /**
  * @title EnhancedLendingProtocol
  * @notice A lending protocol with interest accrual optimization
  */
-contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
+/**
+ * @dev multicall batches position actions (e.g. deposit + borrow, repay + withdraw) for msg.sender.
+ *      Each call is a delegatecall into this contract, so nonReentrant and whenNotPaused are still
+ *      enforced per action. multicall is not payable, so a WETH deposit inside a batch pulls WETH
+ *      tokens approved to the protocol instead of taking ETH.
+ *      Deployed behind an ERC1967 proxy and upgraded through upgradeTo by the admin (the timelock).
+ *      New state goes at the end of the storage layout, taking slots from __gap.
+ */
+contract EnhancedLendingProtocol is Initializable, UUPSUpgradeable, ReentrancyGuard, Pausable, AccessControl, Multicall, IERC3156FlashLender {
     using SafeMath for uint256;
 
     // Roles
     bytes32 public constant LIQUIDATOR_ROLE = keccak256("LIQUIDATOR_ROLE");
     bytes32 public constant ORACLE_MANAGER = keccak256("ORACLE_MANAGER");
-    bytes32 public constant DELEGATE_ROLE = keccak256("DELEGATE_ROLE");
+    // Can pause instantly; every other parameter change goes through the timelock
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    // Moves whole positions between addresses, held by the PositionManager
+    bytes32 public constant POSITION_MANAGER_ROLE = keccak256("POSITION_MANAGER_ROLE");
 
     // State variables
     IPriceOracle public priceOracle;
-    IWETH public immutable weth;
+    IPriceOracleSentinel public priceSentinel; // Oracle circuit breaker, address(0) = disabled
+    IWETH public weth;
     
-    // Token-specific configurations
-    struct TokenConfig {
-        bool isSupported;
-        uint256 collateralFactor; // In basis points (e.g., 7500 = 75%)
-        uint256 liquidationThreshold; // In basis points
-        uint256 liquidationPenalty; // In basis points
-        uint256 interestRate; // Annual interest rate in basis points
-    }
-
-    // User position information
-    struct UserPosition {
-        uint256 depositAmount;
-        uint256 borrowAmount;
-        uint256 lastUpdateTime;
-        uint256 interestIndex; // To track interest accrual
-    }
+    // Actions the guardian can pause per market, on top of the global pause
+    enum Action { Deposit, Withdraw, Borrow, Repay, Liquidate }
 
     // Global interest rate indices for each token
     mapping(address => uint256) public globalInterestIndices; // token => index
     mapping(address => uint256) public lastGlobalUpdate; // token => timestamp
 
+    // Supply side interest - depositors earn the interest borrowers pay
+    mapping(address => uint256) public supplyIndices; // token => index
+    mapping(address => mapping(address => uint256)) public userSupplyIndices; // token => user => index
+    mapping(address => mapping(address => uint256)) public supplyInterestEarned; // token => user => realized yield
+
+    // Protocol reserves - tracked apart from totalDeposits, not owed to depositors
+    mapping(address => uint256) public totalReserves; // token => amount
+
     // Mappings
     mapping(address => mapping(address => UserPosition)) public userPositions; // token => user => position
     mapping(address => TokenConfig) public tokenConfigs; // token => config
     mapping(address => uint256) public totalDeposits; // token => amount
     mapping(address => uint256) public totalBorrows; // token => amount
 
+    // Token registry - every market that has ever been configured and not yet de-listed
+    address[] private listedTokens;
+    mapping(address => bool) public isListed; // token => listed
+    mapping(address => uint8) public tokenDecimals; // token => ERC20 decimals
+
+    // eMode - category 0 means no category
+    mapping(uint8 => EModeCategory) public eModeCategories; // categoryId => category
+    mapping(address => uint8) public tokenEModeCategory; // token => categoryId
+    mapping(address => uint8) public userEModeCategory; // user => categoryId
+
+    // Credit delegation - how much a delegatee may still borrow against a borrower's collateral
+    mapping(address => mapping(address => mapping(address => uint256))) public borrowAllowance; // borrower => delegatee => token => amount
+
+    // Stable-rate borrowing - debt locked at the rate of the time it was taken, see StableDebtLogic
+    mapping(address => StableDebtLogic.StableRateConfig) public stableRateConfigs; // token => config
+    mapping(address => StableDebtLogic.MarketStableDebt) public stableMarkets; // token => stable debt totals
+    mapping(address => mapping(address => StableDebtLogic.UserStableDebt)) public stableDebts; // token => user => stable debt
+
+    // Per-market pauses, so one action can be stopped without freezing repayments everywhere
+    mapping(address => mapping(Action => bool)) public actionPaused; // token => action => paused
+
+    // Reserved slots for state added by later implementations
+    uint256[50] private __gap;
+
     // Constants
     uint256 public constant LIQUIDATION_CLOSE_FACTOR = 5000; // 50% in basis points
     uint256 public constant BASIS_POINTS = 10000;
-    uint256 public constant SECONDS_PER_YEAR = 365 days;
     uint256 public constant INITIAL_INTEREST_INDEX = 1e18; // Starting index
+    uint256 public constant BAD_DEBT_DUST_VALUE = 1e16; // $0.01, collateral below this cannot be liquidated
+    bytes32 public constant FLASH_LOAN_CALLBACK_SUCCESS = keccak256("ERC3156FlashBorrower.onFlashLoan");
 
     // Events
+    // Deposit and Withdraw are emitted from SupplyLogic
     event Deposit(address indexed token, address indexed user, uint256 amount);
     event Withdraw(address indexed token, address indexed user, uint256 amount);
     event Borrow(address indexed token, address indexed user, uint256 amount, uint256 interestIndex);
+    // Repay and RepayFor are emitted from BorrowLogic
     event Repay(address indexed token, address indexed user, uint256 amount, uint256 interestPaid);
+    event RepayFor(address indexed token, address indexed payer, address indexed borrower, uint256 amount);
+    // InterestAccrued is also emitted from InterestLogic, SupplyInterestAccrued and ReservesAccrued only from there
     event InterestAccrued(address indexed token, address indexed user, uint256 interestAmount);
+    event SupplyInterestAccrued(address indexed token, address indexed user, uint256 interestAmount);
+    event ReservesAccrued(address indexed token, uint256 amount, uint256 totalReserves);
+    // Liquidate, BadDebtRealized and CollateralSeized are emitted from LiquidationLogic
     event Liquidate(
         address indexed liquidator,
         address indexed borrower,
@@ -71,12 +126,60 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         uint256 amount,
         uint256 collateralToken
     );
-    event TokenConfigUpdated(address indexed token, TokenConfig config);
+    event BadDebtRealized(
+        address indexed borrower,
+        address indexed token,
+        uint256 amount,
+        uint256 coveredByReserves,
+        uint256 socializedLoss
+    );
+    event CollateralSeized(
+        address indexed borrower,
+        address indexed collateralToken,
+        address indexed liquidator,
+        uint256 amount
+    );
     event OracleUpdated(address indexed newOracle);
+    // Emitted from MarketConfigLogic
+    event TokenConfigUpdated(address indexed token, TokenConfig config);
+    event InterestRateModelUpdated(address indexed token, address indexed model);
+    event ReserveFactorUpdated(address indexed token, uint256 reserveFactor);
+    event ReservesWithdrawn(address indexed token, address indexed to, uint256 amount);
+    event FlashLoanFeeUpdated(address indexed token, uint256 flashLoanFee);
+    event MarketCapsUpdated(address indexed token, uint256 supplyCap, uint256 borrowCap);
+    event TokenListed(address indexed token, uint8 decimals);
+    event TokenDelisted(address indexed token);
+    // Emitted from BorrowLogic
+    event FlashLoan(address indexed receiver, address indexed initiator, address indexed token, uint256 amount, uint256 fee);
+    // Emitted from EModeLogic
+    event EModeCategoryUpdated(uint8 indexed categoryId, uint256 collateralFactor, uint256 liquidationThreshold, string label);
+    event TokenEModeCategoryUpdated(address indexed token, uint8 indexed categoryId);
+    event UserEModeSet(address indexed user, uint8 indexed categoryId);
+    event PriceSentinelUpdated(address indexed newSentinel);
+    event BorrowRateModeSwapped(address indexed token, address indexed user, bool toStable, uint256 amount);
+    // Emitted from StableDebtLogic, declared here so they are part of the protocol's ABI
+    event StableRateConfigUpdated(address indexed token, bool enabled, uint256 rateSpread, uint256 rebalanceThreshold);
+    event StableDebtUpdated(address indexed token, address indexed user, uint256 balance, uint256 rate);
+    event StableRateRebalanced(address indexed token, address indexed user, uint256 oldRate, uint256 newRate);
+    // Also emitted from BorrowLogic when borrowBehalf spends an allowance
+    event BorrowAllowanceDelegated(
+        address indexed borrower,
+        address indexed delegatee,
+        address indexed token,
+        uint256 amount
+    );
+    event PositionMoved(address indexed from, address indexed to);
+    event ActionPaused(address indexed token, Action indexed action, bool paused);
 
     // Modifiers
     modifier onlyValidToken(address token) {
-        require(tokenConfigs[token].isSupported, "Token not supported");
+        requireSupported(token);
+        _;
+    }
+
+    // Disabled markets stay listed so users can still repay and withdraw
+    modifier onlyListedToken(address token) {
+        requireListed(token);
         _;
     }
 
@@ -85,7 +188,17 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         _;
     }
 
-    constructor(address _weth, address _priceOracle) {
+    /// @dev Locks the implementation, the proxy is set up through initialize
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Set up the protocol behind its proxy
+     * @param _weth The WETH token
+     * @param _priceOracle The price oracle
+     */
+    function initialize(address _weth, address _priceOracle) external initializer {
         require(_weth != address(0), "Invalid WETH address");
         require(_priceOracle != address(0), "Invalid oracle address");
         
@@ -95,7 +208,7 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         _setupRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _setupRole(LIQUIDATOR_ROLE, msg.sender);
         _setupRole(ORACLE_MANAGER, msg.sender);
-        _setupRole(DELEGATE_ROLE, msg.sender);
+        _setupRole(GUARDIAN_ROLE, msg.sender);
     }
     
     /**
@@ -103,56 +216,57 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
      * @param token The token address
      */
     function updateGlobalInterest(address token) internal {
-        if (totalBorrows[token] == 0) {
-            lastGlobalUpdate[token] = block.timestamp;
-            return;
-        }
-        
-        uint256 timeElapsed = block.timestamp - lastGlobalUpdate[token];
-        if (timeElapsed == 0) return;
-        
-        uint256 interestRate = tokenConfigs[token].interestRate;
-        uint256 SECONDS_PER_FIVE_MINUTES = 300;
-        
-        // Calculate full intervals
-        uint256 fullIntervals = timeElapsed / SECONDS_PER_FIVE_MINUTES;
-        
-        if (fullIntervals > 0) {
-            uint256 actualTimeElapsed = fullIntervals * SECONDS_PER_FIVE_MINUTES;
-            
-            // Calculate scaled interest rate
-            uint256 scaledInterestRate = interestRate
-                .mul(actualTimeElapsed)
-                .mul(1e18)  // Scale up for precision
-                .div(SECONDS_PER_YEAR)
-                .div(100);  // Convert basis points to percentage
-            
-            // Update global index
+        // Stable debt accrues at its own average rate, on top of the variable index
+        uint256 interestAccrued = StableDebtLogic.accrueMarket(stableMarkets[token]);
+
+        if (totalBorrows[token] > 0 && block.timestamp != lastGlobalUpdate[token]) {
+            // Same compounding as the view, so stored and projected indices never diverge
             uint256 currentIndex = globalInterestIndices[token];
             if (currentIndex == 0) {
                 currentIndex = INITIAL_INTEREST_INDEX;
+                globalInterestIndices[token] = currentIndex;
             }
-            
-            uint256 newIndex = currentIndex
-                .mul(1e18 + scaledInterestRate)
-                .div(1e18);
-            
+            uint256 newIndex = getCurrentGlobalIndex(token);
+
             if (newIndex > currentIndex) {
                 globalInterestIndices[token] = newIndex;
-                
+
                 // Calculate actual interest accrued
-                uint256 interestAccrued = totalBorrows[token]
+                uint256 variableInterest = totalBorrows[token]
                     .mul(newIndex - currentIndex)
                     .div(currentIndex);
-                
-                emit InterestAccrued(token, address(0), interestAccrued);
+
+                // Book the interest market-wide; user balances catch up lazily through the indices
+                totalBorrows[token] = totalBorrows[token].add(variableInterest);
+                interestAccrued = interestAccrued.add(variableInterest);
             }
         }
+
+        if (interestAccrued > 0) {
+            distributeInterest(token, interestAccrued);
+            emit InterestAccrued(token, address(0), interestAccrued);
+        }
         
         // Always update timestamp
         lastGlobalUpdate[token] = block.timestamp;
     }
     
+    /**
+     * @notice Split interest or flash loan fees between protocol reserves and depositors
+     * @param token The token address
+     * @param amount The amount earned by the market
+     */
+    function distributeInterest(address token, uint256 amount) internal {
+        InterestLogic.distributeInterest(
+            totalReserves,
+            totalDeposits,
+            supplyIndices,
+            token,
+            amount,
+            tokenConfigs[token].reserveFactor
+        );
+    }
+
     /**
      * @notice Update user's position with accrued interest
      * @param token The token address
@@ -160,42 +274,16 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
      */
     function updateUserInterest(address token, address user) internal {
         if (user == address(0)) return;
-        
-        UserPosition storage position = userPositions[token][user];
-        if (position.borrowAmount == 0) {
-            position.lastUpdateTime = block.timestamp;
-            return;
-        }
-        
-        uint256 userIndex = position.interestIndex;
-        if (userIndex == 0) {
-            userIndex = globalInterestIndices[token];
-            if (userIndex == 0) {
-                userIndex = INITIAL_INTEREST_INDEX;
-            }
-            position.interestIndex = userIndex;
-        }
-        
-        // If global index has increased, apply interest to user's borrow amount
-        uint256 globalIndex = globalInterestIndices[token];
-        if (globalIndex > userIndex) {
-            uint256 interestAccumulated = position.borrowAmount
-                .mul(globalIndex)
-                .div(userIndex)
-                .sub(position.borrowAmount);
-                
-            if (interestAccumulated > 0) {
-                position.borrowAmount = position.borrowAmount.add(interestAccumulated);
-                totalBorrows[token] = totalBorrows[token].add(interestAccumulated);
-                
-                emit InterestAccrued(token, user, interestAccumulated);
-            }
-            
-            // Update user's interest index to match global
-            position.interestIndex = globalIndex;
-        }
-        
-        position.lastUpdateTime = block.timestamp;
+
+        InterestLogic.accrueUser(
+            userPositions[token][user],
+            userSupplyIndices[token],
+            supplyInterestEarned[token],
+            token,
+            user,
+            supplyIndices[token],
+            globalInterestIndices[token]
+        );
     }
 
     /**
@@ -210,59 +298,93 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         whenNotPaused 
         onlyValidToken(token) 
     {
+        executeDeposit(token, msg.sender, amount);
+    }
+
+    /**
+     * @notice Deposit ERC-20 tokens using an EIP-2612 permit instead of a prior approve
+     * @param token The token to deposit
+     * @param amount The amount to deposit
+     * @param deadline The permit deadline
+     * @param v The signature v
+     * @param r The signature r
+     * @param s The signature s
+     */
+    function depositWithPermit(
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        onlyValidToken(token)
+    {
+        usePermit(token, amount, deadline, v, r, s);
+        executeDeposit(token, msg.sender, amount);
+    }
+
+    /**
+     * @notice Shared deposit logic for deposit and depositWithPermit
+     * @param token The token to deposit
+     * @param user The user depositing, who pays and is credited
+     * @param amount The amount to deposit
+     */
+    function executeDeposit(address token, address user, uint256 amount) internal {
         require(amount > 0, "Amount must be > 0");
+        requireActionActive(token, Action.Deposit);
         
         // Update interest
         updateGlobalInterest(token);
-        updateUserInterest(token, msg.sender);
-        
-        if (token == address(weth)) {
-            require(msg.value == amount, "Invalid ETH amount");
-            weth.deposit{value: amount}();
-        } else {
-            require(msg.value == 0, "ETH not accepted");
-            require(IERC20(token).transferFrom(msg.sender, address(this), amount), "Transfer failed");
-        }
+        updateUserInterest(token, user);
 
-        UserPosition storage position = userPositions[token][msg.sender];
-        position.depositAmount = position.depositAmount.add(amount);
-        
-        totalDeposits[token] = totalDeposits[token].add(amount);
-        
-        emit Deposit(token, msg.sender, amount);
+        SupplyLogic.executeDeposit(
+            userPositions[token][user],
+            totalDeposits,
+            token,
+            user,
+            amount,
+            tokenConfigs[token].supplyCap,
+            weth
+        );
+    }
+
+    /**
+     * @notice Approve this contract to pull tokens from msg.sender with an EIP-2612 signature
+     * @dev A permit that was already submitted by someone else makes the call revert, so
+     *      failures are ignored and the following transferFrom checks the allowance instead
+     */
+    function usePermit(address token, uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s) internal {
+        try IERC20Permit(token).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
     }
 
     /**
      * @notice Withdraw tokens from the protocol
      * @param token The token to withdraw
-     * @param amount The amount to withdraw
+     * @param amount The amount to withdraw, or type(uint256).max for the whole deposit
      */
     function withdraw(address token, uint256 amount)
         external
         nonReentrant
         whenNotPaused
-        onlyValidToken(token)
+        onlyListedToken(token)
     {
+        requireActionActive(token, Action.Withdraw);
+
         // Update interest
         updateGlobalInterest(token);
         updateUserInterest(token, msg.sender);
-        
-        UserPosition storage position = userPositions[token][msg.sender];
-        require(amount <= position.depositAmount, "Insufficient balance");
-        require(getHealthFactor(msg.sender) >= BASIS_POINTS, "Unhealthy position");
 
-        position.depositAmount = position.depositAmount.sub(amount);
-        totalDeposits[token] = totalDeposits[token].sub(amount);
+        amount = SupplyLogic.bookWithdrawal(userPositions[token][msg.sender], totalDeposits, token, amount);
 
-        if (token == address(weth)) {
-            weth.withdraw(amount);
-            (bool success, ) = msg.sender.call{value: amount}("");
-            require(success, "ETH transfer failed");
-        } else {
-            require(IERC20(token).transfer(msg.sender, amount), "Transfer failed");
-        }
+        // The remaining collateral must still cover the user's debt
+        requireFreshPrices(msg.sender);
+        require(getHealthFactor(msg.sender) >= BASIS_POINTS, "Unhealthy position");
 
-        emit Withdraw(token, msg.sender, amount);
+        SupplyLogic.payOutWithdrawal(token, msg.sender, amount, weth);
     }
 
     /**
@@ -277,18 +399,71 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         onlyValidToken(token)
         notFlashLoan
     {
+        executeBorrow(token, msg.sender, msg.sender, amount, false);
+    }
+
+    /**
+     * @notice Borrow tokens at a stable rate, locked at the market's current stable rate
+     * @param token The token to borrow
+     * @param amount The amount to borrow
+     */
+    function borrowStable(address token, uint256 amount)
+        external
+        nonReentrant
+        whenNotPaused
+        onlyValidToken(token)
+        notFlashLoan
+    {
+        executeBorrow(token, msg.sender, msg.sender, amount, true);
+    }
+
+    /**
+     * @notice Shared borrow logic for borrow, borrowStable and borrowBehalf
+     * @param token The token to borrow
+     * @param borrower The user whose position takes on the debt
+     * @param receiver The address receiving the borrowed tokens
+     * @param amount The amount to borrow
+     * @param stable Whether the debt is taken at the stable rate
+     */
+    function executeBorrow(address token, address borrower, address receiver, uint256 amount, bool stable) internal {
         require(amount > 0, "Amount must be > 0");
+        requireActionActive(token, Action.Borrow);
+        uint8 categoryId = userEModeCategory[borrower];
+        require(categoryId == 0 || tokenEModeCategory[token] == categoryId, "Borrow not in eMode category");
         
         // Update interest
         updateGlobalInterest(token);
-        updateUserInterest(token, msg.sender);
-        
-        // Make sure to check health factor after interest has been applied
-        require(getHealthFactor(msg.sender) >= BASIS_POINTS, "Insufficient collateral");
+        updateUserInterest(token, borrower);
 
-        UserPosition storage position = userPositions[token][msg.sender];
+        UserPosition storage position = userPositions[token][borrower];
+        if (stable) {
+            addStableDebt(token, borrower, amount);
+        } else {
+            addVariableDebt(token, position, amount);
+        }
+
+        uint256 borrowCap = tokenConfigs[token].borrowCap;
+        require(borrowCap == 0 || getTotalDebt(token) <= borrowCap, "Borrow cap exceeded");
+
+        // Borrowing is limited by collateralFactor, checked with the new debt included
+        requireFreshPrices(borrower);
+        require(getHealthFactor(borrower) >= BASIS_POINTS, "Insufficient collateral");
+
+        // Borrowers receive WETH rather than ETH, so every market is a plain ERC-20 transfer
+        require(IERC20(token).transfer(receiver, amount), "Transfer failed");
+
+        emit Borrow(token, borrower, amount, position.interestIndex);
+    }
+
+    /**
+     * @notice Add variable-rate debt to a position, starting its interest index on the first borrow
+     * @param token The token address
+     * @param position The borrower's position
+     * @param amount The amount of debt added
+     */
+    function addVariableDebt(address token, UserPosition storage position, uint256 amount) internal {
         position.borrowAmount = position.borrowAmount.add(amount);
-        
+
         // If this is first borrow, initialize user's interest index
         if (position.interestIndex == 0) {
             uint256 currentIndex = globalInterestIndices[token];
@@ -301,107 +476,205 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         }
 
         totalBorrows[token] = totalBorrows[token].add(amount);
+    }
 
-        if (token == address(weth)) {
-            require(weth.transfer(msg.sender, amount), "WETH transfer failed");
-        } else {
-            require(IERC20(token).transfer(msg.sender, amount), "Transfer failed");
-        }
+    /**
+     * @notice Add stable-rate debt at the market's current stable rate
+     * @param token The token address
+     * @param user The borrower
+     * @param amount The amount of debt added
+     */
+    function addStableDebt(address token, address user, uint256 amount) internal {
+        StableDebtLogic.borrow(
+            stableRateConfigs[token],
+            stableMarkets[token],
+            stableDebts[token][user],
+            token,
+            user,
+            amount,
+            getBorrowRate(token)
+        );
+    }
 
-        emit Borrow(token, msg.sender, amount, position.interestIndex);
+    /**
+     * @notice Remove stable-rate debt, capped at the user's balance
+     * @param token The token address
+     * @param user The borrower
+     * @param amount The amount of debt removed
+     * @return The amount actually removed
+     */
+    function removeStableDebt(address token, address user, uint256 amount) internal returns (uint256) {
+        return StableDebtLogic.repay(stableMarkets[token], stableDebts[token][user], token, user, amount);
     }
 
     /**
      * @notice Repay borrowed tokens
+     * @dev Only the current debt is taken when more is offered, and ETH above it is refunded
      * @param token The token to repay
-     * @param amount The amount to repay
+     * @param amount The amount to repay, or type(uint256).max for the whole debt
      */
     function repay(address token, uint256 amount)
         external
         payable
         nonReentrant
         whenNotPaused
-        onlyValidToken(token)
+        onlyListedToken(token)
     {
-        // Update interest first
+        executeRepay(token, msg.sender, msg.sender, amount, false);
+    }
+
+    /**
+     * @notice Repay stable-rate debt
+     * @param token The token to repay
+     * @param amount The amount to repay, or type(uint256).max for the whole stable debt
+     */
+    function repayStable(address token, uint256 amount)
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+        onlyListedToken(token)
+    {
+        executeRepay(token, msg.sender, msg.sender, amount, true);
+    }
+
+    /**
+     * @notice Move all of msg.sender's debt in a market from one rate mode to the other
+     * @dev Swapping to stable locks the current stable rate, like a new stable borrow. Both
+     *      directions are blocked while borrowing is paused in the market
+     * @param token The token address
+     * @param toStable True to move variable debt to stable, false to move stable debt to variable
+     */
+    function swapBorrowRateMode(address token, bool toStable)
+        external
+        nonReentrant
+        whenNotPaused
+        onlyListedToken(token)
+    {
+        requireActionActive(token, Action.Borrow);
         updateGlobalInterest(token);
         updateUserInterest(token, msg.sender);
-        
+
         UserPosition storage position = userPositions[token][msg.sender];
-        uint256 currentBorrowWithInterest = getCurrentBorrowAmount(token, msg.sender);
-        require(amount <= currentBorrowWithInterest, "Amount too high");
-
-        // Handle WETH repayment
-        if (token == address(weth)) {
-            if (msg.value == amount) {
-                // Case 1: User sends ETH directly
-                // Convert incoming ETH to WETH and keep it
-                weth.deposit{value: amount}();
-            } else if (msg.value == 0) {
-                // Case 2: User sends WETH tokens directly
-                require(IERC20(token).transferFrom(msg.sender, address(this), amount), 
-                    "WETH transfer failed");
-            } else {
-                revert("Invalid payment method");
-            }
-        } else {
-            require(msg.value == 0, "ETH not accepted for non-WETH tokens");
-            require(IERC20(token).transferFrom(msg.sender, address(this), amount), 
-                "Token transfer failed");
-        }
+        uint256 amount;
+        if (toStable) {
+            amount = position.borrowAmount;
+            require(amount > 0, "No debt to swap");
 
-        // Calculate actual interest paid
-        uint256 interestPaid;
-        if (amount >= position.borrowAmount) {
-            interestPaid = currentBorrowWithInterest.sub(position.borrowAmount);
+            position.borrowAmount = 0;
+            position.interestIndex = 0;
+            totalBorrows[token] = subOrZero(totalBorrows[token], amount);
+            addStableDebt(token, msg.sender, amount);
         } else {
-            uint256 totalInterest = currentBorrowWithInterest.sub(position.borrowAmount);
-            interestPaid = amount.mul(totalInterest).div(currentBorrowWithInterest);
-        }
+            amount = removeStableDebt(token, msg.sender, type(uint256).max);
+            require(amount > 0, "No debt to swap");
 
-        // Update state
-        totalBorrows[token] = totalBorrows[token].sub(amount);
-        position.borrowAmount = position.borrowAmount.sub(amount);
-        
-        // If this was a full repayment, reset the interest index
-        if (position.borrowAmount == 0) {
-            position.interestIndex = 0;
+            addVariableDebt(token, position, amount);
         }
-        
-        emit Repay(token, msg.sender, amount, interestPaid);
+
+        emit BorrowRateModeSwapped(token, msg.sender, toStable, amount);
     }
+
     /**
-     * @notice Get accumulated interest for a user's position
+     * @notice Reset a user's stable rate to the current stable rate once it drifts too far from it
+     * @dev Anyone can call this; it reverts while the drift is within the market's rebalance threshold
      * @param token The token address
-     * @param user The user address
-     * @return The accumulated interest amount
+     * @param user The borrower whose stable rate is rebalanced
      */
-    function getAccumulatedInterest(address token, address user) 
-        public 
-        view 
-        returns (uint256) 
+    function rebalanceStableRate(address token, address user)
+        external
+        nonReentrant
+        whenNotPaused
+        onlyListedToken(token)
     {
-        UserPosition memory position = userPositions[token][user];
-        if (position.borrowAmount == 0 || position.interestIndex == 0) {
-            return 0;
-        }
+        updateGlobalInterest(token);
+        StableDebtLogic.rebalance(
+            stableRateConfigs[token],
+            stableMarkets[token],
+            stableDebts[token][user],
+            token,
+            user,
+            getBorrowRate(token)
+        );
+    }
 
-        // Calculate current global interest index
-        uint256 calculatedGlobalIndex = getCurrentGlobalIndex(token);
+    /**
+     * @notice Repay another account's debt, e.g. from a treasury, delegate or AutoRebalancer
+     * @param borrower The account whose debt is reduced
+     * @param token The token to repay
+     * @param amount The amount to repay, or type(uint256).max for the whole debt
+     */
+    function repayFor(address borrower, address token, uint256 amount)
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+        onlyListedToken(token)
+    {
+        require(borrower != address(0), "Invalid borrower address");
+        executeRepay(token, msg.sender, borrower, amount, false);
+    }
 
-        // Calculate interest based on index difference
-        if (calculatedGlobalIndex > position.interestIndex) {
-            return position.borrowAmount
-                .mul(calculatedGlobalIndex)
-                .div(position.interestIndex)
-                .sub(position.borrowAmount);
-        }
+    /**
+     * @notice Repay ERC-20 debt using an EIP-2612 permit instead of a prior approve
+     * @param token The token to repay
+     * @param amount The amount to repay
+     * @param deadline The permit deadline
+     * @param v The signature v
+     * @param r The signature r
+     * @param s The signature s
+     */
+    function repayWithPermit(
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        onlyListedToken(token)
+    {
+        usePermit(token, amount, deadline, v, r, s);
+        executeRepay(token, msg.sender, msg.sender, amount, false);
+    }
+
+    /**
+     * @notice Shared repay logic for repay, repayStable, repayFor and repayWithPermit
+     * @param token The token to repay
+     * @param payer The account the tokens are pulled from
+     * @param user The borrower whose debt is reduced
+     * @param amount The amount to repay
+     * @param stable Whether the stable-rate debt is repaid instead of the variable debt
+     */
+    function executeRepay(address token, address payer, address user, uint256 amount, bool stable) internal {
+        requireActionActive(token, Action.Repay);
+
+        // Update interest first
+        updateGlobalInterest(token);
+        updateUserInterest(token, user);
         
-        return 0;
+        amount = BorrowLogic.executeRepay(
+            userPositions[token][user],
+            totalBorrows,
+            BorrowLogic.RepayParams({
+                token: token,
+                payer: payer,
+                user: user,
+                amount: amount,
+                debt: stable ? getCurrentStableBorrowAmount(token, user) : getCurrentBorrowAmount(token, user),
+                stable: stable,
+                weth: weth
+            })
+        );
+        if (stable) {
+            removeStableDebt(token, user, amount);
+        }
     }
-    
     /**
-     * @notice Calculate the current global interest index with smoother accrual
+     * @notice Calculate the current global interest index, compounded every second since the last update
      * @param token The token address
      * @return The current global interest index
      */
@@ -417,35 +690,11 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         
         if (lastGlobalUpdate[token] < block.timestamp && totalBorrows[token] > 0) {
             uint256 timeElapsed = block.timestamp - lastGlobalUpdate[token];
-            uint256 interestRate = tokenConfigs[token].interestRate;
-            
-            // Constants
-            uint256 SECONDS_PER_FIVE_MINUTES = 300;
-            
-            // Calculate full intervals
-            uint256 fullIntervals = timeElapsed / SECONDS_PER_FIVE_MINUTES;
-            
-            if (fullIntervals > 0) {
-                // Calculate interest for the entire elapsed time
-                uint256 actualTimeElapsed = fullIntervals * SECONDS_PER_FIVE_MINUTES;
-                
-                // Calculate interest rate for the period
-                // interestRate is in basis points (e.g., 500 = 5%)
-                // First, convert to percentage (divide by 100)
-                // Then calculate for the time period
-                uint256 scaledInterestRate = interestRate
-                    .mul(actualTimeElapsed)
-                    .mul(1e18)  // Scale up for precision
-                    .div(SECONDS_PER_YEAR)
-                    .div(100);  // Convert basis points to percentage
-                
-                // Calculate new index with the scaled interest
-                return currentGlobalIndex
-                    .mul(1e18 + scaledInterestRate)
-                    .div(1e18);
-            }
+            return currentGlobalIndex
+                .mul(InterestMath.compoundedGrowth(getBorrowRate(token), timeElapsed))
+                .div(1e18);
         }
-        
+
         return currentGlobalIndex;
     }
 
@@ -473,129 +722,349 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
     }
 
     /**
-     * @notice Calculate user's health factor
-     * @param user The address of the user
-     * @return The health factor in basis points
+     * @notice Get current stable-rate debt including accumulated interest
+     * @param token The token address
+     * @param user The user address
+     * @return The current stable borrow amount with interest
      */
-    function getHealthFactor(address user) public view returns (uint256) {
-        address[] memory supportedTokens = getSupportedTokens();
-        
-        uint256 totalCollateralValue = 0;
-        uint256 totalBorrowValue = 0;
+    function getCurrentStableBorrowAmount(address token, address user) public view returns (uint256) {
+        return StableDebtLogic.balanceOf(stableDebts[token][user]);
+    }
 
-        // Use local function to reduce stack depth
-        (totalCollateralValue, totalBorrowValue) = calculatePositionValues(user, supportedTokens);
+    /**
+     * @notice Calculate the current supply index including interest not yet booked
+     * @param token The token address
+     * @return The current supply index
+     */
+    function getCurrentSupplyIndex(address token) public view returns (uint256) {
+        uint256 currentSupplyIndex = supplyIndices[token];
+        if (currentSupplyIndex == 0) {
+            currentSupplyIndex = INITIAL_INTEREST_INDEX;
+        }
+
+        uint256 deposits = totalDeposits[token];
+        if (deposits == 0) {
+            return currentSupplyIndex;
+        }
+
+        uint256 pendingInterest = getPendingInterest(token);
+        pendingInterest = pendingInterest.sub(
+            pendingInterest.mul(tokenConfigs[token].reserveFactor).div(BASIS_POINTS)
+        );
 
-        if (totalBorrowValue == 0) return type(uint256).max;
-        return totalCollateralValue.mul(BASIS_POINTS).div(totalBorrowValue);
+        return currentSupplyIndex
+            .mul(deposits.add(pendingInterest))
+            .div(deposits);
     }
-    
+
     /**
-     * @notice Helper function to calculate collateral and borrow values
+     * @notice Borrower interest accrued since the last global update that is not yet booked
+     * @param token The token address
+     * @return The pending interest amount
+     */
+    function getPendingInterest(address token) internal view returns (uint256) {
+        uint256 stableInterest = StableDebtLogic.getPendingInterest(stableMarkets[token]);
+        uint256 storedIndex = globalInterestIndices[token];
+        if (storedIndex == 0) return stableInterest;
+
+        return totalBorrows[token]
+            .mul(getCurrentGlobalIndex(token).sub(storedIndex))
+            .div(storedIndex)
+            .add(stableInterest);
+    }
+
+    /**
+     * @notice Get current deposit amount including earned yield
+     * @param token The token address
      * @param user The user address
-     * @param supportedTokens Array of supported token addresses
-     * @return totalCollateralValue The total value of user's collateral
-     * @return totalBorrowValue The total value of user's borrows with interest
+     * @return The current deposit amount with yield
      */
-    function calculatePositionValues(address user, address[] memory supportedTokens) 
-        internal 
-        view 
-        returns (uint256 totalCollateralValue, uint256 totalBorrowValue) 
+    function getCurrentDepositAmount(address token, address user) public view returns (uint256) {
+        uint256 depositAmount = userPositions[token][user].depositAmount;
+        if (depositAmount == 0) return 0;
+
+        uint256 userIndex = userSupplyIndices[token][user];
+        if (userIndex == 0) userIndex = INITIAL_INTEREST_INDEX;
+
+        return depositAmount
+            .mul(getCurrentSupplyIndex(token))
+            .div(userIndex);
+    }
+
+    /**
+     * @notice Calculate user's health factor against their borrow capacity
+     * @dev Used for borrow and withdraw checks; liquidation uses getLiquidationHealthFactor
+     * @param user The address of the user
+     * @return The health factor in basis points
+     */
+    function getHealthFactor(address user) public view returns (uint256) {
+        (, uint256 borrowCapacity, , uint256 totalDebt) = getAccountLiquidity(user);
+
+        if (totalDebt == 0) return type(uint256).max;
+        return borrowCapacity.mul(BASIS_POINTS).div(totalDebt);
+    }
+
+    /**
+     * @notice Calculate user's health factor against their liquidation limit
+     * @param user The address of the user
+     * @return The health factor in basis points, below BASIS_POINTS means liquidatable
+     */
+    function getLiquidationHealthFactor(address user) public view returns (uint256) {
+        (, , uint256 liquidationLimit, uint256 totalDebt) = getAccountLiquidity(user);
+
+        if (totalDebt == 0) return type(uint256).max;
+        return liquidationLimit.mul(BASIS_POINTS).div(totalDebt);
+    }
+
+    /**
+     * @notice Get a user's collateral and debt across all listed markets
+     * @dev All values are in oracle units, normalized to 18 decimals. Collateral in the
+     *      user's eMode category is weighted by the category parameters instead of the market's.
+     * @param user The user address
+     * @return collateralValue The value of the user's deposits, including earned yield
+     * @return borrowCapacity The collateral value weighted by each market's collateralFactor
+     * @return liquidationLimit The collateral value weighted by each market's liquidationThreshold
+     * @return totalDebt The value of the user's borrows, including interest
+     */
+    function getAccountLiquidity(address user)
+        public
+        view
+        returns (
+            uint256 collateralValue,
+            uint256 borrowCapacity,
+            uint256 liquidationLimit,
+            uint256 totalDebt
+        )
     {
-        for (uint i = 0; i < supportedTokens.length; i++) {
-            address token = supportedTokens[i];
+        uint8 categoryId = userEModeCategory[user];
+
+        for (uint i = 0; i < listedTokens.length; i++) {
+            address token = listedTokens[i];
+            if (!hasPosition(token, user)) continue;
             UserPosition memory position = userPositions[token][user];
+
             uint256 tokenPrice = priceOracle.getPrice(token);
             
-            // Calculate collateral value
+            // Calculate collateral value with earned yield
             if (position.depositAmount > 0) {
-                uint256 collateralValue = position.depositAmount
-                    .mul(tokenPrice)
-                    .mul(tokenConfigs[token].collateralFactor)
-                    .div(BASIS_POINTS);
-                totalCollateralValue = totalCollateralValue.add(collateralValue);
+                uint256 value = getTokenValue(token, getCurrentDepositAmount(token, user), tokenPrice);
+                uint256 collateralFactor = tokenConfigs[token].collateralFactor;
+                uint256 liquidationThreshold = tokenConfigs[token].liquidationThreshold;
+                if (categoryId != 0 && tokenEModeCategory[token] == categoryId) {
+                    collateralFactor = eModeCategories[categoryId].collateralFactor;
+                    liquidationThreshold = eModeCategories[categoryId].liquidationThreshold;
+                }
+
+                collateralValue = collateralValue.add(value);
+                borrowCapacity = borrowCapacity.add(value.mul(collateralFactor).div(BASIS_POINTS));
+                liquidationLimit = liquidationLimit.add(value.mul(liquidationThreshold).div(BASIS_POINTS));
             }
 
-            // Calculate borrow value with interest
-            if (position.borrowAmount > 0) {
-                uint256 currentBorrowAmount = getCurrentBorrowAmount(token, user);
-                uint256 borrowValue = currentBorrowAmount.mul(tokenPrice);
-                totalBorrowValue = totalBorrowValue.add(borrowValue);
+            // Calculate borrow value with interest, variable and stable
+            uint256 debt = getCurrentBorrowAmount(token, user).add(getCurrentStableBorrowAmount(token, user));
+            if (debt > 0) {
+                totalDebt = totalDebt.add(getTokenValue(token, debt, tokenPrice));
             }
         }
-        
-        return (totalCollateralValue, totalBorrowValue);
+    }
+
+    /**
+     * @notice Convert a token amount into its oracle value, normalized to 18 decimals
+     * @param token The token address
+     * @param amount The amount in the token's own decimals
+     * @param tokenPrice The oracle price for one whole token (18 decimals)
+     * @return The value of the amount
+     */
+    function getTokenValue(address token, uint256 amount, uint256 tokenPrice)
+        internal
+        view
+        returns (uint256)
+    {
+        return amount.mul(tokenPrice).div(10 ** tokenDecimals[token]);
+    }
+
+    /**
+     * @dev Market totals are booked eagerly while user balances round down lazily,
+     *      so the last exit from a market may ask for a few wei more than the total
+     */
+    function subOrZero(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a > b ? a - b : 0;
+    }
+
+    // Modifier checks live in functions so they are not inlined at every call site
+    function requireSupported(address token) internal view {
+        require(tokenConfigs[token].isSupported, "Token not supported");
+    }
+
+    function requireListed(address token) internal view {
+        require(isListed[token], "Token not listed");
+    }
+
+    function requireActionActive(address token, Action action) internal view {
+        require(!actionPaused[token][action], "Action paused for this market");
+    }
+
+    /**
+     * @notice Revert if any market the user has a position in is priced by a stale oracle update
+     * @param user The user address
+     */
+    function requireFreshPrices(address user) internal view {
+        if (address(priceSentinel) == address(0)) return;
+
+        PositionLogic.requireFreshPrices(userPositions, stableDebts, listedTokens, priceSentinel, user);
+    }
+
+    function hasPosition(address token, address user) internal view returns (bool) {
+        UserPosition storage position = userPositions[token][user];
+        return position.depositAmount > 0 || position.borrowAmount > 0 || stableDebts[token][user].principal > 0;
     }
 
     /**
      * @notice Liquidate an unhealthy position
      * @param borrower The address of the borrower to liquidate
-     * @param token The token to repay
+     * @param debtToken The token to repay
+     * @param collateralToken The collateral market to seize from
      * @param amount The amount to repay
      */
-    function liquidate(address borrower, address token, uint256 amount)
+    function liquidate(address borrower, address debtToken, address collateralToken, uint256 amount)
         external
         payable
         nonReentrant
         whenNotPaused
-        onlyValidToken(token)
+        onlyListedToken(debtToken)
+        onlyListedToken(collateralToken)
         onlyRole(LIQUIDATOR_ROLE)
     {
+        requireActionActive(debtToken, Action.Liquidate);
+        requireActionActive(collateralToken, Action.Liquidate);
+
         // Update interest first
-        updateGlobalInterest(token);
-        updateUserInterest(token, borrower);
-        
-        // Use getLiquidationHealthFactor instead of getHealthFactor
-        require(getLiquidationHealthFactor(borrower) < BASIS_POINTS, "Position not liquidatable");
-        
-        // Rest of the function remains the same...
-        UserPosition storage position = userPositions[token][borrower];
-        uint256 maxLiquidation = position.borrowAmount.mul(LIQUIDATION_CLOSE_FACTOR).div(BASIS_POINTS);
-        require(amount <= maxLiquidation, "Amount too high");
+        updateGlobalInterest(debtToken);
+        updateUserInterest(debtToken, borrower);
+        if (collateralToken != debtToken) {
+            updateGlobalInterest(collateralToken);
+            updateUserInterest(collateralToken, borrower);
+        }
 
-        // Calculate collateral to seize
-        uint256 collateralToSeize = calculateCollateralToSeize(token, amount);
+        // Measured with getLiquidationHealthFactor, not getHealthFactor; checked after the price sentinel
+        uint256 stableRepaid = LiquidationLogic.executeLiquidation(
+            userPositions[debtToken][borrower],
+            userPositions[collateralToken][borrower],
+            totalBorrows,
+            totalDeposits,
+            LiquidationLogic.LiquidationParams({
+                borrower: borrower,
+                debtToken: debtToken,
+                collateralToken: collateralToken,
+                amount: amount,
+                stableDebt: getCurrentStableBorrowAmount(debtToken, borrower),
+                liquidationPenalty: tokenConfigs[collateralToken].liquidationPenalty,
+                healthFactor: getLiquidationHealthFactor(borrower),
+                debtDecimals: tokenDecimals[debtToken],
+                collateralDecimals: tokenDecimals[collateralToken],
+                priceOracle: priceOracle,
+                weth: weth,
+                priceSentinel: priceSentinel
+            })
+        );
+        if (stableRepaid > 0) {
+            removeStableDebt(debtToken, borrower, stableRepaid);
+        }
+    }
+    
+    /**
+     * @notice Debt value of an account that has no collateral left to liquidate
+     * @param user The user address
+     * @return The unbacked debt value, 0 if the account still has collateral or no debt
+     */
+    function getBadDebt(address user) public view returns (uint256) {
+        (uint256 collateralValue, , , uint256 totalDebt) = getAccountLiquidity(user);
+        return collateralValue < BAD_DEBT_DUST_VALUE ? totalDebt : 0;
+    }
 
-        // Transfer tokens
-        if (token == address(weth)) {
-            require(msg.value == amount, "Invalid ETH amount");
-            weth.deposit{value: amount}();
-        } else {
-            require(msg.value == 0, "ETH not accepted");
-            require(IERC20(token).transferFrom(msg.sender, address(this), amount), "Transfer failed");
+    /**
+     * @notice Write off the remaining debt of an account whose collateral is gone
+     * @dev Each market's loss is covered by its reserves first, the rest is spread across its suppliers
+     * @param borrower The address of the underwater borrower
+     */
+    function realizeBadDebt(address borrower) external nonReentrant onlyRole(LIQUIDATOR_ROLE) {
+        for (uint i = 0; i < listedTokens.length; i++) {
+            updateGlobalInterest(listedTokens[i]);
+            updateUserInterest(listedTokens[i], borrower);
         }
 
-        // Update state
-        position.borrowAmount = position.borrowAmount.sub(amount);
-        position.depositAmount = position.depositAmount.sub(collateralToSeize);
-        
-        // Transfer seized collateral to liquidator
-        require(IERC20(address(weth)).transfer(msg.sender, collateralToSeize), "Transfer failed");
+        require(getBadDebt(borrower) > 0, "No bad debt");
 
-        emit Liquidate(msg.sender, borrower, token, amount, collateralToSeize);
+        for (uint i = 0; i < listedTokens.length; i++) {
+            address token = listedTokens[i];
+            LiquidationLogic.writeOffBadDebt(
+                userPositions[token][borrower],
+                token,
+                borrower,
+                removeStableDebt(token, borrower, type(uint256).max),
+                totalBorrows,
+                totalDeposits,
+                totalReserves,
+                supplyIndices
+            );
+        }
     }
-    
+
     /**
-     * @notice Helper function to calculate collateral to seize in liquidation
-     * @param token The token being liquidated
-     * @param amount The repayment amount
-     * @return The amount of collateral to seize
+     * @notice Maximum amount of a token available for a flash loan (ERC-3156)
+     * @param token The token to borrow
+     * @return The idle liquidity of the market less its reserves, 0 if the token is not supported
      */
-    function calculateCollateralToSeize(address token, uint256 amount) 
-        internal 
-        view 
-        returns (uint256) 
+    function maxFlashLoan(address token) public view returns (uint256) {
+        if (!tokenConfigs[token].isSupported) return 0;
+        return BorrowLogic.getFlashLoanLiquidity(totalReserves, token);
+    }
+
+    /**
+     * @notice Fee charged for a flash loan (ERC-3156)
+     * @param token The token to borrow
+     * @param amount The amount to borrow
+     * @return The fee in the borrowed token
+     */
+    function flashFee(address token, uint256 amount) public view returns (uint256) {
+        requireSupported(token);
+        return amount.mul(tokenConfigs[token].flashLoanFee).div(BASIS_POINTS);
+    }
+
+    /**
+     * @notice Lend idle liquidity for the duration of one call (ERC-3156)
+     * @dev The fee is split between reserves and depositors like borrower interest.
+     *      The reentrancy lock is held for the whole callback, so the receiver cannot deposit,
+     *      withdraw, borrow, repay or liquidate on this protocol with the loan. It has to use
+     *      the funds elsewhere, for example on a DEX, and repay from what it gets back.
+     * @param receiver The contract receiving the tokens and the callback
+     * @param token The token to borrow
+     * @param amount The amount to borrow
+     * @param data Arbitrary data passed to the receiver
+     * @return True on success
+     */
+    function flashLoan(
+        IERC3156FlashBorrower receiver,
+        address token,
+        uint256 amount,
+        bytes calldata data
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        onlyValidToken(token)
+        returns (bool)
     {
-        TokenConfig memory config = tokenConfigs[token];
-        uint256 liquidationBonus = BASIS_POINTS.add(config.liquidationPenalty);
-        uint256 tokenPrice = priceOracle.getPrice(token);
-        uint256 wethPrice = priceOracle.getPrice(address(weth));
-        
-        return amount
-            .mul(liquidationBonus)
-            .mul(tokenPrice)
-            .div(wethPrice)
-            .div(BASIS_POINTS);
+        // Liquidity is checked by BorrowLogic, onlyValidToken already covers the rest of maxFlashLoan
+        uint256 fee = flashFee(token, amount);
+        updateGlobalInterest(token);
+
+        BorrowLogic.executeFlashLoan(totalReserves, receiver, token, amount, fee, data);
+        if (fee > 0) {
+            distributeInterest(token, fee);
+        }
+
+        return true;
     }
 
     // Admin functions
@@ -607,18 +1076,167 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         uint256 liquidationPenalty,
         uint256 interestRate
     ) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        require(collateralFactor <= BASIS_POINTS, "Invalid collateral factor");
-        require(liquidationThreshold <= BASIS_POINTS, "Invalid liquidation threshold");
-        
-        tokenConfigs[token] = TokenConfig({
-            isSupported: isSupported,
-            collateralFactor: collateralFactor,
-            liquidationThreshold: liquidationThreshold,
-            liquidationPenalty: liquidationPenalty,
-            interestRate: interestRate
-        });
+        // Accrue at the old rate before the parameters change
+        updateGlobalInterest(token);
 
-        emit TokenConfigUpdated(token, tokenConfigs[token]);
+        MarketConfigLogic.setTokenConfig(
+            tokenConfigs,
+            isListed,
+            tokenDecimals,
+            listedTokens,
+            MarketConfigLogic.TokenConfigParams({
+                token: token,
+                isSupported: isSupported,
+                collateralFactor: collateralFactor,
+                liquidationThreshold: liquidationThreshold,
+                liquidationPenalty: liquidationPenalty,
+                interestRate: interestRate
+            })
+        );
+    }
+
+    /**
+     * @notice Set the interest rate model of a market
+     * @param token The token address
+     * @param model The rate model, or address(0) to fall back to the fixed interestRate
+     */
+    function setInterestRateModel(address token, address model) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        requireListed(token);
+
+        // Accrue at the old rate before switching models
+        updateGlobalInterest(token);
+
+        MarketConfigLogic.setInterestRateModel(tokenConfigs[token], token, model);
+    }
+
+    /**
+     * @notice Set the share of borrower interest a market keeps as reserves
+     * @param token The token address
+     * @param reserveFactor The reserve factor in basis points
+     */
+    function setReserveFactor(address token, uint256 reserveFactor) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        requireListed(token);
+
+        // Accrue with the old split before changing it
+        updateGlobalInterest(token);
+
+        MarketConfigLogic.setReserveFactor(tokenConfigs[token], token, reserveFactor);
+    }
+
+    /**
+     * @notice Set the flash loan fee of a market
+     * @param token The token address
+     * @param flashLoanFee The fee in basis points
+     */
+    function setFlashLoanFee(address token, uint256 flashLoanFee) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        requireListed(token);
+        MarketConfigLogic.setFlashLoanFee(tokenConfigs[token], token, flashLoanFee);
+    }
+
+    /**
+     * @notice Limit how much of a market can be supplied and borrowed
+     * @param token The token address
+     * @param supplyCap Max total deposits in token units, 0 for no cap
+     * @param borrowCap Max total borrows in token units, 0 for no cap
+     */
+    function setMarketCaps(address token, uint256 supplyCap, uint256 borrowCap) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        requireListed(token);
+        MarketConfigLogic.setMarketCaps(tokenConfigs[token], token, supplyCap, borrowCap);
+    }
+
+    /**
+     * @notice Configure stable-rate borrowing for a market
+     * @param token The token address
+     * @param enabled Whether new stable borrows and swaps to stable are allowed
+     * @param rateSpread Premium over the variable rate for new stable debt, in basis points
+     * @param rebalanceThreshold Drift from the current stable rate that allows a rebalance, in basis points
+     */
+    function setStableRateConfig(address token, bool enabled, uint256 rateSpread, uint256 rebalanceThreshold)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        requireListed(token);
+        StableDebtLogic.setConfig(stableRateConfigs[token], token, enabled, rateSpread, rebalanceThreshold);
+    }
+
+    /**
+     * @notice Create or update an eMode category
+     * @param categoryId The category id, must not be 0
+     * @param collateralFactor The category collateral factor in basis points
+     * @param liquidationThreshold The category liquidation threshold in basis points
+     * @param label A human readable name for the category
+     */
+    function setEModeCategory(
+        uint8 categoryId,
+        uint256 collateralFactor,
+        uint256 liquidationThreshold,
+        string calldata label
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        EModeLogic.setCategory(eModeCategories, categoryId, collateralFactor, liquidationThreshold, label);
+    }
+
+    /**
+     * @notice Assign a market to an eMode category
+     * @param token The token address
+     * @param categoryId The category id, or 0 to remove the market from its category
+     */
+    function setTokenEModeCategory(address token, uint8 categoryId) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        requireListed(token);
+        EModeLogic.setTokenCategory(eModeCategories, tokenEModeCategory, token, categoryId);
+    }
+
+    /**
+     * @notice Opt into an eMode category, or leave it with categoryId 0
+     * @dev While in a category the user can only borrow markets of that category.
+     *      Reverts if the position would be unhealthy under the new parameters.
+     * @param categoryId The category id
+     */
+    function setUserEMode(uint8 categoryId) external whenNotPaused {
+        if (categoryId != 0) {
+            EModeLogic.requireDebtInCategory(
+                eModeCategories,
+                userPositions,
+                stableDebts,
+                tokenEModeCategory,
+                listedTokens,
+                msg.sender,
+                categoryId
+            );
+        }
+
+        userEModeCategory[msg.sender] = categoryId;
+        require(getHealthFactor(msg.sender) >= BASIS_POINTS, "Unhealthy position");
+
+        emit UserEModeSet(msg.sender, categoryId);
+    }
+
+    /**
+     * @notice Withdraw accumulated protocol reserves
+     * @param token The token address
+     * @param to The receiver of the reserves
+     * @param amount The amount to withdraw
+     */
+    function withdrawReserves(address token, address to, uint256 amount)
+        external
+        nonReentrant
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        updateGlobalInterest(token);
+        MarketConfigLogic.withdrawReserves(totalReserves, token, to, amount);
+    }
+
+    /**
+     * @notice Remove a disabled market from the registry
+     * @dev The market must be fully unwound so no position is dropped from health checks
+     * @param token The token to de-list
+     */
+    function delistToken(address token) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        requireListed(token);
+        require(!tokenConfigs[token].isSupported, "Disable token first");
+        require(totalDeposits[token] == 0 && getTotalDebt(token) == 0, "Market not empty");
+        require(totalReserves[token] == 0, "Withdraw reserves first");
+
+        MarketConfigLogic.delistToken(isListed, listedTokens, token);
     }
 
     function updateOracle(address newOracle) external onlyRole(ORACLE_MANAGER) {
@@ -627,7 +1245,20 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         emit OracleUpdated(newOracle);
     }
 
-    function pause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+    /**
+     * @notice Set the oracle circuit breaker consulted on borrows, withdrawals and liquidations
+     * @param newSentinel The sentinel address, address(0) disables the checks
+     */
+    function setPriceSentinel(address newSentinel) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        priceSentinel = IPriceOracleSentinel(newSentinel);
+        emit PriceSentinelUpdated(newSentinel);
+    }
+
+    /**
+     * @notice Halt deposits, borrows and withdrawals immediately
+     * @dev Deliberately not timelocked; unpausing is an admin (timelocked) action
+     */
+    function pause() external onlyRole(GUARDIAN_ROLE) {
         _pause();
     }
 
@@ -635,142 +1266,67 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         _unpause();
     }
 
+    /**
+     * @notice Pause or resume one action in one market
+     * @dev Like pause and unpause, the guardian pauses instantly and resuming is an admin change
+     * @param token The token address
+     * @param action The action to pause or resume
+     * @param paused True to pause, false to resume
+     */
+    function setActionPaused(address token, Action action, bool paused) external {
+        _checkRole(paused ? GUARDIAN_ROLE : DEFAULT_ADMIN_ROLE);
+        requireListed(token);
+
+        actionPaused[token][action] = paused;
+        emit ActionPaused(token, action, paused);
+    }
+
+    /// @dev Upgrades are an admin change, so they go through the timelock
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
     // Helper functions
+    /**
+     * @notice Get every listed market, including disabled ones that still hold positions
+     * @return Array of listed token addresses
+     */
     function getSupportedTokens() public view returns (address[] memory) {
-        // Implementation needed - return array of supported token addresses
-        // This is a placeholder
-        address[] memory tokens = new address[](1);
-        tokens[0] = address(weth);
-        return tokens;
+        return listedTokens;
     }
 
     /**
-     * @notice Get diagnostic information about interest accrual for a token
+     * @notice Current annual borrow rate of a market
      * @param token The token address
-     * @param user The user address (optional, use address(0) for global info)
-     * @return lastUpdate The timestamp of last interest update
-     * @return currentTime The current block timestamp
-     * @return timeElapsed Seconds elapsed since last update
-     * @return intervalsElapsed Number of full 5-minute intervals elapsed
-     * @return partialInterval Portion of current interval elapsed (in basis points)
-     * @return currentIndex The current interest index
-     * @return estimatedNewIndex The estimated new index after an update
-     */
-    function getInterestDiagnostics(address token, address user) 
-        external 
-        view 
-        returns (
-            uint256 lastUpdate,
-            uint256 currentTime,
-            uint256 timeElapsed,
-            uint256 intervalsElapsed,
-            uint256 partialInterval,
-            uint256 currentIndex,
-            uint256 estimatedNewIndex
-        ) 
-    {
-        // IMPORTANT: Always use current block timestamp
-        currentTime = block.timestamp;
-        
-        // Get user-specific last update time
-        UserPosition memory position = userPositions[token][user];
-        lastUpdate = position.lastUpdateTime;
-        
-        // Calculate time difference
-        timeElapsed = currentTime > lastUpdate ? currentTime - lastUpdate : 0;
-        
-        // Calculate 5-minute intervals
-        uint256 SECONDS_PER_FIVE_MINUTES = 300;
-        intervalsElapsed = timeElapsed / SECONDS_PER_FIVE_MINUTES;
-        
-        // Calculate partial interval (as percentage)
-        if (timeElapsed > 0) {
-            partialInterval = (timeElapsed % SECONDS_PER_FIVE_MINUTES) * 100 / SECONDS_PER_FIVE_MINUTES;
-        }
-        
-        // Get current index
-        currentIndex = position.interestIndex;
-        if (currentIndex == 0) {
-            currentIndex = INITIAL_INTEREST_INDEX;
+     * @return The borrow rate in basis points
+     */
+    function getBorrowRate(address token) public view returns (uint256) {
+        TokenConfig memory config = tokenConfigs[token];
+        if (address(config.interestRateModel) == address(0)) {
+            return config.interestRate;
         }
-        
-        // Calculate estimated new index
-        estimatedNewIndex = getCurrentGlobalIndex(token);
-        
-        return (
-            lastUpdate,
-            currentTime,
-            timeElapsed,
-            intervalsElapsed,
-            partialInterval,
-            currentIndex,
-            estimatedNewIndex
-        );
+        return config.interestRateModel.getBorrowRate(getTotalDebt(token), totalDeposits[token]);
     }
 
-    function getDetailedInterestAccrual(address token, address user)
-        external
-        view 
-        returns (
-            uint256 principal,
-            uint256 currentAmount,
-            uint256 interestAccrued,
-            uint256 effectiveRate
-        )
-    {
-        UserPosition memory position = userPositions[token][user];
-        principal = position.borrowAmount;
-        
-        if (principal == 0) {
-            return (0, 0, 0, 0);
-        }
-        
-        currentAmount = getCurrentBorrowAmount(token, user);
-        interestAccrued = currentAmount > principal ? currentAmount - principal : 0;
-        
-        // Calculate effective rate as percentage (basis points)
-        if (interestAccrued > 0 && principal > 0) {
-            effectiveRate = interestAccrued * BASIS_POINTS / principal;
-        }
-        
-        return (principal, currentAmount, interestAccrued, effectiveRate);
+    // Variable and stable debt of a market, as booked at the last update
+    function getTotalDebt(address token) internal view returns (uint256) {
+        return totalBorrows[token].add(stableMarkets[token].totalDebt);
     }
 
-    function getLiquidationHealthFactor(address user) public view returns (uint256) {
-        address[] memory supportedTokens = getSupportedTokens();
-        
-        uint256 totalCollateralValue = 0;
-        uint256 totalBorrowValue = 0;
-
-        // Similar to calculatePositionValues but using liquidationThreshold
-        for (uint i = 0; i < supportedTokens.length; i++) {
-            address token = supportedTokens[i];
-            UserPosition memory position = userPositions[token][user];
-            uint256 tokenPrice = priceOracle.getPrice(token);
-            
-            // Calculate collateral value using liquidationThreshold instead of collateralFactor
-            if (position.depositAmount > 0) {
-                uint256 collateralValue = position.depositAmount
-                    .mul(tokenPrice)
-                    .mul(tokenConfigs[token].liquidationThreshold)
-                    .div(BASIS_POINTS);
-                totalCollateralValue = totalCollateralValue.add(collateralValue);
-            }
-
-            // Calculate borrow value with interest
-            if (position.borrowAmount > 0) {
-                uint256 currentBorrowAmount = getCurrentBorrowAmount(token, user);
-                uint256 borrowValue = currentBorrowAmount.mul(tokenPrice);
-                totalBorrowValue = totalBorrowValue.add(borrowValue);
-            }
-        }
+    /**
+     * @notice Allow a delegatee to borrow against msg.sender's collateral
+     * @dev Overwrites the previous allowance; type(uint256).max is never spent down
+     * @param delegatee The address allowed to call borrowBehalf for msg.sender
+     * @param token The token the delegatee may borrow
+     * @param amount The maximum amount the delegatee may borrow
+     */
+    function approveDelegation(address delegatee, address token, uint256 amount) external {
+        require(delegatee != address(0), "Invalid delegatee address");
 
-        if (totalBorrowValue == 0) return type(uint256).max;
-        return totalCollateralValue.mul(BASIS_POINTS).div(totalBorrowValue);
+        borrowAllowance[msg.sender][delegatee][token] = amount;
+        emit BorrowAllowanceDelegated(msg.sender, delegatee, token, amount);
     }
 
     /**
-     * @notice Borrow tokens on behalf of another user (requires delegation)
+     * @notice Borrow tokens on behalf of another user, spending their borrow allowance
      * @param borrower The address of the user who owns the collateral
      * @param token The token to borrow
      * @param amount The amount to borrow
@@ -785,49 +1341,34 @@ contract EnhancedLendingProtocol is ReentrancyGuard, Pausable, AccessControl {
         whenNotPaused
         onlyValidToken(token)
     {
-        require(borrower != address(0), "Invalid borrower address");
-        require(amount > 0, "Amount must be > 0");
-        
-        // Verify caller has permission to borrow on behalf (must have DELEGATE_ROLE)
-        require(
-            hasRole(DELEGATE_ROLE, msg.sender), 
-            "Caller not authorized"
+        BorrowLogic.spendBorrowAllowance(borrowAllowance, borrower, msg.sender, token, amount);
+
+        // Tokens go to the delegate, the debt to the borrower
+        executeBorrow(token, borrower, msg.sender, amount, false);
+    }
+
+    /**
+     * @notice Move every market position and the eMode category of one address to another
+     * @dev Used to wrap positions into and out of position NFTs. Borrow allowances and
+     *      realized supply yield stay with the old address.
+     * @param from The address whose position is moved
+     * @param to The receiver, which must not hold a position
+     */
+    function movePosition(address from, address to)
+        external
+        nonReentrant
+        whenNotPaused
+        onlyRole(POSITION_MANAGER_ROLE)
+    {
+        PositionLogic.movePosition(
+            userPositions,
+            userSupplyIndices,
+            stableDebts,
+            userEModeCategory,
+            listedTokens,
+            from,
+            to
         );
-        
-        // Update interest
-        updateGlobalInterest(token);
-        updateUserInterest(token, borrower);
-        
-        // Check health factor
-        require(getHealthFactor(borrower) >= BASIS_POINTS, "Insufficient collateral");
-        
-        // Update borrower's position
-        UserPosition storage position = userPositions[token][borrower];
-        position.borrowAmount = position.borrowAmount.add(amount);
-        
-        // If this is first borrow, initialize borrower's interest index
-        if (position.interestIndex == 0) {
-            uint256 currentIndex = globalInterestIndices[token];
-            if (currentIndex == 0) {
-                currentIndex = INITIAL_INTEREST_INDEX;
-                globalInterestIndices[token] = currentIndex;
-                lastGlobalUpdate[token] = block.timestamp;
-            }
-            position.interestIndex = currentIndex;
-        }
-        
-        // Update total borrows
-        totalBorrows[token] = totalBorrows[token].add(amount);
-        
-        // Transfer tokens to delegate (not borrower)
-        if (token == address(weth)) {
-            require(weth.transfer(msg.sender, amount), "WETH transfer failed");
-        } else {
-            require(IERC20(token).transfer(msg.sender, amount), "Transfer failed");
-        }
-        
-        // Emit borrow event with borrower as the user
-        emit Borrow(token, borrower, amount, position.interestIndex);
     }
 
     receive() external payable {
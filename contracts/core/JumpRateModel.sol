@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/IInterestRateModel.sol";
+
+/**
+ * @title JumpRateModel
+ * @notice Kinked interest rate model: a gentle slope up to the optimal utilization, a steep one above it
+ * @dev Rates use the same basis point units as TokenConfig.interestRate
+ */
+contract JumpRateModel is IInterestRateModel {
+    using SafeMath for uint256;
+
+    uint256 public constant BASIS_POINTS = 10000;
+
+    uint256 public immutable baseRate; // Rate at 0% utilization
+    uint256 public immutable slope; // Rate added between 0% and the kink
+    uint256 public immutable jumpSlope; // Rate added between the kink and 100%
+    uint256 public immutable kink; // Optimal utilization in basis points
+
+    constructor(uint256 _baseRate, uint256 _slope, uint256 _jumpSlope, uint256 _kink) {
+        require(_kink > 0 && _kink < BASIS_POINTS, "Invalid kink");
+
+        baseRate = _baseRate;
+        slope = _slope;
+        jumpSlope = _jumpSlope;
+        kink = _kink;
+    }
+
+    /**
+     * @notice Share of deposits that is currently borrowed
+     * @param totalBorrows Outstanding borrows of the market
+     * @param totalDeposits Deposits of the market
+     * @return Utilization in basis points, capped at 100%
+     */
+    function getUtilization(uint256 totalBorrows, uint256 totalDeposits) public pure returns (uint256) {
+        if (totalBorrows == 0 || totalDeposits == 0) return 0;
+
+        uint256 utilization = totalBorrows.mul(BASIS_POINTS).div(totalDeposits);
+        return utilization > BASIS_POINTS ? BASIS_POINTS : utilization;
+    }
+
+    /**
+     * @notice Annual borrow rate for the given market state
+     * @param totalBorrows Outstanding borrows of the market
+     * @param totalDeposits Deposits of the market
+     * @return The borrow rate in basis points
+     */
+    function getBorrowRate(uint256 totalBorrows, uint256 totalDeposits) external view returns (uint256) {
+        uint256 utilization = getUtilization(totalBorrows, totalDeposits);
+
+        if (utilization <= kink) {
+            return baseRate.add(utilization.mul(slope).div(kink));
+        }
+
+        uint256 excessUtilization = utilization.sub(kink);
+        return baseRate
+            .add(slope)
+            .add(excessUtilization.mul(jumpSlope).div(BASIS_POINTS.sub(kink)));
+    }
+}
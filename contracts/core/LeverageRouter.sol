@@ -0,0 +1,167 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC721/utils/ERC721Holder.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/IWETH.sol";
+import "./EnhancedLendingProtocol.sol";
+import "./PositionManager.sol";
+
+/**
+ * @title LeverageRouter
+ * @notice Opens and unwinds leveraged WETH positions in one transaction
+ * @dev Each leveraged position lives in its own position NFT. leverage mints the NFT, loops
+ *      deposit and borrow through the PositionManager and hands the NFT to the caller.
+ *      The protocol's own flash loans hold its reentrancy lock, so the router loops instead.
+ *      To deleverage, the NFT owner first approves the router for the NFT.
+ */
+contract LeverageRouter is ReentrancyGuard, ERC721Holder {
+    using SafeMath for uint256;
+
+    PositionManager public positionManager;
+    EnhancedLendingProtocol public lendingProtocol;
+    IWETH public weth;
+
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant MAX_LOOPS = 15;
+    uint256 public constant STEP_BUFFER = 10; // 0.1% of each step's headroom left unused against rounding
+
+    event Leveraged(
+        uint256 indexed tokenId,
+        address indexed owner,
+        uint256 collateral,
+        uint256 debt,
+        uint256 healthFactor
+    );
+    event Deleveraged(uint256 indexed tokenId, address indexed owner, uint256 repaid, uint256 healthFactor);
+
+    constructor(address _positionManager) {
+        require(_positionManager != address(0), "Invalid position manager address");
+
+        positionManager = PositionManager(payable(_positionManager));
+        lendingProtocol = positionManager.lendingProtocol();
+        weth = lendingProtocol.weth();
+    }
+
+    /**
+     * @notice Deposit msg.value as WETH collateral and borrow and redeposit WETH up to the target leverage
+     * @dev Stops early when the protocol's borrow limit is reached or after MAX_LOOPS borrows
+     * @param targetLeverage Collateral over msg.value in basis points, e.g. 30000 for 3x
+     * @param minHealthFactor The lowest liquidation health factor to end with, in basis points
+     * @return tokenId The position NFT holding the leveraged position, sent to msg.sender
+     */
+    function leverage(uint256 targetLeverage, uint256 minHealthFactor)
+        external
+        payable
+        nonReentrant
+        returns (uint256 tokenId)
+    {
+        require(msg.value > 0, "Amount must be > 0");
+        require(targetLeverage > BASIS_POINTS, "Leverage must be above 1x");
+        require(minHealthFactor >= BASIS_POINTS, "Min health factor below 1");
+
+        tokenId = positionManager.mint();
+        address account = positionManager.positionAccount(tokenId);
+        positionManager.deposit{value: msg.value}(tokenId, address(weth), msg.value);
+
+        uint256 collateral = msg.value;
+        uint256 target = msg.value.mul(targetLeverage).div(BASIS_POINTS);
+        for (uint i = 0; i < MAX_LOOPS && collateral < target; i++) {
+            uint256 amount = availableBorrow(account);
+            if (amount == 0) break;
+            if (amount > target - collateral) amount = target - collateral;
+
+            // PositionManager.borrow sends WETH tokens; they are unwrapped and redeposited as ETH,
+            // which needs no approval
+            positionManager.borrow(tokenId, address(weth), amount);
+            weth.withdraw(amount);
+            positionManager.deposit{value: amount}(tokenId, address(weth), amount);
+            collateral = collateral.add(amount);
+        }
+
+        uint256 healthFactor = lendingProtocol.getLiquidationHealthFactor(account);
+        require(healthFactor >= minHealthFactor, "Health factor below minimum");
+
+        positionManager.safeTransferFrom(address(this), msg.sender, tokenId);
+
+        emit Leveraged(tokenId, msg.sender, collateral, collateral - msg.value, healthFactor);
+    }
+
+    /**
+     * @notice Repay a position's WETH debt out of its own WETH collateral
+     * @dev The collateral left after the repayment stays deposited in the position
+     * @param tokenId The position NFT, the router must be approved for it
+     * @param amount The debt to repay, or type(uint256).max for all of it
+     * @return repaid The debt repaid
+     */
+    function deleverage(uint256 tokenId, uint256 amount) external nonReentrant returns (uint256 repaid) {
+        require(positionManager.ownerOf(tokenId) == msg.sender, "Not position owner");
+        address account = positionManager.positionAccount(tokenId);
+
+        uint256 debt = lendingProtocol.getCurrentBorrowAmount(address(weth), account);
+        if (amount > debt) amount = debt;
+        require(amount > 0, "No debt to repay");
+
+        for (uint i = 0; i < MAX_LOOPS && repaid < amount; i++) {
+            uint256 step = availableWithdrawal(account);
+            if (step == 0) break;
+            if (step > amount - repaid) step = amount - repaid;
+
+            // Withdrawn WETH arrives as ETH, which repays the position's WETH debt directly
+            step = positionManager.withdraw(tokenId, address(weth), step);
+            positionManager.repay{value: step}(tokenId, address(weth), step);
+            repaid = repaid.add(step);
+        }
+        require(repaid > 0, "Position cannot be deleveraged");
+
+        emit Deleveraged(tokenId, msg.sender, repaid, lendingProtocol.getLiquidationHealthFactor(account));
+    }
+
+    /**
+     * @notice WETH an account can still borrow before hitting the protocol's borrow limit
+     * @param account The position account
+     * @return The amount of WETH
+     */
+    function availableBorrow(address account) public view returns (uint256) {
+        (, uint256 borrowCapacity, , uint256 totalDebt) = lendingProtocol.getAccountLiquidity(account);
+        if (borrowCapacity <= totalDebt) return 0;
+
+        uint256 headroom = (borrowCapacity - totalDebt).mul(BASIS_POINTS - STEP_BUFFER).div(BASIS_POINTS);
+        return headroom.mul(1e18).div(wethPrice());
+    }
+
+    /**
+     * @notice WETH collateral an account can withdraw while staying within its borrow limit
+     * @param account The position account
+     * @return The amount of WETH
+     */
+    function availableWithdrawal(address account) public view returns (uint256) {
+        (, uint256 borrowCapacity, , uint256 totalDebt) = lendingProtocol.getAccountLiquidity(account);
+        if (borrowCapacity <= totalDebt) return 0;
+
+        // Each unit of WETH withdrawn lowers the borrow limit by its collateral factor
+        uint256 headroom = (borrowCapacity - totalDebt).mul(BASIS_POINTS - STEP_BUFFER).div(BASIS_POINTS);
+        uint256 amount = headroom.mul(BASIS_POINTS).div(wethCollateralFactor(account)).mul(1e18).div(wethPrice());
+
+        uint256 deposit = lendingProtocol.getCurrentDepositAmount(address(weth), account);
+        return amount < deposit ? amount : deposit;
+    }
+
+    function wethPrice() internal view returns (uint256) {
+        return lendingProtocol.priceOracle().getPrice(address(weth));
+    }
+
+    // The account's eMode category replaces the market's collateral factor, as in getAccountLiquidity
+    function wethCollateralFactor(address account) internal view returns (uint256 collateralFactor) {
+        (, collateralFactor, , , , , , , , ) = lendingProtocol.tokenConfigs(address(weth));
+
+        uint8 categoryId = lendingProtocol.userEModeCategory(account);
+        if (categoryId != 0 && lendingProtocol.tokenEModeCategory(address(weth)) == categoryId) {
+            (collateralFactor, , ) = lendingProtocol.eModeCategories(categoryId);
+        }
+    }
+
+    // WETH unwrapping and PositionManager withdrawals pay out ETH
+    receive() external payable {}
+}
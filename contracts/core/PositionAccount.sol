@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./EnhancedLendingProtocol.sol";
+
+/**
+ * @title PositionAccount
+ * @notice Holds the lending position behind one position NFT
+ * @dev Deployed as a minimal clone per NFT by the PositionManager, which is the only caller.
+ *      The protocol sees the account as the position owner; the NFT decides who controls it.
+ */
+contract PositionAccount is Initializable {
+    address public manager;
+    EnhancedLendingProtocol public lendingProtocol;
+
+    modifier onlyManager() {
+        require(msg.sender == manager, "Only position manager");
+        _;
+    }
+
+    /// @dev Locks the implementation, clones are initialized by the manager
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Set up a freshly cloned account
+     * @param _manager The PositionManager controlling this account
+     * @param _lendingProtocol The lending protocol the position lives in
+     */
+    function initialize(address _manager, address _lendingProtocol) external initializer {
+        manager = _manager;
+        lendingProtocol = EnhancedLendingProtocol(payable(_lendingProtocol));
+    }
+
+    /**
+     * @notice Deposit into the position
+     * @dev ERC-20 tokens must already be held by the account; WETH deposits arrive as ETH
+     * @param token The token to deposit
+     * @param amount The amount to deposit
+     */
+    function deposit(address token, uint256 amount) external payable onlyManager {
+        if (msg.value == 0) {
+            require(IERC20(token).approve(address(lendingProtocol), amount), "Approve failed");
+        }
+        lendingProtocol.deposit{value: msg.value}(token, amount);
+    }
+
+    /**
+     * @notice Withdraw from the position and forward the funds
+     * @param token The token to withdraw, WETH is paid out as ETH
+     * @param amount The amount to withdraw, or type(uint256).max for the whole deposit
+     * @param to The receiver of the withdrawn funds
+     * @return withdrawn The amount forwarded to the receiver
+     */
+    function withdraw(address token, uint256 amount, address to) external onlyManager returns (uint256 withdrawn) {
+        bool isEth = token == address(lendingProtocol.weth());
+        uint256 balanceBefore = isEth ? address(this).balance : IERC20(token).balanceOf(address(this));
+
+        lendingProtocol.withdraw(token, amount);
+
+        if (isEth) {
+            withdrawn = address(this).balance - balanceBefore;
+            (bool success, ) = to.call{value: withdrawn}("");
+            require(success, "ETH transfer failed");
+        } else {
+            withdrawn = IERC20(token).balanceOf(address(this)) - balanceBefore;
+            require(IERC20(token).transfer(to, withdrawn), "Transfer failed");
+        }
+    }
+
+    /**
+     * @notice Let the manager borrow against this account with borrowBehalf
+     * @dev borrow itself rejects contract callers, so borrowing goes through a delegation
+     * @param token The token the manager may borrow
+     */
+    function approveManagerBorrowing(address token) external onlyManager {
+        lendingProtocol.approveDelegation(manager, token, type(uint256).max);
+    }
+
+    // The protocol pays WETH withdrawals out as ETH
+    receive() external payable {}
+}
@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "./EnhancedLendingProtocol.sol";
+import "./PositionAccount.sol";
+
+/**
+ * @title PositionManager
+ * @notice Wraps lending positions into transferable ERC-721 tokens
+ * @dev Each NFT owns a PositionAccount holding its position in the protocol. Whoever owns the NFT,
+ *      or is approved for it, can deposit, withdraw, borrow and repay; transferring the NFT hands
+ *      over the whole position. Needs the protocol's POSITION_MANAGER_ROLE to wrap and unwrap.
+ */
+contract PositionManager is ERC721Enumerable, ReentrancyGuard {
+    EnhancedLendingProtocol public lendingProtocol;
+    address public immutable accountImplementation;
+
+    mapping(uint256 => address) public positionAccount; // tokenId => account
+    mapping(address => uint256) public accountToken; // account => tokenId
+    uint256 private nextTokenId = 1;
+
+    event PositionMinted(uint256 indexed tokenId, address indexed owner, address account);
+    event PositionWrapped(uint256 indexed tokenId, address indexed owner);
+    event PositionUnwrapped(uint256 indexed tokenId, address indexed receiver);
+
+    modifier onlyPositionOwner(uint256 tokenId) {
+        require(_isApprovedOrOwner(msg.sender, tokenId), "Not position owner");
+        _;
+    }
+
+    constructor(address _lendingProtocol) ERC721("Lending Position", "LPOS") {
+        require(_lendingProtocol != address(0), "Invalid lending protocol address");
+
+        lendingProtocol = EnhancedLendingProtocol(payable(_lendingProtocol));
+        accountImplementation = address(new PositionAccount());
+    }
+
+    /**
+     * @notice Mint a position NFT with an empty position
+     * @return tokenId The new token id
+     */
+    function mint() external nonReentrant returns (uint256 tokenId) {
+        tokenId = mintPosition(msg.sender);
+    }
+
+    /**
+     * @notice Move msg.sender's whole position into a new position NFT
+     * @return tokenId The new token id
+     */
+    function wrap() external nonReentrant returns (uint256 tokenId) {
+        tokenId = mintPosition(msg.sender);
+        lendingProtocol.movePosition(msg.sender, positionAccount[tokenId]);
+
+        emit PositionWrapped(tokenId, msg.sender);
+    }
+
+    /**
+     * @notice Burn a position NFT and move its position back to the NFT owner
+     * @dev Reverts if the owner already holds a position of their own
+     * @param tokenId The token id
+     */
+    function unwrap(uint256 tokenId) external nonReentrant onlyPositionOwner(tokenId) {
+        address owner = ownerOf(tokenId);
+        lendingProtocol.movePosition(positionAccount[tokenId], owner);
+        _burn(tokenId);
+
+        emit PositionUnwrapped(tokenId, owner);
+    }
+
+    /**
+     * @notice Deposit into an NFT's position
+     * @dev ERC-20 tokens are pulled from msg.sender; WETH is deposited by sending ETH
+     * @param tokenId The token id
+     * @param token The token to deposit
+     * @param amount The amount to deposit
+     */
+    function deposit(uint256 tokenId, address token, uint256 amount)
+        external
+        payable
+        nonReentrant
+        onlyPositionOwner(tokenId)
+    {
+        address account = positionAccount[tokenId];
+        if (msg.value == 0) {
+            require(IERC20(token).transferFrom(msg.sender, account, amount), "Transfer failed");
+        }
+        PositionAccount(payable(account)).deposit{value: msg.value}(token, amount);
+    }
+
+    /**
+     * @notice Withdraw from an NFT's position to msg.sender
+     * @param tokenId The token id
+     * @param token The token to withdraw, WETH is paid out as ETH
+     * @param amount The amount to withdraw, or type(uint256).max for the whole deposit
+     * @return The amount withdrawn
+     */
+    function withdraw(uint256 tokenId, address token, uint256 amount)
+        external
+        nonReentrant
+        onlyPositionOwner(tokenId)
+        returns (uint256)
+    {
+        return PositionAccount(payable(positionAccount[tokenId])).withdraw(token, amount, msg.sender);
+    }
+
+    /**
+     * @notice Borrow against an NFT's position at the variable rate, to msg.sender
+     * @param tokenId The token id
+     * @param token The token to borrow
+     * @param amount The amount to borrow
+     */
+    function borrow(uint256 tokenId, address token, uint256 amount)
+        external
+        nonReentrant
+        onlyPositionOwner(tokenId)
+    {
+        address account = positionAccount[tokenId];
+        if (lendingProtocol.borrowAllowance(account, address(this), token) != type(uint256).max) {
+            PositionAccount(payable(account)).approveManagerBorrowing(token);
+        }
+
+        lendingProtocol.borrowBehalf(account, token, amount);
+        require(IERC20(token).transfer(msg.sender, amount), "Transfer failed");
+    }
+
+    /**
+     * @notice Repay variable debt of an NFT's position
+     * @dev ERC-20 tokens are pulled from msg.sender. WETH can also be repaid with ETH, then
+     *      msg.value is the amount repaid and ETH above the debt is passed back to msg.sender.
+     * @param tokenId The token id
+     * @param token The token to repay
+     * @param amount The amount to repay, or type(uint256).max for the whole debt
+     */
+    function repay(uint256 tokenId, address token, uint256 amount)
+        external
+        payable
+        nonReentrant
+        onlyPositionOwner(tokenId)
+    {
+        address account = positionAccount[tokenId];
+        if (msg.value > 0) {
+            uint256 balanceBefore = address(this).balance - msg.value;
+            lendingProtocol.repayFor{value: msg.value}(account, token, msg.value);
+
+            // The protocol refunds ETH above the debt to this contract
+            uint256 refund = address(this).balance - balanceBefore;
+            if (refund > 0) {
+                (bool sent, ) = msg.sender.call{value: refund}("");
+                require(sent, "ETH refund failed");
+            }
+            return;
+        }
+
+        if (amount == type(uint256).max) amount = lendingProtocol.getCurrentBorrowAmount(token, account);
+        require(IERC20(token).transferFrom(msg.sender, address(this), amount), "Transfer failed");
+        require(IERC20(token).approve(address(lendingProtocol), amount), "Approve failed");
+        lendingProtocol.repayFor(account, token, amount);
+    }
+
+    /**
+     * @notice Get the token ids owned by an address
+     * @param owner The owner
+     * @return tokenIds The owner's token ids
+     */
+    function tokensOfOwner(address owner) external view returns (uint256[] memory tokenIds) {
+        tokenIds = new uint256[](balanceOf(owner));
+        for (uint i = 0; i < tokenIds.length; i++) {
+            tokenIds[i] = tokenOfOwnerByIndex(owner, i);
+        }
+    }
+
+    function mintPosition(address owner) internal returns (uint256 tokenId) {
+        tokenId = nextTokenId++;
+        address account = Clones.clone(accountImplementation);
+        PositionAccount(payable(account)).initialize(address(this), address(lendingProtocol));
+        positionAccount[tokenId] = account;
+        accountToken[account] = tokenId;
+        _safeMint(owner, tokenId);
+
+        emit PositionMinted(tokenId, owner, account);
+    }
+
+    // Only the protocol sends ETH here, as the refund of an overpaid repayment
+    receive() external payable {
+        require(msg.sender == address(lendingProtocol), "Only lending protocol");
+    }
+}
@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/IPriceOracle.sol";
+import "../interfaces/IPriceOracleSentinel.sol";
+import "./EnhancedLendingProtocol.sol";
+
+/**
+ * @title PriceOracleSentinel
+ * @notice Oracle circuit breaker for EnhancedLendingProtocol
+ * @dev Stale prices block borrows and withdrawals. A price that moves further than
+ *      maxPriceDeviation away from the last accepted reference halts liquidations on that
+ *      market until the price comes back or the guardian accepts it.
+ *      Always reads the oracle currently set on the protocol.
+ */
+contract PriceOracleSentinel is IPriceOracleSentinel, AccessControl {
+    using SafeMath for uint256;
+
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    uint256 public constant BASIS_POINTS = 10000;
+
+    // Per-market settings, 0 disables a check
+    struct PriceGuard {
+        uint256 maxPriceAge; // Seconds since the last oracle update before a price counts as stale
+        uint256 maxPriceDeviation; // Max move from referencePrice in basis points before liquidations halt
+        uint256 referencePrice; // Last oracle price accepted as plausible
+    }
+
+    EnhancedLendingProtocol public immutable lendingProtocol;
+    mapping(address => PriceGuard) public priceGuards; // token => guard
+
+    event PriceGuardUpdated(address indexed token, uint256 maxPriceAge, uint256 maxPriceDeviation);
+    event PriceDeviationDetected(address indexed token, uint256 referencePrice, uint256 oraclePrice);
+    event ReferencePriceUpdated(address indexed token, uint256 price);
+
+    constructor(address _lendingProtocol) {
+        require(_lendingProtocol != address(0), "Invalid lending protocol address");
+        lendingProtocol = EnhancedLendingProtocol(payable(_lendingProtocol));
+
+        _setupRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _setupRole(GUARDIAN_ROLE, msg.sender);
+    }
+
+    /**
+     * @notice Configure the circuit breaker for a market
+     * @param token The token address
+     * @param maxPriceAge Seconds before a price blocks borrows and withdrawals, 0 = no limit
+     * @param maxPriceDeviation Max move from the reference price in basis points before
+     *        liquidations halt, 0 = no limit
+     */
+    function setPriceGuard(address token, uint256 maxPriceAge, uint256 maxPriceDeviation)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        require(token != address(0), "Invalid token address");
+        require(maxPriceDeviation <= BASIS_POINTS, "Invalid price deviation");
+
+        priceGuards[token].maxPriceAge = maxPriceAge;
+        priceGuards[token].maxPriceDeviation = maxPriceDeviation;
+        emit PriceGuardUpdated(token, maxPriceAge, maxPriceDeviation);
+    }
+
+    /**
+     * @notice Accept the current oracle price after a jump was reviewed, resuming liquidations
+     * @param token The token address
+     */
+    function resetReferencePrice(address token) external onlyRole(GUARDIAN_ROLE) {
+        uint256 price = lendingProtocol.priceOracle().getPrice(token);
+        priceGuards[token].referencePrice = price;
+        emit ReferencePriceUpdated(token, price);
+    }
+
+    /**
+     * @notice Whether the oracle price of a token is recent enough to borrow or withdraw against
+     * @param token The token address
+     * @return True if the price is within maxPriceAge, or no limit is set
+     */
+    function isPriceFresh(address token) public view override returns (bool) {
+        uint256 maxPriceAge = priceGuards[token].maxPriceAge;
+        if (maxPriceAge == 0) return true;
+
+        uint256 lastUpdate = lendingProtocol.priceOracle().getLastUpdateTime(token);
+        return block.timestamp <= lastUpdate.add(maxPriceAge);
+    }
+
+    /**
+     * @notice Compare the oracle price against the last accepted reference price
+     * @dev Called by the protocol before every liquidation and by the price updater after each
+     *      update, so jumps surface as events before a liquidation runs into them.
+     *      Moves within maxPriceDeviation become the new reference; a larger jump leaves it untouched.
+     * @param token The token address
+     * @return True if the oracle price is within bounds
+     */
+    function checkReferencePrice(address token) external override returns (bool) {
+        PriceGuard storage guard = priceGuards[token];
+        uint256 price = lendingProtocol.priceOracle().getPrice(token);
+        uint256 referencePrice = guard.referencePrice;
+
+        uint256 maxPriceDeviation = guard.maxPriceDeviation;
+
+        if (maxPriceDeviation != 0 && referencePrice != 0 && getDeviation(price, referencePrice) > maxPriceDeviation) {
+            emit PriceDeviationDetected(token, referencePrice, price);
+            return false;
+        }
+
+        if (price != referencePrice) {
+            guard.referencePrice = price;
+            emit ReferencePriceUpdated(token, price);
+        }
+        return true;
+    }
+
+    /**
+     * @notice Circuit breaker state of a market, for the frontend
+     * @param token The token address
+     * @return isFresh False if borrows and withdrawals against this market are blocked
+     * @return deviation Move of the oracle price away from the reference price, in basis points
+     * @return liquidationsHalted True if the move exceeds the market's maxPriceDeviation
+     */
+    function getPriceStatus(address token)
+        external
+        view
+        returns (bool isFresh, uint256 deviation, bool liquidationsHalted)
+    {
+        PriceGuard memory guard = priceGuards[token];
+        isFresh = isPriceFresh(token);
+
+        if (guard.referencePrice != 0) {
+            deviation = getDeviation(lendingProtocol.priceOracle().getPrice(token), guard.referencePrice);
+            liquidationsHalted = guard.maxPriceDeviation != 0 && deviation > guard.maxPriceDeviation;
+        }
+    }
+
+    function getDeviation(uint256 price, uint256 referencePrice) internal pure returns (uint256) {
+        uint256 move = price > referencePrice ? price - referencePrice : referencePrice - price;
+        return move.mul(BASIS_POINTS).div(referencePrice);
+    }
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/**
+ * @title ProtocolProxy
+ * @notice ERC1967 proxy in front of EnhancedLendingProtocol, StakingPool, DelegateManager and AutoRebalancer
+ * @dev Thin wrapper so the OpenZeppelin ERC1967Proxy gets compiled and deployed by name.
+ *      The implementations are UUPS, so the upgrade logic and its access control live there.
+ */
+contract ProtocolProxy is ERC1967Proxy {
+    constructor(address implementation, bytes memory data) ERC1967Proxy(implementation, data) {}
+}
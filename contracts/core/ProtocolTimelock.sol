@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/**
+ * @title ProtocolTimelock
+ * @notice Holds DEFAULT_ADMIN_ROLE and ORACLE_MANAGER on EnhancedLendingProtocol so that
+ *         parameter changes are queued and only take effect after minDelay
+ * @dev Thin wrapper so the OpenZeppelin TimelockController gets compiled and deployed by name.
+ *      Pausing is left to GUARDIAN_ROLE on the protocol and does not go through here.
+ */
+contract ProtocolTimelock is TimelockController {
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) TimelockController(minDelay, proposers, executors, admin) {}
+}
@@ -1,15 +1,18 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/math/SafeMath.sol";
 
-contract StakingPool is ReentrancyGuard, Ownable {
+// Deployed behind an ERC1967 proxy, upgraded by the owner; new state takes slots from __gap
+contract StakingPool is Initializable, UUPSUpgradeable, ReentrancyGuard, Ownable {
     using SafeMath for uint256;
-    IERC20 public immutable stakingToken;  // WETH
-    IERC20 public immutable rewardToken;   // USDC
+    IERC20 public stakingToken;  // WETH
+    IERC20 public rewardToken;   // USDC
     
     uint256 public constant REWARD_RATE = 50; // 0.5% per minute in basis points
     uint256 public constant BASIS_POINTS = 10000;
@@ -23,15 +26,24 @@ contract StakingPool is ReentrancyGuard, Ownable {
     }
     
     mapping(address => StakeInfo) public stakes;
+
+    // Reserved slots for state added by later implementations
+    uint256[50] private __gap;
     
     event Staked(address indexed user, uint256 amount);
     event Withdrawn(address indexed user, uint256 amount);
     event RewardClaimed(address indexed user, uint256 amount);
     event RewardStored(address indexed user, uint256 amount);
     
-    constructor(address _stakingToken, address _rewardToken) {
+    // Locks the implementation, the proxy is set up through initialize
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address _stakingToken, address _rewardToken) external initializer {
         stakingToken = IERC20(_stakingToken);
         rewardToken = IERC20(_rewardToken);
+        _transferOwnership(msg.sender);
     }
     
     // Calculate current period rewards
@@ -178,4 +190,6 @@ contract StakingPool is ReentrancyGuard, Ownable {
         require(rewardToken.transferFrom(msg.sender, address(this), amount), 
             "Failed to transfer rewards");
     }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/IPriceOracle.sol";
+
+/**
+ * @title TWAPPriceOracle
+ * @notice Time-weighted average price over a configurable window
+ * @dev Every updatePrice records an observation of the cumulative price in a per-token ring buffer.
+ *      A new price only counts for the time it has been in effect, so a single manipulated update
+ *      barely moves the average. Until the buffer covers the window, the average since the oldest
+ *      observation is returned.
+ */
+contract TWAPPriceOracle is IPriceOracle, Ownable {
+    using SafeMath for uint256;
+
+    uint256 public constant MAX_OBSERVATIONS = 48;
+
+    struct Observation {
+        uint256 timestamp;
+        uint256 price; // Price in effect from this timestamp on
+        uint256 priceCumulative; // Sum of price * seconds up to this timestamp
+    }
+
+    mapping(address => Observation[MAX_OBSERVATIONS]) private observations; // token => ring buffer
+    mapping(address => uint256) public observationIndex; // token => index of the latest observation
+    mapping(address => uint256) public observationCount; // token => filled slots
+
+    uint256 public window; // Averaging window in seconds
+
+    event ObservationRecorded(address indexed token, uint256 price, uint256 priceCumulative, uint256 timestamp);
+    event WindowUpdated(uint256 window);
+
+    constructor(uint256 initialWindow) {
+        require(initialWindow > 0, "Invalid window");
+        window = initialWindow;
+    }
+
+    /**
+     * @notice Set the averaging window
+     * @param newWindow The window in seconds
+     */
+    function setWindow(uint256 newWindow) external onlyOwner {
+        require(newWindow > 0, "Invalid window");
+        window = newWindow;
+        emit WindowUpdated(newWindow);
+    }
+
+    /**
+     * @notice Record a price observation for a token
+     * @dev A second update in the same block replaces the price of the latest observation
+     * @param token The address of the token
+     * @param price The new spot price of the token
+     */
+    function updatePrice(address token, uint256 price) external override onlyOwner {
+        require(token != address(0), "Invalid token address");
+        require(price > 0, "Invalid price");
+
+        uint256 count = observationCount[token];
+        Observation[MAX_OBSERVATIONS] storage tokenObservations = observations[token];
+
+        if (count == 0) {
+            tokenObservations[0] = Observation(block.timestamp, price, 0);
+            observationCount[token] = 1;
+            emit ObservationRecorded(token, price, 0, block.timestamp);
+            return;
+        }
+
+        uint256 index = observationIndex[token];
+        Observation storage latest = tokenObservations[index];
+
+        if (latest.timestamp == block.timestamp) {
+            latest.price = price;
+            emit ObservationRecorded(token, price, latest.priceCumulative, block.timestamp);
+            return;
+        }
+
+        uint256 priceCumulative = cumulativeAt(latest, block.timestamp);
+        index = (index + 1) % MAX_OBSERVATIONS;
+        tokenObservations[index] = Observation(block.timestamp, price, priceCumulative);
+        observationIndex[token] = index;
+        if (count < MAX_OBSERVATIONS) observationCount[token] = count + 1;
+
+        emit ObservationRecorded(token, price, priceCumulative, block.timestamp);
+    }
+
+    /**
+     * @notice Get the time-weighted average price of a token over the window
+     * @param token The address of the token
+     * @return The average price
+     */
+    function getPrice(address token) external view override returns (uint256) {
+        uint256 count = observationCount[token];
+        require(count > 0, "Price not available");
+
+        Observation[MAX_OBSERVATIONS] storage tokenObservations = observations[token];
+        uint256 index = observationIndex[token];
+        Observation memory latest = tokenObservations[index];
+        uint256 cumulativeNow = cumulativeAt(latest, block.timestamp);
+
+        // Without enough history, average over what there is
+        Observation memory oldest = tokenObservations[count < MAX_OBSERVATIONS ? 0 : (index + 1) % MAX_OBSERVATIONS];
+        uint256 windowStart = block.timestamp > window ? block.timestamp - window : 0;
+        if (windowStart <= oldest.timestamp) {
+            if (block.timestamp == oldest.timestamp) return latest.price;
+            return cumulativeNow.sub(oldest.priceCumulative).div(block.timestamp - oldest.timestamp);
+        }
+
+        // Walk back to the observation in effect at the start of the window
+        for (uint256 i = 0; i < count; i++) {
+            Observation memory observation = tokenObservations[(index + MAX_OBSERVATIONS - i) % MAX_OBSERVATIONS];
+            if (observation.timestamp <= windowStart) {
+                return cumulativeNow.sub(cumulativeAt(observation, windowStart)).div(window);
+            }
+        }
+        revert("Observation not found");
+    }
+
+    /**
+     * @notice Get the latest recorded price, without averaging
+     * @param token The address of the token
+     * @return The spot price of the latest observation
+     */
+    function getSpotPrice(address token) external view returns (uint256) {
+        require(observationCount[token] > 0, "Price not available");
+        return observations[token][observationIndex[token]].price;
+    }
+
+    /**
+     * @notice Get the last update time for a token's price
+     * @param token The address of the token
+     * @return The timestamp of the latest observation
+     */
+    function getLastUpdateTime(address token) external view override returns (uint256) {
+        if (observationCount[token] == 0) return 0;
+        return observations[token][observationIndex[token]].timestamp;
+    }
+
+    // Cumulative price at `timestamp`, carrying the observation's price forward
+    function cumulativeAt(Observation memory observation, uint256 timestamp) internal pure returns (uint256) {
+        return observation.priceCumulative.add(observation.price.mul(timestamp - observation.timestamp));
+    }
+}
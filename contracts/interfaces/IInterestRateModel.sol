@@ -0,0 +1,8 @@
+// contracts/interfaces/IInterestRateModel.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IInterestRateModel {
+    function getUtilization(uint256 totalBorrows, uint256 totalDeposits) external view returns (uint256);
+    function getBorrowRate(uint256 totalBorrows, uint256 totalDeposits) external view returns (uint256);
+}
@@ -0,0 +1,8 @@
+// contracts/interfaces/IPriceOracleSentinel.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IPriceOracleSentinel {
+    function isPriceFresh(address token) external view returns (bool);
+    function checkReferencePrice(address token) external returns (bool);
+}
@@ -0,0 +1,20 @@
+// contracts/interfaces/ISwapAdapter.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title ISwapAdapter
+ * @notice A swap venue the CollateralSwap module can route through
+ * @dev swap pays amountOut of tokenOut to the caller, calls onSwap on the caller and only
+ *      then pulls amountIn of tokenIn, so the caller can fund the swap with its output.
+ */
+interface ISwapAdapter {
+    function getAmountOut(address tokenIn, address tokenOut, uint256 amountIn) external view returns (uint256);
+    function swap(address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut)
+        external
+        returns (uint256 amountOut);
+}
+
+interface ISwapCallback {
+    function onSwap(address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut) external;
+}
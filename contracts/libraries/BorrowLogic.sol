@@ -0,0 +1,192 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC3156FlashBorrower.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/IWETH.sol";
+import "./DataTypes.sol";
+
+/**
+ * @title BorrowLogic
+ * @notice Repayment, borrow allowance and flash loan execution for EnhancedLendingProtocol
+ * @dev Linked as an external library so the core stays under the contract size limit. The protocol
+ *      accrues interest before calling in and books stable-rate repayments through StableDebtLogic.
+ */
+library BorrowLogic {
+    using SafeMath for uint256;
+
+    bytes32 internal constant FLASH_LOAN_CALLBACK_SUCCESS = keccak256("ERC3156FlashBorrower.onFlashLoan");
+
+    struct RepayParams {
+        address token;
+        address payer; // The account the tokens are pulled from
+        address user; // The borrower whose debt is reduced
+        uint256 amount; // Capped at the debt, so type(uint256).max repays all of it
+        uint256 debt; // The borrower's current debt in the repaid rate mode, including interest
+        bool stable; // Whether the stable-rate debt is repaid instead of the variable debt
+        IWETH weth;
+    }
+
+    event Repay(address indexed token, address indexed user, uint256 amount, uint256 interestPaid);
+    event RepayFor(address indexed token, address indexed payer, address indexed borrower, uint256 amount);
+    event FlashLoan(address indexed receiver, address indexed initiator, address indexed token, uint256 amount, uint256 fee);
+    event BorrowAllowanceDelegated(
+        address indexed borrower,
+        address indexed delegatee,
+        address indexed token,
+        uint256 amount
+    );
+
+    /**
+     * @notice Take a repayment and, for variable debt, reduce the position
+     * @dev Only the debt is taken when more is offered. ETH above the repaid amount is refunded to
+     *      the caller.
+     * @param position The borrower's position in the market
+     * @param totalBorrows The protocol's variable borrows per market
+     * @param params The repayment parameters
+     * @return amount The amount repaid
+     */
+    function executeRepay(
+        UserPosition storage position,
+        mapping(address => uint256) storage totalBorrows,
+        RepayParams memory params
+    ) external returns (uint256 amount) {
+        address token = params.token;
+        uint256 currentBorrowWithInterest = params.debt;
+        amount = params.amount;
+        // Never take more than the debt as of this block, which also covers type(uint256).max
+        if (amount > currentBorrowWithInterest) amount = currentBorrowWithInterest;
+
+        // Handle WETH repayment
+        if (token == address(params.weth)) {
+            if (msg.value >= amount && msg.value > 0) {
+                // Case 1: User sends ETH directly
+                // Convert the repaid ETH to WETH and keep it, the rest is refunded below
+                params.weth.deposit{value: amount}();
+            } else if (msg.value == 0) {
+                // Case 2: User sends WETH tokens directly
+                require(IERC20(token).transferFrom(params.payer, address(this), amount),
+                    "WETH transfer failed");
+            } else {
+                revert("Invalid payment method");
+            }
+        } else {
+            require(msg.value == 0, "ETH not accepted for non-WETH tokens");
+            require(IERC20(token).transferFrom(params.payer, address(this), amount),
+                "Token transfer failed");
+        }
+
+        // Calculate actual interest paid
+        // Stable interest is booked into the balance as it is repaid, by the protocol
+        uint256 interestPaid;
+        if (!params.stable) {
+            if (amount >= position.borrowAmount) {
+                interestPaid = currentBorrowWithInterest.sub(position.borrowAmount);
+            } else {
+                uint256 totalInterest = currentBorrowWithInterest.sub(position.borrowAmount);
+                interestPaid = amount.mul(totalInterest).div(currentBorrowWithInterest);
+            }
+
+            // Update state
+            totalBorrows[token] = totalBorrows[token] > amount ? totalBorrows[token] - amount : 0;
+            position.borrowAmount = position.borrowAmount.sub(amount);
+
+            // If this was a full repayment, reset the interest index
+            if (position.borrowAmount == 0) {
+                position.interestIndex = 0;
+            }
+        }
+
+        emit Repay(token, params.user, amount, interestPaid);
+        if (params.payer != params.user) {
+            emit RepayFor(token, params.payer, params.user, amount);
+        }
+
+        if (msg.value > amount) {
+            (bool refunded, ) = msg.sender.call{value: msg.value - amount}("");
+            require(refunded, "ETH refund failed");
+        }
+    }
+
+    /**
+     * @notice Lend tokens for the duration of the receiver's callback and take them back with the fee (ERC-3156)
+     * @dev The protocol distributes the fee
+     * @param totalReserves The protocol's reserves per market, which are never lent out
+     * @param receiver The contract receiving the tokens and the callback
+     * @param token The token to borrow
+     * @param amount The amount to borrow
+     * @param fee The fee in the borrowed token
+     * @param data Arbitrary data passed to the receiver
+     */
+    function executeFlashLoan(
+        mapping(address => uint256) storage totalReserves,
+        IERC3156FlashBorrower receiver,
+        address token,
+        uint256 amount,
+        uint256 fee,
+        bytes calldata data
+    ) external {
+        require(amount > 0, "Amount must be > 0");
+        require(amount <= flashLoanLiquidity(totalReserves, token), "Insufficient liquidity");
+
+        require(IERC20(token).transfer(address(receiver), amount), "Transfer failed");
+        require(
+            receiver.onFlashLoan(msg.sender, token, amount, fee, data) == FLASH_LOAN_CALLBACK_SUCCESS,
+            "Flash loan callback failed"
+        );
+        require(IERC20(token).transferFrom(address(receiver), address(this), amount.add(fee)), "Repayment failed");
+
+        emit FlashLoan(address(receiver), msg.sender, token, amount, fee);
+    }
+
+    /**
+     * @notice The liquidity a flash loan can take: the market's balance less its reserves
+     * @param totalReserves The protocol's reserves per market
+     * @param token The token to borrow
+     * @return The amount available
+     */
+    function getFlashLoanLiquidity(mapping(address => uint256) storage totalReserves, address token)
+        external
+        view
+        returns (uint256)
+    {
+        return flashLoanLiquidity(totalReserves, token);
+    }
+
+    /**
+     * @notice Spend part of a delegatee's allowance to borrow against a borrower's collateral
+     * @dev type(uint256).max is never spent down
+     * @param borrowAllowance The protocol's borrow allowances, borrower => delegatee => token => amount
+     * @param borrower The user whose collateral backs the borrow
+     * @param delegatee The address borrowing on the borrower's behalf
+     * @param token The token borrowed
+     * @param amount The amount borrowed
+     */
+    function spendBorrowAllowance(
+        mapping(address => mapping(address => mapping(address => uint256))) storage borrowAllowance,
+        address borrower,
+        address delegatee,
+        address token,
+        uint256 amount
+    ) external {
+        require(borrower != address(0), "Invalid borrower address");
+
+        // The borrower decides who may use their collateral, and for how much
+        uint256 allowance = borrowAllowance[borrower][delegatee][token];
+        require(allowance >= amount, "Borrow allowance exceeded");
+        if (allowance != type(uint256).max) {
+            borrowAllowance[borrower][delegatee][token] = allowance - amount;
+            emit BorrowAllowanceDelegated(borrower, delegatee, token, allowance - amount);
+        }
+    }
+
+    function flashLoanLiquidity(mapping(address => uint256) storage totalReserves, address token)
+        internal
+        view
+        returns (uint256)
+    {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        return balance > totalReserves[token] ? balance - totalReserves[token] : 0;
+    }
+}
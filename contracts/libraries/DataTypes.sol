@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "../interfaces/IInterestRateModel.sol";
+
+// Declared at file level so EnhancedLendingProtocol and the logic libraries it links share one type
+
+// Token-specific configurations
+struct TokenConfig {
+    bool isSupported;
+    uint256 collateralFactor; // In basis points (e.g., 7500 = 75%)
+    uint256 liquidationThreshold; // In basis points
+    uint256 liquidationPenalty; // In basis points
+    uint256 interestRate; // Annual interest rate in basis points, used when no rate model is set
+    IInterestRateModel interestRateModel; // Utilization-based rate model (optional)
+    uint256 reserveFactor; // Share of borrower interest kept as protocol reserves, in basis points
+    uint256 flashLoanFee; // Fee charged on flash loans, in basis points
+    uint256 supplyCap; // Max total deposits in token units, 0 = no cap
+    uint256 borrowCap; // Max total borrows in token units, 0 = no cap
+}
+
+// User position information
+struct UserPosition {
+    uint256 depositAmount;
+    uint256 borrowAmount;
+    uint256 lastUpdateTime;
+    uint256 interestIndex; // To track interest accrual
+}
+
+// Efficiency mode category, higher collateral parameters for correlated assets
+struct EModeCategory {
+    uint256 collateralFactor; // In basis points, replaces the market's own
+    uint256 liquidationThreshold; // In basis points, replaces the market's own
+    string label; // e.g. "ETH-correlated"
+}
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./DataTypes.sol";
+import "./StableDebtLogic.sol";
+
+/**
+ * @title EModeLogic
+ * @notice eMode category configuration for EnhancedLendingProtocol
+ * @dev Linked as an external library so the core stays under the contract size limit
+ */
+library EModeLogic {
+    uint256 internal constant BASIS_POINTS = 10000;
+
+    event EModeCategoryUpdated(uint8 indexed categoryId, uint256 collateralFactor, uint256 liquidationThreshold, string label);
+    event TokenEModeCategoryUpdated(address indexed token, uint8 indexed categoryId);
+
+    /**
+     * @notice Create or update an eMode category
+     * @param categories The protocol's eMode categories
+     * @param categoryId The category id, must not be 0
+     * @param collateralFactor The category collateral factor in basis points
+     * @param liquidationThreshold The category liquidation threshold in basis points
+     * @param label A human readable name for the category
+     */
+    function setCategory(
+        mapping(uint8 => EModeCategory) storage categories,
+        uint8 categoryId,
+        uint256 collateralFactor,
+        uint256 liquidationThreshold,
+        string calldata label
+    ) external {
+        require(categoryId != 0, "Invalid eMode category");
+        require(liquidationThreshold > 0 && liquidationThreshold <= BASIS_POINTS, "Invalid liquidation threshold");
+        require(collateralFactor <= liquidationThreshold, "Invalid collateral factor");
+
+        categories[categoryId] = EModeCategory({
+            collateralFactor: collateralFactor,
+            liquidationThreshold: liquidationThreshold,
+            label: label
+        });
+        emit EModeCategoryUpdated(categoryId, collateralFactor, liquidationThreshold, label);
+    }
+
+    /**
+     * @notice Assign a market to an eMode category
+     * @param categories The protocol's eMode categories
+     * @param tokenCategories The protocol's market categories, token => categoryId
+     * @param token The token address
+     * @param categoryId The category id, or 0 to remove the market from its category
+     */
+    function setTokenCategory(
+        mapping(uint8 => EModeCategory) storage categories,
+        mapping(address => uint8) storage tokenCategories,
+        address token,
+        uint8 categoryId
+    ) external {
+        require(categoryId == 0 || categories[categoryId].liquidationThreshold > 0, "eMode category not found");
+
+        tokenCategories[token] = categoryId;
+        emit TokenEModeCategoryUpdated(token, categoryId);
+    }
+
+    /**
+     * @notice Require that a category exists and every market a user borrows from belongs to it
+     * @param categories The protocol's eMode categories
+     * @param positions The protocol's user positions, token => user => position
+     * @param stableDebts The protocol's user stable debts, token => user => debt
+     * @param tokenCategories The protocol's market categories, token => categoryId
+     * @param tokens The listed markets
+     * @param user The user entering the category
+     * @param categoryId The category id
+     */
+    function requireDebtInCategory(
+        mapping(uint8 => EModeCategory) storage categories,
+        mapping(address => mapping(address => UserPosition)) storage positions,
+        mapping(address => mapping(address => StableDebtLogic.UserStableDebt)) storage stableDebts,
+        mapping(address => uint8) storage tokenCategories,
+        address[] storage tokens,
+        address user,
+        uint8 categoryId
+    ) external view {
+        require(categories[categoryId].liquidationThreshold > 0, "eMode category not found");
+
+        for (uint i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            if (positions[token][user].borrowAmount > 0 || stableDebts[token][user].principal > 0) {
+                require(tokenCategories[token] == categoryId, "Debt outside eMode category");
+            }
+        }
+    }
+}
@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "./DataTypes.sol";
+
+/**
+ * @title InterestLogic
+ * @notice Books accrued interest into reserves, the supply index and individual positions for EnhancedLendingProtocol
+ * @dev Linked as an external library so the core stays under the contract size limit. The protocol
+ *      compounds the borrow index itself; this distributes what it earned and catches positions up.
+ */
+library InterestLogic {
+    using SafeMath for uint256;
+
+    uint256 internal constant BASIS_POINTS = 10000;
+    uint256 internal constant INITIAL_INTEREST_INDEX = 1e18;
+
+    event InterestAccrued(address indexed token, address indexed user, uint256 interestAmount);
+    event SupplyInterestAccrued(address indexed token, address indexed user, uint256 interestAmount);
+    event ReservesAccrued(address indexed token, uint256 amount, uint256 totalReserves);
+
+    /**
+     * @notice Split interest or flash loan fees between protocol reserves and depositors
+     * @dev The depositors' share grows the supply index, so every deposit earns it pro rata
+     * @param totalReserves The protocol's reserves per market
+     * @param totalDeposits The protocol's deposits per market
+     * @param supplyIndices The protocol's supply index per market
+     * @param token The token address
+     * @param amount The amount earned by the market
+     * @param reserveFactor The market's reserve factor in basis points
+     */
+    function distributeInterest(
+        mapping(address => uint256) storage totalReserves,
+        mapping(address => uint256) storage totalDeposits,
+        mapping(address => uint256) storage supplyIndices,
+        address token,
+        uint256 amount,
+        uint256 reserveFactor
+    ) external {
+        uint256 reserveShare = amount.mul(reserveFactor).div(BASIS_POINTS);
+        if (reserveShare > 0) {
+            totalReserves[token] = totalReserves[token].add(reserveShare);
+            emit ReservesAccrued(token, reserveShare, totalReserves[token]);
+        }
+
+        uint256 interestAmount = amount.sub(reserveShare);
+        uint256 deposits = totalDeposits[token];
+        if (deposits == 0 || interestAmount == 0) return;
+
+        uint256 currentIndex = supplyIndices[token];
+        if (currentIndex == 0) {
+            currentIndex = INITIAL_INTEREST_INDEX;
+        }
+
+        supplyIndices[token] = currentIndex
+            .mul(deposits.add(interestAmount))
+            .div(deposits);
+        totalDeposits[token] = deposits.add(interestAmount);
+    }
+
+    /**
+     * @notice Update a user's deposit and variable debt with the interest accrued since their last interaction
+     * @param position The user's position in the market
+     * @param userSupplyIndices The market's supply index per user
+     * @param supplyInterestEarned The market's realized yield per user
+     * @param token The token address
+     * @param user The user address
+     * @param supplyIndex The market's current supply index, 0 if never set
+     * @param borrowIndex The market's current borrow index, 0 if never set
+     */
+    function accrueUser(
+        UserPosition storage position,
+        mapping(address => uint256) storage userSupplyIndices,
+        mapping(address => uint256) storage supplyInterestEarned,
+        address token,
+        address user,
+        uint256 supplyIndex,
+        uint256 borrowIndex
+    ) external {
+        accrueSupply(position, userSupplyIndices, supplyInterestEarned, token, user, supplyIndex);
+
+        if (position.borrowAmount == 0) {
+            position.lastUpdateTime = block.timestamp;
+            return;
+        }
+
+        uint256 userIndex = position.interestIndex;
+        if (userIndex == 0) {
+            userIndex = borrowIndex == 0 ? INITIAL_INTEREST_INDEX : borrowIndex;
+            position.interestIndex = userIndex;
+        }
+
+        // If global index has increased, apply interest to user's borrow amount
+        if (borrowIndex > userIndex) {
+            uint256 interestAccumulated = position.borrowAmount
+                .mul(borrowIndex)
+                .div(userIndex)
+                .sub(position.borrowAmount);
+
+            if (interestAccumulated > 0) {
+                // Already counted in totalBorrows by updateGlobalInterest
+                position.borrowAmount = position.borrowAmount.add(interestAccumulated);
+
+                emit InterestAccrued(token, user, interestAccumulated);
+            }
+
+            // Update user's interest index to match global
+            position.interestIndex = borrowIndex;
+        }
+
+        position.lastUpdateTime = block.timestamp;
+    }
+
+    /**
+     * @notice Update a user's deposit with the yield earned, or the loss socialized, since their last interaction
+     * @param position The user's position in the market
+     * @param userSupplyIndices The market's supply index per user
+     * @param supplyInterestEarned The market's realized yield per user
+     * @param token The token address
+     * @param user The user address
+     * @param supplyIndex The market's current supply index, 0 if never set
+     */
+    function accrueSupply(
+        UserPosition storage position,
+        mapping(address => uint256) storage userSupplyIndices,
+        mapping(address => uint256) storage supplyInterestEarned,
+        address token,
+        address user,
+        uint256 supplyIndex
+    ) internal {
+        if (supplyIndex == 0) {
+            supplyIndex = INITIAL_INTEREST_INDEX;
+        }
+
+        uint256 userIndex = userSupplyIndices[user];
+        if (userIndex == 0) {
+            userIndex = INITIAL_INTEREST_INDEX;
+        }
+
+        if (position.depositAmount > 0 && supplyIndex > userIndex) {
+            uint256 interestEarned = position.depositAmount
+                .mul(supplyIndex)
+                .div(userIndex)
+                .sub(position.depositAmount);
+
+            if (interestEarned > 0) {
+                position.depositAmount = position.depositAmount.add(interestEarned);
+                supplyInterestEarned[user] = supplyInterestEarned[user].add(interestEarned);
+
+                emit SupplyInterestAccrued(token, user, interestEarned);
+            }
+        } else if (position.depositAmount > 0 && supplyIndex < userIndex) {
+            // The index only moves down when bad debt is socialized
+            uint256 loss = position.depositAmount.sub(
+                position.depositAmount.mul(supplyIndex).div(userIndex)
+            );
+            position.depositAmount = position.depositAmount.sub(loss);
+            uint256 earned = supplyInterestEarned[user];
+            supplyInterestEarned[user] = earned > loss ? earned - loss : 0;
+        }
+
+        userSupplyIndices[user] = supplyIndex;
+    }
+}
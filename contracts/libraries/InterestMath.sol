@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+
+/**
+ * @title InterestMath
+ * @notice Per-second compounding shared by the variable index, stable debt and the lens
+ * @dev Internal functions only, so it is inlined rather than linked. Rates are annual rates in
+ *      basis points, so 500 accrues 5% a year, matching what the rate models and the app show.
+ */
+library InterestMath {
+    using SafeMath for uint256;
+
+    uint256 internal constant WAD = 1e18;
+    uint256 internal constant RAY = 1e27; // Per-second rates are tiny, keep them at higher precision
+    uint256 internal constant WAD_RAY_RATIO = 1e9;
+    uint256 internal constant SECONDS_PER_YEAR = 365 days;
+    uint256 internal constant BASIS_POINTS = 10000;
+
+    /**
+     * @notice Convert an annual rate to a per-second rate
+     * @param annualRate The annual rate in basis points
+     * @return The per-second rate, scaled by 1e27
+     */
+    function ratePerSecond(uint256 annualRate) internal pure returns (uint256) {
+        return annualRate.mul(RAY).div(SECONDS_PER_YEAR).div(BASIS_POINTS);
+    }
+
+    /**
+     * @notice Growth factor of a balance compounding every second, (1 + r)^t
+     * @dev First three terms of the binomial expansion. Slightly under the exact value,
+     *      by at most (r*t)^4 / 24, so any split of the same period accrues nearly the same.
+     * @param annualRate The annual rate in basis points
+     * @param elapsed The number of seconds to compound over
+     * @return The growth factor, scaled by 1e18
+     */
+    function compoundedGrowth(uint256 annualRate, uint256 elapsed) internal pure returns (uint256) {
+        if (elapsed == 0) return WAD;
+
+        uint256 rate = ratePerSecond(annualRate);
+        uint256 rateSquared = rate.mul(rate).div(RAY);
+
+        // 1 + t*r + t(t-1)/2 * r^2 + t(t-1)(t-2)/6 * r^3
+        // r^3 alone rounds to a few units at basis-point rates, so it is only scaled down after the multiply
+        uint256 secondTerm = elapsed.mul(elapsed - 1).mul(rateSquared).div(2);
+        uint256 thirdTerm = elapsed > 1
+            ? elapsed.mul(elapsed - 1).mul(elapsed - 2).mul(rateSquared).mul(rate).div(RAY).div(6)
+            : 0;
+
+        return RAY.add(rate.mul(elapsed)).add(secondTerm).add(thirdTerm).div(WAD_RAY_RATIO);
+    }
+
+    /**
+     * @notice Interest on an amount compounding every second since a timestamp
+     * @param amount The balance the interest accrues on
+     * @param annualRate The annual rate in basis points
+     * @param since The timestamp interest was last booked at
+     * @return The interest accrued up to the current block
+     */
+    function interestSince(uint256 amount, uint256 annualRate, uint256 since) internal view returns (uint256) {
+        if (amount == 0 || since >= block.timestamp) return 0;
+        return amount.mul(compoundedGrowth(annualRate, block.timestamp - since) - WAD).div(WAD);
+    }
+}
@@ -0,0 +1,236 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/IWETH.sol";
+import "../interfaces/IPriceOracle.sol";
+import "../interfaces/IPriceOracleSentinel.sol";
+import "./DataTypes.sol";
+
+/**
+ * @title LiquidationLogic
+ * @notice Liquidation and bad debt write-off for EnhancedLendingProtocol
+ * @dev Linked as an external library so the core stays under the contract size limit. The protocol
+ *      accrues interest and measures the position before calling in; state is passed by storage reference.
+ */
+library LiquidationLogic {
+    using SafeMath for uint256;
+
+    uint256 internal constant BASIS_POINTS = 10000;
+    uint256 internal constant LIQUIDATION_CLOSE_FACTOR = 5000; // 50% in basis points
+    uint256 internal constant INITIAL_INTEREST_INDEX = 1e18;
+
+    struct LiquidationParams {
+        address borrower;
+        address debtToken;
+        address collateralToken;
+        uint256 amount;
+        uint256 stableDebt; // The borrower's current stable-rate debt in debtToken
+        uint256 liquidationPenalty; // Of the collateral market, in basis points
+        uint256 healthFactor; // The borrower's liquidation health factor, in basis points
+        uint8 debtDecimals;
+        uint8 collateralDecimals;
+        IPriceOracle priceOracle;
+        IWETH weth;
+        IPriceOracleSentinel priceSentinel; // address(0) when the circuit breaker is disabled
+    }
+
+    event Liquidate(
+        address indexed liquidator,
+        address indexed borrower,
+        address indexed token,
+        uint256 amount,
+        uint256 collateralToken
+    );
+    event CollateralSeized(
+        address indexed borrower,
+        address indexed collateralToken,
+        address indexed liquidator,
+        uint256 amount
+    );
+    event BadDebtRealized(
+        address indexed borrower,
+        address indexed token,
+        uint256 amount,
+        uint256 coveredByReserves,
+        uint256 socializedLoss
+    );
+
+    /**
+     * @notice Repay part of an unhealthy position's debt and seize collateral plus the liquidation bonus
+     * @dev Reverts while the price sentinel flags either market or the position is healthy.
+     *      Variable debt is repaid before stable debt. The stable part is returned for the protocol to book.
+     * @param debtPosition The borrower's position in the debt market
+     * @param collateralPosition The borrower's position in the collateral market
+     * @param totalBorrows The protocol's variable borrows per market
+     * @param totalDeposits The protocol's deposits per market
+     * @param params The liquidation parameters
+     * @return stableRepaid The amount of stable debt the liquidator repaid
+     */
+    function executeLiquidation(
+        UserPosition storage debtPosition,
+        UserPosition storage collateralPosition,
+        mapping(address => uint256) storage totalBorrows,
+        mapping(address => uint256) storage totalDeposits,
+        LiquidationParams memory params
+    ) external returns (uint256 stableRepaid) {
+        uint256 amount = params.amount;
+        require(amount > 0, "Amount must be > 0");
+
+        // Liquidations halt while either price has jumped implausibly
+        if (address(params.priceSentinel) != address(0)) {
+            require(
+                params.priceSentinel.checkReferencePrice(params.debtToken) &&
+                    params.priceSentinel.checkReferencePrice(params.collateralToken),
+                "Price deviation too high"
+            );
+        }
+        require(params.healthFactor < BASIS_POINTS, "Position not liquidatable");
+
+        uint256 maxLiquidation = debtPosition.borrowAmount
+            .add(params.stableDebt)
+            .mul(LIQUIDATION_CLOSE_FACTOR)
+            .div(BASIS_POINTS);
+        require(amount <= maxLiquidation, "Amount too high");
+
+        // Calculate collateral to seize from the chosen market
+        uint256 collateralToSeize = calculateCollateralToSeize(params);
+        require(collateralToSeize <= collateralPosition.depositAmount, "Insufficient collateral in market");
+        require(
+            collateralToSeize <= IERC20(params.collateralToken).balanceOf(address(this)),
+            "Insufficient liquidity in market"
+        );
+
+        // Transfer tokens
+        if (params.debtToken == address(params.weth)) {
+            require(msg.value == amount, "Invalid ETH amount");
+            params.weth.deposit{value: amount}();
+        } else {
+            require(msg.value == 0, "ETH not accepted");
+            require(IERC20(params.debtToken).transferFrom(msg.sender, address(this), amount), "Transfer failed");
+        }
+
+        // Update state, variable debt is repaid before stable debt
+        uint256 variableRepaid = amount < debtPosition.borrowAmount ? amount : debtPosition.borrowAmount;
+        debtPosition.borrowAmount = debtPosition.borrowAmount.sub(variableRepaid);
+        totalBorrows[params.debtToken] = subOrZero(totalBorrows[params.debtToken], variableRepaid);
+        if (debtPosition.borrowAmount == 0) {
+            debtPosition.interestIndex = 0;
+        }
+        stableRepaid = amount - variableRepaid;
+
+        collateralPosition.depositAmount = collateralPosition.depositAmount.sub(collateralToSeize);
+        totalDeposits[params.collateralToken] = subOrZero(totalDeposits[params.collateralToken], collateralToSeize);
+
+        // Transfer seized collateral to liquidator
+        require(IERC20(params.collateralToken).transfer(msg.sender, collateralToSeize), "Transfer failed");
+
+        emit Liquidate(msg.sender, params.borrower, params.debtToken, amount, collateralToSeize);
+        emit CollateralSeized(params.borrower, params.collateralToken, msg.sender, collateralToSeize);
+    }
+
+    /**
+     * @notice Write off one market of an account whose collateral is gone
+     * @dev The loss is covered by the market's reserves first, the rest is spread across its suppliers
+     * @param position The borrower's position in the market
+     * @param token The token address
+     * @param borrower The borrower address, for the event
+     * @param stableDebt The stable debt already removed from the borrower's balance
+     * @param totalBorrows The protocol's variable borrows per market
+     * @param totalDeposits The protocol's deposits per market
+     * @param totalReserves The protocol's reserves per market
+     * @param supplyIndices The protocol's supply indices per market
+     */
+    function writeOffBadDebt(
+        UserPosition storage position,
+        address token,
+        address borrower,
+        uint256 stableDebt,
+        mapping(address => uint256) storage totalBorrows,
+        mapping(address => uint256) storage totalDeposits,
+        mapping(address => uint256) storage totalReserves,
+        mapping(address => uint256) storage supplyIndices
+    ) external {
+        // Collateral dust left after liquidation goes to reserves
+        uint256 dust = position.depositAmount;
+        if (dust > 0) {
+            position.depositAmount = 0;
+            totalDeposits[token] = subOrZero(totalDeposits[token], dust);
+            totalReserves[token] = totalReserves[token].add(dust);
+        }
+
+        uint256 variableDebt = position.borrowAmount;
+        uint256 debt = variableDebt.add(stableDebt);
+        if (debt == 0) return;
+
+        position.borrowAmount = 0;
+        position.interestIndex = 0;
+        totalBorrows[token] = subOrZero(totalBorrows[token], variableDebt);
+
+        uint256 coveredByReserves = debt < totalReserves[token] ? debt : totalReserves[token];
+        totalReserves[token] = totalReserves[token].sub(coveredByReserves);
+
+        uint256 socializedLoss = debt.sub(coveredByReserves);
+        if (socializedLoss > 0) {
+            socializeLoss(token, socializedLoss, totalDeposits, supplyIndices);
+        }
+
+        emit BadDebtRealized(borrower, token, debt, coveredByReserves, socializedLoss);
+    }
+
+    /**
+     * @notice Calculate collateral to seize in liquidation
+     * @param params The liquidation parameters
+     * @return The amount of collateral to seize, in the collateral token's decimals
+     */
+    function calculateCollateralToSeize(LiquidationParams memory params) internal view returns (uint256) {
+        uint256 liquidationBonus = BASIS_POINTS.add(params.liquidationPenalty);
+        uint256 debtPrice = params.priceOracle.getPrice(params.debtToken);
+        uint256 collateralPrice = params.priceOracle.getPrice(params.collateralToken);
+
+        return params.amount
+            .mul(debtPrice)
+            .div(10 ** params.debtDecimals)
+            .mul(liquidationBonus)
+            .mul(10 ** params.collateralDecimals)
+            .div(collateralPrice)
+            .div(BASIS_POINTS);
+    }
+
+    /**
+     * @notice Spread a loss across a market's suppliers by shrinking the supply index
+     * @param token The token address
+     * @param loss The amount depositors can no longer be paid
+     * @param totalDeposits The protocol's deposits per market
+     * @param supplyIndices The protocol's supply indices per market
+     */
+    function socializeLoss(
+        address token,
+        uint256 loss,
+        mapping(address => uint256) storage totalDeposits,
+        mapping(address => uint256) storage supplyIndices
+    ) internal {
+        uint256 deposits = totalDeposits[token];
+        if (deposits == 0) return;
+        if (loss > deposits) loss = deposits;
+
+        uint256 currentIndex = supplyIndices[token];
+        if (currentIndex == 0) {
+            currentIndex = INITIAL_INTEREST_INDEX;
+        }
+
+        uint256 newIndex = currentIndex.mul(deposits.sub(loss)).div(deposits);
+        // Zero would read as "uninitialized", keep the smallest valid index instead
+        supplyIndices[token] = newIndex > 0 ? newIndex : 1;
+        totalDeposits[token] = deposits.sub(loss);
+    }
+
+    /**
+     * @dev Market totals are booked eagerly while user balances round down lazily,
+     *      so the last exit from a market may ask for a few wei more than the total
+     */
+    function subOrZero(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a > b ? a - b : 0;
+    }
+}
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "./DataTypes.sol";
+
+/**
+ * @title MarketConfigLogic
+ * @notice Market configuration and listing for EnhancedLendingProtocol
+ * @dev Linked as an external library so the core stays under the contract size limit
+ */
+library MarketConfigLogic {
+    using SafeMath for uint256;
+
+    uint256 internal constant BASIS_POINTS = 10000;
+
+    struct TokenConfigParams {
+        address token;
+        bool isSupported;
+        uint256 collateralFactor;
+        uint256 liquidationThreshold;
+        uint256 liquidationPenalty;
+        uint256 interestRate;
+    }
+
+    event TokenConfigUpdated(address indexed token, TokenConfig config);
+    event TokenListed(address indexed token, uint8 decimals);
+    event TokenDelisted(address indexed token);
+    event InterestRateModelUpdated(address indexed token, address indexed model);
+    event ReserveFactorUpdated(address indexed token, uint256 reserveFactor);
+    event ReservesWithdrawn(address indexed token, address indexed to, uint256 amount);
+    event FlashLoanFeeUpdated(address indexed token, uint256 flashLoanFee);
+    event MarketCapsUpdated(address indexed token, uint256 supplyCap, uint256 borrowCap);
+
+    /**
+     * @notice Update a market's risk parameters and list it the first time it is enabled
+     * @dev Rate model, reserve factor, flash loan fee and caps have their own setters and are kept
+     * @param configs The protocol's market configurations
+     * @param isListed The protocol's listed flags
+     * @param tokenDecimals The protocol's cached ERC-20 decimals
+     * @param listedTokens The protocol's listed markets
+     * @param params The new parameters
+     */
+    function setTokenConfig(
+        mapping(address => TokenConfig) storage configs,
+        mapping(address => bool) storage isListed,
+        mapping(address => uint8) storage tokenDecimals,
+        address[] storage listedTokens,
+        TokenConfigParams memory params
+    ) external {
+        address token = params.token;
+        require(token != address(0), "Invalid token address");
+        require(params.collateralFactor <= BASIS_POINTS, "Invalid collateral factor");
+        require(params.liquidationThreshold <= BASIS_POINTS, "Invalid liquidation threshold");
+
+        TokenConfig storage config = configs[token];
+        config.isSupported = params.isSupported;
+        config.collateralFactor = params.collateralFactor;
+        config.liquidationThreshold = params.liquidationThreshold;
+        config.liquidationPenalty = params.liquidationPenalty;
+        config.interestRate = params.interestRate;
+
+        // Add the market to the registry the first time it is enabled
+        if (params.isSupported && !isListed[token]) {
+            uint8 decimals = IERC20Metadata(token).decimals();
+            isListed[token] = true;
+            tokenDecimals[token] = decimals;
+            listedTokens.push(token);
+            emit TokenListed(token, decimals);
+        }
+
+        emit TokenConfigUpdated(token, config);
+    }
+
+    /**
+     * @notice Set the interest rate model of a market
+     * @param config The market's configuration
+     * @param token The token address
+     * @param model The rate model, or address(0) to fall back to the fixed interestRate
+     */
+    function setInterestRateModel(TokenConfig storage config, address token, address model) external {
+        config.interestRateModel = IInterestRateModel(model);
+        emit InterestRateModelUpdated(token, model);
+    }
+
+    /**
+     * @notice Set the share of borrower interest a market keeps as reserves
+     * @param config The market's configuration
+     * @param token The token address
+     * @param reserveFactor The reserve factor in basis points
+     */
+    function setReserveFactor(TokenConfig storage config, address token, uint256 reserveFactor) external {
+        require(reserveFactor <= BASIS_POINTS, "Invalid reserve factor");
+
+        config.reserveFactor = reserveFactor;
+        emit ReserveFactorUpdated(token, reserveFactor);
+    }
+
+    /**
+     * @notice Set the flash loan fee of a market
+     * @param config The market's configuration
+     * @param token The token address
+     * @param flashLoanFee The fee in basis points
+     */
+    function setFlashLoanFee(TokenConfig storage config, address token, uint256 flashLoanFee) external {
+        require(flashLoanFee <= BASIS_POINTS, "Invalid flash loan fee");
+
+        config.flashLoanFee = flashLoanFee;
+        emit FlashLoanFeeUpdated(token, flashLoanFee);
+    }
+
+    /**
+     * @notice Limit how much of a market can be supplied and borrowed
+     * @param config The market's configuration
+     * @param token The token address
+     * @param supplyCap Max total deposits in token units, 0 for no cap
+     * @param borrowCap Max total borrows in token units, 0 for no cap
+     */
+    function setMarketCaps(TokenConfig storage config, address token, uint256 supplyCap, uint256 borrowCap) external {
+        config.supplyCap = supplyCap;
+        config.borrowCap = borrowCap;
+        emit MarketCapsUpdated(token, supplyCap, borrowCap);
+    }
+
+    /**
+     * @notice Send accumulated reserves of a market out of the protocol
+     * @param totalReserves The protocol's reserves per market
+     * @param token The token address
+     * @param to The receiver of the reserves
+     * @param amount The amount to withdraw
+     */
+    function withdrawReserves(
+        mapping(address => uint256) storage totalReserves,
+        address token,
+        address to,
+        uint256 amount
+    ) external {
+        require(to != address(0), "Invalid receiver");
+        require(amount <= totalReserves[token], "Amount exceeds reserves");
+        require(amount <= IERC20(token).balanceOf(address(this)), "Insufficient liquidity");
+
+        totalReserves[token] = totalReserves[token].sub(amount);
+        require(IERC20(token).transfer(to, amount), "Transfer failed");
+
+        emit ReservesWithdrawn(token, to, amount);
+    }
+
+    /**
+     * @notice Drop a market from the registry
+     * @dev The caller checks that the market is disabled and fully unwound
+     * @param isListed The protocol's listed flags
+     * @param listedTokens The protocol's listed markets
+     * @param token The token to de-list
+     */
+    function delistToken(
+        mapping(address => bool) storage isListed,
+        address[] storage listedTokens,
+        address token
+    ) external {
+        uint256 length = listedTokens.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (listedTokens[i] == token) {
+                listedTokens[i] = listedTokens[length - 1];
+                listedTokens.pop();
+                break;
+            }
+        }
+
+        isListed[token] = false;
+        emit TokenDelisted(token);
+    }
+}
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "../interfaces/IPriceOracleSentinel.sol";
+import "./DataTypes.sol";
+import "./StableDebtLogic.sol";
+
+/**
+ * @title PositionLogic
+ * @notice Checks across all of a user's markets and moves positions between addresses for EnhancedLendingProtocol
+ * @dev Linked as an external library so the core stays under the contract size limit
+ */
+library PositionLogic {
+    event PositionMoved(address indexed from, address indexed to);
+
+    /**
+     * @notice Move the position of every listed market and the eMode category from one address to another
+     * @dev Balances move as they are, interest keeps accruing from the same indices
+     * @param positions The protocol's user positions, token => user => position
+     * @param supplyIndices The protocol's user supply indices, token => user => index
+     * @param stableDebts The protocol's user stable debts, token => user => debt
+     * @param eModeCategories The protocol's user eMode categories, user => categoryId
+     * @param tokens The listed markets
+     * @param from The address whose position is moved
+     * @param to The receiver, which must not hold a position in any market
+     */
+    function movePosition(
+        mapping(address => mapping(address => UserPosition)) storage positions,
+        mapping(address => mapping(address => uint256)) storage supplyIndices,
+        mapping(address => mapping(address => StableDebtLogic.UserStableDebt)) storage stableDebts,
+        mapping(address => uint8) storage eModeCategories,
+        address[] storage tokens,
+        address from,
+        address to
+    ) external {
+        require(to != address(0) && to != from, "Invalid receiver");
+        require(eModeCategories[to] == 0, "Receiver has a position");
+
+        for (uint i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            UserPosition storage receiverPosition = positions[token][to];
+            require(
+                receiverPosition.depositAmount == 0 &&
+                    receiverPosition.borrowAmount == 0 &&
+                    stableDebts[token][to].principal == 0,
+                "Receiver has a position"
+            );
+
+            positions[token][to] = positions[token][from];
+            supplyIndices[token][to] = supplyIndices[token][from];
+            stableDebts[token][to] = stableDebts[token][from];
+            delete positions[token][from];
+            delete supplyIndices[token][from];
+            delete stableDebts[token][from];
+        }
+
+        eModeCategories[to] = eModeCategories[from];
+        delete eModeCategories[from];
+
+        emit PositionMoved(from, to);
+    }
+
+    /**
+     * @notice Revert if any market the user has a position in is priced by a stale oracle update
+     * @param positions The protocol's user positions, token => user => position
+     * @param stableDebts The protocol's user stable debts, token => user => debt
+     * @param tokens The listed markets
+     * @param sentinel The oracle circuit breaker
+     * @param user The user address
+     */
+    function requireFreshPrices(
+        mapping(address => mapping(address => UserPosition)) storage positions,
+        mapping(address => mapping(address => StableDebtLogic.UserStableDebt)) storage stableDebts,
+        address[] storage tokens,
+        IPriceOracleSentinel sentinel,
+        address user
+    ) external view {
+        for (uint i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            UserPosition storage position = positions[token][user];
+            if (position.depositAmount == 0 && position.borrowAmount == 0 && stableDebts[token][user].principal == 0) {
+                continue;
+            }
+
+            require(sentinel.isPriceFresh(token), "Stale price");
+        }
+    }
+}
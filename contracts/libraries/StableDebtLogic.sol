@@ -0,0 +1,219 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "./InterestMath.sol";
+
+/**
+ * @title StableDebtLogic
+ * @notice Stable-rate debt accounting for EnhancedLendingProtocol
+ * @dev Linked as an external library so the core stays under the contract size limit. All state
+ *      lives in the protocol and is passed in by storage reference. Each user's stable debt accrues
+ *      at their own rate; the market total accrues at the debt-weighted average of those rates.
+ */
+library StableDebtLogic {
+    using SafeMath for uint256;
+
+    uint256 internal constant BASIS_POINTS = 10000;
+
+    struct StableRateConfig {
+        bool enabled; // New stable borrows and swaps to stable allowed
+        uint256 rateSpread; // Premium over the variable rate for new stable debt, in basis points
+        uint256 rebalanceThreshold; // Drift from the current stable rate that allows a rebalance, in basis points
+    }
+
+    struct UserStableDebt {
+        uint256 principal; // Debt including interest booked up to lastUpdate
+        uint256 rate; // Annual rate in basis points, averaged over the user's stable borrows
+        uint256 lastUpdate;
+    }
+
+    struct MarketStableDebt {
+        uint256 totalDebt; // All stable debt of the market, including interest booked up to lastUpdate
+        uint256 averageRate; // Debt-weighted average of the users' rates, in basis points
+        uint256 lastUpdate;
+    }
+
+    event StableRateConfigUpdated(address indexed token, bool enabled, uint256 rateSpread, uint256 rebalanceThreshold);
+    event StableDebtUpdated(address indexed token, address indexed user, uint256 balance, uint256 rate);
+    event StableRateRebalanced(address indexed token, address indexed user, uint256 oldRate, uint256 newRate);
+
+    /**
+     * @notice Configure stable-rate borrowing for a market
+     * @param config The market's stable rate config
+     * @param token The token address, for the event
+     * @param enabled Whether new stable debt may be taken
+     * @param rateSpread Premium over the variable rate in basis points
+     * @param rebalanceThreshold Drift in basis points beyond which a user's rate can be rebalanced
+     */
+    function setConfig(
+        StableRateConfig storage config,
+        address token,
+        bool enabled,
+        uint256 rateSpread,
+        uint256 rebalanceThreshold
+    ) external {
+        require(rateSpread <= BASIS_POINTS, "Invalid rate spread");
+        require(rebalanceThreshold > 0, "Invalid rebalance threshold");
+
+        config.enabled = enabled;
+        config.rateSpread = rateSpread;
+        config.rebalanceThreshold = rebalanceThreshold;
+        emit StableRateConfigUpdated(token, enabled, rateSpread, rebalanceThreshold);
+    }
+
+    /**
+     * @notice Book the market's stable interest since its last update
+     * @param market The market's stable debt totals
+     * @return interest The interest to distribute to reserves and suppliers
+     */
+    function accrueMarket(MarketStableDebt storage market) external returns (uint256 interest) {
+        interest = pendingInterest(market);
+        market.totalDebt = market.totalDebt.add(interest);
+        market.lastUpdate = block.timestamp;
+    }
+
+    /**
+     * @notice Stable interest accrued since the market's last update that is not yet booked
+     * @param market The market's stable debt totals
+     * @return The pending interest
+     */
+    function getPendingInterest(MarketStableDebt storage market) external view returns (uint256) {
+        return pendingInterest(market);
+    }
+
+    /**
+     * @notice Get a user's stable debt including interest
+     * @param debt The user's stable debt
+     * @return The current balance
+     */
+    function balanceOf(UserStableDebt storage debt) external view returns (uint256) {
+        return currentBalance(debt);
+    }
+
+    /**
+     * @notice Add stable debt at the current stable rate
+     * @dev The market must be accrued to the current block first
+     * @param config The market's stable rate config
+     * @param market The market's stable debt totals
+     * @param debt The user's stable debt
+     * @param token The token address, for the event
+     * @param user The user address, for the event
+     * @param amount The amount borrowed
+     * @param variableRate The market's current variable rate in basis points
+     */
+    function borrow(
+        StableRateConfig storage config,
+        MarketStableDebt storage market,
+        UserStableDebt storage debt,
+        address token,
+        address user,
+        uint256 amount,
+        uint256 variableRate
+    ) external {
+        require(config.enabled, "Stable rate not enabled");
+        uint256 rate = variableRate.add(config.rateSpread);
+
+        // The user's rate becomes the average of their existing and new debt
+        uint256 balance = currentBalance(debt);
+        uint256 newBalance = balance.add(amount);
+        debt.rate = balance.mul(debt.rate).add(amount.mul(rate)).div(newBalance);
+        debt.principal = newBalance;
+        debt.lastUpdate = block.timestamp;
+
+        uint256 total = market.totalDebt;
+        market.averageRate = total.mul(market.averageRate).add(amount.mul(rate)).div(total.add(amount));
+        market.totalDebt = total.add(amount);
+
+        emit StableDebtUpdated(token, user, newBalance, debt.rate);
+    }
+
+    /**
+     * @notice Reduce a user's stable debt
+     * @dev The market must be accrued to the current block first
+     * @param market The market's stable debt totals
+     * @param debt The user's stable debt
+     * @param token The token address, for the event
+     * @param user The user address, for the event
+     * @param amount The amount to repay, capped at the user's balance
+     * @return repaid The amount of debt removed
+     */
+    function repay(
+        MarketStableDebt storage market,
+        UserStableDebt storage debt,
+        address token,
+        address user,
+        uint256 amount
+    ) external returns (uint256 repaid) {
+        uint256 balance = currentBalance(debt);
+        if (balance == 0) return 0;
+
+        repaid = amount < balance ? amount : balance;
+        uint256 rate = debt.rate;
+        debt.principal = balance - repaid;
+        debt.lastUpdate = block.timestamp;
+        if (debt.principal == 0) debt.rate = 0;
+
+        // Take the repaid debt out of the market average at the rate it was added with
+        uint256 total = market.totalDebt;
+        uint256 newTotal = total > repaid ? total - repaid : 0;
+        uint256 weightedRate = total.mul(market.averageRate);
+        uint256 repaidWeight = repaid.mul(rate);
+        market.averageRate = newTotal == 0 || weightedRate <= repaidWeight
+            ? 0
+            : (weightedRate - repaidWeight).div(newTotal);
+        market.totalDebt = newTotal;
+
+        emit StableDebtUpdated(token, user, debt.principal, debt.rate);
+    }
+
+    /**
+     * @notice Move a user's rate to the current stable rate once it has drifted too far from it
+     * @dev Protects suppliers when market rates rise and borrowers when they fall
+     * @param config The market's stable rate config
+     * @param market The market's stable debt totals
+     * @param debt The user's stable debt
+     * @param token The token address, for the event
+     * @param user The user address, for the event
+     * @param variableRate The market's current variable rate in basis points
+     */
+    function rebalance(
+        StableRateConfig storage config,
+        MarketStableDebt storage market,
+        UserStableDebt storage debt,
+        address token,
+        address user,
+        uint256 variableRate
+    ) external {
+        uint256 balance = currentBalance(debt);
+        require(balance > 0, "No stable debt");
+
+        uint256 oldRate = debt.rate;
+        uint256 newRate = variableRate.add(config.rateSpread);
+        uint256 drift = oldRate > newRate ? oldRate - newRate : newRate - oldRate;
+        require(drift > config.rebalanceThreshold, "Rate within threshold");
+
+        debt.principal = balance;
+        debt.rate = newRate;
+        debt.lastUpdate = block.timestamp;
+
+        // Same debt, new weight in the market average
+        uint256 total = market.totalDebt;
+        if (total > 0) {
+            uint256 weightedRate = total.mul(market.averageRate).add(balance.mul(newRate));
+            uint256 oldWeight = balance.mul(oldRate);
+            market.averageRate = weightedRate > oldWeight ? (weightedRate - oldWeight).div(total) : 0;
+        }
+
+        emit StableRateRebalanced(token, user, oldRate, newRate);
+    }
+
+    // Compounds per second like the variable index, so equal rates accrue equally in both modes
+    function currentBalance(UserStableDebt storage debt) internal view returns (uint256) {
+        return debt.principal.add(InterestMath.interestSince(debt.principal, debt.rate, debt.lastUpdate));
+    }
+
+    function pendingInterest(MarketStableDebt storage market) internal view returns (uint256) {
+        return InterestMath.interestSince(market.totalDebt, market.averageRate, market.lastUpdate);
+    }
+}
@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/IWETH.sol";
+import "./DataTypes.sol";
+
+/**
+ * @title SupplyLogic
+ * @notice Deposit and withdrawal execution for EnhancedLendingProtocol
+ * @dev Linked as an external library so the core stays under the contract size limit. The protocol
+ *      accrues interest before calling in and checks the health factor between booking and paying out
+ *      a withdrawal.
+ */
+library SupplyLogic {
+    using SafeMath for uint256;
+
+    event Deposit(address indexed token, address indexed user, uint256 amount);
+    event Withdraw(address indexed token, address indexed user, uint256 amount);
+
+    /**
+     * @notice Take a deposit and credit it to the position
+     * @dev WETH is deposited by sending ETH with msg.value equal to the amount, or as WETH tokens
+     *      pulled with transferFrom when no ETH is sent (multicall batches cannot carry ETH)
+     * @param position The user's position in the market
+     * @param totalDeposits The protocol's deposits per market
+     * @param token The token to deposit
+     * @param user The user depositing, who pays and is credited
+     * @param amount The amount to deposit
+     * @param supplyCap The market's supply cap, 0 for no cap
+     * @param weth The WETH token
+     */
+    function executeDeposit(
+        UserPosition storage position,
+        mapping(address => uint256) storage totalDeposits,
+        address token,
+        address user,
+        uint256 amount,
+        uint256 supplyCap,
+        IWETH weth
+    ) external {
+        if (token == address(weth) && msg.value > 0) {
+            require(msg.value == amount, "Invalid ETH amount");
+            weth.deposit{value: amount}();
+        } else {
+            require(msg.value == 0, "ETH not accepted");
+            require(IERC20(token).transferFrom(user, address(this), amount), "Transfer failed");
+        }
+
+        position.depositAmount = position.depositAmount.add(amount);
+
+        totalDeposits[token] = totalDeposits[token].add(amount);
+        require(supplyCap == 0 || totalDeposits[token] <= supplyCap, "Supply cap exceeded");
+
+        emit Deposit(token, user, amount);
+    }
+
+    /**
+     * @notice Take a withdrawal off the position, before the protocol's health check
+     * @param position The user's position in the market
+     * @param totalDeposits The protocol's deposits per market
+     * @param token The token to withdraw
+     * @param amount The amount to withdraw, or type(uint256).max for the whole deposit
+     * @return The amount withdrawn
+     */
+    function bookWithdrawal(
+        UserPosition storage position,
+        mapping(address => uint256) storage totalDeposits,
+        address token,
+        uint256 amount
+    ) external returns (uint256) {
+        // type(uint256).max withdraws the whole deposit including yield already booked
+        if (amount == type(uint256).max) amount = position.depositAmount;
+        require(amount <= position.depositAmount, "Insufficient balance");
+
+        position.depositAmount = position.depositAmount.sub(amount);
+        uint256 deposits = totalDeposits[token];
+        totalDeposits[token] = deposits > amount ? deposits - amount : 0;
+        return amount;
+    }
+
+    /**
+     * @notice Pay out a booked withdrawal, WETH as ETH
+     * @param token The token withdrawn
+     * @param user The user receiving the withdrawal
+     * @param amount The amount withdrawn
+     * @param weth The WETH token
+     */
+    function payOutWithdrawal(address token, address user, uint256 amount, IWETH weth) external {
+        if (token == address(weth)) {
+            weth.withdraw(amount);
+            (bool success, ) = user.call{value: amount}("");
+            require(success, "ETH transfer failed");
+        } else {
+            require(IERC20(token).transfer(user, amount), "Transfer failed");
+        }
+
+        emit Withdraw(token, user, amount);
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "../interfaces/IPriceOracle.sol";
+
+/**
+ * @title MockBrokenPriceFeed
+ * @notice A price feed whose every call reverts, for testing how consumers handle a dead feed
+ */
+contract MockBrokenPriceFeed is IPriceOracle {
+    function getPrice(address) external pure override returns (uint256) {
+        revert("Feed is down");
+    }
+
+    function getLastUpdateTime(address) external pure override returns (uint256) {
+        revert("Feed is down");
+    }
+
+    function updatePrice(address, uint256) external pure override {
+        revert("Feed is down");
+    }
+}
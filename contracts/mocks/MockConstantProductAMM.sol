@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/ISwapAdapter.sol";
+
+// x * y = k pool for a single token pair with a 0.3% fee, so collateral swaps can be exercised locally
+contract MockConstantProductAMM is ISwapAdapter, ReentrancyGuard {
+    using SafeMath for uint256;
+
+    IERC20 public token0;
+    IERC20 public token1;
+    uint256 public reserve0;
+    uint256 public reserve1;
+
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant FEE = 30;
+
+    event LiquidityAdded(address indexed provider, uint256 amount0, uint256 amount1);
+    event Swapped(address indexed sender, address indexed tokenIn, uint256 amountIn, uint256 amountOut);
+
+    constructor(address _token0, address _token1) {
+        require(_token0 != _token1, "Identical tokens");
+        token0 = IERC20(_token0);
+        token1 = IERC20(_token1);
+    }
+
+    function addLiquidity(uint256 amount0, uint256 amount1) external nonReentrant {
+        require(token0.transferFrom(msg.sender, address(this), amount0), "Transfer failed");
+        require(token1.transferFrom(msg.sender, address(this), amount1), "Transfer failed");
+        reserve0 = reserve0.add(amount0);
+        reserve1 = reserve1.add(amount1);
+
+        emit LiquidityAdded(msg.sender, amount0, amount1);
+    }
+
+    function getAmountOut(address tokenIn, address tokenOut, uint256 amountIn) public view returns (uint256) {
+        (uint256 reserveIn, uint256 reserveOut) = getReserves(tokenIn, tokenOut);
+        uint256 amountInWithFee = amountIn.mul(BASIS_POINTS - FEE);
+        return amountInWithFee.mul(reserveOut).div(reserveIn.mul(BASIS_POINTS).add(amountInWithFee));
+    }
+
+    function swap(address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut)
+        external
+        nonReentrant
+        returns (uint256 amountOut)
+    {
+        require(amountIn > 0, "Amount must be > 0");
+        amountOut = getAmountOut(tokenIn, tokenOut, amountIn);
+        require(amountOut > 0 && amountOut >= minAmountOut, "Insufficient output amount");
+
+        require(IERC20(tokenOut).transfer(msg.sender, amountOut), "Transfer failed");
+        ISwapCallback(msg.sender).onSwap(tokenIn, tokenOut, amountIn, amountOut);
+        require(IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn), "Transfer failed");
+
+        if (tokenIn == address(token0)) {
+            reserve0 = reserve0.add(amountIn);
+            reserve1 = reserve1.sub(amountOut);
+        } else {
+            reserve1 = reserve1.add(amountIn);
+            reserve0 = reserve0.sub(amountOut);
+        }
+
+        emit Swapped(msg.sender, tokenIn, amountIn, amountOut);
+    }
+
+    function getReserves(address tokenIn, address tokenOut)
+        internal
+        view
+        returns (uint256 reserveIn, uint256 reserveOut)
+    {
+        if (tokenIn == address(token0) && tokenOut == address(token1)) return (reserve0, reserve1);
+        if (tokenIn == address(token1) && tokenOut == address(token0)) return (reserve1, reserve0);
+        revert("Unsupported pair");
+    }
+}
@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC3156FlashBorrower.sol";
+import "@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol";
+
+contract MockFlashBorrower is IERC3156FlashBorrower {
+    bytes32 public constant CALLBACK_SUCCESS = keccak256("ERC3156FlashBorrower.onFlashLoan");
+
+    IERC3156FlashLender public immutable lender;
+
+    // For testing - switch off repayment to check the lender reverts
+    bool public repayLoan = true;
+    // For testing - call back into the lender from inside the callback to check its reentrancy lock
+    bytes public reentryCall;
+
+    // Values seen in the last callback
+    uint256 public lastAmount;
+    uint256 public lastFee;
+    uint256 public balanceDuringLoan;
+
+    constructor(address _lender) {
+        lender = IERC3156FlashLender(_lender);
+    }
+
+    function setRepayLoan(bool _repayLoan) external {
+        repayLoan = _repayLoan;
+    }
+
+    function setReentryCall(bytes calldata _reentryCall) external {
+        reentryCall = _reentryCall;
+    }
+
+    function flashBorrow(address token, uint256 amount) external {
+        lender.flashLoan(this, token, amount, "");
+    }
+
+    function onFlashLoan(
+        address initiator,
+        address token,
+        uint256 amount,
+        uint256 fee,
+        bytes calldata
+    ) external returns (bytes32) {
+        require(msg.sender == address(lender), "Untrusted lender");
+        require(initiator == address(this), "Untrusted initiator");
+
+        lastAmount = amount;
+        lastFee = fee;
+        balanceDuringLoan = IERC20(token).balanceOf(address(this));
+
+        if (reentryCall.length > 0) {
+            (bool success, bytes memory result) = address(lender).call(reentryCall);
+            if (!success) {
+                // Bubble up the lender's revert reason
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+        }
+
+        if (repayLoan) {
+            IERC20(token).approve(address(lender), amount + fee);
+        }
+        return CALLBACK_SUCCESS;
+    }
+}
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "../interfaces/ISwapAdapter.sol";
+
+// Swap adapter that misbehaves in a chosen way, so CollateralSwap's checks on its adapter can be tested.
+// Pays out at a fixed rate from its own balance, which the test funds.
+contract MockMaliciousSwapAdapter is ISwapAdapter {
+    using SafeMath for uint256;
+
+    enum Attack {
+        None,
+        InflateInput, // calls back claiming twice the requested input
+        Underpay, // reports the full output but pays half
+        SkipCallback, // pays out and returns without calling back or collecting
+        CallbackTwice, // pays out and calls back a second time
+        Underpull // collects only half of the approved input
+    }
+
+    Attack public attack;
+    uint256 public rate; // tokenOut per 1e18 units of tokenIn
+
+    constructor(uint256 _rate) {
+        rate = _rate;
+    }
+
+    function setAttack(Attack _attack) external {
+        attack = _attack;
+    }
+
+    function getAmountOut(address, address, uint256 amountIn) public view returns (uint256) {
+        return amountIn.mul(rate).div(1e18);
+    }
+
+    function swap(address tokenIn, address tokenOut, uint256 amountIn, uint256)
+        external
+        returns (uint256 amountOut)
+    {
+        amountOut = getAmountOut(tokenIn, tokenOut, amountIn);
+        uint256 paid = attack == Attack.Underpay ? amountOut / 2 : amountOut;
+        require(IERC20(tokenOut).transfer(msg.sender, paid), "Transfer failed");
+        if (attack == Attack.SkipCallback) return amountOut;
+
+        uint256 claimedIn = attack == Attack.InflateInput ? amountIn.mul(2) : amountIn;
+        ISwapCallback(msg.sender).onSwap(tokenIn, tokenOut, claimedIn, amountOut);
+        if (attack == Attack.CallbackTwice) {
+            require(IERC20(tokenOut).transfer(msg.sender, amountOut), "Transfer failed");
+            ISwapCallback(msg.sender).onSwap(tokenIn, tokenOut, claimedIn, amountOut);
+        }
+
+        uint256 pulled = attack == Attack.Underpull ? claimedIn / 2 : claimedIn;
+        require(IERC20(tokenIn).transferFrom(msg.sender, address(this), pulled), "Transfer failed");
+    }
+}
@@ -2,10 +2,12 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
-contract MockUSDC is ERC20, Ownable {
-    constructor() ERC20("USD Coin", "USDC") {
+// EIP-2612 permit so depositWithPermit and repayWithPermit can be exercised locally
+contract MockUSDC is ERC20, ERC20Permit, Ownable {
+    constructor() ERC20("USD Coin", "USDC") ERC20Permit("USD Coin") {
         // Mint more initial supply to owner for reward distribution
         _mint(msg.sender, 10000000 * 10**6); // 10M USDC for rewards
     }
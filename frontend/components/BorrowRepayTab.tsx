@@ -1,9 +1,24 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { getContracts } from '../utils/web3';
+import {
+    getMarketOptions,
+    parseMarketAmount,
+    formatMarketAmount,
+    formatCapHeadroom,
+    exceedsCapHeadroom,
+    getStaleMarkets,
+    formatStalePriceWarning,
+    getPauseStatus,
+    getPauseReason,
+    MarketOption,
+    MarketPauseStatus,
+    ERC20_APPROVE_ABI
+} from '../utils/markets';
+import { signPermit } from '../utils/permit';
 import { EnhancedLendingProtocol } from "../../typechain/contracts/core/EnhancedLendingProtocol";
 import { MockWETH } from "../../typechain/contracts/mocks/MockWETH";
 
@@ -35,10 +50,21 @@ interface Balances {
     weth: string;
 }
 
+type RateMode = 'variable' | 'stable';
+
+// A position NFT opened by the LeverageRouter, amounts in ETH
+interface LeveragedPosition {
+    tokenId: string;
+    collateral: string;
+    debt: string;
+    healthFactor: string;
+}
+
 interface BorrowRepayTabProps {
     account: string;
     provider: ethers.providers.Web3Provider | null;
     wethAddress: string | null;
+    usdcAddress: string | null;
     wethContract: MockWETH | null;
     lendingProtocol: EnhancedLendingProtocol | null;
     loading: boolean;
@@ -92,6 +118,7 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
     account,
     provider,
     wethAddress,
+    usdcAddress,
     wethContract,
     lendingProtocol,
     loading,
@@ -115,9 +142,164 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
     const [diagnosticsLoading, setDiagnosticsLoading] = useState(false);
     const [interestDiagnostics, setInterestDiagnostics] = useState<any>(null);
     const [detailedInterest, setDetailedInterest] = useState<any>(null);
+    const [selectedSymbol, setSelectedSymbol] = useState('WETH');
+    const [borrowHeadroom, setBorrowHeadroom] = useState<ethers.BigNumber | null>(null);
+    const [staleMarkets, setStaleMarkets] = useState<MarketOption[]>([]);
+    const [rateMode, setRateMode] = useState<RateMode>('variable');
+    const [variableDebt, setVariableDebt] = useState<ethers.BigNumber | null>(null);
+    const [stableDebt, setStableDebt] = useState<ethers.BigNumber | null>(null);
+    const [stableDiagnostics, setStableDiagnostics] = useState<any>(null);
+    const [pauseStatuses, setPauseStatuses] = useState<Record<string, MarketPauseStatus | null>>({});
+    const [leverageAvailable, setLeverageAvailable] = useState(false);
+    const [leverageAmount, setLeverageAmount] = useState('');
+    const [targetLeverage, setTargetLeverage] = useState('2');
+    const [minHealthFactor, setMinHealthFactor] = useState('1.1');
+    const [wethLiquidationThreshold, setWethLiquidationThreshold] = useState<number | null>(null);
+    const [leveragedPositions, setLeveragedPositions] = useState<LeveragedPosition[]>([]);
+
+    const markets = getMarketOptions(wethAddress, usdcAddress);
+    const selectedMarket = markets.find(m => m.symbol === selectedSymbol) || markets[0];
+
+    const loadBorrowHeadroom = async () => {
+        if (!provider || !selectedMarket) return;
+        try {
+            const { lendingLens } = await getContracts(provider);
+            if (!lendingLens) {
+                setBorrowHeadroom(null);
+                return;
+            }
+            const headroom = await lendingLens.getCapHeadroom(selectedMarket.address);
+            setBorrowHeadroom(headroom.borrowHeadroom);
+        } catch (err) {
+            console.error('Failed to load borrow cap:', err);
+            setBorrowHeadroom(null);
+        }
+    };
+
+    const loadStaleMarkets = async () => {
+        if (!provider || !account) return;
+        try {
+            const { lendingProtocol, priceSentinel } = await getContracts(provider);
+            setStaleMarkets(await getStaleMarkets(lendingProtocol, priceSentinel, markets, account));
+        } catch (err) {
+            console.error('Failed to load oracle price status:', err);
+            setStaleMarkets([]);
+        }
+    };
+
+    // Repay All & Withdraw touches every market, so load the pause state of all of them
+    const loadPauseStatuses = async () => {
+        if (!provider) return;
+        try {
+            const { lendingLens } = await getContracts(provider);
+            const statuses = await Promise.all(markets.map(market => getPauseStatus(lendingLens, market)));
+            setPauseStatuses(Object.fromEntries(markets.map((market, i) => [market.symbol, statuses[i]])));
+        } catch (err) {
+            console.error('Failed to load pause status:', err);
+            setPauseStatuses({});
+        }
+    };
+
+    // Debt in the selected market, split by rate mode
+    const loadDebts = async () => {
+        if (!provider || !account || !selectedMarket) return;
+        try {
+            const { lendingProtocol } = await getContracts(provider);
+            setVariableDebt(await lendingProtocol.getCurrentBorrowAmount(selectedMarket.address, account));
+            setStableDebt(await lendingProtocol.getCurrentStableBorrowAmount(selectedMarket.address, account));
+        } catch (err) {
+            console.error('Failed to load debt by rate mode:', err);
+            setVariableDebt(null);
+            setStableDebt(null);
+        }
+    };
+
+    // Leveraged positions live in position NFTs; list the caller's NFTs that carry WETH debt
+    const loadLeveragedPositions = async () => {
+        if (!provider || !account || !wethAddress) return;
+        try {
+            const { lendingProtocol, positionManager, leverageRouter } = await getContracts(provider);
+            setLeverageAvailable(positionManager !== null && leverageRouter !== null);
+            if (!positionManager || !leverageRouter) {
+                setLeveragedPositions([]);
+                return;
+            }
+
+            const config = await lendingProtocol.tokenConfigs(wethAddress);
+            setWethLiquidationThreshold(config.liquidationThreshold.toNumber());
+
+            const tokenIds = await positionManager.tokensOfOwner(account);
+            const loaded = await Promise.all(tokenIds.map(async (tokenId) => {
+                const positionAccount = await positionManager.positionAccount(tokenId);
+                const [collateral, debt, healthFactor] = await Promise.all([
+                    lendingProtocol.getCurrentDepositAmount(wethAddress, positionAccount),
+                    lendingProtocol.getCurrentBorrowAmount(wethAddress, positionAccount),
+                    lendingProtocol.getLiquidationHealthFactor(positionAccount)
+                ]);
+                return { tokenId, collateral, debt, healthFactor };
+            }));
+
+            setLeveragedPositions(loaded
+                .filter(position => position.debt.gt(0))
+                .map(position => ({
+                    tokenId: position.tokenId.toString(),
+                    collateral: ethers.utils.formatEther(position.collateral),
+                    debt: ethers.utils.formatEther(position.debt),
+                    healthFactor: (parseFloat(position.healthFactor.toString()) / 10000).toFixed(2)
+                })));
+        } catch (err) {
+            console.error('Failed to load leveraged positions:', err);
+            setLeveragedPositions([]);
+        }
+    };
+
+    useEffect(() => {
+        loadBorrowHeadroom();
+    }, [provider, selectedMarket?.address]);
+
+    useEffect(() => {
+        loadLeveragedPositions();
+    }, [provider, account, wethAddress, position]);
+
+    useEffect(() => {
+        loadDebts();
+    }, [provider, account, selectedMarket?.address, position]);
+
+    useEffect(() => {
+        loadStaleMarkets();
+        loadPauseStatuses();
+    }, [provider, account, position]);
+
+    const borrowOverCap = selectedMarket ? exceedsCapHeadroom(borrowAmount, borrowHeadroom, selectedMarket) : false;
+    const selectedPauseStatus = selectedMarket ? pauseStatuses[selectedMarket.symbol] ?? null : null;
+    const borrowPauseReason = selectedMarket ? getPauseReason(selectedPauseStatus, 'borrow', selectedMarket) : null;
+    const repayPauseReason = selectedMarket ? getPauseReason(selectedPauseStatus, 'repay', selectedMarket) : null;
+    const repayAllPauseReason = markets
+        .flatMap(market => [
+            getPauseReason(pauseStatuses[market.symbol] ?? null, 'repay', market),
+            getPauseReason(pauseStatuses[market.symbol] ?? null, 'withdraw', market)
+        ])
+        .find(reason => reason !== null) ?? null;
+    const deleveragePauseReason = repayPauseReason
+        ?? (selectedMarket ? getPauseReason(selectedPauseStatus, 'withdraw', selectedMarket) : null);
+
+    // Same-asset loop: collateral is leverage x the deposit and debt (leverage - 1) x, so prices cancel out
+    const leverageValue = parseFloat(targetLeverage);
+    const estimatedHealthFactor = wethLiquidationThreshold !== null && leverageValue > 1
+        ? (wethLiquidationThreshold / 10000) * leverageValue / (leverageValue - 1)
+        : null;
+    const leverageBelowMinimum = estimatedHealthFactor !== null && estimatedHealthFactor < parseFloat(minHealthFactor);
 
     const handleBorrow = async () => {
-        if (!provider || !borrowAmount || !wethAddress || !wethContract) return;
+        if (!provider || !borrowAmount || !selectedMarket || !wethContract) return;
+        if (staleMarkets.length > 0) {
+            setError(formatStalePriceWarning(staleMarkets, 'Borrowing'));
+            return;
+        }
+        if (borrowOverCap) {
+            setError(`Borrow exceeds the ${selectedMarket.symbol} borrow cap`);
+            return;
+        }
         setLoading(true);
         setError('');
         // Clear any previous success message
@@ -126,53 +308,57 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
         setTransactionInProgress(true);
         
         try {
-            logAction('BORROW_STARTED', { amount: borrowAmount });
+            logAction('BORROW_STARTED', { amount: borrowAmount, token: selectedMarket.symbol, rateMode });
             const { lendingProtocol } = await getContracts(provider);
             
             // Get user's position first
-            const position = await lendingProtocol.userPositions(wethAddress, account);
-            const depositedAmount = ethers.utils.formatEther(position.depositAmount);
+            const position = await lendingProtocol.userPositions(selectedMarket.address, account);
+            const depositedAmount = formatMarketAmount(position.depositAmount, selectedMarket);
             
             console.log('Borrow request:', {
+                token: selectedMarket.symbol,
                 userDeposit: depositedAmount,
                 attemptedBorrow: borrowAmount,
-                currentBorrow: ethers.utils.formatEther(position.borrowAmount)
+                currentBorrow: formatMarketAmount(position.borrowAmount, selectedMarket)
             });
 
-            // Validation checks
-            if (parseFloat(depositedAmount) === 0) {
+            // Same-asset validation only applies to WETH; other markets are
+            // usually collateralised by a different token, so leave it to the contract
+            if (selectedMarket.isNative && parseFloat(depositedAmount) === 0) {
                 const error = "You need to deposit collateral first before borrowing";
                 // Emit error to parent instead of direct logging
                 onTransactionError({
                     type: 'BORROW',
                     amount: borrowAmount,
                     error,
-                    token: wethAddress
+                    token: selectedMarket.address
                 });
                 throw new Error(error);
             }
 
             const maxBorrowAmount = parseFloat(depositedAmount) * 0.75; // 75% collateral factor
-            if (parseFloat(borrowAmount) > maxBorrowAmount) {
+            if (selectedMarket.isNative && parseFloat(borrowAmount) > maxBorrowAmount) {
                 const error = `Cannot borrow more than ${maxBorrowAmount.toFixed(4)} ETH (75% of your ${depositedAmount} ETH deposit)`;
                 // Emit error to parent instead of direct logging
                 onTransactionError({
                     type: 'BORROW',
                     amount: borrowAmount,
                     error,
-                    token: wethAddress
+                    token: selectedMarket.address
                 });
                 throw new Error(error);
             }
 
-            const tx = await lendingProtocol.borrow(
-                wethAddress,
-                ethers.utils.parseEther(borrowAmount)
-            );
+            const amountWei = parseMarketAmount(borrowAmount, selectedMarket);
+            const tx = rateMode === 'stable'
+                ? await lendingProtocol.borrowStable(selectedMarket.address, amountWei)
+                : await lendingProtocol.borrow(selectedMarket.address, amountWei);
             const receipt = await tx.wait();
             
             logAction('BORROW_COMPLETED', {
                 amount: borrowAmount,
+                token: selectedMarket.symbol,
+                rateMode,
                 txHash: receipt.transactionHash,
                 depositedAmount: depositedAmount
             });
@@ -189,19 +375,21 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
                 new Date(),
                 receipt.transactionHash,
                 receipt.blockNumber,
-                wethAddress || 'unknown',
+                selectedMarket.address,
                 currentChainId
             );
 
             await loadUserPosition(account, provider);
             await loadBalances();
+            await loadBorrowHeadroom();
+            await loadDebts();
             setBorrowAmount('');
             
             // Show success message
             setError(''); // Clear any existing error
             setSuccessMessage({
                 type: 'text',
-                content: `Successfully borrowed ${borrowAmount} ETH`
+                content: `Successfully borrowed ${borrowAmount} ${selectedMarket.isNative ? 'ETH' : selectedMarket.symbol} at a ${rateMode} rate`
             });
 
         } catch (err) {
@@ -216,7 +404,297 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
         }
     };
 
+    // Repayment for ERC-20 markets: plain approve + repay, no ETH fallback
+    const handleTokenRepay = async () => {
+        if (!provider || !repayAmount || !selectedMarket) return;
+        setLoading(true);
+        setError('');
+        setSuccessMessage(null);
+        setTransactionInProgress(true);
+
+        try {
+            logAction('REPAY_STARTED', { amount: repayAmount, token: selectedMarket.symbol });
+            const { lendingProtocol } = await getContracts(provider);
+            const signer = provider.getSigner();
+            const amountWei = parseMarketAmount(repayAmount, selectedMarket);
+
+            const currentBorrow = await lendingProtocol.getCurrentBorrowAmount(selectedMarket.address, account);
+            if (amountWei.gt(currentBorrow)) {
+                throw new Error("Cannot repay more than borrowed amount");
+            }
+
+            // Sign a permit rather than sending a separate approve when the token supports it
+            const token = new ethers.Contract(selectedMarket.address, ERC20_APPROVE_ABI, signer);
+            const allowance = await token.allowance(account, lendingProtocol.address);
+            const permit = allowance.lt(amountWei)
+                ? await signPermit(signer, selectedMarket.address, lendingProtocol.address, amountWei)
+                : null;
+
+            if (!permit && allowance.lt(amountWei)) {
+                const approveTx = await token.approve(lendingProtocol.address, amountWei);
+                await approveTx.wait();
+            }
+
+            const tx = permit
+                ? await lendingProtocol.repayWithPermit(
+                    selectedMarket.address,
+                    amountWei,
+                    permit.deadline,
+                    permit.v,
+                    permit.r,
+                    permit.s,
+                    { gasLimit: 500000 }
+                )
+                : await lendingProtocol.repay(selectedMarket.address, amountWei, { gasLimit: 500000 });
+            const receipt = await tx.wait();
+
+            await loadBalances();
+            await loadUserPosition(account, provider);
+            setRepayAmount('');
+            setSuccessMessage({
+                type: 'text',
+                content: `Repaid ${repayAmount} ${selectedMarket.symbol}`
+            });
+
+            logAction('REPAY_COMPLETED', {
+                amount: repayAmount,
+                token: selectedMarket.symbol,
+                txHash: receipt.transactionHash
+            });
+
+            const { logUserActivity } = await import('../../services/database');
+            const network = await provider.getNetwork();
+            await logUserActivity(
+                account,
+                'REPAY',
+                repayAmount,
+                new Date(),
+                receipt.transactionHash,
+                receipt.blockNumber,
+                selectedMarket.address,
+                network.chainId
+            );
+        } catch (err) {
+            console.error('Repay failed:', err);
+            setError(getSimplifiedErrorMessage(err));
+        } finally {
+            setTransactionInProgress(false);
+            setLoading(false);
+        }
+    };
+
+    // Stable-rate repayment: no permit variant, ETH debt can be paid with WETH or ETH
+    const handleStableRepay = async () => {
+        if (!provider || !repayAmount || !selectedMarket) return;
+        setLoading(true);
+        setError('');
+        setSuccessMessage(null);
+        setTransactionInProgress(true);
+
+        try {
+            logAction('REPAY_STABLE_STARTED', { amount: repayAmount, token: selectedMarket.symbol });
+            const { lendingProtocol } = await getContracts(provider);
+            const signer = provider.getSigner();
+            const amountWei = parseMarketAmount(repayAmount, selectedMarket);
+
+            const currentDebt = await lendingProtocol.getCurrentStableBorrowAmount(selectedMarket.address, account);
+            if (amountWei.gt(currentDebt)) {
+                throw new Error("Cannot repay more than borrowed amount");
+            }
+
+            const token = new ethers.Contract(selectedMarket.address, [
+                ...ERC20_APPROVE_ABI,
+                "function balanceOf(address owner) view returns (uint256)"
+            ], signer);
+            const payWithEth = selectedMarket.isNative && (await token.balanceOf(account)).lt(amountWei);
+
+            if (!payWithEth) {
+                const allowance = await token.allowance(account, lendingProtocol.address);
+                if (allowance.lt(amountWei)) {
+                    const approveTx = await token.approve(lendingProtocol.address, amountWei);
+                    await approveTx.wait();
+                }
+            }
+
+            const tx = await lendingProtocol.repayStable(
+                selectedMarket.address,
+                amountWei,
+                payWithEth ? { value: amountWei, gasLimit: 500000 } : { gasLimit: 500000 }
+            );
+            const receipt = await tx.wait();
+
+            await loadBalances();
+            await loadUserPosition(account, provider);
+            await loadDebts();
+            setRepayAmount('');
+            setSuccessMessage({
+                type: 'text',
+                content: `Repaid ${repayAmount} ${selectedMarket.isNative ? 'ETH' : selectedMarket.symbol} of stable-rate debt`
+            });
+
+            logAction('REPAY_STABLE_COMPLETED', {
+                amount: repayAmount,
+                token: selectedMarket.symbol,
+                txHash: receipt.transactionHash
+            });
+
+            const { logUserActivity } = await import('../../services/database');
+            const network = await provider.getNetwork();
+            await logUserActivity(
+                account,
+                'REPAY',
+                repayAmount,
+                new Date(),
+                receipt.transactionHash,
+                receipt.blockNumber,
+                selectedMarket.address,
+                network.chainId
+            );
+        } catch (err) {
+            console.error('Stable repay failed:', err);
+            setError(getSimplifiedErrorMessage(err));
+        } finally {
+            setTransactionInProgress(false);
+            setLoading(false);
+        }
+    };
+
+    // Move the whole debt of the selected market from one rate mode to the other
+    const handleSwapRateMode = async (toStable: boolean) => {
+        if (!provider || !selectedMarket) return;
+        setLoading(true);
+        setError('');
+        setSuccessMessage(null);
+        setTransactionInProgress(true);
+
+        try {
+            logAction('SWAP_RATE_MODE_STARTED', { token: selectedMarket.symbol, toStable });
+            const { lendingProtocol } = await getContracts(provider);
+            const tx = await lendingProtocol.swapBorrowRateMode(selectedMarket.address, toStable);
+            const receipt = await tx.wait();
+
+            await loadUserPosition(account, provider);
+            await loadDebts();
+            setSuccessMessage({
+                type: 'text',
+                content: `Your ${selectedMarket.symbol} debt now accrues at a ${toStable ? 'stable' : 'variable'} rate`
+            });
+
+            logAction('SWAP_RATE_MODE_COMPLETED', {
+                token: selectedMarket.symbol,
+                toStable,
+                txHash: receipt.transactionHash
+            });
+        } catch (err) {
+            console.error('Rate mode swap failed:', err);
+            setError(getSimplifiedErrorMessage(err));
+        } finally {
+            setTransactionInProgress(false);
+            setLoading(false);
+        }
+    };
+
+    // Open a leveraged WETH position in a new position NFT, looping deposit and borrow in the router
+    const handleLeverage = async () => {
+        if (!provider || !leverageAmount) return;
+        if (staleMarkets.length > 0) {
+            setError(formatStalePriceWarning(staleMarkets, 'Borrowing'));
+            return;
+        }
+        setLoading(true);
+        setError('');
+        setSuccessMessage(null);
+        setTransactionInProgress(true);
+
+        try {
+            logAction('LEVERAGE_STARTED', { amount: leverageAmount, targetLeverage, minHealthFactor });
+            const { leverageRouter } = await getContracts(provider);
+            if (!leverageRouter) {
+                throw new Error('Leverage is not available on this network');
+            }
+
+            // Both are passed in basis points
+            const tx = await leverageRouter.leverage(
+                Math.round(parseFloat(targetLeverage) * 10000),
+                Math.round(parseFloat(minHealthFactor) * 10000),
+                { value: ethers.utils.parseEther(leverageAmount) }
+            );
+            const receipt = await tx.wait();
+            const leveraged = receipt.events?.find(event => event.event === 'Leveraged')?.args;
+
+            await loadBalances();
+            await loadLeveragedPositions();
+            setLeverageAmount('');
+            setSuccessMessage({
+                type: 'text',
+                content: leveraged
+                    ? `Opened position NFT #${leveraged.tokenId.toString()} with ${ethers.utils.formatEther(leveraged.collateral)} ETH collateral and ${ethers.utils.formatEther(leveraged.debt)} ETH debt`
+                    : 'Opened a leveraged position'
+            });
+
+            logAction('LEVERAGE_COMPLETED', {
+                amount: leverageAmount,
+                targetLeverage,
+                tokenId: leveraged?.tokenId.toString(),
+                txHash: receipt.transactionHash
+            });
+        } catch (err) {
+            console.error('Leverage failed:', err);
+            setError(getSimplifiedErrorMessage(err));
+        } finally {
+            setTransactionInProgress(false);
+            setLoading(false);
+        }
+    };
+
+    // Repay a leveraged position's WETH debt out of its own collateral
+    const handleDeleverage = async (tokenId: string) => {
+        if (!provider) return;
+        setLoading(true);
+        setError('');
+        setSuccessMessage(null);
+        setTransactionInProgress(true);
+
+        try {
+            logAction('DELEVERAGE_STARTED', { tokenId });
+            const { positionManager, leverageRouter } = await getContracts(provider);
+            if (!positionManager || !leverageRouter) {
+                throw new Error('Leverage is not available on this network');
+            }
+
+            // The router acts on the NFT through the position manager, so it must be approved for it
+            const approved = await positionManager.getApproved(tokenId);
+            if (approved !== leverageRouter.address
+                && !(await positionManager.isApprovedForAll(account, leverageRouter.address))) {
+                const approveTx = await positionManager.approve(leverageRouter.address, tokenId);
+                await approveTx.wait();
+            }
+
+            const tx = await leverageRouter.deleverage(tokenId, ethers.constants.MaxUint256);
+            const receipt = await tx.wait();
+            const deleveraged = receipt.events?.find(event => event.event === 'Deleveraged')?.args;
+
+            await loadLeveragedPositions();
+            setSuccessMessage({
+                type: 'text',
+                content: deleveraged
+                    ? `Repaid ${ethers.utils.formatEther(deleveraged.repaid)} ETH of position NFT #${tokenId} from its collateral`
+                    : `Deleveraged position NFT #${tokenId}`
+            });
+
+            logAction('DELEVERAGE_COMPLETED', { tokenId, txHash: receipt.transactionHash });
+        } catch (err) {
+            console.error('Deleverage failed:', err);
+            setError(getSimplifiedErrorMessage(err));
+        } finally {
+            setTransactionInProgress(false);
+            setLoading(false);
+        }
+    };
+
     const handleRepay = async () => {
+        if (rateMode === 'stable') return handleStableRepay();
+        if (selectedMarket && !selectedMarket.isNative) return handleTokenRepay();
         if (!provider || !repayAmount || !wethAddress || !wethContract) return;
         setLoading(true);
         setError('');
@@ -388,6 +866,130 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
         }
     };
 
+    // Repay the debt in every market and withdraw every deposit in one multicall.
+    // Withdrawing everything needs all debt gone, not just the selected market's.
+    const handleRepayAllAndWithdraw = async (): Promise<void> => {
+        if (!provider) return;
+        setLoading(true);
+        setError('');
+        setSuccessMessage(null);
+        setTransactionInProgress(true);
+
+        try {
+            logAction('REPAY_ALL_WITHDRAW_STARTED', {});
+            const { lendingProtocol } = await getContracts(provider);
+            const signer = provider.getSigner();
+            const calls: string[] = [];
+            const repaid: { market: MarketOption; debt: ethers.BigNumber }[] = [];
+
+            for (const market of markets) {
+                const variableDebt = await lendingProtocol.getCurrentBorrowAmount(market.address, account);
+                const stableDebt = await lendingProtocol.getCurrentStableBorrowAmount(market.address, account);
+                const debt = variableDebt.add(stableDebt);
+                if (debt.isZero()) continue;
+
+                // The batch repays type(uint256).max, leave room for interest accrued before it is mined
+                const maxPayment = debt.mul(101).div(100);
+                const token = new ethers.Contract(market.address, [
+                    ...ERC20_APPROVE_ABI,
+                    "function balanceOf(address owner) view returns (uint256)",
+                    "function deposit() payable"
+                ], signer);
+
+                const balance = await token.balanceOf(account);
+                if (market.isNative) {
+                    // multicall is not payable, so ETH debt is repaid with WETH
+                    if (balance.lt(maxPayment)) {
+                        const wrapTx = await token.deposit({ value: maxPayment.sub(balance) });
+                        await wrapTx.wait();
+                    }
+                } else if (balance.lt(maxPayment)) {
+                    throw new Error(`Not enough ${market.symbol} in your wallet to repay your ${market.symbol} debt`);
+                }
+
+                const allowance = await token.allowance(account, lendingProtocol.address);
+                if (allowance.lt(maxPayment)) {
+                    const approveTx = await token.approve(lendingProtocol.address, maxPayment);
+                    await approveTx.wait();
+                }
+
+                if (!variableDebt.isZero()) {
+                    calls.push(lendingProtocol.interface.encodeFunctionData('repay', [
+                        market.address,
+                        ethers.constants.MaxUint256
+                    ]));
+                }
+                if (!stableDebt.isZero()) {
+                    calls.push(lendingProtocol.interface.encodeFunctionData('repayStable', [
+                        market.address,
+                        ethers.constants.MaxUint256
+                    ]));
+                }
+                repaid.push({ market, debt });
+            }
+
+            // Withdrawals come after every repayment, so the health check sees no debt left
+            for (const market of markets) {
+                const deposited = await lendingProtocol.getCurrentDepositAmount(market.address, account);
+                if (!deposited.isZero()) {
+                    calls.push(lendingProtocol.interface.encodeFunctionData('withdraw', [
+                        market.address,
+                        ethers.constants.MaxUint256
+                    ]));
+                }
+            }
+
+            if (calls.length === 0) {
+                setSuccessMessage({ type: 'text', content: 'Nothing to repay or withdraw' });
+                return;
+            }
+
+            const tx = await lendingProtocol.multicall(calls, { gasLimit: 1500000 });
+            const receipt = await tx.wait();
+
+            await loadUserPosition(account, provider);
+            await loadBalances();
+            await loadBorrowHeadroom();
+            await loadDebts();
+            const repaidSummary = repaid
+                .map(({ market, debt }) => `${formatMarketAmount(debt, market)} ${market.symbol}`)
+                .join(' and ');
+            setSuccessMessage({
+                type: 'text',
+                content: repaid.length > 0
+                    ? `Repaid ${repaidSummary} and withdrew all collateral`
+                    : 'Withdrew all collateral'
+            });
+
+            logAction('REPAY_ALL_WITHDRAW_COMPLETED', {
+                debtRepaid: repaidSummary,
+                txHash: receipt.transactionHash
+            });
+
+            // One activity row per market repaid, all for the same transaction
+            const { logUserActivity } = await import('../../services/database');
+            const network = await provider.getNetwork();
+            for (const { market, debt } of repaid) {
+                await logUserActivity(
+                    account,
+                    'REPAY_ALL_WITHDRAW',
+                    formatMarketAmount(debt, market),
+                    new Date(),
+                    receipt.transactionHash,
+                    receipt.blockNumber,
+                    market.address,
+                    network.chainId
+                );
+            }
+        } catch (err) {
+            console.error('Repay all & withdraw failed:', err);
+            setError(getSimplifiedErrorMessage(err));
+        } finally {
+            setTransactionInProgress(false);
+            setLoading(false);
+        }
+    };
+
     const handleFullRepayment = async (): Promise<void> => {
         if (!provider || !wethAddress || !wethContract || !lendingProtocol) return;
         setLoading(true);
@@ -573,47 +1175,71 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
     };
 
     const fetchInterestDiagnostics = async () => {
-        if (!provider || !account || !wethAddress) return;
+        if (!provider || !account || !selectedMarket) return;
         
         setDiagnosticsLoading(true);
         try {
-            const { lendingProtocol } = await getContracts(provider);
+            const { lendingLens } = await getContracts(provider);
+            if (!lendingLens) {
+                throw new Error('Interest diagnostics need the lending lens, which is not deployed on this network');
+            }
             
             // Get interest diagnostics
-            const diagnostics = await lendingProtocol.getInterestDiagnostics(wethAddress, account);
+            const diagnostics = await lendingLens.getInterestDiagnostics(selectedMarket.address, account);
             
             // Format the data for display
             const formattedDiagnostics = {
                 lastUpdate: new Date(diagnostics.lastUpdate.toNumber() * 1000).toLocaleString(),
                 currentTime: new Date(diagnostics.currentTime.toNumber() * 1000).toLocaleString(),
                 timeElapsed: `${diagnostics.timeElapsed.toString()} seconds`,
-                intervalsElapsed: diagnostics.intervalsElapsed.toString(),
-                partialInterval: `${(parseFloat(diagnostics.partialInterval.toString()) / 100).toFixed(2)}%`,
+                marketLastUpdate: new Date(diagnostics.marketLastUpdate.toNumber() * 1000).toLocaleString(),
+                // Scaled by 1e27, shown as a percentage
+                ratePerSecond: `${(parseFloat(ethers.utils.formatUnits(diagnostics.ratePerSecond, 27)) * 100).toExponential(4)}%`,
                 currentIndex: ethers.utils.formatUnits(diagnostics.currentIndex, 18),
                 estimatedNewIndex: ethers.utils.formatUnits(diagnostics.estimatedNewIndex, 18),
                 indexChange: ethers.utils.formatUnits(
                     diagnostics.estimatedNewIndex.sub(diagnostics.currentIndex), 
                     18
-                )
+                ),
+                // Both are in basis points
+                utilization: `${(parseFloat(diagnostics.utilization.toString()) / 100).toFixed(2)}%`,
+                borrowRate: `${(parseFloat(diagnostics.borrowRate.toString()) / 100).toFixed(2)}%`
             };
             
             // Get detailed interest accrual
-            const interestDetails = await lendingProtocol.getDetailedInterestAccrual(wethAddress, account);
+            const interestDetails = await lendingLens.getDetailedInterestAccrual(selectedMarket.address, account);
             
             // Format interest details
             const formattedInterestDetails = {
-                principal: ethers.utils.formatEther(interestDetails.principal),
-                currentAmount: ethers.utils.formatEther(interestDetails.currentAmount),
-                interestAccrued: ethers.utils.formatEther(interestDetails.interestAccrued),
-                effectiveRate: `${(parseFloat(interestDetails.effectiveRate.toString()) / 100).toFixed(4)}%`
+                principal: formatMarketAmount(interestDetails.principal, selectedMarket),
+                currentAmount: formatMarketAmount(interestDetails.currentAmount, selectedMarket),
+                interestAccrued: formatMarketAmount(interestDetails.interestAccrued, selectedMarket),
+                effectiveRate: `${(parseFloat(interestDetails.effectiveRate.toString()) / 100).toFixed(4)}%`,
+                secondsAccrued: `${interestDetails.secondsAccrued.toString()} seconds`
             };
             
+            // Stable-rate debt is tracked separately from the variable index
+            const stableDetails = await lendingLens.getStableDebtDiagnostics(selectedMarket.address, account);
+            const formatRate = (rate: ethers.BigNumber) => `${(parseFloat(rate.toString()) / 100).toFixed(2)}%`;
+            const formattedStableDetails = {
+                principal: formatMarketAmount(stableDetails.principal, selectedMarket),
+                currentAmount: formatMarketAmount(stableDetails.currentAmount, selectedMarket),
+                interestAccrued: formatMarketAmount(stableDetails.interestAccrued, selectedMarket),
+                userRate: formatRate(stableDetails.userRate),
+                currentStableRate: formatRate(stableDetails.currentStableRate),
+                averageRate: formatRate(stableDetails.averageRate),
+                totalStableDebt: formatMarketAmount(stableDetails.totalStableDebt, selectedMarket),
+                canRebalance: stableDetails.canRebalance
+            };
+
             // Update state
             setInterestDiagnostics(formattedDiagnostics);
             setDetailedInterest(formattedInterestDetails);
+            setStableDiagnostics(formattedStableDetails);
             
             console.log('Interest diagnostics:', formattedDiagnostics);
             console.log('Detailed interest:', formattedInterestDetails);
+            console.log('Stable debt:', formattedStableDetails);
             
         } catch (error) {
             console.error('Failed to fetch interest diagnostics:', error);
@@ -671,11 +1297,8 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
                                     <p className="text-slate-600">Time Elapsed:</p>
                                     <p data-testid="time-elapsed">{interestDiagnostics.timeElapsed}</p>
                                     
-                                    <p className="text-slate-600">5-min Intervals:</p>
-                                    <p data-testid="intervals-elapsed">{interestDiagnostics.intervalsElapsed}</p>
-                                    
-                                    <p className="text-slate-600">Partial Interval:</p>
-                                    <p data-testid="partial-interval">{interestDiagnostics.partialInterval}</p>
+                                    <p className="text-slate-600">Market Compounded To:</p>
+                                    <p data-testid="market-last-update">{interestDiagnostics.marketLastUpdate}</p>
                                 </div>
                                 
                                 <h4 className="font-medium mt-3">Interest Indices</h4>
@@ -689,32 +1312,80 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
                                     <p className="text-slate-600">Index Change:</p>
                                     <p data-testid="index-change">{interestDiagnostics.indexChange}</p>
                                 </div>
+
+                                <h4 className="font-medium mt-3">Interest Rate Model</h4>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <p className="text-slate-600">Utilization:</p>
+                                    <p data-testid="market-utilization">{interestDiagnostics.utilization}</p>
+                                    
+                                    <p className="text-slate-600">Borrow Rate (APR):</p>
+                                    <p data-testid="market-borrow-rate">{interestDiagnostics.borrowRate}</p>
+
+                                    <p className="text-slate-600">Rate per Second:</p>
+                                    <p data-testid="rate-per-second">{interestDiagnostics.ratePerSecond}</p>
+                                </div>
                             </div>
                         )}
                         
                         {detailedInterest && (
                             <div className="space-y-2 text-sm">
-                                <h4 className="font-medium">Accrued Interest</h4>
+                                <h4 className="font-medium">Variable-Rate Debt</h4>
                                 <div className="grid grid-cols-2 gap-2">
                                     <p className="text-slate-600">Principal:</p>
-                                    <p data-testid="principal-amount">{detailedInterest.principal} ETH</p>
+                                    <p data-testid="principal-amount">{detailedInterest.principal} {selectedMarket?.isNative ? 'ETH' : selectedMarket?.symbol}</p>
                                     
                                     <p className="text-slate-600">Current Amount:</p>
-                                    <p data-testid="current-amount">{detailedInterest.currentAmount} ETH</p>
+                                    <p data-testid="current-amount">{detailedInterest.currentAmount} {selectedMarket?.isNative ? 'ETH' : selectedMarket?.symbol}</p>
                                     
                                     <p className="text-slate-600">Interest Accrued:</p>
                                     <p 
                                         className={parseFloat(detailedInterest.interestAccrued) > 0 ? "text-amber-600 font-medium" : ""}
                                         data-testid="interest-accrued-value"
                                     >
-                                        {detailedInterest.interestAccrued} ETH
+                                        {detailedInterest.interestAccrued} {selectedMarket?.isNative ? 'ETH' : selectedMarket?.symbol}
                                     </p>
                                     
                                     <p className="text-slate-600">Effective Rate:</p>
                                     <p data-testid="effective-rate">{detailedInterest.effectiveRate}</p>
+
+                                    <p className="text-slate-600">Compounded For:</p>
+                                    <p data-testid="seconds-accrued">{detailedInterest.secondsAccrued}</p>
                                 </div>
                             </div>
                         )}
+
+                        {stableDiagnostics && (
+                            <div className="mt-4 space-y-2 text-sm" data-testid="stable-debt-diagnostics">
+                                <h4 className="font-medium">Stable-Rate Debt</h4>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <p className="text-slate-600">Principal:</p>
+                                    <p data-testid="stable-principal-amount">{stableDiagnostics.principal} {selectedMarket?.isNative ? 'ETH' : selectedMarket?.symbol}</p>
+
+                                    <p className="text-slate-600">Current Amount:</p>
+                                    <p data-testid="stable-current-amount">{stableDiagnostics.currentAmount} {selectedMarket?.isNative ? 'ETH' : selectedMarket?.symbol}</p>
+
+                                    <p className="text-slate-600">Interest Accrued:</p>
+                                    <p data-testid="stable-interest-accrued">{stableDiagnostics.interestAccrued} {selectedMarket?.isNative ? 'ETH' : selectedMarket?.symbol}</p>
+
+                                    <p className="text-slate-600">Your Stable Rate (APR):</p>
+                                    <p data-testid="stable-user-rate">{stableDiagnostics.userRate}</p>
+
+                                    <p className="text-slate-600">New Stable Rate (APR):</p>
+                                    <p data-testid="stable-current-rate">{stableDiagnostics.currentStableRate}</p>
+
+                                    <p className="text-slate-600">Market Average (APR):</p>
+                                    <p data-testid="stable-average-rate">{stableDiagnostics.averageRate}</p>
+
+                                    <p className="text-slate-600">Market Stable Debt:</p>
+                                    <p data-testid="stable-total-debt">{stableDiagnostics.totalStableDebt} {selectedMarket?.isNative ? 'ETH' : selectedMarket?.symbol}</p>
+                                </div>
+                                {stableDiagnostics.canRebalance && (
+                                    <p className="text-xs text-amber-600" data-testid="stable-rebalance-notice">
+                                        Your stable rate has drifted past the market threshold and can be rebalanced
+                                    </p>
+                                )}
+                            </div>
+                        )}
                         
                         <div className="mt-4">
                             <Button 
@@ -745,6 +1416,55 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
                 </Alert>
             )}
             
+            {markets.length > 1 && (
+                <div className="space-y-1">
+                    <label className="block text-sm font-medium text-gray-700">Asset</label>
+                    <select
+                        value={selectedMarket?.symbol}
+                        onChange={(e) => setSelectedSymbol(e.target.value)}
+                        disabled={loading}
+                        className="w-full p-2 border rounded"
+                        data-testid="borrow-asset-select"
+                    >
+                        {markets.map(market => (
+                            <option key={market.symbol} value={market.symbol}>{market.symbol}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Rate mode</label>
+                <select
+                    value={rateMode}
+                    onChange={(e) => setRateMode(e.target.value as RateMode)}
+                    disabled={loading}
+                    className="w-full p-2 border rounded"
+                    data-testid="borrow-rate-mode-select"
+                >
+                    <option value="variable">Variable</option>
+                    <option value="stable">Stable</option>
+                </select>
+                {selectedMarket && variableDebt && stableDebt && (variableDebt.gt(0) || stableDebt.gt(0)) && (
+                    <p className="text-sm text-gray-600">
+                        Variable debt: <span data-testid="variable-debt-amount">{formatMarketAmount(variableDebt, selectedMarket)}</span>
+                        {' · '}
+                        Stable debt: <span data-testid="stable-debt-amount">{formatMarketAmount(stableDebt, selectedMarket)}</span>
+                    </p>
+                )}
+                {selectedMarket && variableDebt && stableDebt && (variableDebt.gt(0) || stableDebt.gt(0)) && (
+                    <Button
+                        onClick={() => handleSwapRateMode(variableDebt.gt(0))}
+                        disabled={loading}
+                        variant="outline"
+                        className="w-full"
+                        data-testid="swap-rate-mode-button"
+                    >
+                        {variableDebt.gt(0) ? 'Switch Variable Debt to Stable' : 'Switch Stable Debt to Variable'}
+                    </Button>
+                )}
+            </div>
+
             <div className="space-y-2">
             <Input
                 type="number"
@@ -766,27 +1486,150 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
                 disabled={loading}
                 data-testid="borrow-input"
             />
+                {borrowHeadroom && selectedMarket && (
+                    <p className="text-sm text-gray-600">
+                        Borrow capacity left: <span data-testid="borrow-cap-headroom">{formatCapHeadroom(borrowHeadroom, selectedMarket)}</span>
+                    </p>
+                )}
+                {borrowOverCap && (
+                    <p className="text-sm text-red-600" data-testid="borrow-cap-warning">
+                        Amount exceeds the remaining borrow capacity
+                    </p>
+                )}
+                {staleMarkets.length > 0 && (
+                    <p className="text-sm text-red-600" data-testid="borrow-stale-price-warning">
+                        {formatStalePriceWarning(staleMarkets, 'Borrowing')}
+                    </p>
+                )}
+                {borrowPauseReason && (
+                    <p className="text-sm text-red-600" data-testid="borrow-paused-warning">
+                        {borrowPauseReason}
+                    </p>
+                )}
                 <Button 
                     onClick={handleBorrow} 
-                    disabled={loading}
+                    disabled={loading || borrowOverCap || staleMarkets.length > 0 || !!borrowPauseReason}
                     className="w-full"
                     data-testid="borrow-button"
                 >
-                    Borrow
+                    {rateMode === 'stable' ? 'Borrow at Stable Rate' : 'Borrow'}
                 </Button>
                 {position && position.interestRate !== 'N/A' && (
                     <p className="text-xs text-gray-600 mt-1">
-                        Interest rate: {position.interestRate} per 5-minute interval
+                        Interest rate: {position.interestRate} per hour, compounded every second
                     </p>
                 )}
             </div>
             
-            {position && parseFloat(position.borrowAmount) > 0 && (
+            {selectedMarket?.isNative && leverageAvailable && (
+                <div className="space-y-2 p-4 border rounded-lg" data-testid="leverage-section">
+                    <h3 className="font-medium">Leveraged ETH Position</h3>
+                    <p className="text-xs text-gray-600">
+                        Deposits your ETH and borrows and redeposits WETH up to the target leverage in one
+                        transaction. The position is held in a new position NFT.
+                    </p>
+                    <Input
+                        type="number"
+                        value={leverageAmount}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            const value = e.target.value;
+                            if (value === '' || parseFloat(value) >= 0) {
+                                setLeverageAmount(value);
+                            }
+                        }}
+                        min="0"
+                        step="any"
+                        placeholder="ETH to deposit"
+                        disabled={loading}
+                        data-testid="leverage-amount-input"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1">
+                            <label className="block text-sm text-gray-700">Target leverage (x)</label>
+                            <Input
+                                type="number"
+                                value={targetLeverage}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTargetLeverage(e.target.value)}
+                                min="1"
+                                step="0.1"
+                                disabled={loading}
+                                data-testid="leverage-target-input"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="block text-sm text-gray-700">Minimum health factor</label>
+                            <Input
+                                type="number"
+                                value={minHealthFactor}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMinHealthFactor(e.target.value)}
+                                min="1"
+                                step="0.05"
+                                disabled={loading}
+                                data-testid="leverage-min-health-factor-input"
+                            />
+                        </div>
+                    </div>
+                    {estimatedHealthFactor !== null && (
+                        <p className="text-sm text-gray-600">
+                            Estimated health factor: <span data-testid="leverage-estimated-health-factor">{estimatedHealthFactor.toFixed(2)}</span>
+                        </p>
+                    )}
+                    {leverageBelowMinimum && (
+                        <p className="text-sm text-red-600" data-testid="leverage-health-factor-warning">
+                            This leverage ends below your minimum health factor, the transaction will revert
+                        </p>
+                    )}
+                    <Button
+                        onClick={handleLeverage}
+                        disabled={loading || !leverageAmount || leverageBelowMinimum || staleMarkets.length > 0 || !!borrowPauseReason}
+                        className="w-full"
+                        data-testid="leverage-button"
+                    >
+                        Open Leveraged Position
+                    </Button>
+
+                    {leveragedPositions.map(leveraged => (
+                        <div
+                            key={leveraged.tokenId}
+                            className="flex justify-between items-center text-sm"
+                            data-testid={`leveraged-position-${leveraged.tokenId}`}
+                        >
+                            <span>
+                                #{leveraged.tokenId}: {leveraged.collateral} ETH collateral, {leveraged.debt} ETH debt,
+                                health factor {leveraged.healthFactor}
+                            </span>
+                            <Button
+                                onClick={() => handleDeleverage(leveraged.tokenId)}
+                                disabled={loading || !!deleveragePauseReason}
+                                variant="outline"
+                                size="sm"
+                                data-testid={`deleverage-button-${leveraged.tokenId}`}
+                            >
+                                Deleverage
+                            </Button>
+                        </div>
+                    ))}
+                    {leveragedPositions.length > 0 && deleveragePauseReason && (
+                        <p className="text-xs text-red-600" data-testid="deleverage-paused-warning">
+                            {deleveragePauseReason}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {((selectedMarket && !selectedMarket.isNative) || (position && parseFloat(position.borrowAmount) > 0) || rateMode === 'stable') && (
                 <div className="space-y-4">
+                    {repayPauseReason && (
+                        <p className="text-sm text-red-600" data-testid="repay-paused-warning">
+                            {repayPauseReason}
+                        </p>
+                    )}
+                    {selectedMarket?.isNative && rateMode === 'variable' && (
+                    <>
                     <div className="flex flex-col space-y-2">
                         <Button 
                             onClick={handleFullRepayment}
-                            disabled={loading}
+                            disabled={loading || !!repayPauseReason}
                             className="w-full bg-green-600 hover:bg-green-700"
                             data-testid="repay-full-button"
                         >
@@ -796,7 +1639,7 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
                             The exact repayment amount will be calculated at transaction time
                         </p>
                         <p className="text-xs text-center text-gray-500">
-                            Interest accrues in 5-minute intervals for more predictable repayments
+                            Interest compounds every second until the repayment is mined
                         </p>
                     </div>
                     
@@ -808,7 +1651,29 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
                             <span className="px-2 bg-white text-gray-500">OR</span>
                         </div>
                     </div>
+                    </>
+                    )}
                     
+                    <div className="space-y-2">
+                        <Button
+                            onClick={handleRepayAllAndWithdraw}
+                            disabled={loading || !!repayAllPauseReason}
+                            className="w-full"
+                            variant="outline"
+                            data-testid="repay-all-withdraw-button"
+                        >
+                            Repay All &amp; Withdraw
+                        </Button>
+                        <p className="text-xs text-center text-gray-600">
+                            Repays your debt in every market and withdraws all collateral in one transaction
+                        </p>
+                        {repayAllPauseReason && !repayPauseReason && (
+                            <p className="text-xs text-center text-red-600" data-testid="repay-all-withdraw-paused-warning">
+                                {repayAllPauseReason}
+                            </p>
+                        )}
+                    </div>
+
                     <div className="space-y-2">
                     <Input
                         type="number"
@@ -831,7 +1696,7 @@ const BorrowRepayTab: React.FC<BorrowRepayTabProps> = ({
                     />
                         <Button 
                             onClick={handleRepay}
-                            disabled={loading}
+                            disabled={loading || !!repayPauseReason}
                             className="w-full"
                         >
                             Repay Custom Amount
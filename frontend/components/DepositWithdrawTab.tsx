@@ -5,11 +5,27 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { EnhancedLendingProtocol } from "../../typechain/contracts/core/EnhancedLendingProtocol";
 import { getContracts } from '../utils/web3';
+import {
+    getMarketOptions,
+    parseMarketAmount,
+    formatMarketAmount,
+    formatCapHeadroom,
+    exceedsCapHeadroom,
+    getStaleMarkets,
+    formatStalePriceWarning,
+    getPauseStatus,
+    getPauseReason,
+    MarketOption,
+    MarketPauseStatus,
+    ERC20_APPROVE_ABI
+} from '../utils/markets';
+import { signPermit } from '../utils/permit';
 
 interface DepositWithdrawTabProps {
     account: string;
     provider: ethers.providers.Web3Provider | null;
     wethAddress: string | null;
+    usdcAddress: string | null;
     loading: boolean;
     setLoading: (loading: boolean) => void;
     setError: (error: string) => void;
@@ -24,6 +40,7 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
     account,
     provider,
     wethAddress,
+    usdcAddress,
     loading,
     setLoading,
     setError,
@@ -35,9 +52,109 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
 }) => {
     const [depositAmount, setDepositAmount] = React.useState('');
     const [withdrawAmount, setWithdrawAmount] = React.useState('');
+    const [selectedSymbol, setSelectedSymbol] = React.useState('WETH');
+
+    const [supplyStats, setSupplyStats] = React.useState<{ apy: string; earned: string; balance: string } | null>(null);
+    const [supplyHeadroom, setSupplyHeadroom] = React.useState<ethers.BigNumber | null>(null);
+    const [staleMarkets, setStaleMarkets] = React.useState<MarketOption[]>([]);
+    const [pauseStatus, setPauseStatus] = React.useState<MarketPauseStatus | null>(null);
+    const [swapAvailable, setSwapAvailable] = React.useState(false);
+    const [swapAmount, setSwapAmount] = React.useState('');
+    const [swapQuote, setSwapQuote] = React.useState<ethers.BigNumber | null>(null);
+
+    const markets = getMarketOptions(wethAddress, usdcAddress);
+    const selectedMarket = markets.find(m => m.symbol === selectedSymbol) || markets[0];
+    // Collateral swaps go from the selected market into the other one
+    const swapTargetMarket = markets.find(m => m.symbol !== selectedMarket?.symbol) || null;
+
+    const loadSupplyStats = async () => {
+        if (!provider || !account || !selectedMarket) return;
+        try {
+            const { lendingProtocol, lendingLens } = await getContracts(provider);
+            if (!lendingLens) {
+                throw new Error('Lending lens not deployed on this network');
+            }
+            const [supplyRate, earned, balance, headroom] = await Promise.all([
+                lendingLens.getSupplyRate(selectedMarket.address),
+                lendingLens.getSupplyInterestEarned(selectedMarket.address, account),
+                lendingProtocol.getCurrentDepositAmount(selectedMarket.address, account),
+                lendingLens.getCapHeadroom(selectedMarket.address)
+            ]);
+
+            setSupplyStats({
+                apy: `${(parseFloat(supplyRate.toString()) / 100).toFixed(2)}%`, // Basis points to percentage
+                earned: formatMarketAmount(earned, selectedMarket),
+                balance: formatMarketAmount(balance, selectedMarket)
+            });
+            setSupplyHeadroom(headroom.supplyHeadroom);
+        } catch (err) {
+            console.error('Failed to load supply stats:', err);
+            setSupplyStats(null);
+            setSupplyHeadroom(null);
+        }
+    };
+
+    const loadStaleMarkets = async () => {
+        if (!provider || !account) return;
+        try {
+            const { lendingProtocol, priceSentinel } = await getContracts(provider);
+            setStaleMarkets(await getStaleMarkets(lendingProtocol, priceSentinel, markets, account));
+        } catch (err) {
+            console.error('Failed to load oracle price status:', err);
+            setStaleMarkets([]);
+        }
+    };
+
+    const loadPauseStatus = async () => {
+        if (!provider || !selectedMarket) return;
+        try {
+            const { lendingLens } = await getContracts(provider);
+            setPauseStatus(await getPauseStatus(lendingLens, selectedMarket));
+        } catch (err) {
+            console.error('Failed to load pause status:', err);
+            setPauseStatus(null);
+        }
+    };
+
+    React.useEffect(() => {
+        loadSupplyStats();
+        loadStaleMarkets();
+        loadPauseStatus();
+    }, [provider, account, selectedMarket?.address]);
+
+    React.useEffect(() => {
+        const loadSwapQuote = async () => {
+            if (!provider || !selectedMarket || !swapTargetMarket) return;
+            try {
+                const { collateralSwap } = await getContracts(provider);
+                setSwapAvailable(collateralSwap !== null);
+                if (!collateralSwap || !swapAmount || parseFloat(swapAmount) <= 0) {
+                    setSwapQuote(null);
+                    return;
+                }
+                setSwapQuote(await collateralSwap.quote(
+                    selectedMarket.address,
+                    swapTargetMarket.address,
+                    parseMarketAmount(swapAmount, selectedMarket)
+                ));
+            } catch (err) {
+                console.error('Error loading swap quote:', err);
+                setSwapQuote(null);
+            }
+        };
+        loadSwapQuote();
+    }, [provider, selectedMarket?.address, swapTargetMarket?.address, swapAmount]);
+
+    const depositOverCap = selectedMarket ? exceedsCapHeadroom(depositAmount, supplyHeadroom, selectedMarket) : false;
+    const depositPauseReason = selectedMarket ? getPauseReason(pauseStatus, 'deposit', selectedMarket) : null;
+    const withdrawPauseReason = selectedMarket ? getPauseReason(pauseStatus, 'withdraw', selectedMarket) : null;
 
     const handleDeposit = async () => {
-        if (!provider || !depositAmount || !wethAddress) return;
+        if (!provider || !depositAmount || !selectedMarket) return;
+        if (depositOverCap) {
+            setError(`Deposit exceeds the ${selectedMarket.symbol} supply cap`);
+            return;
+        }
         setLoading(true);
         setError('');
 
@@ -45,27 +162,65 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
         setTransactionInProgress(true);
 
         try {
-            logAction('DEPOSIT_STARTED', { amount: depositAmount });
+            logAction('DEPOSIT_STARTED', { amount: depositAmount, token: selectedMarket.symbol });
             const { lendingProtocol } = await getContracts(provider);
             const signer = provider.getSigner();
+            const amountWei = parseMarketAmount(depositAmount, selectedMarket);
             
             console.log('Deposit details:', {
                 contract: lendingProtocol.address,
-                weth: wethAddress,
+                token: selectedMarket.address,
                 amount: depositAmount,
                 signer: await signer.getAddress()
             });
         
-            // Direct deposit with ETH - no need for WETH approval
-            console.log("Depositing into lending protocol...");
-            const lendingDepositTx = await lendingProtocol.deposit(
-                wethAddress,
-                ethers.utils.parseEther(depositAmount),
-                { 
-                    gasLimit: 500000,
-                    value: ethers.utils.parseEther(depositAmount)  // Send ETH with the transaction
+            let lendingDepositTx;
+            if (selectedMarket.isNative) {
+                // Direct deposit with ETH - no need for WETH approval
+                console.log("Depositing into lending protocol...");
+                lendingDepositTx = await lendingProtocol.deposit(
+                    selectedMarket.address,
+                    amountWei,
+                    { 
+                        gasLimit: 500000,
+                        value: amountWei  // Send ETH with the transaction
+                    }
+                );
+            } else {
+                // ERC-20 markets need an allowance before the protocol can pull tokens,
+                // a permit signature avoids the extra approve transaction
+                const token = new ethers.Contract(selectedMarket.address, ERC20_APPROVE_ABI, signer);
+                const allowance = await token.allowance(account, lendingProtocol.address);
+                const permit = allowance.lt(amountWei)
+                    ? await signPermit(signer, selectedMarket.address, lendingProtocol.address, amountWei)
+                    : null;
+
+                if (permit) {
+                    console.log("Depositing into lending protocol with permit...");
+                    lendingDepositTx = await lendingProtocol.depositWithPermit(
+                        selectedMarket.address,
+                        amountWei,
+                        permit.deadline,
+                        permit.v,
+                        permit.r,
+                        permit.s,
+                        { gasLimit: 500000 }
+                    );
+                } else {
+                    if (allowance.lt(amountWei)) {
+                        console.log(`Approving ${selectedMarket.symbol} spend`);
+                        const approveTx = await token.approve(lendingProtocol.address, amountWei);
+                        await approveTx.wait();
+                    }
+
+                    console.log("Depositing into lending protocol...");
+                    lendingDepositTx = await lendingProtocol.deposit(
+                        selectedMarket.address,
+                        amountWei,
+                        { gasLimit: 500000 }
+                    );
                 }
-            );
+            }
             
             console.log('Transaction sent:', lendingDepositTx.hash);
             const receipt = await lendingDepositTx.wait();
@@ -73,10 +228,13 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
         
             await loadUserPosition(account, provider);
             await loadBalances(); 
+            await loadSupplyStats();
+            await loadStaleMarkets();
             setDepositAmount('');
 
             logAction('DEPOSIT_COMPLETED', { 
                 amount: depositAmount,
+                token: selectedMarket.symbol,
                 txHash: receipt.transactionHash 
             });
 
@@ -92,7 +250,7 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
                 new Date(),
                 receipt.transactionHash,
                 receipt.blockNumber,
-                wethAddress || 'unknown',
+                selectedMarket.address,
                 currentChainId
             );
             console.log('Deposit activity logged to database successfully');
@@ -108,7 +266,11 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
     };
 
     const handleWithdraw = async () => {
-        if (!provider || !withdrawAmount || !wethAddress) return;
+        if (!provider || !withdrawAmount || !selectedMarket) return;
+        if (staleMarkets.length > 0) {
+            setError(formatStalePriceWarning(staleMarkets, 'Withdrawing'));
+            return;
+        }
         setLoading(true);
         setError('');
 
@@ -116,18 +278,19 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
         setTransactionInProgress(true);
 
         try {
-            logAction('WITHDRAW_STARTED', { amount: withdrawAmount });
+            logAction('WITHDRAW_STARTED', { amount: withdrawAmount, token: selectedMarket.symbol });
             const { lendingProtocol } = await getContracts(provider);
             
-            // Check current deposit
-            const position = await lendingProtocol.userPositions(wethAddress, account);
-            if (parseFloat(withdrawAmount) > parseFloat(ethers.utils.formatEther(position.depositAmount))) {
+            // Check current deposit, including earned yield
+            const position = await lendingProtocol.userPositions(selectedMarket.address, account);
+            const currentDeposit = await lendingProtocol.getCurrentDepositAmount(selectedMarket.address, account);
+            if (parseFloat(withdrawAmount) > parseFloat(formatMarketAmount(currentDeposit, selectedMarket))) {
                 throw new Error("Cannot withdraw more than deposited amount");
             }
             
             // Check if user has an outstanding loan
             if (!position.borrowAmount.isZero()) {
-                const currentBorrowAmount = await lendingProtocol.getCurrentBorrowAmount(wethAddress, account);
+                const currentBorrowAmount = await lendingProtocol.getCurrentBorrowAmount(selectedMarket.address, account);
                 if (currentBorrowAmount.gt(0)) {
                     // User has an active loan, prevent withdrawal
                     throw new Error("Cannot withdraw collateral while you have an outstanding loan. Please repay your borrow amount first.");
@@ -135,13 +298,14 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
             }
         
             const tx = await lendingProtocol.withdraw(
-                wethAddress,
-                ethers.utils.parseEther(withdrawAmount)
+                selectedMarket.address,
+                parseMarketAmount(withdrawAmount, selectedMarket)
             );
             const receipt = await tx.wait();
         
             logAction('WITHDRAW_COMPLETED', {
                 amount: withdrawAmount,
+                token: selectedMarket.symbol,
                 txHash: receipt.transactionHash
             });
         
@@ -157,12 +321,14 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
                 new Date(),
                 receipt.transactionHash,
                 receipt.blockNumber,
-                wethAddress || 'unknown',
+                selectedMarket.address,
                 currentChainId
             );
 
             await loadUserPosition(account, provider);
             await loadBalances(); 
+            await loadSupplyStats();
+            await loadStaleMarkets();
             setWithdrawAmount('');
         } catch (err) {
             console.error('Withdrawal failed:', err);
@@ -174,8 +340,95 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
         }
     };
 
+    const handleSwapCollateral = async () => {
+        if (!provider || !swapAmount || !selectedMarket || !swapTargetMarket || !swapQuote) return;
+        if (staleMarkets.length > 0) {
+            setError(formatStalePriceWarning(staleMarkets, 'Swapping collateral'));
+            return;
+        }
+        setLoading(true);
+        setError('');
+        setTransactionInProgress(true);
+
+        try {
+            logAction('COLLATERAL_SWAP_STARTED', {
+                amount: swapAmount,
+                from: selectedMarket.symbol,
+                to: swapTargetMarket.symbol
+            });
+            const { collateralSwap } = await getContracts(provider);
+            if (!collateralSwap) {
+                throw new Error("Collateral swaps are not available on this network");
+            }
+
+            // Accept up to 1% slippage from the quote
+            const minAmountOut = swapQuote.mul(99).div(100);
+            const tx = await collateralSwap.swapCollateral(
+                selectedMarket.address,
+                swapTargetMarket.address,
+                parseMarketAmount(swapAmount, selectedMarket),
+                minAmountOut
+            );
+            const receipt = await tx.wait();
+
+            logAction('COLLATERAL_SWAP_COMPLETED', {
+                amount: swapAmount,
+                from: selectedMarket.symbol,
+                to: swapTargetMarket.symbol,
+                txHash: receipt.transactionHash
+            });
+
+            await loadUserPosition(account, provider);
+            await loadSupplyStats();
+            await loadStaleMarkets();
+            setSwapAmount('');
+        } catch (err) {
+            console.error('Collateral swap failed:', err);
+            setError(getSimplifiedErrorMessage(err));
+        } finally {
+            setTransactionInProgress(false);
+            setLoading(false);
+        }
+    };
+
     return (
         <div className="space-y-4">
+            {markets.length > 1 && (
+                <div className="space-y-1">
+                    <label className="block text-sm font-medium text-gray-700">Asset</label>
+                    <select
+                        value={selectedMarket?.symbol}
+                        onChange={(e) => setSelectedSymbol(e.target.value)}
+                        disabled={loading}
+                        className="w-full p-2 border rounded"
+                        data-testid="deposit-asset-select"
+                    >
+                        {markets.map(market => (
+                            <option key={market.symbol} value={market.symbol}>{market.symbol}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {supplyStats && (
+                <div className="p-4 bg-gray-50 rounded-lg text-sm space-y-1" data-testid="supply-stats">
+                    <p>
+                        Supply APY: <span className="font-medium" data-testid="supply-apy">{supplyStats.apy}</span>
+                    </p>
+                    <p>
+                        Your deposit: <span data-testid="supply-balance">{supplyStats.balance} {selectedMarket?.symbol}</span>
+                    </p>
+                    <p>
+                        Yield earned: <span className="text-green-700" data-testid="supply-yield-earned">{supplyStats.earned} {selectedMarket?.symbol}</span>
+                    </p>
+                    {supplyHeadroom && selectedMarket && (
+                        <p>
+                            Supply capacity left: <span data-testid="supply-cap-headroom">{formatCapHeadroom(supplyHeadroom, selectedMarket)}</span>
+                        </p>
+                    )}
+                </div>
+            )}
+
             <div className="space-y-2">
             <Input
                 type="number"
@@ -199,9 +452,19 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
                 disabled={loading}
                 data-testid="deposit-input"
             />
+                {depositOverCap && (
+                    <p className="text-sm text-red-600" data-testid="deposit-cap-warning">
+                        Amount exceeds the remaining supply capacity
+                    </p>
+                )}
+                {depositPauseReason && (
+                    <p className="text-sm text-red-600" data-testid="deposit-paused-warning">
+                        {depositPauseReason}
+                    </p>
+                )}
                 <Button 
                     onClick={handleDeposit} 
-                    disabled={loading}
+                    disabled={loading || depositOverCap || !!depositPauseReason}
                     className="w-full"
                     data-testid="deposit-button"
                 >
@@ -231,14 +494,68 @@ const DepositWithdrawTab: React.FC<DepositWithdrawTabProps> = ({
                 placeholder="Amount to withdraw"
                 disabled={loading}
             />
+                {staleMarkets.length > 0 && (
+                    <p className="text-sm text-red-600" data-testid="withdraw-stale-price-warning">
+                        {formatStalePriceWarning(staleMarkets, 'Withdrawing')}
+                    </p>
+                )}
+                {withdrawPauseReason && (
+                    <p className="text-sm text-red-600" data-testid="withdraw-paused-warning">
+                        {withdrawPauseReason}
+                    </p>
+                )}
                 <Button 
                     onClick={handleWithdraw} 
-                    disabled={loading}
+                    disabled={loading || staleMarkets.length > 0 || !!withdrawPauseReason}
                     className="w-full"
                 >
                     Withdraw
                 </Button>
             </div>
+
+            {swapAvailable && selectedMarket && swapTargetMarket && (
+                <div className="space-y-2 pt-4 border-t" data-testid="collateral-swap-section">
+                    <h3 className="text-sm font-medium text-gray-700">
+                        Swap {selectedMarket.symbol} collateral to {swapTargetMarket.symbol}
+                    </h3>
+                    <p className="text-xs text-gray-500">
+                        Your loans stay open; the swap reverts if the final position would be unhealthy.
+                    </p>
+                    <Input
+                        type="number"
+                        value={swapAmount}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            const value = e.target.value;
+                            if (value === '' || parseFloat(value) >= 0) {
+                                setSwapAmount(value);
+                            }
+                        }}
+                        onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                            if (e.key === '-' || e.key === 'e') {
+                                e.preventDefault();
+                            }
+                        }}
+                        min="0"
+                        step="any"
+                        placeholder={`${selectedMarket.symbol} to swap`}
+                        disabled={loading}
+                        data-testid="collateral-swap-input"
+                    />
+                    {swapQuote && (
+                        <p className="text-sm text-gray-600" data-testid="collateral-swap-quote">
+                            You receive about {formatMarketAmount(swapQuote, swapTargetMarket)} {swapTargetMarket.symbol} (1% max slippage)
+                        </p>
+                    )}
+                    <Button
+                        onClick={handleSwapCollateral}
+                        disabled={loading || !swapQuote || staleMarkets.length > 0 || !!withdrawPauseReason}
+                        className="w-full"
+                        data-testid="collateral-swap-button"
+                    >
+                        Swap collateral
+                    </Button>
+                </div>
+            )}
         </div>
     );
 };
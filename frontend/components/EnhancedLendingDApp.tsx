@@ -11,6 +11,7 @@ import DepositWithdrawTab from './DepositWithdrawTab';
 import BorrowRepayTab from './BorrowRepayTab';
 import LiquidationTab from './LiquidationTab';
 import StakingTab from './StakingTab';
+import PositionNFTsTab from './PositionNFTsTab';
 import NetworkSelector from './NetworkSelector';
 
 // Import utilities and types
@@ -387,23 +388,23 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                     healthFactorValue = ethers.BigNumber.from(115); // Default to 1.15
                 }
                 
-                // Get token config for interest rate - silent fallback
-                let tokenConfig;
+                // Get the utilization-based borrow rate - silent fallback
+                let borrowRate;
                 try {
-                    tokenConfig = await lendingProtocol.tokenConfigs(wethAddress);
+                    borrowRate = await lendingProtocol.getBorrowRate(wethAddress);
                 } catch (configError) {
-                    tokenConfig = { interestRate: ethers.BigNumber.from(0) };
+                    borrowRate = ethers.BigNumber.from(0);
                 }
                 
                 // Calculate interest rates for display
                 let interestRateDisplay = 'N/A';
                 
-                if (tokenConfig.interestRate.toString()) {
-                    // Get the annual rate in percentage (rate is stored in basis points: 500 = 5%)
-                    const yearlyRatePercentage = parseFloat(tokenConfig.interestRate.toString()) / 100;
-                    // Calculate the 5-minute rate from the annual rate
-                    const fiveMinuteRate = (yearlyRatePercentage / 105120).toFixed(6);
-                    interestRateDisplay = `${fiveMinuteRate}%`;
+                if (borrowRate.toString()) {
+                    // Get the annual rate in percentage (rate is in basis points: 500 = 5%)
+                    const yearlyRatePercentage = parseFloat(borrowRate.toString()) / 100;
+                    // Calculate the hourly rate from the annual rate
+                    const hourlyRate = (yearlyRatePercentage / 8760).toFixed(6);
+                    interestRateDisplay = `${hourlyRate}%`;
                 }
                 
                 // Get accumulated interest
@@ -429,8 +430,16 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                     formattedBorrowAmount = formatEther(userPosition.borrowAmount);
                 }
 
+                // Deposits grow with the supply index - silent fallback to the stored amount
+                let formattedDepositAmount = formatEther(userPosition.depositAmount);
+                try {
+                    formattedDepositAmount = formatEther(await lendingProtocol.getCurrentDepositAmount(wethAddress, userAddress));
+                } catch (supplyError) {
+                    // Keep stored amount
+                }
+
                 // Calculate USD values
-                const depositAmountUSD = (parseFloat(formatEther(userPosition.depositAmount)) * parseFloat(priceInUSD)).toFixed(2);
+                const depositAmountUSD = (parseFloat(formattedDepositAmount) * parseFloat(priceInUSD)).toFixed(2);
                 const borrowAmountUSD = (parseFloat(formattedBorrowAmount) * parseFloat(priceInUSD)).toFixed(2);
                 const interestAccruedUSD = (parseFloat(interestAccrued) * parseFloat(priceInUSD)).toFixed(2);
 
@@ -438,7 +447,7 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                 const formattedHealthFactor = formatLargeNumber(healthFactorValue);
 
                 setPosition({
-                    depositAmount: formatEther(userPosition.depositAmount),
+                    depositAmount: formattedDepositAmount,
                     depositAmountUSD,
                     borrowAmount: formattedBorrowAmount,
                     borrowAmountUSD,
@@ -867,7 +876,7 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                                     </p>
                                 )}
                                 <p className="text-xs text-gray-600 mt-1">
-                                    Interest Rate: {position.interestRate} per 5-minute interval
+                                    Interest Rate: {position.interestRate} per hour
                                 </p>
                                 <p className="text-xs text-gray-600">
                                     ETH Price: {ethPrice ? `$${parseFloat(ethPrice).toFixed(2)}` : "Loading..."}
@@ -888,11 +897,12 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                     ) : null}
             
                     <Tabs defaultValue="deposit" className="w-full">
-                        <TabsList className="grid w-full grid-cols-4">
+                        <TabsList className="grid w-full grid-cols-5">
                             <TabsTrigger value="deposit" data-testid="deposit-withdraw-tab">Deposit/Withdraw</TabsTrigger>
                             <TabsTrigger value="borrow" data-testid="borrow-repay-tab">Borrow/Repay</TabsTrigger>
                             <TabsTrigger value="liquidate" data-testid="liquidate-tab">Liquidate</TabsTrigger>
                             <TabsTrigger value="stake" data-testid="stake-tab">Stake WETH</TabsTrigger>
+                            <TabsTrigger value="nfts" data-testid="position-nfts-tab">My position NFTs</TabsTrigger>
                         </TabsList>
             
                         <TabsContent value="deposit">
@@ -900,6 +910,7 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                                 account={account}
                                 provider={provider}
                                 wethAddress={wethAddress}
+                                usdcAddress={usdcContract?.address ?? null}
                                 loading={loading || networkSwitching}
                                 setLoading={setLoading}
                                 setError={setError}
@@ -916,6 +927,7 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                                 account={account}
                                 provider={provider}
                                 wethAddress={wethAddress}
+                                usdcAddress={usdcContract?.address ?? null}
                                 wethContract={wethContract}
                                 lendingProtocol={lendingProtocol}
                                 loading={loading || networkSwitching}
@@ -940,6 +952,7 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                                 account={account}
                                 provider={provider}
                                 wethAddress={wethAddress}
+                                usdcAddress={usdcContract?.address ?? null}
                                 lendingProtocol={lendingProtocol}
                                 isContractsInitialized={isContractsInitialized}
                                 setError={setError}
@@ -958,6 +971,22 @@ const EnhancedLendingDApp: React.FC<EnhancedLendingDAppProps> = ({
                                 usdcContract={usdcContract}
                             />
                         </TabsContent>
+
+                        <TabsContent value="nfts">
+                            <PositionNFTsTab
+                                account={account}
+                                provider={provider}
+                                wethAddress={wethAddress}
+                                usdcAddress={usdcContract?.address ?? null}
+                                loading={loading || networkSwitching}
+                                setLoading={setLoading}
+                                setError={setError}
+                                getSimplifiedErrorMessage={getSimplifiedErrorMessage}
+                                loadUserPosition={loadUserPosition}
+                                loadBalances={loadBalances}
+                                setTransactionInProgress={setTransactionInProgress}
+                            />
+                        </TabsContent>
                     </Tabs>
                 </div>
             </CardContent>
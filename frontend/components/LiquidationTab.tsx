@@ -5,11 +5,22 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { EnhancedLendingProtocol } from "../../typechain/contracts/core/EnhancedLendingProtocol";
+import { PriceOracleSentinel } from "../../typechain/contracts/core/PriceOracleSentinel";
+import {
+    getMarketOptions,
+    formatMarketAmount,
+    getPriceStatuses,
+    getPauseStatus,
+    getPauseReason,
+    MarketPriceStatus
+} from '../utils/markets';
+import { getContracts } from '../utils/web3';
 
 interface LiquidationTabProps {
     account: string;
     provider: ethers.providers.Web3Provider | null;
     wethAddress: string | null;
+    usdcAddress: string | null;
     lendingProtocol: EnhancedLendingProtocol | null;
     isContractsInitialized: boolean;
     setError: (error: string) => void;
@@ -25,6 +36,7 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
     account,
     provider,
     wethAddress,
+    usdcAddress,
     lendingProtocol,
     isContractsInitialized,
     setError,
@@ -51,6 +63,67 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
     const [liquidatablePositions, setLiquidatablePositions] = useState<any[]>([]);
     const [bonusPercent, setBonusPercent] = useState<number>(10);
     const [liquidationLoading, setLiquidationLoading] = useState(false);
+    const [collateralSymbol, setCollateralSymbol] = useState('WETH');
+    const [haltedMarkets, setHaltedMarkets] = useState<MarketPriceStatus[]>([]);
+    const [liquidationPauseReason, setLiquidationPauseReason] = useState<string | null>(null);
+
+    const markets = getMarketOptions(wethAddress, usdcAddress);
+    const collateralMarket = markets.find(m => m.symbol === collateralSymbol) || markets[0];
+
+    // WETH is always the debt side, so a halt on either WETH or the chosen collateral blocks liquidation
+    const liquidationHalted = haltedMarkets.some(status =>
+        status.market.address === wethAddress || status.market.address === collateralMarket?.address
+    );
+
+    // The guardian can also pause liquidations per market, for the debt or the collateral side
+    useEffect(() => {
+        if (!provider || !isContractsInitialized || !collateralMarket) return;
+
+        const loadPauseReason = async () => {
+            try {
+                const { lendingLens } = await getContracts(provider);
+                const sides = markets.filter(market =>
+                    market.address === wethAddress || market.address === collateralMarket.address
+                );
+                const statuses = await Promise.all(sides.map(market => getPauseStatus(lendingLens, market)));
+                const reasons = sides.map((market, i) => getPauseReason(statuses[i], 'liquidate', market));
+                setLiquidationPauseReason(reasons.find(reason => reason !== null) ?? null);
+            } catch (err) {
+                console.error('Failed to load pause status:', err);
+                setLiquidationPauseReason(null);
+            }
+        };
+
+        loadPauseReason();
+    }, [provider, isContractsInitialized, wethAddress, collateralMarket?.address]);
+
+    // The oracle sentinel halts liquidations on implausible price jumps until the guardian reviews them
+    useEffect(() => {
+        if (!provider || !isContractsInitialized) return;
+        let sentinel: PriceOracleSentinel | null = null;
+
+        const loadHaltedMarkets = async () => {
+            try {
+                const statuses = await getPriceStatuses(sentinel, markets);
+                setHaltedMarkets(statuses.filter(status => status.liquidationsHalted));
+            } catch (err) {
+                console.error('Failed to load oracle price status:', err);
+                setHaltedMarkets([]);
+            }
+        };
+
+        const setup = async () => {
+            sentinel = (await getContracts(provider)).priceSentinel;
+            await loadHaltedMarkets();
+            sentinel?.on('PriceDeviationDetected', loadHaltedMarkets);
+            sentinel?.on('ReferencePriceUpdated', loadHaltedMarkets);
+        };
+
+        setup();
+        return () => {
+            sentinel?.removeAllListeners();
+        };
+    }, [provider, isContractsInitialized, wethAddress, usdcAddress]);
     
     // Save input to sessionStorage whenever it changes
     useEffect(() => {
@@ -110,7 +183,7 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
         }, 100);
         
         return () => clearInterval(focusTimer);
-    }, [provider, account, wethAddress, lendingProtocol, isContractsInitialized, selectedPositionId]);
+    }, [provider, account, wethAddress, lendingProtocol, isContractsInitialized, selectedPositionId, collateralSymbol]);
     
     // Focus the input element whenever it's rendered
     useEffect(() => {
@@ -123,7 +196,8 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
         try {
             if (!provider || !wethAddress || !lendingProtocol) return;
             
-            const tokenConfig = await lendingProtocol.tokenConfigs(wethAddress);
+            // The bonus comes from the collateral market being seized
+            const tokenConfig = await lendingProtocol.tokenConfigs(collateralMarket?.address || wethAddress);
             setBonusPercent(tokenConfig.liquidationPenalty.toNumber() / 100);
         } catch (error) {
             console.error('Error loading bonus percent:', error);
@@ -145,6 +219,14 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
                     uniqueUsers.map(async (user) => {
                         try {
                             const position = await lendingProtocol.userPositions(wethAddress, user);
+                            const liquidity = await lendingProtocol.getAccountLiquidity(user);
+
+                            // Collateral held in each market, so the liquidator can pick one to seize
+                            const collateralBalances: Record<string, string> = {};
+                            for (const market of markets) {
+                                const marketPosition = await lendingProtocol.userPositions(market.address, user);
+                                collateralBalances[market.symbol] = formatMarketAmount(marketPosition.depositAmount, market);
+                            }
                             
                             // Use getLiquidationHealthFactor specifically
                             const healthFactor = await lendingProtocol.getLiquidationHealthFactor(user);
@@ -159,6 +241,11 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
                                 depositAmount: ethers.utils.formatEther(position.depositAmount),
                                 borrowAmount: ethers.utils.formatEther(position.borrowAmount),
                                 healthFactor: healthFactorFormatted,
+                                // Account-wide values across all markets, in USD
+                                collateralValueUSD: parseFloat(ethers.utils.formatEther(liquidity.collateralValue)).toFixed(2),
+                                liquidationLimitUSD: parseFloat(ethers.utils.formatEther(liquidity.liquidationLimit)).toFixed(2),
+                                totalDebtUSD: parseFloat(ethers.utils.formatEther(liquidity.totalDebt)).toFixed(2),
+                                collateralBalances,
                                 lastUpdateTime: new Date(position.lastUpdateTime.toNumber() * 1000).toLocaleString(),
                                 rawHealthFactor: healthFactor
                             };
@@ -203,8 +290,8 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
         try {
             if (!provider || !wethAddress || !lendingProtocol) return [];
             
-            // Method 1: Get all users who have made deposits
-            const filter = lendingProtocol.filters.Deposit(wethAddress);
+            // Method 1: Get all users who have made deposits in any market
+            const filter = lendingProtocol.filters.Deposit();
             const depositEvents = await lendingProtocol.queryFilter(filter);
             
             // Use a Set to store unique user addresses (prevents duplicates)
@@ -224,19 +311,11 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
                 uniqueAddressSet.add(userLower);
                 
                 try {
-                    const position = await lendingProtocol.userPositions(wethAddress, user);
-                    
-                    // Check health factor
-                    const healthFactor = await lendingProtocol.getLiquidationHealthFactor(user);
-                    const formattedHealthFactor = parseFloat(ethers.utils.formatUnits(healthFactor, 4));
-                    
-                    // Check if position is truly liquidatable - using consistent threshold of 1.0
-                    // Format the health factor for display but use raw value for comparison
-                    const displayHealthFactor = formattedHealthFactor.toFixed(2);
+                    // Liquidatable once total debt exceeds the liquidationThreshold-weighted collateral
+                    const liquidity = await lendingProtocol.getAccountLiquidity(user);
                     if (
-                        formattedHealthFactor < 1.0 && 
-                        position.borrowAmount.gt(0) && 
-                        position.depositAmount.gt(0)
+                        liquidity.totalDebt.gt(liquidity.liquidationLimit) && 
+                        liquidity.collateralValue.gt(0)
                     ) {
                         liquidatableUsers.push(user);
                     }
@@ -322,7 +401,15 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
         const LIQUIDATION_CLOSE_FACTOR = 5000; // 50% in basis points
         const BASIS_POINTS = 10000; // Standard basis points representation
         
-        if (!provider || !selectedPositionId || !liquidationAmount || !wethAddress || !lendingProtocol) return;
+        if (!provider || !selectedPositionId || !liquidationAmount || !wethAddress || !lendingProtocol || !collateralMarket) return;
+        if (liquidationHalted) {
+            setError('Liquidations are paused while the oracle price deviation is reviewed');
+            return;
+        }
+        if (liquidationPauseReason) {
+            setError(liquidationPauseReason);
+            return;
+        }
         // Set transaction in progress to pause price fetching
         setTransactionInProgress(true);
         try {
@@ -350,10 +437,11 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
                 throw new Error(`Cannot liquidate more than ${ethers.utils.formatEther(maxLiquidationAmount)} ETH`);
             }
         
-            // Perform liquidation
+            // Perform liquidation, repaying WETH debt and seizing the chosen collateral
             const tx = await lendingProtocol.liquidate(
                 selectedPositionId,
                 wethAddress,
+                collateralMarket.address,
                 liquidationAmountWei,
                 { 
                     value: liquidationAmountWei,
@@ -367,12 +455,20 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
             await loadLiquidatablePositions();
 
             const bonusAmount = calculateLiquidationBonus(liquidationAmount);
+
+            // Read the seized amount from the event, it is in the collateral token
+            const seizedEvent = receipt.events?.find(e => e.event === 'CollateralSeized');
+            const seizedAmount = seizedEvent?.args
+                ? formatMarketAmount(seizedEvent.args.amount, collateralMarket)
+                : null;
             
             // Clear any existing error before setting success message
             setError('');
             setSuccessMessage({
                 type: 'text',
-                content: `Liquidation successful!\nRepaid: ${liquidationAmount} ETH\nBonus Received: ${bonusAmount} ETH`
+                content: collateralMarket.isNative
+                    ? `Liquidation successful!\nRepaid: ${liquidationAmount} ETH\nBonus Received: ${bonusAmount} ETH`
+                    : `Liquidation successful!\nRepaid: ${liquidationAmount} ETH\nCollateral Received: ${seizedAmount ?? 'unknown'} ${collateralMarket.symbol}`
             });
 
             // Add manual logging call to the database
@@ -413,6 +509,22 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
     return (
         <div className="space-y-4">
             <h3 className="text-lg font-medium">{selectedPositionId ? 'Liquidate Position' : 'Liquidatable Positions'}</h3>
+
+            {haltedMarkets.length > 0 && (
+                <Alert variant="destructive" data-testid="liquidation-price-halt-warning">
+                    <AlertDescription>
+                        Liquidations are paused: {haltedMarkets.map(status =>
+                            `${status.market.symbol} moved ${(status.deviation / 100).toFixed(2)}%`
+                        ).join(', ')} from the last accepted oracle price.
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            {liquidationPauseReason && (
+                <Alert variant="destructive" data-testid="liquidation-paused-warning">
+                    <AlertDescription>{liquidationPauseReason}</AlertDescription>
+                </Alert>
+            )}
             
             {/* Form view */}
             {selectedPositionId && selectedPositionData ? (
@@ -447,10 +559,26 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
                                 <p className="text-slate-600">Debt:</p>
                                 <p>{selectedPositionData.borrowAmount} ETH</p>
                                 
+                                <p className="text-slate-600">Total Collateral Value:</p>
+                                <p data-testid="account-collateral-value">${selectedPositionData.collateralValueUSD}</p>
+                                
+                                <p className="text-slate-600">Liquidation Limit:</p>
+                                <p data-testid="account-liquidation-limit">${selectedPositionData.liquidationLimitUSD}</p>
+                                
+                                <p className="text-slate-600">Total Debt Value:</p>
+                                <p data-testid="account-total-debt">${selectedPositionData.totalDebtUSD}</p>
+                                
                                 <p className="text-slate-600">Liquidation Bonus:</p>
                                 <p>{bonusPercent}%</p>
                                 
-                                {liquidationAmount && (
+                                {selectedPositionData.collateralBalances && Object.entries(selectedPositionData.collateralBalances).map(([symbol, amount]) => (
+                                    <React.Fragment key={symbol}>
+                                        <p className="text-slate-600">{symbol} Collateral:</p>
+                                        <p data-testid={`collateral-balance-${symbol.toLowerCase()}`}>{amount as string} {symbol}</p>
+                                    </React.Fragment>
+                                ))}
+                                
+                                {liquidationAmount && collateralMarket?.isNative && (
                                     <>
                                         <p className="text-slate-600">Expected Bonus:</p>
                                         <p className="text-green-600 font-medium">{calculateExpectedBonus(liquidationAmount)} ETH</p>
@@ -459,6 +587,24 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
                             </div>
                             
                             <div className="space-y-3 pt-2">
+                                {markets.length > 1 && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Collateral to Seize
+                                        </label>
+                                        <select
+                                            value={collateralMarket?.symbol}
+                                            onChange={(e) => setCollateralSymbol(e.target.value)}
+                                            disabled={liquidationLoading || fullyLiquidating}
+                                            className="w-full p-2 border rounded"
+                                            data-testid="liquidation-collateral-select"
+                                        >
+                                            {markets.map(market => (
+                                                <option key={market.symbol} value={market.symbol}>{market.symbol}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">
                                         Amount to Liquidate
@@ -489,12 +635,12 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
                                 <div className="flex space-x-2">
                                     <Button 
                                         onClick={handleLiquidate}
-                                        disabled={liquidationLoading || fullyLiquidating || !liquidationAmount}
+                                        disabled={liquidationLoading || fullyLiquidating || !liquidationAmount || liquidationHalted || !!liquidationPauseReason}
                                         className="w-full p-2"
                                         data-testid="liquidate-button"
                                     >
                                         {liquidationLoading ? "Liquidating..." : `Liquidate Position ${
-                                            liquidationAmount ? ` (+${calculateExpectedBonus(liquidationAmount)} ETH bonus)` : ''
+                                            liquidationAmount && collateralMarket?.isNative ? ` (+${calculateExpectedBonus(liquidationAmount)} ETH bonus)` : ''
                                         }`}
                                     </Button>
                                 </div>
@@ -544,6 +690,9 @@ const LiquidationTab: React.FC<LiquidationTabProps> = ({
                                             </p>
                                             <p>Collateral: {position.depositAmount} ETH</p>
                                             <p>Debt: {position.borrowAmount} ETH</p>
+                                            <p className="text-sm text-gray-600">
+                                                Debt ${position.totalDebtUSD} / Liquidation limit ${position.liquidationLimitUSD}
+                                            </p>
                                             <p className="text-red-600">Health Factor: {position.healthFactor}</p>
                                         </div>
                                         <Badge 
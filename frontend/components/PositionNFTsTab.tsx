@@ -0,0 +1,352 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { getContracts } from '../utils/web3';
+import {
+    getMarketOptions,
+    parseMarketAmount,
+    formatMarketAmount,
+    getPauseStatus,
+    getPauseReason,
+    MarketOption,
+    MarketPauseStatus,
+    ERC20_APPROVE_ABI
+} from '../utils/markets';
+
+interface PositionNFTsTabProps {
+    account: string;
+    provider: ethers.providers.Web3Provider | null;
+    wethAddress: string | null;
+    usdcAddress: string | null;
+    loading: boolean;
+    setLoading: (loading: boolean) => void;
+    setError: (error: string) => void;
+    getSimplifiedErrorMessage: (error: any) => string;
+    loadUserPosition: (userAddress: string, web3Provider: ethers.providers.Web3Provider) => Promise<void>;
+    loadBalances: () => Promise<void>;
+    setTransactionInProgress: (inProgress: boolean) => void;
+}
+
+type PositionAction = 'deposit' | 'withdraw' | 'borrow' | 'repay';
+
+interface PositionNFT {
+    tokenId: string;
+    account: string; // PositionAccount holding the position in the protocol
+    healthFactor: string;
+    markets: { symbol: string; deposit: string; debt: string }[];
+}
+
+const PositionNFTsTab: React.FC<PositionNFTsTabProps> = ({
+    account,
+    provider,
+    wethAddress,
+    usdcAddress,
+    loading,
+    setLoading,
+    setError,
+    getSimplifiedErrorMessage,
+    loadUserPosition,
+    loadBalances,
+    setTransactionInProgress
+}) => {
+    const [positions, setPositions] = React.useState<PositionNFT[]>([]);
+    const [isDeployed, setIsDeployed] = React.useState(true);
+    const [selectedTokenId, setSelectedTokenId] = React.useState('');
+    const [action, setAction] = React.useState<PositionAction>('deposit');
+    const [selectedSymbol, setSelectedSymbol] = React.useState('WETH');
+    const [amount, setAmount] = React.useState('');
+    const [recipient, setRecipient] = React.useState('');
+    const [pauseStatus, setPauseStatus] = React.useState<MarketPauseStatus | null>(null);
+
+    const markets = getMarketOptions(wethAddress, usdcAddress);
+    const selectedMarket = markets.find(m => m.symbol === selectedSymbol) || markets[0];
+
+    const loadPositions = async () => {
+        if (!provider || !account) return;
+        try {
+            const { lendingProtocol, positionManager } = await getContracts(provider);
+            setIsDeployed(positionManager !== null);
+            if (!positionManager) {
+                setPositions([]);
+                return;
+            }
+
+            const tokenIds = await positionManager.tokensOfOwner(account);
+            const loaded = await Promise.all(tokenIds.map(async (tokenId) => {
+                const positionAccount = await positionManager.positionAccount(tokenId);
+                const healthFactor = await lendingProtocol.getHealthFactor(positionAccount);
+                const balances = await Promise.all(markets.map(async (market) => {
+                    const [deposit, variableDebt, stableDebt] = await Promise.all([
+                        lendingProtocol.getCurrentDepositAmount(market.address, positionAccount),
+                        lendingProtocol.getCurrentBorrowAmount(market.address, positionAccount),
+                        lendingProtocol.getCurrentStableBorrowAmount(market.address, positionAccount)
+                    ]);
+                    return {
+                        symbol: market.symbol,
+                        deposit: formatMarketAmount(deposit, market),
+                        debt: formatMarketAmount(variableDebt.add(stableDebt), market)
+                    };
+                }));
+
+                return {
+                    tokenId: tokenId.toString(),
+                    account: positionAccount,
+                    // Max uint means the position has no debt
+                    healthFactor: healthFactor.eq(ethers.constants.MaxUint256)
+                        ? '∞'
+                        : (parseFloat(healthFactor.toString()) / 10000).toFixed(2),
+                    markets: balances
+                };
+            }));
+
+            setPositions(loaded);
+            if (!loaded.some(position => position.tokenId === selectedTokenId)) {
+                setSelectedTokenId(loaded[0]?.tokenId ?? '');
+            }
+        } catch (err) {
+            console.error('Failed to load position NFTs:', err);
+            setPositions([]);
+        }
+    };
+
+    React.useEffect(() => {
+        loadPositions();
+    }, [provider, account, wethAddress, usdcAddress]);
+
+    React.useEffect(() => {
+        if (!provider || !selectedMarket) return;
+        getContracts(provider)
+            .then(({ lendingLens }) => getPauseStatus(lendingLens, selectedMarket))
+            .then(setPauseStatus)
+            .catch((err) => {
+                console.error('Failed to load pause status:', err);
+                setPauseStatus(null);
+            });
+    }, [provider, selectedMarket?.address]);
+
+    const actionPauseReason = selectedMarket ? getPauseReason(pauseStatus, action, selectedMarket) : null;
+
+    // Runs a position manager transaction and refreshes everything the position affects
+    const runTransaction = async (send: () => Promise<ethers.ContractTransaction>) => {
+        if (!provider) return;
+        setLoading(true);
+        setError('');
+        setTransactionInProgress(true);
+
+        try {
+            const tx = await send();
+            await tx.wait();
+            setAmount('');
+            await loadPositions();
+            await loadUserPosition(account, provider);
+            await loadBalances();
+        } catch (err) {
+            console.error('Position NFT transaction failed:', err);
+            setError(getSimplifiedErrorMessage(err));
+        } finally {
+            setLoading(false);
+            setTransactionInProgress(false);
+        }
+    };
+
+    // Deposits and repayments of ERC-20 markets are pulled by the position manager
+    const approveManager = async (market: MarketOption, amountWei: ethers.BigNumber, spender: string) => {
+        const token = new ethers.Contract(market.address, ERC20_APPROVE_ABI, provider!.getSigner());
+        if ((await token.allowance(account, spender)).lt(amountWei)) {
+            await (await token.approve(spender, amountWei)).wait();
+        }
+    };
+
+    const handleWrap = () => runTransaction(async () => {
+        const { positionManager } = await getContracts(provider!);
+        return positionManager!.wrap();
+    });
+
+    const handleMint = () => runTransaction(async () => {
+        const { positionManager } = await getContracts(provider!);
+        return positionManager!.mint();
+    });
+
+    const handleAction = () => runTransaction(async () => {
+        if (!selectedTokenId || !amount || !selectedMarket) {
+            throw new Error('Select a position and enter an amount');
+        }
+        const { positionManager } = await getContracts(provider!);
+        const amountWei = parseMarketAmount(amount, selectedMarket);
+
+        switch (action) {
+            case 'deposit':
+                if (selectedMarket.isNative) {
+                    return positionManager!.deposit(selectedTokenId, selectedMarket.address, amountWei, { value: amountWei });
+                }
+                await approveManager(selectedMarket, amountWei, positionManager!.address);
+                return positionManager!.deposit(selectedTokenId, selectedMarket.address, amountWei);
+            case 'withdraw':
+                return positionManager!.withdraw(selectedTokenId, selectedMarket.address, amountWei);
+            case 'borrow':
+                return positionManager!.borrow(selectedTokenId, selectedMarket.address, amountWei);
+            case 'repay':
+                if (selectedMarket.isNative) {
+                    return positionManager!.repay(selectedTokenId, selectedMarket.address, amountWei, { value: amountWei });
+                }
+                await approveManager(selectedMarket, amountWei, positionManager!.address);
+                return positionManager!.repay(selectedTokenId, selectedMarket.address, amountWei);
+        }
+    });
+
+    const handleTransfer = () => runTransaction(async () => {
+        if (!ethers.utils.isAddress(recipient)) {
+            throw new Error('Invalid recipient address');
+        }
+        const { positionManager } = await getContracts(provider!);
+        const tx = await positionManager!['safeTransferFrom(address,address,uint256)'](account, recipient, selectedTokenId);
+        setRecipient('');
+        return tx;
+    });
+
+    const handleUnwrap = () => runTransaction(async () => {
+        const { positionManager } = await getContracts(provider!);
+        return positionManager!.unwrap(selectedTokenId);
+    });
+
+    if (!isDeployed) {
+        return (
+            <Alert data-testid="position-nfts-unavailable">
+                <AlertDescription>Position NFTs are not deployed on this network</AlertDescription>
+            </Alert>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="p-4 bg-gray-50 rounded-lg text-sm space-y-2">
+                <p>
+                    Wrapping moves your whole position, every market and your eMode category, into a
+                    transferable NFT. Whoever holds the NFT can deposit, withdraw, borrow and repay on it.
+                </p>
+                <div className="flex gap-2">
+                    <Button onClick={handleWrap} disabled={loading} className="flex-1" data-testid="wrap-position-button">
+                        Wrap my position
+                    </Button>
+                    <Button onClick={handleMint} disabled={loading} variant="outline" className="flex-1" data-testid="mint-position-button">
+                        Mint empty position
+                    </Button>
+                </div>
+            </div>
+
+            <div className="space-y-2" data-testid="position-nft-list">
+                <h3 className="font-medium">My position NFTs</h3>
+                {positions.length === 0 && (
+                    <p className="text-sm text-gray-500" data-testid="no-position-nfts">You hold no position NFTs</p>
+                )}
+                {positions.map(position => (
+                    <div
+                        key={position.tokenId}
+                        onClick={() => setSelectedTokenId(position.tokenId)}
+                        className={`p-3 border rounded-lg text-sm cursor-pointer ${
+                            position.tokenId === selectedTokenId ? 'border-blue-500 bg-blue-50' : ''
+                        }`}
+                        data-testid={`position-nft-${position.tokenId}`}
+                    >
+                        <p className="font-medium">Position #{position.tokenId}</p>
+                        <p className="text-xs text-gray-500 break-all">Account: {position.account}</p>
+                        <p>Health factor: <span data-testid="position-nft-health-factor">{position.healthFactor}</span></p>
+                        {position.markets.map(market => (
+                            <p key={market.symbol}>
+                                {market.symbol}: {market.deposit} deposited, {market.debt} borrowed
+                            </p>
+                        ))}
+                    </div>
+                ))}
+            </div>
+
+            {selectedTokenId && (
+                <div className="space-y-2">
+                    <div className="flex gap-2">
+                        <select
+                            value={action}
+                            onChange={(e) => setAction(e.target.value as PositionAction)}
+                            disabled={loading}
+                            className="flex-1 p-2 border rounded"
+                            data-testid="position-nft-action-select"
+                        >
+                            <option value="deposit">Deposit</option>
+                            <option value="withdraw">Withdraw</option>
+                            <option value="borrow">Borrow</option>
+                            <option value="repay">Repay</option>
+                        </select>
+                        <select
+                            value={selectedMarket?.symbol}
+                            onChange={(e) => setSelectedSymbol(e.target.value)}
+                            disabled={loading}
+                            className="flex-1 p-2 border rounded"
+                            data-testid="position-nft-asset-select"
+                        >
+                            {markets.map(market => (
+                                <option key={market.symbol} value={market.symbol}>{market.symbol}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <Input
+                        type="number"
+                        value={amount}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            const value = e.target.value;
+                            if (value === '' || parseFloat(value) >= 0) {
+                                setAmount(value);
+                            }
+                        }}
+                        min="0"
+                        step="any"
+                        placeholder={`Amount to ${action}`}
+                        disabled={loading}
+                        data-testid="position-nft-amount-input"
+                    />
+                    {actionPauseReason && (
+                        <p className="text-sm text-red-600" data-testid="position-nft-paused-warning">
+                            {actionPauseReason}
+                        </p>
+                    )}
+                    <Button
+                        onClick={handleAction}
+                        disabled={loading || !amount || !!actionPauseReason}
+                        className="w-full"
+                        data-testid="position-nft-action-button"
+                    >
+                        {action.charAt(0).toUpperCase() + action.slice(1)} on position #{selectedTokenId}
+                    </Button>
+
+                    <div className="flex gap-2">
+                        <Input
+                            value={recipient}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRecipient(e.target.value)}
+                            placeholder="Recipient address"
+                            disabled={loading}
+                            data-testid="position-nft-recipient-input"
+                        />
+                        <Button onClick={handleTransfer} disabled={loading || !recipient} data-testid="transfer-position-button">
+                            Transfer
+                        </Button>
+                    </div>
+                    <Button
+                        onClick={handleUnwrap}
+                        disabled={loading}
+                        variant="outline"
+                        className="w-full"
+                        data-testid="unwrap-position-button"
+                    >
+                        Unwrap into my account
+                    </Button>
+                    <p className="text-xs text-gray-500">
+                        Unwrapping needs your own account to have no open position. Stable-rate debt in a
+                        wrapped position is repaid after unwrapping.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PositionNFTsTab;
@@ -45,7 +45,15 @@ export interface ContractAddresses {
     weth: string;
     usdc: string;
     enhancedLendingProtocol: string;
+    lendingLens?: string;
+    positionManager?: string;
+    leverageRouter?: string;
+    collateralSwap?: string;
+    swapAdapter?: string;
+    timelock?: string;
+    priceSentinel?: string;
     priceOracle: string;
+    priceFeeds?: string[];
     apiManager: string;
     lendingProtocol?: string;
     stakingPool: string;
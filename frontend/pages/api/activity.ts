@@ -110,8 +110,8 @@ async function getMarketMetrics(
     lendingProtocol: any
 ) {
     try {
-        // Get token config which contains interest rate
-        const tokenConfig = await lendingProtocol.tokenConfigs(token);
+        // Current borrow rate from the market's rate model
+        const borrowRate = await lendingProtocol.getBorrowRate(token);
         
         // Get oracle address and create contract instance
         const oracleAddress = await lendingProtocol.priceOracle();
@@ -119,7 +119,7 @@ async function getMarketMetrics(
         const tokenPrice = await oracle.getPrice(token);
 
         return {
-            interestRate: ethers.utils.formatUnits(tokenConfig.interestRate, 2), // Convert basis points to percentage
+            interestRate: ethers.utils.formatUnits(borrowRate, 2), // Convert basis points to percentage
             tokenPrice: tokenPrice
         };
     } catch (error) {
@@ -203,49 +203,25 @@ async function getCurrentPositionFromContract(
         // Get token config for interest rate with fallback
         let interestRate = '0';
         try {
-            const tokenConfig = await lendingProtocol.tokenConfigs(token);
-            interestRate = ethers.utils.formatUnits(tokenConfig.interestRate, 2);
+            const borrowRate = await lendingProtocol.getBorrowRate(token);
+            interestRate = ethers.utils.formatUnits(borrowRate, 2);
         } catch (configError) {
             console.error('Error getting token config:', configError);
             // Keep default value of 0
         }
         
-        // Get oracle price and calculate collateral value with fallback
-        let tokenPrice = ethers.utils.parseEther("2000"); // Default to $2000 if oracle fails
-        let collateralValue;
-        
+        // Account-wide collateral and debt, valued by the protocol's oracle
+        let collateralValue = ethers.BigNumber.from(0);
+        let liquidationHealthFactor = healthFactor;
         try {
-            const priceOracleAddress = await lendingProtocol.priceOracle();
-            const priceOracle = IPriceOracle__factory.connect(priceOracleAddress, provider);
-            
-            try {
-                // Try up to 3 times to get price with delay between attempts
-                for (let attempt = 1; attempt <= 3; attempt++) {
-                    try {
-                        tokenPrice = await priceOracle.getPrice(token);
-                        break; // Exit loop if successful
-                    } catch (priceError) {
-                        if (attempt === 3) {
-                            console.warn(`Price not available after 3 attempts, using default price for ${token}`);
-                            // Continue with default price
-                        } else {
-                            console.log(`Price fetch attempt ${attempt} failed, retrying...`);
-                            await new Promise(resolve => setTimeout(resolve, 500)); // 500ms delay
-                        }
-                    }
-                }
-            } catch (oracleError) {
-                console.error('Error getting price oracle:', oracleError);
-                // Continue with default price
+            const liquidity = await lendingProtocol.getAccountLiquidity(userId);
+            collateralValue = liquidity.collateralValue;
+            if (!liquidity.totalDebt.isZero()) {
+                liquidationHealthFactor = liquidity.liquidationLimit.mul(10000).div(liquidity.totalDebt);
             }
-            
-            // Calculate collateral value, safely handling potential errors
-            collateralValue = position.depositAmount.mul(tokenPrice).div(ethers.constants.WeiPerEther);
-            
-        } catch (error) {
-            console.error('Error calculating collateral value:', error);
-            // Use deposit amount as collateral value if price calculation fails
-            collateralValue = position.depositAmount;
+        } catch (liquidityError) {
+            console.error('Error getting account liquidity:', liquidityError);
+            // Keep zero collateral value and the borrow health factor
         }
 
         // Return the position data with all values properly handled
@@ -253,6 +229,7 @@ async function getCurrentPositionFromContract(
             depositAmount: ethers.utils.formatEther(position.depositAmount),
             borrowAmount: ethers.utils.formatEther(position.borrowAmount),
             healthFactor: ethers.utils.formatUnits(healthFactor, 4),
+            liquidationHealthFactor: ethers.utils.formatUnits(liquidationHealthFactor, 4),
             lastUpdateTime: new Date(position.lastUpdateTime.toNumber() * 1000),
             collateralValue: ethers.utils.formatEther(collateralValue),
             interestRate: interestRate
@@ -264,6 +241,7 @@ async function getCurrentPositionFromContract(
             depositAmount: '0',
             borrowAmount: '0',
             healthFactor: '1.15',
+            liquidationHealthFactor: '1.15',
             lastUpdateTime: new Date(),
             collateralValue: '0',
             interestRate: '0'
@@ -500,7 +478,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                                 await safeDecimal(normalizeHealthFactor(currentPosition.healthFactor)) : 
                                 await safeDecimal('1'),
                             liquidationRisk: currentPosition ? 
-                                await safeDecimal(calculateSafeLiquidationRisk(currentPosition.healthFactor)) : 
+                                await safeDecimal(calculateSafeLiquidationRisk(currentPosition.liquidationHealthFactor)) : 
                                 await safeDecimal('0'),
                             collateralValue: currentPosition ? 
                                 await safeDecimal(currentPosition.collateralValue) : 
@@ -518,7 +496,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                                 await safeDecimal(normalizeHealthFactor(currentPosition.healthFactor)) : 
                                 undefined,
                             liquidationRisk: currentPosition ? 
-                                await safeDecimal(calculateSafeLiquidationRisk(currentPosition.healthFactor)) : 
+                                await safeDecimal(calculateSafeLiquidationRisk(currentPosition.liquidationHealthFactor)) : 
                                 undefined,
                             collateralValue: currentPosition ? 
                                 await safeDecimal(currentPosition.collateralValue) : 
@@ -0,0 +1,154 @@
+// utils/markets.ts
+import { ethers } from 'ethers';
+import { EnhancedLendingProtocol } from '@typechain/contracts/core/EnhancedLendingProtocol';
+import { PriceOracleSentinel } from '@typechain/contracts/core/PriceOracleSentinel';
+import { EnhancedLendingLens } from '@typechain/contracts/core/EnhancedLendingLens';
+
+// Minimal ABI for pulling ERC-20 markets into the protocol
+export const ERC20_APPROVE_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)"
+];
+
+export type MarketSymbol = 'WETH' | 'USDC';
+
+export interface MarketOption {
+  symbol: MarketSymbol;
+  address: string;
+  decimals: number;
+  isNative: boolean; // WETH markets accept plain ETH
+}
+
+// Markets listed in EnhancedLendingProtocol that the UI knows how to handle
+export function getMarketOptions(wethAddress: string | null, usdcAddress: string | null): MarketOption[] {
+  const markets: MarketOption[] = [];
+
+  if (wethAddress) {
+    markets.push({ symbol: 'WETH', address: wethAddress, decimals: 18, isNative: true });
+  }
+  if (usdcAddress) {
+    markets.push({ symbol: 'USDC', address: usdcAddress, decimals: 6, isNative: false });
+  }
+
+  return markets;
+}
+
+export function parseMarketAmount(amount: string, market: MarketOption): ethers.BigNumber {
+  return ethers.utils.parseUnits(amount, market.decimals);
+}
+
+export function formatMarketAmount(amount: ethers.BigNumberish, market: MarketOption): string {
+  return ethers.utils.formatUnits(amount, market.decimals);
+}
+
+// getCapHeadroom reports uncapped markets as max uint
+export function isUncapped(headroom: ethers.BigNumber): boolean {
+  return headroom.eq(ethers.constants.MaxUint256);
+}
+
+export function formatCapHeadroom(headroom: ethers.BigNumber, market: MarketOption): string {
+  return isUncapped(headroom) ? 'No cap' : `${formatMarketAmount(headroom, market)} ${market.symbol}`;
+}
+
+// True when the typed amount would push the market over its cap
+export function exceedsCapHeadroom(amount: string, headroom: ethers.BigNumber | null, market: MarketOption): boolean {
+  if (!amount || !headroom || isUncapped(headroom)) return false;
+  try {
+    return parseMarketAmount(amount, market).gt(headroom);
+  } catch {
+    return false;
+  }
+}
+
+export interface MarketPriceStatus {
+  market: MarketOption;
+  isFresh: boolean;
+  deviation: number; // Move from the sentinel's reference price, in basis points
+  liquidationsHalted: boolean;
+}
+
+export async function getPriceStatuses(
+  priceSentinel: PriceOracleSentinel | null,
+  markets: MarketOption[]
+): Promise<MarketPriceStatus[]> {
+  if (!priceSentinel) return [];
+
+  return Promise.all(markets.map(async (market) => {
+    const status = await priceSentinel.getPriceStatus(market.address);
+    return {
+      market,
+      isFresh: status.isFresh,
+      deviation: status.deviation.toNumber(),
+      liquidationsHalted: status.liquidationsHalted
+    };
+  }));
+}
+
+// Borrows and withdrawals revert while any market the account has a position in has a stale price
+export async function getStaleMarkets(
+  lendingProtocol: EnhancedLendingProtocol,
+  priceSentinel: PriceOracleSentinel | null,
+  markets: MarketOption[],
+  account: string
+): Promise<MarketOption[]> {
+  const statuses = await getPriceStatuses(priceSentinel, markets);
+  const stale: MarketOption[] = [];
+
+  for (const status of statuses) {
+    if (status.isFresh) continue;
+    const position = await lendingProtocol.userPositions(status.market.address, account);
+    if (!position.depositAmount.isZero() || !position.borrowAmount.isZero()) {
+      stale.push(status.market);
+    }
+  }
+  return stale;
+}
+
+export function formatStalePriceWarning(staleMarkets: MarketOption[], action: string): string {
+  const symbols = staleMarkets.map(m => m.symbol).join(', ');
+  return `${action} is blocked until the ${symbols} oracle price is updated`;
+}
+
+export type PausableAction = 'deposit' | 'withdraw' | 'borrow' | 'repay' | 'liquidate';
+
+// Protocol-wide pause plus the market's own guardian pauses, from one lens call
+export interface MarketPauseStatus {
+  protocolPaused: boolean;
+  paused: Record<PausableAction, boolean>;
+}
+
+export async function getPauseStatus(
+  lendingLens: EnhancedLendingLens | null,
+  market: MarketOption
+): Promise<MarketPauseStatus | null> {
+  if (!lendingLens) return null;
+
+  const status = await lendingLens.getPauseStatus(market.address);
+  return {
+    protocolPaused: status.protocolPaused,
+    paused: {
+      deposit: status.depositPaused,
+      withdraw: status.withdrawPaused,
+      borrow: status.borrowPaused,
+      repay: status.repayPaused,
+      liquidate: status.liquidatePaused
+    }
+  };
+}
+
+// Why an action is unavailable, or null when it is not paused
+export function getPauseReason(
+  status: MarketPauseStatus | null,
+  action: PausableAction,
+  market: MarketOption
+): string | null {
+  if (!status) return null;
+  if (status.protocolPaused) {
+    return 'The protocol is paused by the guardian, all actions are stopped';
+  }
+  if (status.paused[action]) {
+    const name = action.charAt(0).toUpperCase() + action.slice(1);
+    return `${name} is paused for ${market.symbol} by the guardian`;
+  }
+  return null;
+}
@@ -0,0 +1,71 @@
+// utils/permit.ts
+import { ethers } from 'ethers';
+
+const ERC20_PERMIT_ABI = [
+  "function name() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)"
+];
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+// How long a signed permit stays valid, measured from the latest block
+const PERMIT_VALIDITY_SECONDS = 20 * 60;
+
+export interface PermitSignature {
+  deadline: number;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// Sign an EIP-2612 permit so the protocol can pull tokens without a separate approve transaction.
+// Returns null when the token does not implement permit, callers should fall back to approve.
+export async function signPermit(
+  signer: ethers.providers.JsonRpcSigner,
+  tokenAddress: string,
+  spender: string,
+  amount: ethers.BigNumber
+): Promise<PermitSignature | null> {
+  const token = new ethers.Contract(tokenAddress, ERC20_PERMIT_ABI, signer);
+  const owner = await signer.getAddress();
+
+  let nonce: ethers.BigNumber;
+  try {
+    nonce = await token.nonces(owner);
+  } catch {
+    return null;
+  }
+
+  // Prefer the EIP-5267 domain, older permit tokens only expose their name and use version 1
+  let name: string;
+  let version = '1';
+  try {
+    const domain = await token.eip712Domain();
+    name = domain.name;
+    version = domain.version;
+  } catch {
+    name = await token.name();
+  }
+
+  const { chainId } = await signer.provider.getNetwork();
+  const latestBlock = await signer.provider.getBlock('latest');
+  const deadline = latestBlock.timestamp + PERMIT_VALIDITY_SECONDS;
+
+  const signature = await signer._signTypedData(
+    { name, version, chainId, verifyingContract: tokenAddress },
+    PERMIT_TYPES,
+    { owner, spender, value: amount, nonce, deadline }
+  );
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+
+  return { deadline, v, r, s };
+}
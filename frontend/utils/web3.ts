@@ -4,10 +4,14 @@ import type { Ethereum } from '../../types/window';
 import { EnhancedLendingProtocol } from "@typechain/contracts/core/EnhancedLendingProtocol";
 import { APIIntegrationManager } from "@typechain/contracts/integration/APIIntegrationManager";
 import { EnhancedLendingProtocol__factory } from "@typechain/factories/contracts/core/EnhancedLendingProtocol__factory";
+import { EnhancedLendingLens__factory } from "@typechain/factories/contracts/core/EnhancedLendingLens__factory";
+import { PriceOracleSentinel__factory } from "@typechain/factories/contracts/core/PriceOracleSentinel__factory";
+import { PositionManager__factory } from "@typechain/factories/contracts/core/PositionManager__factory";
+import { LeverageRouter__factory } from "@typechain/factories/contracts/core/LeverageRouter__factory";
+import { CollateralSwap__factory } from "@typechain/factories/contracts/core/CollateralSwap__factory";
 import { APIIntegrationManager__factory } from "@typechain/factories/contracts/integration/APIIntegrationManager__factory";
 import { getContractAddresses, CHAIN_IDS } from '../config/contracts';
-import { MockPriceOracle } from '@typechain/contracts/mocks/MockPriceOracle';
-import { MockPriceOracle__factory } from '@typechain/factories/contracts/mocks/MockPriceOracle__factory';
+import { IPriceOracle__factory } from '@typechain/factories/contracts/interfaces/IPriceOracle__factory';
 
 export async function connectWallet(): Promise<ethers.providers.Web3Provider | null> {
   try {
@@ -92,25 +96,51 @@ export async function getContracts(provider: ethers.providers.Web3Provider) {
     signer
   );
 
+  // Read-only helpers; deployments from before the lens existed have no address for it
+  const lendingLens = addresses.lendingLens
+    ? EnhancedLendingLens__factory.connect(addresses.lendingLens, signer)
+    : null;
+
+  // Position NFTs; null on deployments without a PositionManager
+  const positionManager = addresses.positionManager
+    ? PositionManager__factory.connect(addresses.positionManager, signer)
+    : null;
+
+  // Leveraged WETH positions; null on deployments without a LeverageRouter
+  const leverageRouter = addresses.leverageRouter
+    ? LeverageRouter__factory.connect(addresses.leverageRouter, signer)
+    : null;
+
+  // Collateral swaps between markets; null on deployments without a CollateralSwap
+  const collateralSwap = addresses.collateralSwap
+    ? CollateralSwap__factory.connect(addresses.collateralSwap, signer)
+    : null;
+
   const apiManager = APIIntegrationManager__factory.connect(
     addresses.apiManager,
     signer
   );
 
-  // Add price oracle initialization
+  // Add price oracle initialization; this is the aggregator, not one of the mock feeds
   const priceOracleAddress = await lendingProtocol.priceOracle();
-  const priceOracle = MockPriceOracle__factory.connect(
+  const priceOracle = IPriceOracle__factory.connect(
     priceOracleAddress,
     signer
   );
 
   //console.log('priceOracleAddress',  priceOracleAddress);
 
+  // Oracle circuit breaker; null when the protocol runs without one
+  const priceSentinelAddress = await lendingProtocol.priceSentinel();
+  const priceSentinel = priceSentinelAddress !== ethers.constants.AddressZero
+    ? PriceOracleSentinel__factory.connect(priceSentinelAddress, signer)
+    : null;
+
   // Basic contract verification
   const wethAddress = await lendingProtocol.weth();
   const tokenConfig = await lendingProtocol.tokenConfigs(wethAddress);
   //console.log("WETH addresses match:", wethAddress);
-  return { lendingProtocol, apiManager, priceOracle };
+  return { lendingProtocol, lendingLens, positionManager, leverageRouter, collateralSwap, apiManager, priceOracle, priceSentinel };
 }
 
 // Function to get current chain ID
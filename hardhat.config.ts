@@ -12,6 +12,10 @@ import dotenv from "dotenv";
 import fs from "fs";
 dotenv.config();
 import type { TypechainConfig } from '@typechain/hardhat/dist/types';
+import "./scripts/tasks/timelock";
+import "./scripts/tasks/oracle";
+import "./scripts/tasks/guardian";
+import "./scripts/tasks/upgrade";
 
 interface EtherscanConfig {
   apiKey: {
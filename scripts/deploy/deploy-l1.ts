@@ -4,7 +4,10 @@ import { Contract, PayableOverrides, BigNumberish, BigNumber, ContractTransactio
 import { PrismaClient } from '@prisma/client';
 import { IntegrationService } from '../../services/IntegrationService';
 import { updateContractConfigs } from '../utils/updateConfigs';
-import { fetchAndSaveEthPrice, updateOraclePrice } from '../utils/priceManager';
+import { getLendingProtocolFactory } from '../utils/lendingLibraries';
+import { deployProxy, getImplementationAddress } from '../utils/proxy';
+import { deployProtocolTimelock, transferAdminToTimelock } from '../utils/timelock';
+import { fetchAndSaveEthPrice, updateOraclePrice, updateStablecoinPrice } from '../utils/priceManager';
 
 const prisma = new PrismaClient()
 
@@ -73,11 +76,12 @@ async function main() {
   console.log("Deploying contracts to L1 (Ethereum)...");
   
   // Get deployer and liquidator accounts
-  const [deployer, liquidator, delegate1, delegate2] = await ethers.getSigners();
+  const [deployer, liquidator, delegate1, delegate2, supplier] = await ethers.getSigners();
   console.log("Deploying contracts with account:", deployer.address);
   console.log("Liquidator account:", liquidator.address);
   console.log("Delegate 1 account:", delegate1.address);
   console.log("Delegate 2 account:", delegate2.address);
+  console.log("Liquidity supplier account:", supplier.address);
   console.log("Account balance:", ethers.utils.formatEther(await deployer.getBalance()));
 
   // Get current gas settings
@@ -85,7 +89,7 @@ async function main() {
   const maxFeePerGas = gasPrice.mul(2);
   
   const deploymentOptions = {
-    gasLimit: 5000000,
+    gasLimit: 8000000, // EnhancedLendingProtocol alone needs ~5.5M to deploy
     maxFeePerGas: ethers.utils.parseUnits("3", "gwei"),
     maxPriorityFeePerGas: ethers.utils.parseUnits("1", "gwei")
   };  
@@ -106,12 +110,38 @@ async function main() {
   await mockUSDC.deployed();
   console.log("MockUSDC deployed to:", mockUSDC.address);
 
-  // Deploy MockPriceOracle
-  console.log("Deploying MockPriceOracle...");
-  const MockPriceOracle = await ethers.getContractFactory("MockPriceOracle");
-  const mockPriceOracle = await MockPriceOracle.deploy(deploymentOptions);
-  await mockPriceOracle.deployed();
-  console.log("MockPriceOracle deployed to:", mockPriceOracle.address);
+  // Deploy several mock feeds behind a median aggregator, so a manipulated feed can be simulated
+  // locally by moving one feed away from the others
+  // ORACLE_MODE=twap makes each feed a time-weighted average instead of a spot price
+  const oracleMode = process.env.ORACLE_MODE === "twap" ? "twap" : "spot";
+  const twapWindow = parseInt(process.env.ORACLE_TWAP_WINDOW || "1800"); // seconds
+  const feedContract = oracleMode === "twap" ? "TWAPPriceOracle" : "MockPriceOracle";
+  console.log(`Deploying ${oracleMode} price feeds...`);
+  const PriceFeed = await ethers.getContractFactory(feedContract);
+  const priceFeeds = [];
+  for (let i = 0; i < 3; i++) {
+    const feed = oracleMode === "twap"
+      ? await PriceFeed.deploy(twapWindow, deploymentOptions)
+      : await PriceFeed.deploy(deploymentOptions);
+    await feed.deployed();
+    priceFeeds.push(feed);
+    console.log(`${feedContract} feed ${i + 1} deployed to:`, feed.address);
+  }
+
+  console.log("Deploying AggregatedPriceOracle...");
+  const AggregatedPriceOracle = await ethers.getContractFactory("AggregatedPriceOracle");
+  const priceOracle = await AggregatedPriceOracle.deploy(deploymentOptions);
+  await priceOracle.deployed();
+  console.log("AggregatedPriceOracle deployed to:", priceOracle.address);
+
+  const sourceHeartbeat = parseInt(process.env.ORACLE_SOURCE_HEARTBEAT || "0"); // seconds, 0 = no limit
+  for (const token of [mockWETH.address, mockUSDC.address]) {
+    for (const feed of priceFeeds) {
+      await (await priceOracle.addSource(token, feed.address, sourceHeartbeat)).wait();
+    }
+    await (await priceOracle.setAggregationConfig(token, 500, 2)).wait(); // drop feeds 5% off the median, 2 must agree
+  }
+  console.log("Registered price feeds with the aggregator");
 
   // Deploy both lending protocols
   console.log("Deploying TestLendingProtocol...");
@@ -123,15 +153,46 @@ async function main() {
   await testLendingProtocol.deployed();
   console.log("TestLendingProtocol deployed to:", testLendingProtocol.address);
 
+  console.log("Deploying lending logic libraries...");
+  const EnhancedLendingProtocol = await getLendingProtocolFactory(deploymentOptions);
   console.log("Deploying EnhancedLendingProtocol...");
-  const EnhancedLendingProtocol = await ethers.getContractFactory("EnhancedLendingProtocol");
-  const enhancedLendingProtocol = await EnhancedLendingProtocol.deploy(
-    mockWETH.address,
-    mockPriceOracle.address,
+  // UUPS implementation behind a ProtocolProxy, the proxy address is the protocol's address
+  const enhancedLendingProtocol = await deployProxy(
+    EnhancedLendingProtocol,
+    [mockWETH.address, priceOracle.address],
     deploymentOptions
   );
-  await enhancedLendingProtocol.deployed();
   console.log("EnhancedLendingProtocol deployed to:", enhancedLendingProtocol.address);
+  console.log("EnhancedLendingProtocol implementation:", await getImplementationAddress(enhancedLendingProtocol.address));
+
+  // Read-only helpers for the frontend live in a separate lens contract
+  console.log("Deploying EnhancedLendingLens...");
+  const EnhancedLendingLens = await ethers.getContractFactory("EnhancedLendingLens");
+  const enhancedLendingLens = await EnhancedLendingLens.deploy(
+    enhancedLendingProtocol.address,
+    deploymentOptions
+  );
+  await enhancedLendingLens.deployed();
+  console.log("EnhancedLendingLens deployed to:", enhancedLendingLens.address);
+
+  // Position NFTs wrap positions into PositionAccounts, which needs the protocol's position manager role
+  console.log("Deploying PositionManager...");
+  const PositionManager = await ethers.getContractFactory("PositionManager");
+  const positionManager = await PositionManager.deploy(
+    enhancedLendingProtocol.address,
+    deploymentOptions
+  );
+  await positionManager.deployed();
+  const POSITION_MANAGER_ROLE = await enhancedLendingProtocol.POSITION_MANAGER_ROLE();
+  await (await enhancedLendingProtocol.grantRole(POSITION_MANAGER_ROLE, positionManager.address)).wait();
+  console.log("PositionManager deployed to:", positionManager.address);
+
+  // Leveraged WETH positions are built in position NFTs, so the router only talks to the PositionManager
+  console.log("Deploying LeverageRouter...");
+  const LeverageRouter = await ethers.getContractFactory("LeverageRouter");
+  const leverageRouter = await LeverageRouter.deploy(positionManager.address, deploymentOptions);
+  await leverageRouter.deployed();
+  console.log("LeverageRouter deployed to:", leverageRouter.address);
 
   // Add delay to ensure contract is ready
   await new Promise(resolve => setTimeout(resolve, 1000));
@@ -174,7 +235,10 @@ async function main() {
   // First fetch and save the price (only needed once across all deployments)
   await fetchAndSaveEthPrice();
   // Then update the oracle using the saved price
-  const priceUpdateSuccess = await updateOraclePrice(mockPriceOracle, mockWETH.address);
+  let priceUpdateSuccess = true;
+  for (const feed of priceFeeds) {
+    priceUpdateSuccess = (await updateOraclePrice(feed, mockWETH.address)) && priceUpdateSuccess;
+  }
   if (!priceUpdateSuccess) {
       console.log("Warning: Oracle price update failed");
   }
@@ -192,6 +256,125 @@ async function main() {
   await tokenConfigTx.wait();
   console.log("WETH configured in lending protocol");
 
+  // Configure USDC as a second market for deposits and borrows
+  console.log("Configuring USDC in lending protocol...");
+  let usdcPriceUpdateSuccess = true;
+  for (const feed of priceFeeds) {
+    usdcPriceUpdateSuccess = (await updateStablecoinPrice(feed, mockUSDC.address)) && usdcPriceUpdateSuccess;
+  }
+  if (!usdcPriceUpdateSuccess) {
+      console.log("Warning: USDC oracle price update failed");
+  }
+  const usdcConfigTx = await enhancedLendingProtocol.setTokenConfig(
+    mockUSDC.address,
+    true, // isSupported
+    8000, // 80% collateral factor
+    8500, // 85% liquidation threshold
+    500,  // 5% liquidation penalty
+    500   // 5% interest rate
+  );
+  await usdcConfigTx.wait();
+  console.log("USDC configured in lending protocol");
+
+  // Utilization-based rate models, one per market
+  console.log("Deploying interest rate models...");
+  const JumpRateModel = await ethers.getContractFactory("JumpRateModel");
+  const wethRateModel = await (await JumpRateModel.deploy(
+    200,  // 2% base rate
+    400,  // +4% up to the kink
+    7500, // +75% from the kink to full utilization
+    8000, // 80% optimal utilization
+    deploymentOptions
+  )).deployed();
+  const usdcRateModel = await (await JumpRateModel.deploy(
+    0,    // 0% base rate
+    400,  // +4% up to the kink
+    6000, // +60% from the kink to full utilization
+    9000, // 90% optimal utilization
+    deploymentOptions
+  )).deployed();
+  await (await enhancedLendingProtocol.setInterestRateModel(mockWETH.address, wethRateModel.address)).wait();
+  await (await enhancedLendingProtocol.setInterestRateModel(mockUSDC.address, usdcRateModel.address)).wait();
+  console.log("WETH rate model deployed to:", wethRateModel.address);
+  console.log("USDC rate model deployed to:", usdcRateModel.address);
+
+  // Keep 10% of borrower interest as protocol reserves
+  await (await enhancedLendingProtocol.setReserveFactor(mockWETH.address, 1000)).wait();
+  await (await enhancedLendingProtocol.setReserveFactor(mockUSDC.address, 1000)).wait();
+  console.log("Reserve factors configured");
+
+  // 0.09% flash loan fee on both markets
+  await (await enhancedLendingProtocol.setFlashLoanFee(mockWETH.address, 9)).wait();
+  await (await enhancedLendingProtocol.setFlashLoanFee(mockUSDC.address, 9)).wait();
+  console.log("Flash loan fees configured");
+
+  // Stable-rate borrowing at a 2% premium over the variable rate, rebalanceable after a 5 point drift
+  await (await enhancedLendingProtocol.setStableRateConfig(mockWETH.address, true, 200, 500)).wait();
+  await (await enhancedLendingProtocol.setStableRateConfig(mockUSDC.address, true, 200, 500)).wait();
+  console.log("Stable rates configured");
+
+  // Collateral swaps route through a constant-product pool seeded at the oracle price
+  console.log("Deploying swap adapter...");
+  const MockConstantProductAMM = await ethers.getContractFactory("MockConstantProductAMM");
+  const swapAdapter = await MockConstantProductAMM.deploy(mockWETH.address, mockUSDC.address, deploymentOptions);
+  await swapAdapter.deployed();
+  const ammWethLiquidity = ethers.utils.parseEther("5");
+  const wethPrice = await priceOracle.getPrice(mockWETH.address);
+  const ammUsdcLiquidity = ammWethLiquidity.mul(wethPrice).div(ethers.utils.parseEther("1")).div(1e12);
+  await (await mockWETH.connect(deployer).deposit({ value: ammWethLiquidity })).wait();
+  await (await mockWETH.connect(deployer).approve(swapAdapter.address, ammWethLiquidity)).wait();
+  await (await mockUSDC.connect(deployer).approve(swapAdapter.address, ammUsdcLiquidity)).wait();
+  await (await swapAdapter.addLiquidity(ammWethLiquidity, ammUsdcLiquidity)).wait();
+  console.log("Swap adapter deployed to:", swapAdapter.address);
+
+  // CollateralSwap holds a position while swapping it, which needs the protocol's position manager role
+  console.log("Deploying CollateralSwap...");
+  const CollateralSwap = await ethers.getContractFactory("CollateralSwap");
+  const collateralSwap = await CollateralSwap.deploy(
+    enhancedLendingProtocol.address,
+    swapAdapter.address,
+    deploymentOptions
+  );
+  await collateralSwap.deployed();
+  await (await enhancedLendingProtocol.grantRole(POSITION_MANAGER_ROLE, collateralSwap.address)).wait();
+  console.log("CollateralSwap deployed to:", collateralSwap.address);
+
+  // Oracle circuit breaker: stale prices block borrows and withdrawals, jumps halt liquidations
+  console.log("Deploying PriceOracleSentinel...");
+  const PriceOracleSentinel = await ethers.getContractFactory("PriceOracleSentinel");
+  const priceSentinel = await (await PriceOracleSentinel.deploy(
+    enhancedLendingProtocol.address,
+    deploymentOptions
+  )).deployed();
+  console.log("PriceOracleSentinel deployed to:", priceSentinel.address);
+
+  // Max price age is off by default so local time simulation does not block borrows
+  const maxPriceAge = parseInt(process.env.ORACLE_MAX_PRICE_AGE || "0"); // seconds, 0 = no limit
+  await (await priceSentinel.setPriceGuard(mockWETH.address, maxPriceAge, 2000)).wait(); // 20% max jump
+  await (await priceSentinel.setPriceGuard(mockUSDC.address, maxPriceAge, 500)).wait(); // 5% max jump
+  await (await priceSentinel.checkReferencePrice(mockWETH.address)).wait();
+  await (await priceSentinel.checkReferencePrice(mockUSDC.address)).wait();
+  await (await enhancedLendingProtocol.setPriceSentinel(priceSentinel.address)).wait();
+  console.log("Price sentinel configured");
+
+  // Seed both markets so there is liquidity to borrow. A separate account supplies it, so the
+  // deployer's own position (the e2e suite's first account) only holds what the UI puts there
+  const usdcLiquidity = ethers.utils.parseUnits("100000", 6); // 100k USDC
+  const wethLiquidity = ethers.utils.parseEther("10.0");
+  await (await mockUSDC.connect(deployer).transfer(supplier.address, usdcLiquidity)).wait();
+  await (await mockUSDC.connect(supplier).approve(
+    enhancedLendingProtocol.address,
+    ethers.constants.MaxUint256
+  )).wait();
+  await (await enhancedLendingProtocol.connect(supplier).deposit(mockUSDC.address, usdcLiquidity)).wait();
+  await (await enhancedLendingProtocol.connect(supplier).deposit(
+    mockWETH.address,
+    wethLiquidity,
+    { value: wethLiquidity }
+  )).wait();
+  console.log("Seeded USDC market with:", ethers.utils.formatUnits(usdcLiquidity, 6));
+  console.log("Seeded WETH market with:", ethers.utils.formatEther(wethLiquidity));
+
   // Approve WETH spending for all accounts
   await mockWETH.connect(deployer).approve(
     enhancedLendingProtocol.address,
@@ -220,14 +403,25 @@ async function main() {
   await enhancedLendingProtocol.grantRole(LIQUIDATOR_ROLE, liquidator.address);
   console.log("Granted liquidator role to:", liquidator.address);
 
-  // Define DELEGATE_ROLE for the protocol
-  const DELEGATE_ROLE = await enhancedLendingProtocol.DELEGATE_ROLE();
+  // Hand parameter control to a timelock; the deployer keeps GUARDIAN_ROLE for instant pauses
+  const timelockMinDelay = parseInt(process.env.TIMELOCK_MIN_DELAY || "60"); // seconds
+  console.log("Deploying ProtocolTimelock...");
+  const timelock = await deployProtocolTimelock(timelockMinDelay, deployer.address, deploymentOptions);
+  console.log(`ProtocolTimelock deployed to: ${timelock.address} (min delay ${timelockMinDelay}s)`);
+
+  await transferAdminToTimelock(
+    timelock.address,
+    { lendingProtocol: enhancedLendingProtocol, priceSentinel, priceOracle, collateralSwap },
+    deployer.address
+  );
+  console.log("Transferred admin and oracle manager roles to the timelock");
 
   // Deploy integration service
   const integrationService = new IntegrationService(
     process.env.RPC_URL!,
     apiManager.address,
-    enhancedLendingProtocol.address
+    enhancedLendingProtocol.address,
+    positionManager.address
   );
   
   try {
@@ -242,11 +436,10 @@ async function main() {
   // Deploy StakingPool
   console.log("Deploying StakingPool...");
   const StakingPool = await ethers.getContractFactory("StakingPool");
-  const stakingPool = await StakingPool.deploy(
+  const stakingPool = await deployProxy(StakingPool, [
       mockWETH.address,  // staking token
       mockUSDC.address   // reward token
-  );
-  await stakingPool.deployed();
+  ]);
   console.log("StakingPool deployed to:", stakingPool.address);
 
   // After StakingPool deployment
@@ -258,32 +451,23 @@ async function main() {
   // Deploy DelegateManager
   console.log("Deploying DelegateManager...");
   const DelegateManager = await ethers.getContractFactory("DelegateManager");
-  const delegateManager = await DelegateManager.deploy(
-    enhancedLendingProtocol.address,
-    mockWETH.address,
+  const delegateManager = await deployProxy(
+    DelegateManager,
+    [enhancedLendingProtocol.address, mockWETH.address],
     deploymentOptions
   );
-  await delegateManager.deployed();
   console.log("DelegateManager deployed to:", delegateManager.address);
 
   // Deploy AutoRebalancer
   console.log("Deploying AutoRebalancer...");
   const AutoRebalancer = await ethers.getContractFactory("AutoRebalancer");
-  const autoRebalancer = await AutoRebalancer.deploy(
-    delegateManager.address,
-    enhancedLendingProtocol.address,
-    mockPriceOracle.address,
-    mockWETH.address,
+  const autoRebalancer = await deployProxy(
+    AutoRebalancer,
+    [delegateManager.address, enhancedLendingProtocol.address, priceOracle.address, mockWETH.address],
     deploymentOptions
   );
-  await autoRebalancer.deployed();
   console.log("AutoRebalancer deployed to:", autoRebalancer.address);
 
-  // Grant DELEGATE_ROLE to the DelegateManager
-  console.log("Granting DELEGATE_ROLE to DelegateManager...");
-  await enhancedLendingProtocol.grantRole(DELEGATE_ROLE, delegateManager.address);
-  console.log("DELEGATE_ROLE granted to DelegateManager");
-
   // CRITICAL: Add approvals for WETH from deployer to DelegateManager and AutoRebalancer
   console.log("Approving WETH transfers for delegation setup...");
   await mockWETH.connect(deployer).approve(delegateManager.address, ethers.constants.MaxUint256);
@@ -307,6 +491,14 @@ async function main() {
     { gasLimit: 500000 } // Explicit gas limit
   );
   console.log(`Created individual delegation from deployer to delegate1 with max borrow: ${ethers.utils.formatEther(delegate1MaxBorrow)} ETH`);
+
+  // DelegateManager borrows through borrowBehalf, which spends the deployer's borrow allowance
+  await enhancedLendingProtocol.connect(deployer).approveDelegation(
+    delegateManager.address,
+    mockWETH.address,
+    delegate1MaxBorrow
+  );
+  console.log(`Approved DelegateManager to borrow up to ${ethers.utils.formatEther(delegate1MaxBorrow)} WETH for deployer`);
   
   // Skip the AutoRebalancer delegation setup
   console.log("Skipping AutoRebalancer delegation setup for testing");
@@ -328,8 +520,17 @@ async function main() {
     usdc: mockUSDC.address,
     lendingProtocol: testLendingProtocol.address,
     enhancedLendingProtocol: enhancedLendingProtocol.address,
+    lendingLens: enhancedLendingLens.address,
+    positionManager: positionManager.address,
+    leverageRouter: leverageRouter.address,
+    collateralSwap: collateralSwap.address,
+    swapAdapter: swapAdapter.address,
+    timelock: timelock.address,
+    priceSentinel: priceSentinel.address,
     apiManager: apiManager.address,
-    priceOracle: mockPriceOracle.address,
+    priceOracle: priceOracle.address,
+    priceFeeds: priceFeeds.map((feed) => feed.address),
+    oracleMode,
     stakingPool: stakingPool.address,
     delegateManager: delegateManager.address,
     autoRebalancer: autoRebalancer.address
@@ -343,9 +544,17 @@ async function main() {
   console.log("======================");
   console.log(`MockWETH: ${mockWETH.address}`);
   console.log(`MockUSDC: ${mockUSDC.address}`);
-  console.log(`PriceOracle: ${mockPriceOracle.address}`);
+  console.log(`PriceOracle: ${priceOracle.address}`);
+  console.log(`PriceFeeds (${oracleMode}): ${priceFeeds.map((feed) => feed.address).join(", ")}`);
   console.log(`TestLendingProtocol: ${testLendingProtocol.address}`);
   console.log(`EnhancedLendingProtocol: ${enhancedLendingProtocol.address}`);
+  console.log(`EnhancedLendingLens: ${enhancedLendingLens.address}`);
+  console.log(`PositionManager: ${positionManager.address}`);
+  console.log(`LeverageRouter: ${leverageRouter.address}`);
+  console.log(`CollateralSwap: ${collateralSwap.address}`);
+  console.log(`SwapAdapter: ${swapAdapter.address}`);
+  console.log(`ProtocolTimelock: ${timelock.address}`);
+  console.log(`PriceOracleSentinel: ${priceSentinel.address}`);
   console.log(`APIIntegrationManager: ${apiManager.address}`);
   console.log(`StakingPool: ${stakingPool.address}`);
   console.log(`DelegateManager: ${delegateManager.address}`);
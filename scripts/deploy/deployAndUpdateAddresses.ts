@@ -5,6 +5,9 @@ import path from "path";
 import { PrismaClient } from '@prisma/client';
 import { IntegrationService } from '../../services/IntegrationService';
 import { updateContractConfigs } from '../utils/updateConfigs';
+import { getLendingProtocolFactory } from '../utils/lendingLibraries';
+import { deployProxy, getImplementationAddress } from '../utils/proxy';
+import { updateStablecoinPrice } from '../utils/priceManager';
 
 const prisma = new PrismaClient()
 
@@ -115,14 +118,45 @@ async function main() {
   await testLendingProtocol.deployed();
   console.log("TestLendingProtocol deployed to:", testLendingProtocol.address);
 
-  const EnhancedLendingProtocol = await ethers.getContractFactory("EnhancedLendingProtocol");
-  const enhancedLendingProtocol = await EnhancedLendingProtocol.deploy(
-    mockWETH.address,
-    mockPriceOracle.address,
+  console.log("Deploying lending logic libraries...");
+  const EnhancedLendingProtocol = await getLendingProtocolFactory(deploymentOptions);
+  // UUPS implementation behind a ProtocolProxy, the proxy address is the protocol's address
+  const enhancedLendingProtocol = await deployProxy(
+    EnhancedLendingProtocol,
+    [mockWETH.address, mockPriceOracle.address],
     deploymentOptions
   );
-  await enhancedLendingProtocol.deployed();
   console.log("EnhancedLendingProtocol deployed to:", enhancedLendingProtocol.address);
+  console.log("EnhancedLendingProtocol implementation:", await getImplementationAddress(enhancedLendingProtocol.address));
+
+  // Read-only helpers for the frontend live in a separate lens contract
+  console.log("Deploying EnhancedLendingLens...");
+  const EnhancedLendingLens = await ethers.getContractFactory("EnhancedLendingLens");
+  const enhancedLendingLens = await EnhancedLendingLens.deploy(
+    enhancedLendingProtocol.address,
+    deploymentOptions
+  );
+  await enhancedLendingLens.deployed();
+  console.log("EnhancedLendingLens deployed to:", enhancedLendingLens.address);
+
+  // Position NFTs wrap positions into PositionAccounts, which needs the protocol's position manager role
+  console.log("Deploying PositionManager...");
+  const PositionManager = await ethers.getContractFactory("PositionManager");
+  const positionManager = await PositionManager.deploy(
+    enhancedLendingProtocol.address,
+    deploymentOptions
+  );
+  await positionManager.deployed();
+  const POSITION_MANAGER_ROLE = await enhancedLendingProtocol.POSITION_MANAGER_ROLE();
+  await (await enhancedLendingProtocol.grantRole(POSITION_MANAGER_ROLE, positionManager.address)).wait();
+  console.log("PositionManager deployed to:", positionManager.address);
+
+  // Leveraged WETH positions are built in position NFTs, so the router only talks to the PositionManager
+  console.log("Deploying LeverageRouter...");
+  const LeverageRouter = await ethers.getContractFactory("LeverageRouter");
+  const leverageRouter = await LeverageRouter.deploy(positionManager.address, deploymentOptions);
+  await leverageRouter.deployed();
+  console.log("LeverageRouter deployed to:", leverageRouter.address);
 
   // Add delay to ensure contract is ready
   await new Promise(resolve => setTimeout(resolve, 1000));
@@ -172,6 +206,90 @@ async function main() {
   await tokenConfigTx.wait();
   console.log("WETH configured in lending protocol");
 
+  // Configure USDC as a second market for deposits and borrows
+  console.log("Configuring USDC in lending protocol...");
+  const usdcPriceUpdateSuccess = await updateStablecoinPrice(mockPriceOracle, mockUSDC.address);
+  if (!usdcPriceUpdateSuccess) {
+      console.log("Warning: USDC oracle price update failed");
+  }
+  const usdcConfigTx = await enhancedLendingProtocol.setTokenConfig(
+    mockUSDC.address,
+    true, // isSupported
+    8000, // 80% collateral factor
+    8500, // 85% liquidation threshold
+    500,  // 5% liquidation penalty
+    500   // 5% interest rate
+  );
+  await usdcConfigTx.wait();
+  console.log("USDC configured in lending protocol");
+
+  // Utilization-based rate models, one per market
+  console.log("Deploying interest rate models...");
+  const JumpRateModel = await ethers.getContractFactory("JumpRateModel");
+  const wethRateModel = await (await JumpRateModel.deploy(
+    200,  // 2% base rate
+    400,  // +4% up to the kink
+    7500, // +75% from the kink to full utilization
+    8000, // 80% optimal utilization
+    deploymentOptions
+  )).deployed();
+  const usdcRateModel = await (await JumpRateModel.deploy(
+    0,    // 0% base rate
+    400,  // +4% up to the kink
+    6000, // +60% from the kink to full utilization
+    9000, // 90% optimal utilization
+    deploymentOptions
+  )).deployed();
+  await (await enhancedLendingProtocol.setInterestRateModel(mockWETH.address, wethRateModel.address)).wait();
+  await (await enhancedLendingProtocol.setInterestRateModel(mockUSDC.address, usdcRateModel.address)).wait();
+  console.log("WETH rate model deployed to:", wethRateModel.address);
+  console.log("USDC rate model deployed to:", usdcRateModel.address);
+
+  // Keep 10% of borrower interest as protocol reserves
+  await (await enhancedLendingProtocol.setReserveFactor(mockWETH.address, 1000)).wait();
+  await (await enhancedLendingProtocol.setReserveFactor(mockUSDC.address, 1000)).wait();
+  console.log("Reserve factors configured");
+
+  // 0.09% flash loan fee on both markets
+  await (await enhancedLendingProtocol.setFlashLoanFee(mockWETH.address, 9)).wait();
+  await (await enhancedLendingProtocol.setFlashLoanFee(mockUSDC.address, 9)).wait();
+  console.log("Flash loan fees configured");
+
+  // Collateral swaps route through a constant-product pool seeded at the oracle price
+  console.log("Deploying swap adapter...");
+  const MockConstantProductAMM = await ethers.getContractFactory("MockConstantProductAMM");
+  const swapAdapter = await MockConstantProductAMM.deploy(mockWETH.address, mockUSDC.address, deploymentOptions);
+  await swapAdapter.deployed();
+  const ammWethLiquidity = ethers.utils.parseEther("5");
+  const wethPrice = await mockPriceOracle.getPrice(mockWETH.address);
+  const ammUsdcLiquidity = ammWethLiquidity.mul(wethPrice).div(ethers.utils.parseEther("1")).div(1e12);
+  await (await mockWETH.connect(deployer).deposit({ value: ammWethLiquidity })).wait();
+  await (await mockWETH.connect(deployer).approve(swapAdapter.address, ammWethLiquidity)).wait();
+  await (await mockUSDC.connect(deployer).approve(swapAdapter.address, ammUsdcLiquidity)).wait();
+  await (await swapAdapter.addLiquidity(ammWethLiquidity, ammUsdcLiquidity)).wait();
+  console.log("Swap adapter deployed to:", swapAdapter.address);
+
+  // CollateralSwap holds a position while swapping it, which needs the protocol's position manager role
+  console.log("Deploying CollateralSwap...");
+  const CollateralSwap = await ethers.getContractFactory("CollateralSwap");
+  const collateralSwap = await CollateralSwap.deploy(
+    enhancedLendingProtocol.address,
+    swapAdapter.address,
+    deploymentOptions
+  );
+  await collateralSwap.deployed();
+  await (await enhancedLendingProtocol.grantRole(POSITION_MANAGER_ROLE, collateralSwap.address)).wait();
+  console.log("CollateralSwap deployed to:", collateralSwap.address);
+
+  // Seed the USDC market so there is liquidity to borrow
+  const usdcLiquidity = ethers.utils.parseUnits("100000", 6); // 100k USDC
+  await mockUSDC.connect(deployer).approve(
+    enhancedLendingProtocol.address,
+    ethers.constants.MaxUint256
+  );
+  await (await enhancedLendingProtocol.connect(deployer).deposit(mockUSDC.address, usdcLiquidity)).wait();
+  console.log("Seeded USDC market with:", ethers.utils.formatUnits(usdcLiquidity, 6));
+
   // Approve WETH spending for both accounts
   await mockWETH.connect(deployer).approve(
     enhancedLendingProtocol.address,
@@ -191,18 +309,18 @@ async function main() {
   const integrationService = new IntegrationService(
     process.env.RPC_URL!,
     apiManager.address,
-    enhancedLendingProtocol.address
+    enhancedLendingProtocol.address,
+    positionManager.address
   );
   
   await integrationService.initialize();
   await integrationService.syncDatabase();
   
   const StakingPool = await ethers.getContractFactory("StakingPool");
-  const stakingPool = await StakingPool.deploy(
+  const stakingPool = await deployProxy(StakingPool, [
       mockWETH.address,  // staking token
       mockUSDC.address   // reward token
-  );
-  await stakingPool.deployed();
+  ]);
   console.log("StakingPool deployed to:", stakingPool.address);
 
   // After StakingPool deployment
@@ -217,6 +335,11 @@ async function main() {
     usdc: mockUSDC.address,
     lendingProtocol: testLendingProtocol.address,
     enhancedLendingProtocol: enhancedLendingProtocol.address,
+    lendingLens: enhancedLendingLens.address,
+    positionManager: positionManager.address,
+    leverageRouter: leverageRouter.address,
+    collateralSwap: collateralSwap.address,
+    swapAdapter: swapAdapter.address,
     apiManager: apiManager.address,
     priceOracle: mockPriceOracle.address,
     stakingPool: stakingPool.address
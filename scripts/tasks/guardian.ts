@@ -0,0 +1,59 @@
+// scripts/tasks/guardian.ts
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Same order as EnhancedLendingProtocol.Action
+const ACTIONS = ["deposit", "withdraw", "borrow", "repay", "liquidate"];
+
+function loadAddresses(hre: HardhatRuntimeEnvironment): Record<string, any> {
+  const networksPath = path.join(__dirname, "../../test/config/networks.json");
+  const networks = JSON.parse(fs.readFileSync(networksPath, "utf-8"));
+
+  // deploy-l2.ts saves the Optimism fork addresses under "optimism"
+  const networkName = hre.network.name === "optimismFork" ? "optimism" : hre.network.name;
+  const addresses = networks[networkName];
+  if (!addresses || !addresses.enhancedLendingProtocol || !addresses.lendingLens) {
+    throw new Error(`No lending protocol found for network: ${networkName}`);
+  }
+  return addresses;
+}
+
+// Accepts "weth", "usdc" or a token address
+function resolveToken(addresses: Record<string, any>, token: string): string {
+  return addresses[token.toLowerCase()] || token;
+}
+
+task("guardian:status", "Show which actions are paused in a market")
+  .addOptionalParam("token", "weth, usdc or a token address", "weth")
+  .setAction(async (taskArgs, hre) => {
+    const addresses = loadAddresses(hre);
+    const lens = await hre.ethers.getContractAt("EnhancedLendingLens", addresses.lendingLens);
+    const status = await lens.getPauseStatus(resolveToken(addresses, taskArgs.token));
+
+    console.log(`Protocol paused: ${status.protocolPaused}`);
+    console.log(`Deposit paused: ${status.depositPaused}`);
+    console.log(`Withdraw paused: ${status.withdrawPaused}`);
+    console.log(`Borrow paused: ${status.borrowPaused}`);
+    console.log(`Repay paused: ${status.repayPaused}`);
+    console.log(`Liquidate paused: ${status.liquidatePaused}`);
+  });
+
+// Resuming is an admin change, queue setActionPaused(token, action, false) with timelock:queue
+task("guardian:pause-action", "Pause one action in one market, takes effect immediately")
+  .addParam("action", ACTIONS.join(", "))
+  .addOptionalParam("token", "weth, usdc or a token address", "weth")
+  .setAction(async (taskArgs, hre) => {
+    const action = ACTIONS.indexOf(taskArgs.action.toLowerCase());
+    if (action === -1) {
+      throw new Error(`Unknown action ${taskArgs.action}, expected one of ${ACTIONS.join(", ")}`);
+    }
+
+    const addresses = loadAddresses(hre);
+    const protocol = await hre.ethers.getContractAt("EnhancedLendingProtocol", addresses.enhancedLendingProtocol);
+    await (await protocol.setActionPaused(resolveToken(addresses, taskArgs.token), action, true)).wait();
+    console.log(`Paused ${ACTIONS[action]} for ${taskArgs.token}`);
+
+    await hre.run("guardian:status", { token: taskArgs.token });
+  });
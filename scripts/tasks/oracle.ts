@@ -0,0 +1,76 @@
+// scripts/tasks/oracle.ts
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+function loadAddresses(hre: HardhatRuntimeEnvironment): Record<string, any> {
+  const networksPath = path.join(__dirname, "../../test/config/networks.json");
+  const networks = JSON.parse(fs.readFileSync(networksPath, "utf-8"));
+
+  // deploy-l2.ts saves the Optimism fork addresses under "optimism"
+  const networkName = hre.network.name === "optimismFork" ? "optimism" : hre.network.name;
+  const addresses = networks[networkName];
+  if (!addresses || !addresses.priceOracle || !addresses.priceFeeds?.length) {
+    throw new Error(`No aggregated price oracle found for network: ${networkName}`);
+  }
+  return addresses;
+}
+
+// Accepts "weth", "usdc" or a token address
+function resolveToken(addresses: Record<string, any>, token: string): string {
+  return addresses[token.toLowerCase()] || token;
+}
+
+task("oracle:feeds", "Show each price feed of a token and how far it is from the aggregated price")
+  .addOptionalParam("token", "weth, usdc or a token address", "weth")
+  .setAction(async (taskArgs, hre) => {
+    const addresses = loadAddresses(hre);
+    const token = resolveToken(addresses, taskArgs.token);
+    const priceOracle = await hre.ethers.getContractAt("AggregatedPriceOracle", addresses.priceOracle);
+
+    let aggregated = null;
+    try {
+      aggregated = await priceOracle.getPrice(token);
+      console.log(`Aggregated price: $${hre.ethers.utils.formatUnits(aggregated, 18)}`);
+    } catch (error: any) {
+      console.log(`Aggregated price unavailable: ${error.reason || error.message}`);
+    }
+
+    const [feeds, heartbeats] = await priceOracle.getSources(token);
+    for (let i = 0; i < feeds.length; i++) {
+      const feed = await hre.ethers.getContractAt("IPriceOracle", feeds[i]);
+      const heartbeat = heartbeats[i].toNumber() === 0 ? "no heartbeat" : `heartbeat ${heartbeats[i]}s`;
+      try {
+        const price = await feed.getPrice(token);
+        const spread = aggregated
+          ? price.sub(aggregated).abs().mul(10000).div(aggregated).toNumber() / 100
+          : null;
+        console.log(
+          `Feed ${i + 1} ${feeds[i]}: $${hre.ethers.utils.formatUnits(price, 18)}` +
+            `${spread === null ? "" : ` (${spread}% off)`}, ${heartbeat}`
+        );
+      } catch {
+        console.log(`Feed ${i + 1} ${feeds[i]}: no price, ${heartbeat}`);
+      }
+    }
+  });
+
+task("oracle:set-feed-price", "Move a single mock feed, e.g. to simulate a manipulated source")
+  .addParam("feed", "Feed number as printed by oracle:feeds", undefined, types.int)
+  .addParam("price", "USD price, e.g. 1800.50")
+  .addOptionalParam("token", "weth, usdc or a token address", "weth")
+  .setAction(async (taskArgs, hre) => {
+    const addresses = loadAddresses(hre);
+    const token = resolveToken(addresses, taskArgs.token);
+    const feedAddress = addresses.priceFeeds[taskArgs.feed - 1];
+    if (!feedAddress) {
+      throw new Error(`No feed ${taskArgs.feed}, there are ${addresses.priceFeeds.length}`);
+    }
+
+    const feed = await hre.ethers.getContractAt("IPriceOracle", feedAddress);
+    await (await feed.updatePrice(token, hre.ethers.utils.parseUnits(taskArgs.price, 18))).wait();
+    console.log(`Set feed ${taskArgs.feed} price to $${taskArgs.price}`);
+
+    await hre.run("oracle:feeds", { token: taskArgs.token });
+  });
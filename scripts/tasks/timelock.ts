@@ -0,0 +1,156 @@
+// scripts/tasks/timelock.ts
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Chains we run ourselves, where it is fine to fast-forward time
+const LOCAL_CHAIN_IDS = [31337, 420];
+
+// Timelocked contracts and the networks.json key holding their address
+const TIMELOCKED_CONTRACTS: Record<string, string> = {
+  EnhancedLendingProtocol: "enhancedLendingProtocol",
+  PriceOracleSentinel: "priceSentinel",
+  AggregatedPriceOracle: "priceOracle",
+  CollateralSwap: "collateralSwap",
+};
+
+function loadAddresses(hre: HardhatRuntimeEnvironment): Record<string, string> {
+  const networksPath = path.join(__dirname, "../../test/config/networks.json");
+  const networks = JSON.parse(fs.readFileSync(networksPath, "utf-8"));
+
+  // deploy-l2.ts saves the Optimism fork addresses under "optimism"
+  const networkName = hre.network.name === "optimismFork" ? "optimism" : hre.network.name;
+  const addresses = networks[networkName];
+  if (!addresses || !addresses.timelock || !addresses.enhancedLendingProtocol) {
+    throw new Error(`No timelock deployment found for network: ${networkName}`);
+  }
+  return addresses;
+}
+
+async function getTimelock(hre: HardhatRuntimeEnvironment, address?: string) {
+  const timelockAddress = address || loadAddresses(hre).timelock;
+  return hre.ethers.getContractAt("ProtocolTimelock", timelockAddress);
+}
+
+async function getInterface(hre: HardhatRuntimeEnvironment, contractName: string) {
+  const { abi } = await hre.artifacts.readArtifact(contractName);
+  return new hre.ethers.utils.Interface(abi);
+}
+
+// Best-effort decoding of queued calldata for display
+async function describeCall(hre: HardhatRuntimeEnvironment, data: string): Promise<string> {
+  for (const contractName of Object.keys(TIMELOCKED_CONTRACTS)) {
+    const contractInterface = await getInterface(hre, contractName);
+    try {
+      const call = contractInterface.parseTransaction({ data });
+      return `${call.name}(${call.args.map((arg) => arg.toString()).join(", ")})`;
+    } catch {
+      // Not a call on this contract, try the next one
+    }
+  }
+  return data.slice(0, 10);
+}
+
+task("timelock:queue", "Queue an admin call through the timelock")
+  .addParam("method", "Function to call, e.g. setReserveFactor")
+  .addOptionalParam("args", "JSON array of arguments", "[]")
+  .addOptionalParam("contract", "Contract the call is made on", "EnhancedLendingProtocol")
+  .addOptionalParam("target", "Address to call (defaults to the contract's address in networks.json)")
+  .addOptionalParam("delay", "Delay in seconds (defaults to the timelock minimum)", undefined, types.int)
+  .addOptionalParam("timelock", "Timelock address (defaults to networks.json)")
+  .setAction(async (taskArgs, hre) => {
+    const timelock = await getTimelock(hre, taskArgs.timelock);
+    const addressKey = TIMELOCKED_CONTRACTS[taskArgs.contract];
+    if (!addressKey) {
+      throw new Error(`Not a timelocked contract: ${taskArgs.contract}`);
+    }
+    const target = taskArgs.target || loadAddresses(hre)[addressKey];
+    if (!target) {
+      throw new Error(`No ${taskArgs.contract} address found, pass --target`);
+    }
+
+    const contractInterface = await getInterface(hre, taskArgs.contract);
+    const data = contractInterface.encodeFunctionData(taskArgs.method, JSON.parse(taskArgs.args));
+    const delay = taskArgs.delay ?? (await timelock.getMinDelay()).toNumber();
+    const predecessor = hre.ethers.constants.HashZero;
+    const salt = hre.ethers.utils.hexlify(hre.ethers.utils.randomBytes(32));
+
+    const id = await timelock.hashOperation(target, 0, data, predecessor, salt);
+    await (await timelock.schedule(target, 0, data, predecessor, salt, delay)).wait();
+
+    console.log(`Queued ${await describeCall(hre, data)} on ${target}`);
+    console.log(`Operation id: ${id}`);
+    console.log(`Executable in ${delay}s`);
+  });
+
+task("timelock:list", "List operations queued in the timelock")
+  .addFlag("all", "Include executed and cancelled operations")
+  .addOptionalParam("timelock", "Timelock address (defaults to networks.json)")
+  .setAction(async (taskArgs, hre) => {
+    const timelock = await getTimelock(hre, taskArgs.timelock);
+    const scheduled = await timelock.queryFilter(timelock.filters.CallScheduled());
+    const now = (await hre.ethers.provider.getBlock("latest")).timestamp;
+
+    if (scheduled.length === 0) {
+      console.log("No operations queued");
+      return;
+    }
+
+    for (const event of scheduled) {
+      const { id, target, data } = event.args!;
+      // getTimestamp is 0 once cancelled and 1 once executed
+      const timestamp = (await timelock.getTimestamp(id)).toNumber();
+      let status: string;
+      if (timestamp === 0) {
+        status = "Cancelled";
+      } else if (timestamp === 1) {
+        status = "Executed";
+      } else if (timestamp <= now) {
+        status = "Ready";
+      } else {
+        status = `Pending (${timestamp - now}s left)`;
+      }
+
+      if (!taskArgs.all && (timestamp === 0 || timestamp === 1)) continue;
+
+      console.log(`${id}  ${status}`);
+      console.log(`  ${await describeCall(hre, data)} on ${target}`);
+    }
+  });
+
+task("timelock:execute", "Execute a queued timelock operation")
+  .addParam("id", "Operation id printed by timelock:queue")
+  .addFlag("skipDelay", "Fast-forward the chain past the delay (local chains only)")
+  .addOptionalParam("timelock", "Timelock address (defaults to networks.json)")
+  .setAction(async (taskArgs, hre) => {
+    const timelock = await getTimelock(hre, taskArgs.timelock);
+
+    const [scheduled] = await timelock.queryFilter(timelock.filters.CallScheduled(taskArgs.id));
+    if (!scheduled) {
+      throw new Error(`Operation not found: ${taskArgs.id}`);
+    }
+    const { target, value, data, predecessor } = scheduled.args!;
+
+    // The salt is only emitted when it is non-zero
+    const [saltEvent] = await timelock.queryFilter(timelock.filters.CallSalt(taskArgs.id));
+    const salt = saltEvent ? saltEvent.args!.salt : hre.ethers.constants.HashZero;
+
+    const timestamp = (await timelock.getTimestamp(taskArgs.id)).toNumber();
+    if (timestamp === 0) throw new Error("Operation was cancelled");
+    if (timestamp === 1) throw new Error("Operation already executed");
+
+    const now = (await hre.ethers.provider.getBlock("latest")).timestamp;
+    if (timestamp > now) {
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      if (!taskArgs.skipDelay || !LOCAL_CHAIN_IDS.includes(chainId)) {
+        throw new Error(`Operation not ready, ${timestamp - now}s left`);
+      }
+      await hre.network.provider.send("evm_increaseTime", [timestamp - now]);
+      await hre.network.provider.send("evm_mine", []);
+      console.log(`Fast-forwarded ${timestamp - now}s`);
+    }
+
+    await (await timelock.execute(target, value, data, predecessor, salt)).wait();
+    console.log(`Executed ${await describeCall(hre, data)} on ${target}`);
+  });
@@ -0,0 +1,84 @@
+// scripts/tasks/upgrade.ts
+import fs from "fs";
+import path from "path";
+import { Contract, ContractFactory } from "ethers";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+// Upgradeable contracts and the networks.json key holding their proxy address
+const UPGRADEABLE_CONTRACTS: Record<string, string> = {
+  EnhancedLendingProtocol: "enhancedLendingProtocol",
+  StakingPool: "stakingPool",
+  DelegateManager: "delegateManager",
+  AutoRebalancer: "autoRebalancer",
+};
+
+function loadAddresses(hre: HardhatRuntimeEnvironment): Record<string, any> {
+  const networksPath = path.join(__dirname, "../../test/config/networks.json");
+  const networks = JSON.parse(fs.readFileSync(networksPath, "utf-8"));
+
+  // deploy-l2.ts saves the Optimism fork addresses under "optimism"
+  const networkName = hre.network.name === "optimismFork" ? "optimism" : hre.network.name;
+  return networks[networkName] || {};
+}
+
+async function getImplementation(hre: HardhatRuntimeEnvironment, proxy: string): Promise<string> {
+  const slot = await hre.ethers.provider.getStorageAt(proxy, IMPLEMENTATION_SLOT);
+  return hre.ethers.utils.getAddress(hre.ethers.utils.hexDataSlice(slot, 12));
+}
+
+task("upgrade:status", "Show the implementation behind each proxy")
+  .setAction(async (_, hre) => {
+    const addresses = loadAddresses(hre);
+    for (const [contractName, addressKey] of Object.entries(UPGRADEABLE_CONTRACTS)) {
+      if (!addresses[addressKey]) continue;
+      console.log(`${contractName} ${addresses[addressKey]} -> ${await getImplementation(hre, addresses[addressKey])}`);
+    }
+  });
+
+// The protocol is upgraded by its admin, the timelock, so its upgrade is only queued from here.
+// The other contracts are owned by the deployer and upgraded right away.
+task("upgrade:implementation", "Deploy a new implementation and point a proxy at it")
+  .addParam("contract", Object.keys(UPGRADEABLE_CONTRACTS).join(", "))
+  .addOptionalParam("proxy", "Proxy address (defaults to networks.json)")
+  .setAction(async (taskArgs, hre) => {
+    const addressKey = UPGRADEABLE_CONTRACTS[taskArgs.contract];
+    if (!addressKey) {
+      throw new Error(`Not an upgradeable contract: ${taskArgs.contract}`);
+    }
+    const proxy = taskArgs.proxy || loadAddresses(hre)[addressKey];
+    if (!proxy) {
+      throw new Error(`No ${taskArgs.contract} address found, pass --proxy`);
+    }
+
+    let factory: ContractFactory;
+    if (taskArgs.contract === "EnhancedLendingProtocol") {
+      // Imported here, lendingLibraries needs the initialized runtime environment
+      const { getLendingProtocolFactory } = await import("../utils/lendingLibraries");
+      console.log("Deploying lending logic libraries...");
+      factory = await getLendingProtocolFactory();
+    } else {
+      factory = await hre.ethers.getContractFactory(taskArgs.contract as string);
+    }
+
+    const implementation = await factory.deploy();
+    await implementation.deployed();
+    console.log(`${taskArgs.contract} implementation deployed to: ${implementation.address}`);
+
+    if (taskArgs.contract === "EnhancedLendingProtocol") {
+      await hre.run("timelock:queue", {
+        method: "upgradeTo",
+        args: JSON.stringify([implementation.address]),
+        target: proxy,
+      });
+      console.log("Run timelock:execute with the operation id once the delay has passed");
+      return;
+    }
+
+    const upgradeable: Contract = await hre.ethers.getContractAt(taskArgs.contract as string, proxy);
+    await (await upgradeable.upgradeTo(implementation.address)).wait();
+    console.log(`Upgraded ${taskArgs.contract} at ${proxy} to ${await getImplementation(hre, proxy)}`);
+  });
@@ -0,0 +1,34 @@
+// lendingFixture.ts
+import { ethers } from 'hardhat';
+import { deployLendingProtocol } from './lendingLibraries';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+export interface LendingFixture {
+    lendingProtocol: EnhancedLendingProtocol;
+    priceOracle: MockPriceOracle;
+    mockWETH: MockWETH;
+    mockUSDC: MockUSDC;
+}
+
+// Deploys the protocol with WETH and USDC markets priced at $2000 and $1, the deployer gets every role.
+// Tests build their own positions on top and re-run setTokenConfig where they need other parameters.
+export async function deployLendingFixture(): Promise<LendingFixture> {
+    const mockWETH = (await (await ethers.getContractFactory("MockWETH")).deploy()) as MockWETH;
+    const mockUSDC = (await (await ethers.getContractFactory("MockUSDC")).deploy()) as MockUSDC;
+    const priceOracle = (await (await ethers.getContractFactory("MockPriceOracle")).deploy()) as MockPriceOracle;
+    const lendingProtocol = (await deployLendingProtocol(
+        mockWETH.address,
+        priceOracle.address
+    )) as EnhancedLendingProtocol;
+
+    await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther("2000"));
+    await priceOracle.updatePrice(mockUSDC.address, ethers.utils.parseEther("1"));
+    // collateralFactor, liquidationThreshold, liquidationPenalty, interestRate
+    await lendingProtocol.setTokenConfig(mockWETH.address, true, 7500, 8000, 1000, 500);
+    await lendingProtocol.setTokenConfig(mockUSDC.address, true, 8000, 8500, 500, 500);
+
+    return { lendingProtocol, priceOracle, mockWETH, mockUSDC };
+}
@@ -0,0 +1,32 @@
+// lendingLibraries.ts
+import { ethers } from 'hardhat';
+import { Contract, ContractFactory, Overrides } from 'ethers';
+import { deployProxy } from './proxy';
+
+// External libraries EnhancedLendingProtocol links against
+const LENDING_LIBRARIES = ["StableDebtLogic", "InterestLogic", "SupplyLogic", "BorrowLogic", "LiquidationLogic", "EModeLogic", "PositionLogic", "MarketConfigLogic"];
+
+export async function deployLendingLibraries(overrides: Overrides = {}): Promise<Record<string, string>> {
+    const libraries: Record<string, string> = {};
+    for (const name of LENDING_LIBRARIES) {
+      const library = await (await ethers.getContractFactory(name)).deploy(overrides);
+      await library.deployed();
+      libraries[name] = library.address;
+    }
+    return libraries;
+}
+
+// Deploys the libraries and returns the EnhancedLendingProtocol factory linked against them
+export async function getLendingProtocolFactory(overrides: Overrides = {}): Promise<ContractFactory> {
+    const libraries = await deployLendingLibraries(overrides);
+    return ethers.getContractFactory("EnhancedLendingProtocol", { libraries });
+}
+
+// Deploys EnhancedLendingProtocol behind a ProtocolProxy, the deployer gets every role
+export async function deployLendingProtocol(
+    weth: string,
+    priceOracle: string,
+    overrides: Overrides = {}
+): Promise<Contract> {
+    return deployProxy(await getLendingProtocolFactory(overrides), [weth, priceOracle], overrides);
+}
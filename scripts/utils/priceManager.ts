@@ -5,6 +5,7 @@ import { ethers } from 'hardhat';
 
 const PRICE_FILE = path.join(__dirname, '../../test/config/eth-price.json');
 const DEFAULT_PRICE = "2474.02"; // Use the same default everywhere
+const STABLECOIN_PRICE = "1.00"; // Mock USDC is pegged to $1
 
 interface PriceData {
   price: string;
@@ -117,6 +118,7 @@ async function validatePrice(price: number): Promise<boolean> {
   return true;
 }
 
+// Works with any IPriceOracle feed; on a TWAPPriceOracle this pushes a new observation
 export async function updateOraclePrice(priceOracle: any, wethAddress: string): Promise<boolean> {
   try {
     const priceStr = getEthPrice();
@@ -132,4 +134,83 @@ export async function updateOraclePrice(priceOracle: any, wethAddress: string):
     console.error('Error updating oracle price:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+export async function updateStablecoinPrice(priceOracle: any, usdcAddress: string): Promise<boolean> {
+  try {
+    // Prices are always quoted in 18 decimals, whatever the token's own decimals are
+    const priceInWei = ethers.utils.parseUnits(STABLECOIN_PRICE, "18");
+
+    const tx = await priceOracle.updatePrice(usdcAddress, priceInWei);
+    await tx.wait();
+
+    console.log(`Updated USDC price in oracle to $${STABLECOIN_PRICE}`);
+    return true;
+  } catch (error) {
+    console.error('Error updating stablecoin price:', error);
+    return false;
+  }
+}
+
+// Run the sentinel's deviation check right after a price update, so a jump
+// shows up as a PriceDeviationDetected event before any liquidation hits it
+export async function syncReferencePrice(priceSentinel: any, token: string): Promise<boolean> {
+  try {
+    const accepted = await priceSentinel.callStatic.checkReferencePrice(token);
+    const tx = await priceSentinel.checkReferencePrice(token);
+    await tx.wait();
+
+    if (accepted) {
+      console.log(`Reference price synced for ${token}`);
+    } else {
+      console.warn(`Price deviation detected for ${token}, liquidations halted until the guardian resets the reference price`);
+    }
+    return accepted;
+  } catch (error) {
+    console.error('Error syncing reference price:', error);
+    return false;
+  }
+}
+
+// Log how far a TWAP feed's average lags its latest observation
+export async function reportTwapPrice(twapOracle: any, token: string): Promise<boolean> {
+  try {
+    const [spotPrice, twapPrice, window] = await Promise.all([
+      twapOracle.getSpotPrice(token),
+      twapOracle.getPrice(token),
+      twapOracle.window()
+    ]);
+    console.log(
+      `TWAP for ${token}: $${ethers.utils.formatUnits(twapPrice, 18)} over ${window}s ` +
+      `(latest observation $${ethers.utils.formatUnits(spotPrice, 18)})`
+    );
+    return true;
+  } catch (error) {
+    console.error('Error reading TWAP price:', error);
+    return false;
+  }
+}
+
+// Aggregate a token's price from its feeds and log how far each feed is from the result
+export async function pokeAggregatedPrice(priceOracle: any, token: string): Promise<boolean> {
+  try {
+    const tx = await priceOracle.pokePrice(token);
+    const receipt = await tx.wait();
+
+    for (const event of receipt.events || []) {
+      if (event.event === 'SourceSpread') {
+        const { feed, price, spread, rejected } = event.args;
+        console.log(
+          `  ${feed}: $${ethers.utils.formatUnits(price, 18)} (${spread.toNumber() / 100}% off)${rejected ? ' REJECTED' : ''}`
+        );
+      } else if (event.event === 'PriceAggregated') {
+        const { price, sourcesUsed } = event.args;
+        console.log(`Aggregated price for ${token}: $${ethers.utils.formatUnits(price, 18)} from ${sourcesUsed} feeds`);
+      }
+    }
+    return true;
+  } catch (error) {
+    console.error('Error aggregating price:', error);
+    return false;
+  }
+}
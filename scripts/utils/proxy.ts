@@ -0,0 +1,28 @@
+// proxy.ts
+import { ethers } from 'hardhat';
+import { Contract, ContractFactory, Overrides } from 'ethers';
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+// Deploys the implementation and a ProtocolProxy initialized with initArgs,
+// returns the implementation's interface at the proxy address
+export async function deployProxy(
+    factory: ContractFactory,
+    initArgs: unknown[],
+    overrides: Overrides = {}
+): Promise<Contract> {
+    const implementation = await factory.deploy(overrides);
+    await implementation.deployed();
+
+    const initData = implementation.interface.encodeFunctionData("initialize", initArgs);
+    const proxy = await (await ethers.getContractFactory("ProtocolProxy"))
+      .deploy(implementation.address, initData, overrides);
+    await proxy.deployed();
+    return factory.attach(proxy.address);
+}
+
+export async function getImplementationAddress(proxyAddress: string): Promise<string> {
+    const slot = await ethers.provider.getStorageAt(proxyAddress, IMPLEMENTATION_SLOT);
+    return ethers.utils.getAddress(ethers.utils.hexDataSlice(slot, 12));
+}
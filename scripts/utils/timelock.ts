@@ -0,0 +1,50 @@
+// timelock.ts
+import { ethers } from 'hardhat';
+import { Contract, Overrides } from 'ethers';
+
+// Contracts whose admin calls go through the timelock once it is wired up
+export interface TimelockedContracts {
+    lendingProtocol: Contract;
+    priceSentinel: Contract;
+    priceOracle: Contract;
+    collateralSwap: Contract;
+}
+
+// Deploys a ProtocolTimelock with the deployer as proposer and executor and no admin,
+// so the timelock administers itself
+export async function deployProtocolTimelock(
+    minDelay: number,
+    deployer: string,
+    overrides: Overrides = {}
+): Promise<Contract> {
+    const ProtocolTimelock = await ethers.getContractFactory("ProtocolTimelock");
+    const timelock = await ProtocolTimelock.deploy(
+        minDelay,
+        [deployer], // proposers
+        [deployer], // executors
+        ethers.constants.AddressZero,
+        overrides
+    );
+    return timelock.deployed();
+}
+
+// Hands the deployer's admin and oracle manager roles and contract ownership to the timelock.
+// The deployer keeps GUARDIAN_ROLE for instant pauses.
+export async function transferAdminToTimelock(
+    timelock: string,
+    contracts: TimelockedContracts,
+    deployer: string
+): Promise<void> {
+    const { lendingProtocol, priceSentinel, priceOracle, collateralSwap } = contracts;
+    const DEFAULT_ADMIN_ROLE = await lendingProtocol.DEFAULT_ADMIN_ROLE();
+    const ORACLE_MANAGER = await lendingProtocol.ORACLE_MANAGER();
+
+    await (await lendingProtocol.grantRole(DEFAULT_ADMIN_ROLE, timelock)).wait();
+    await (await lendingProtocol.grantRole(ORACLE_MANAGER, timelock)).wait();
+    await (await lendingProtocol.renounceRole(ORACLE_MANAGER, deployer)).wait();
+    await (await lendingProtocol.renounceRole(DEFAULT_ADMIN_ROLE, deployer)).wait();
+    await (await priceSentinel.grantRole(DEFAULT_ADMIN_ROLE, timelock)).wait();
+    await (await priceSentinel.renounceRole(DEFAULT_ADMIN_ROLE, deployer)).wait();
+    await (await priceOracle.transferOwnership(timelock)).wait();
+    await (await collateralSwap.transferOwnership(timelock)).wait(); // adapter changes are timelocked too
+}
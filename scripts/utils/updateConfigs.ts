@@ -9,7 +9,16 @@ export function updateContractConfigs(
         usdc: string;
         lendingProtocol?: string;
         enhancedLendingProtocol: string;
+        lendingLens?: string;
+        positionManager?: string;
+        leverageRouter?: string;
+        collateralSwap?: string;
+        swapAdapter?: string;
+        timelock?: string;
+        priceSentinel?: string;
         priceOracle: string;
+        priceFeeds?: string[];
+        oracleMode?: string;
         apiManager: string;
         stakingPool: string;
         delegateManager?: string;
@@ -52,7 +61,15 @@ export function updateContractConfigs(
             usdc: addresses.usdc,
             lendingProtocol: addresses.lendingProtocol || '',
             enhancedLendingProtocol: addresses.enhancedLendingProtocol,
+            lendingLens: addresses.lendingLens || '',
+            positionManager: addresses.positionManager || '',
+            leverageRouter: addresses.leverageRouter || '',
+            collateralSwap: addresses.collateralSwap || '',
+            swapAdapter: addresses.swapAdapter || '',
+            timelock: addresses.timelock || '',
+            priceSentinel: addresses.priceSentinel || '',
             priceOracle: addresses.priceOracle,
+            priceFeeds: addresses.priceFeeds || [],
             apiManager: addresses.apiManager,
             stakingPool: addresses.stakingPool,
             delegateManager: addresses.delegateManager || '',
@@ -77,7 +94,15 @@ export interface ContractAddresses {
     weth: string;
     usdc: string;
     enhancedLendingProtocol: string;
+    lendingLens?: string;
+    positionManager?: string;
+    leverageRouter?: string;
+    collateralSwap?: string;
+    swapAdapter?: string;
+    timelock?: string;
+    priceSentinel?: string;
     priceOracle: string;
+    priceFeeds?: string[];
     apiManager: string;
     lendingProtocol?: string;
     stakingPool: string;
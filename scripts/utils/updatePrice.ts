@@ -2,7 +2,7 @@
 import { ethers } from "hardhat";
 import fs from "fs";
 import path from "path";
-import { fetchAndSaveEthPrice, updateOraclePrice } from './priceManager';
+import { fetchAndSaveEthPrice, updateOraclePrice, updateStablecoinPrice, syncReferencePrice, pokeAggregatedPrice, reportTwapPrice } from './priceManager';
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 // Access the Hardhat Runtime Environment
@@ -44,11 +44,43 @@ async function main() {
     }
     // Keep default provider for other networks
     
-    // Get contract instance
-    const mockPriceOracle = await ethers.getContractAt("MockPriceOracle", addresses.priceOracle);
-    
-    // Update the price oracle
-    const success = await updateOraclePrice(mockPriceOracle, addresses.weth);
+    // The protocol reads an aggregator over several mock feeds; older deployments use a single mock oracle.
+    // In TWAP mode each update pushes a new observation rather than replacing the price.
+    const feedAddresses: string[] = addresses.priceFeeds?.length ? addresses.priceFeeds : [addresses.priceOracle];
+
+    let success = true;
+    for (const feedAddress of feedAddresses) {
+      const priceFeed = await ethers.getContractAt("IPriceOracle", feedAddress);
+
+      // Update the price oracle
+      success = (await updateOraclePrice(priceFeed, addresses.weth)) && success;
+
+      // Refresh USDC too, otherwise it goes stale under the sentinel's max price age
+      if (addresses.usdc) {
+        await updateStablecoinPrice(priceFeed, addresses.usdc);
+      }
+
+      if (addresses.oracleMode === 'twap') {
+        const twapOracle = await ethers.getContractAt("TWAPPriceOracle", feedAddress);
+        await reportTwapPrice(twapOracle, addresses.weth);
+      }
+    }
+
+    if (addresses.priceFeeds?.length) {
+      const priceOracle = await ethers.getContractAt("AggregatedPriceOracle", addresses.priceOracle);
+      await pokeAggregatedPrice(priceOracle, addresses.weth);
+      if (addresses.usdc) {
+        await pokeAggregatedPrice(priceOracle, addresses.usdc);
+      }
+    }
+
+    if (addresses.priceSentinel) {
+      const priceSentinel = await ethers.getContractAt("PriceOracleSentinel", addresses.priceSentinel);
+      await syncReferencePrice(priceSentinel, addresses.weth);
+      if (addresses.usdc) {
+        await syncReferencePrice(priceSentinel, addresses.usdc);
+      }
+    }
     
     if (success) {
       console.log(`\nPrice update for ${networkName}: Success`);
@@ -2,19 +2,23 @@ import { PrismaClient } from '@prisma/client';
 import { ethers } from 'ethers';
 import { EnhancedLendingProtocol } from '../typechain/contracts/core/EnhancedLendingProtocol';
 import { APIIntegrationManager } from '../typechain/contracts/integration/APIIntegrationManager';
+import { PositionManager } from '../typechain/contracts/core/PositionManager';
 import { EnhancedLendingProtocol__factory } from '../typechain/factories/contracts/core/EnhancedLendingProtocol__factory';
 import { APIIntegrationManager__factory } from '../typechain/factories/contracts/integration/APIIntegrationManager__factory';
+import { PositionManager__factory } from '../typechain/factories/contracts/core/PositionManager__factory';
 
 export class IntegrationService {
   private prisma: PrismaClient;
   private provider: ethers.providers.JsonRpcProvider;
   private apiManager!: APIIntegrationManager;  
   private lendingProtocol!: EnhancedLendingProtocol;  
+  private positionManager?: PositionManager;
 
   constructor(
     private readonly providerUrl: string,
     private readonly apiManagerAddress: string,
-    private readonly lendingProtocolAddress: string
+    private readonly lendingProtocolAddress: string,
+    private readonly positionManagerAddress?: string
   ) {
     this.prisma = new PrismaClient();
     this.provider = new ethers.providers.JsonRpcProvider(providerUrl);
@@ -33,6 +37,13 @@ export class IntegrationService {
       signer
     );
 
+    if (this.positionManagerAddress) {
+      this.positionManager = PositionManager__factory.connect(
+        this.positionManagerAddress,
+        signer
+      );
+    }
+
     await this.setupEventListeners();
   }
 
@@ -69,6 +80,174 @@ export class IntegrationService {
         }
       });
     });
+
+    this.lendingProtocol.on('ReservesAccrued', async (token, amount, totalReserves, event) => {
+      await this.recordReserveGrowth(token, amount, totalReserves, event);
+    });
+
+    this.lendingProtocol.on('BadDebtRealized', async (borrower, token, amount, coveredByReserves, socializedLoss, event) => {
+      await this.recordBadDebt(borrower, token, amount, coveredByReserves, socializedLoss, event);
+    });
+
+    this.lendingProtocol.on('RepayFor', async (token, payer, borrower, amount, event) => {
+      await this.recordRepayFor(token, payer, borrower, amount, event);
+    });
+
+    this.lendingProtocol.on('PositionMoved', async (from, to) => {
+      await this.movePosition(from, to);
+    });
+
+    // Transfers of a position NFT hand the wrapped position to the new owner; mint and burn come with a PositionMoved
+    this.positionManager?.on('Transfer', async (from, to, tokenId) => {
+      if (from === ethers.constants.AddressZero || to === ethers.constants.AddressZero) return;
+
+      const account = await this.positionManager!.positionAccount(tokenId);
+      await this.assignPosition(`${account}-default`, to);
+    });
+  }
+
+  // Wrapping and unwrapping move a whole position to another address, re-key its row to follow it
+  private async movePosition(from: string, to: string) {
+    const positionId = `${to}-default`;
+    await this.prisma.position.deleteMany({ where: { id: positionId } });
+    await this.prisma.position.updateMany({
+      where: { id: `${from}-default` },
+      data: { id: positionId }
+    });
+    await this.assignPosition(positionId, await this.positionOwner(to));
+  }
+
+  private async assignPosition(positionId: string, owner: string) {
+    await this.prisma.user.upsert({
+      where: { id: owner },
+      update: {},
+      create: {
+        id: owner,
+        address: owner
+      }
+    });
+    await this.prisma.position.updateMany({
+      where: { id: positionId },
+      data: { userId: owner }
+    });
+  }
+
+  // A position account belongs to whoever holds its NFT, any other address to itself
+  private async positionOwner(account: string): Promise<string> {
+    if (!this.positionManager) return account;
+
+    const tokenId = await this.positionManager.accountToken(account);
+    return tokenId.isZero() ? account : this.positionManager.ownerOf(tokenId);
+  }
+
+  // A third-party repayment is activity for both sides: the payer spent funds, the borrower's debt shrank
+  private async recordRepayFor(
+    token: string,
+    payer: string,
+    borrower: string,
+    amount: ethers.BigNumber,
+    event: ethers.Event
+  ) {
+    const decimals = await this.lendingProtocol.tokenDecimals(token);
+    const block = await event.getBlock();
+    const formattedAmount = ethers.utils.formatUnits(amount, decimals);
+
+    const activities = [
+      { userId: payer, activityType: 'REPAY_FOR' },
+      { userId: borrower, activityType: 'REPAID_BY_OTHER' }
+    ];
+
+    for (const { userId, activityType } of activities) {
+      await this.prisma.userActivity.create({
+        data: {
+          activityType,
+          amount: formattedAmount,
+          timestamp: new Date(block.timestamp * 1000),
+          txHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          user: {
+            connectOrCreate: {
+              where: { id: userId },
+              create: {
+                id: userId,
+                address: userId
+              }
+            }
+          }
+        }
+      });
+    }
+  }
+
+  private async recordBadDebt(
+    borrower: string,
+    token: string,
+    amount: ethers.BigNumber,
+    coveredByReserves: ethers.BigNumber,
+    socializedLoss: ethers.BigNumber,
+    event: ethers.Event
+  ) {
+    const decimals = await this.lendingProtocol.tokenDecimals(token);
+    const block = await event.getBlock();
+
+    // Market totals shrink with the write-off, refresh them first
+    await this.syncDatabase();
+
+    await this.prisma.event.create({
+      data: {
+        // One transaction can write off debt in several markets
+        id: `${event.transactionHash}-${event.logIndex}`,
+        marketId: 'default',
+        eventType: 'BAD_DEBT_REALIZED',
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: new Date(block.timestamp * 1000),
+        data: {
+          borrower,
+          token,
+          amount: ethers.utils.formatUnits(amount, decimals),
+          coveredByReserves: ethers.utils.formatUnits(coveredByReserves, decimals),
+          socializedLoss: ethers.utils.formatUnits(socializedLoss, decimals)
+        },
+        status: 'PROCESSED',
+        processed: true,
+        processedAt: new Date()
+      }
+    });
+  }
+
+  // Snapshot protocol revenue so reserve growth can be charted over time
+  private async recordReserveGrowth(
+    token: string,
+    amount: ethers.BigNumber,
+    totalReserves: ethers.BigNumber,
+    event: ethers.Event
+  ) {
+    const totalDeposits = await this.lendingProtocol.totalDeposits(token);
+    const totalBorrows = await this.lendingProtocol.totalBorrows(token);
+    const decimals = await this.lendingProtocol.tokenDecimals(token);
+    const gasPrice = await this.provider.getGasPrice();
+
+    await this.prisma.protocolStats.create({
+      data: {
+        timestamp: new Date(),
+        totalValueLocked: ethers.utils.formatUnits(totalDeposits, decimals),
+        totalBorrowed: ethers.utils.formatUnits(totalBorrows, decimals),
+        uniqueUsers: 0,
+        dailyActiveUsers: 0,
+        totalTransactions: 0,
+        avgGasPrice: ethers.utils.formatUnits(gasPrice, 'gwei'),
+        networkStatus: 'active',
+        metadata: {
+          type: 'RESERVES_ACCRUED',
+          token,
+          reservesAccrued: ethers.utils.formatUnits(amount, decimals),
+          totalReserves: ethers.utils.formatUnits(totalReserves, decimals),
+          txHash: event.transactionHash,
+          lastUpdateBlock: event.blockNumber
+        }
+      }
+    });
   }
 
     async syncDatabase() {
@@ -0,0 +1,139 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('Account liquidity', function () {
+  let borrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let priceOracle: MockPriceOracle;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, borrower] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    // WETH borrows up to 75% of its value and is liquidated past 80%
+    await lendingProtocol.setTokenConfig(mockWETH.address, true, 7500, 8000, 500, 500);
+
+    // The deployer supplies liquidity and liquidates
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, eth('1'), { value: eth('1') });
+
+    return { borrower, lendingProtocol, priceOracle, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, lendingProtocol, priceOracle, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  describe('getAccountLiquidity', function () {
+    it('should weight collateral by the collateral factor and the liquidation threshold', async function () {
+      const { collateralValue, borrowCapacity, liquidationLimit, totalDebt } =
+        await lendingProtocol.getAccountLiquidity(borrower.address);
+
+      expect(collateralValue).to.equal(eth('2000'));
+      expect(borrowCapacity).to.equal(eth('1500'));
+      expect(liquidationLimit).to.equal(eth('1600'));
+      expect(totalDebt).to.equal(0);
+      expect(await lendingProtocol.getHealthFactor(borrower.address)).to.equal(
+        ethers.constants.MaxUint256,
+      );
+    });
+
+    it('should value 6-decimal debt in 18 decimals', async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1000'));
+
+      const { totalDebt } = await lendingProtocol.getAccountLiquidity(borrower.address);
+      expect(totalDebt).to.be.closeTo(eth('1000'), eth('0.01'));
+      // 1500 / 1000 and 1600 / 1000
+      expect(await lendingProtocol.getHealthFactor(borrower.address)).to.equal(15000);
+      expect(await lendingProtocol.getLiquidationHealthFactor(borrower.address)).to.equal(16000);
+    });
+
+    it('should stop borrowing at the collateral factor', async function () {
+      await expect(
+        lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1501')),
+      ).to.be.revertedWith('Insufficient collateral');
+
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1500'));
+    });
+  });
+
+  describe('between the collateral factor and the liquidation threshold', function () {
+    beforeEach(async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1400'));
+      // 1350 of borrow capacity and a 1440 liquidation limit against 1400 of debt
+      await priceOracle.updatePrice(mockWETH.address, eth('1800'));
+    });
+
+    it('should report the position as over its borrow capacity but not liquidatable', async function () {
+      const { borrowCapacity, liquidationLimit, totalDebt } =
+        await lendingProtocol.getAccountLiquidity(borrower.address);
+
+      expect(borrowCapacity).to.equal(eth('1350'));
+      expect(liquidationLimit).to.equal(eth('1440'));
+      expect(totalDebt).to.be.gt(borrowCapacity).and.lt(liquidationLimit);
+      expect(await lendingProtocol.getHealthFactor(borrower.address)).to.be.lt(10000);
+      expect(await lendingProtocol.getLiquidationHealthFactor(borrower.address)).to.be.gte(10000);
+    });
+
+    it('should not let the borrower borrow more or withdraw', async function () {
+      await expect(
+        lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1')),
+      ).to.be.revertedWith('Insufficient collateral');
+      await expect(
+        lendingProtocol.connect(borrower).withdraw(mockWETH.address, eth('0.01')),
+      ).to.be.revertedWith('Unhealthy position');
+    });
+
+    it('should still let the borrower repay', async function () {
+      await mockUSDC.connect(borrower).approve(lendingProtocol.address, usdc('100'));
+      await lendingProtocol.connect(borrower).repay(mockUSDC.address, usdc('100'));
+
+      expect(await lendingProtocol.getHealthFactor(borrower.address)).to.be.gte(10000);
+    });
+
+    it('should not be liquidatable', async function () {
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('100'),
+        ),
+      ).to.be.revertedWith('Position not liquidatable');
+    });
+
+    it('should become liquidatable once the debt passes the liquidation limit', async function () {
+      // A 1360 liquidation limit against 1400 of debt
+      await priceOracle.updatePrice(mockWETH.address, eth('1700'));
+      expect(await lendingProtocol.getLiquidationHealthFactor(borrower.address)).to.be.lt(10000);
+
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('100'),
+        ),
+      ).to.emit(lendingProtocol, 'CollateralSeized');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { EnhancedLendingLens } from '../../typechain/contracts/core/EnhancedLendingLens';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+// EnhancedLendingProtocol.Action
+const DEPOSIT = 0;
+const WITHDRAW = 1;
+const BORROW = 2;
+const REPAY = 3;
+const LIQUIDATE = 4;
+
+describe('Per-market action pauses', function () {
+  let guardian: SignerWithAddress;
+  let user: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let lens: EnhancedLendingLens;
+  let priceOracle: MockPriceOracle;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, guardian, user] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+    const lens = (await (
+      await ethers.getContractFactory('EnhancedLendingLens')
+    ).deploy(lendingProtocol.address)) as EnhancedLendingLens;
+
+    await lendingProtocol.grantRole(await lendingProtocol.GUARDIAN_ROLE(), guardian.address);
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+
+    // The user has 1 ETH deposited and 1000 USDC borrowed, and USDC to repay with
+    await lendingProtocol.connect(user).deposit(mockWETH.address, eth('1'), { value: eth('1') });
+    await lendingProtocol.connect(user).borrow(mockUSDC.address, usdc('1000'));
+    await mockUSDC.transfer(user.address, usdc('1000'));
+    await mockUSDC.connect(user).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+
+    return { guardian, user, lendingProtocol, lens, priceOracle, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ guardian, user, lendingProtocol, lens, priceOracle, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  describe('paused actions', function () {
+    it('should stop deposits and withdrawals in the paused market only', async function () {
+      await lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, DEPOSIT, true);
+      await lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, WITHDRAW, true);
+
+      await expect(
+        lendingProtocol.connect(user).deposit(mockUSDC.address, usdc('10')),
+      ).to.be.revertedWith('Action paused for this market');
+      await expect(lendingProtocol.withdraw(mockUSDC.address, usdc('10'))).to.be.revertedWith(
+        'Action paused for this market',
+      );
+
+      await lendingProtocol.connect(user).deposit(mockWETH.address, eth('1'), { value: eth('1') });
+      await lendingProtocol.connect(user).withdraw(mockWETH.address, eth('0.5'));
+    });
+
+    it('should keep repayments open while borrowing is paused', async function () {
+      await lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, BORROW, true);
+
+      await expect(
+        lendingProtocol.connect(user).borrow(mockUSDC.address, usdc('10')),
+      ).to.be.revertedWith('Action paused for this market');
+      await lendingProtocol.connect(user).repay(mockUSDC.address, usdc('100'));
+    });
+
+    it('should stop repayments when repay is paused', async function () {
+      await lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, REPAY, true);
+
+      await expect(
+        lendingProtocol.connect(user).repay(mockUSDC.address, usdc('100')),
+      ).to.be.revertedWith('Action paused for this market');
+      await expect(
+        lendingProtocol.repayFor(user.address, mockUSDC.address, usdc('100')),
+      ).to.be.revertedWith('Action paused for this market');
+    });
+
+    it('should stop liquidations using a paused market as debt or collateral', async function () {
+      // 80% of 1200 against 1000 of debt
+      await priceOracle.updatePrice(mockWETH.address, eth('1200'));
+
+      await lendingProtocol.connect(guardian).setActionPaused(mockWETH.address, LIQUIDATE, true);
+      await expect(
+        lendingProtocol.liquidate(user.address, mockUSDC.address, mockWETH.address, usdc('100')),
+      ).to.be.revertedWith('Action paused for this market');
+
+      await lendingProtocol.setActionPaused(mockWETH.address, LIQUIDATE, false);
+      await lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, LIQUIDATE, true);
+      await expect(
+        lendingProtocol.liquidate(user.address, mockUSDC.address, mockWETH.address, usdc('100')),
+      ).to.be.revertedWith('Action paused for this market');
+
+      await lendingProtocol.setActionPaused(mockUSDC.address, LIQUIDATE, false);
+      await lendingProtocol.liquidate(
+        user.address,
+        mockUSDC.address,
+        mockWETH.address,
+        usdc('100'),
+      );
+    });
+  });
+
+  describe('roles', function () {
+    it('should let the guardian pause but only the admin resume', async function () {
+      await expect(
+        lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, BORROW, true),
+      )
+        .to.emit(lendingProtocol, 'ActionPaused')
+        .withArgs(mockUSDC.address, BORROW, true);
+
+      await expect(
+        lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, BORROW, false),
+      ).to.be.reverted;
+      await lendingProtocol.setActionPaused(mockUSDC.address, BORROW, false);
+      await lendingProtocol.connect(user).borrow(mockUSDC.address, usdc('10'));
+    });
+
+    it('should not let anyone else pause', async function () {
+      await expect(lendingProtocol.connect(user).setActionPaused(mockUSDC.address, BORROW, true)).to
+        .be.reverted;
+    });
+
+    it('should only pause listed markets', async function () {
+      await expect(
+        lendingProtocol.connect(guardian).setActionPaused(user.address, BORROW, true),
+      ).to.be.revertedWith('Token not listed');
+    });
+  });
+
+  describe('lens', function () {
+    it("should report a market's pause state in one call", async function () {
+      await lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, BORROW, true);
+      await lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, LIQUIDATE, true);
+
+      const status = await lens.getPauseStatus(mockUSDC.address);
+      expect(status.protocolPaused).to.equal(false);
+      expect(status.depositPaused).to.equal(false);
+      expect(status.withdrawPaused).to.equal(false);
+      expect(status.borrowPaused).to.equal(true);
+      expect(status.repayPaused).to.equal(false);
+      expect(status.liquidatePaused).to.equal(true);
+
+      await lendingProtocol.connect(guardian).pause();
+      expect((await lens.getPauseStatus(mockWETH.address)).protocolPaused).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { AggregatedPriceOracle } from '../../typechain/contracts/core/AggregatedPriceOracle';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+
+const ONE_HOUR = 3600;
+const price = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('Aggregated price oracle', function () {
+  let oracle: AggregatedPriceOracle;
+  let feeds: MockPriceOracle[];
+  let mockWETH: MockWETH;
+
+  async function deployFixture() {
+    const mockWETH = (await (await ethers.getContractFactory('MockWETH')).deploy()) as MockWETH;
+    const oracle = (await (
+      await ethers.getContractFactory('AggregatedPriceOracle')
+    ).deploy()) as AggregatedPriceOracle;
+
+    const feedFactory = await ethers.getContractFactory('MockPriceOracle');
+    const feeds: MockPriceOracle[] = [];
+    for (let i = 0; i < 3; i++) {
+      const feed = (await feedFactory.deploy()) as MockPriceOracle;
+      await oracle.addSource(mockWETH.address, feed.address, ONE_HOUR);
+      feeds.push(feed);
+    }
+
+    // Outliers are anything more than 5% from the median, and two sources must agree
+    await oracle.setAggregationConfig(mockWETH.address, 500, 2);
+
+    return { oracle, feeds, mockWETH };
+  }
+
+  async function setPrices(...amounts: string[]) {
+    for (let i = 0; i < amounts.length; i++) {
+      await feeds[i].updatePrice(mockWETH.address, price(amounts[i]));
+    }
+  }
+
+  beforeEach(async function () {
+    ({ oracle, feeds, mockWETH } = await loadFixture(deployFixture));
+  });
+
+  it('should take the median of feeds that disagree within the deviation limit', async function () {
+    await setPrices('1990', '2000', '2030');
+
+    expect(await oracle.getPrice(mockWETH.address)).to.equal(price('2000'));
+  });
+
+  it('should reject a feed further than maxDeviation from the median', async function () {
+    await setPrices('1990', '2010', '2500');
+
+    // 2500 is 24% above the 2010 median, the other two average to 2000
+    expect(await oracle.getPrice(mockWETH.address)).to.equal(price('2000'));
+    await expect(oracle.pokePrice(mockWETH.address))
+      .to.emit(oracle, 'SourceSpread')
+      .withArgs(mockWETH.address, feeds[2].address, price('2500'), 2500, true)
+      .and.to.emit(oracle, 'PriceAggregated')
+      .withArgs(mockWETH.address, price('2000'), 2);
+  });
+
+  it('should revert when too few feeds agree', async function () {
+    await setPrices('1000', '2000', '3000');
+
+    await expect(oracle.getPrice(mockWETH.address)).to.be.revertedWith('Sources disagree');
+  });
+
+  it('should skip feeds that have not updated within their heartbeat', async function () {
+    // The first feed's 2500 is an hour old by the time the others report
+    await setPrices('2500');
+    await time.increase(ONE_HOUR + 1);
+    await feeds[1].updatePrice(mockWETH.address, price('1990'));
+    await feeds[2].updatePrice(mockWETH.address, price('2010'));
+
+    expect(await oracle.getPrice(mockWETH.address)).to.equal(price('2000'));
+  });
+
+  it('should revert when fewer than minSources feeds are fresh', async function () {
+    await setPrices('2000', '2000');
+    await time.increase(ONE_HOUR + 1);
+    await feeds[2].updatePrice(mockWETH.address, price('2000'));
+
+    await expect(oracle.getPrice(mockWETH.address)).to.be.revertedWith('Not enough fresh sources');
+  });
+
+  it('should skip a feed that reverts', async function () {
+    const brokenFeed = await (await ethers.getContractFactory('MockBrokenPriceFeed')).deploy();
+    await oracle.removeSource(mockWETH.address, feeds[2].address);
+    await oracle.addSource(mockWETH.address, brokenFeed.address, ONE_HOUR);
+    await setPrices('1990', '2010');
+
+    expect(await oracle.getPrice(mockWETH.address)).to.equal(price('2000'));
+    expect(await oracle.getLastUpdateTime(mockWETH.address)).to.equal(
+      await feeds[0].getLastUpdateTime(mockWETH.address),
+    );
+  });
+});
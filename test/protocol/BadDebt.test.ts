@@ -0,0 +1,180 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { ContractReceipt } from 'ethers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('Bad debt', function () {
+  let depositor: SignerWithAddress;
+  let borrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let priceOracle: MockPriceOracle;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  // A borrower whose collateral crashed and was liquidated down to 0.000001 ETH
+  async function deployFixture() {
+    const [depositor, borrower] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    await lendingProtocol.setTokenConfig(mockWETH.address, true, 7500, 8000, 500, 500);
+
+    // The deployer supplies the USDC and liquidates
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, eth('1'), { value: eth('1') });
+    await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1500'));
+
+    // At $100, repaying 95.238 USDC seizes 99.9999 USD of the 100 USD of collateral
+    await priceOracle.updatePrice(mockWETH.address, eth('100'));
+    await lendingProtocol.liquidate(
+      borrower.address,
+      mockUSDC.address,
+      mockWETH.address,
+      usdc('95.238'),
+    );
+
+    return { depositor, borrower, lendingProtocol, priceOracle, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ depositor, borrower, lendingProtocol, priceOracle, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  function badDebtEvent(receipt: ContractReceipt, token: string) {
+    const event = receipt.events?.find(
+      (e) => e.event === 'BadDebtRealized' && e.args?.token === token,
+    );
+    if (!event || !event.args) throw new Error('No BadDebtRealized event');
+    return event.args;
+  }
+
+  describe('dust threshold', function () {
+    it('should count the debt as bad once the collateral is worth less than $0.01', async function () {
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+      ).to.equal(eth('0.000001'));
+      expect(await lendingProtocol.getBadDebt(borrower.address)).to.be.gt(0);
+
+      // 0.000001 ETH at $10000 is exactly the threshold
+      await priceOracle.updatePrice(mockWETH.address, eth('10000'));
+      expect(await lendingProtocol.getBadDebt(borrower.address)).to.equal(0);
+      await expect(lendingProtocol.realizeBadDebt(borrower.address)).to.be.revertedWith(
+        'No bad debt',
+      );
+
+      await priceOracle.updatePrice(mockWETH.address, eth('9999'));
+      expect(await lendingProtocol.getBadDebt(borrower.address)).to.be.gt(0);
+    });
+
+    it('should only be realized by a liquidator', async function () {
+      await expect(lendingProtocol.connect(borrower).realizeBadDebt(borrower.address)).to.be
+        .reverted;
+    });
+  });
+
+  describe('write-off', function () {
+    it('should clear the account and move the collateral dust to reserves', async function () {
+      const wethReserves = await lendingProtocol.totalReserves(mockWETH.address);
+
+      await lendingProtocol.realizeBadDebt(borrower.address);
+
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.equal(0);
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+      ).to.equal(0);
+      expect(await lendingProtocol.totalReserves(mockWETH.address)).to.equal(
+        wethReserves.add(eth('0.000001')),
+      );
+      expect(await lendingProtocol.getBadDebt(borrower.address)).to.equal(0);
+    });
+
+    it('should spread what the reserves cannot cover across suppliers', async function () {
+      const depositBefore = await lendingProtocol.getCurrentDepositAmount(
+        mockUSDC.address,
+        depositor.address,
+      );
+
+      const receipt = await (await lendingProtocol.realizeBadDebt(borrower.address)).wait();
+      const { amount, coveredByReserves, socializedLoss } = badDebtEvent(receipt, mockUSDC.address);
+
+      // What is left of the 1500 borrowed, plus a little interest
+      expect(amount).to.be.closeTo(usdc('1404.762'), usdc('0.1'));
+      expect(coveredByReserves.add(socializedLoss)).to.equal(amount);
+      expect(await lendingProtocol.totalReserves(mockUSDC.address)).to.equal(0);
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, depositor.address),
+      ).to.be.closeTo(depositBefore.sub(socializedLoss), usdc('0.01'));
+    });
+
+    it('should use the reserves before the suppliers', async function () {
+      // A 1% flash loan fee on 50000 USDC, all of it to reserves
+      await lendingProtocol.setReserveFactor(mockUSDC.address, 10000);
+      await lendingProtocol.setFlashLoanFee(mockUSDC.address, 100);
+      const flashBorrower = await (
+        await ethers.getContractFactory('MockFlashBorrower')
+      ).deploy(lendingProtocol.address);
+      await mockUSDC.transfer(flashBorrower.address, usdc('500'));
+      await flashBorrower.flashBorrow(mockUSDC.address, usdc('50000'));
+      const reserves = await lendingProtocol.totalReserves(mockUSDC.address);
+      expect(reserves).to.be.closeTo(usdc('500'), usdc('0.1'));
+
+      const depositBefore = await lendingProtocol.getCurrentDepositAmount(
+        mockUSDC.address,
+        depositor.address,
+      );
+      const receipt = await (await lendingProtocol.realizeBadDebt(borrower.address)).wait();
+      const { amount, coveredByReserves, socializedLoss } = badDebtEvent(receipt, mockUSDC.address);
+
+      expect(coveredByReserves).to.be.closeTo(reserves, usdc('0.01'));
+      expect(socializedLoss).to.equal(amount.sub(coveredByReserves));
+      expect(await lendingProtocol.totalReserves(mockUSDC.address)).to.equal(0);
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, depositor.address),
+      ).to.be.closeTo(depositBefore.sub(socializedLoss), usdc('0.01'));
+    });
+
+    it('should leave suppliers whole when the reserves cover the loss', async function () {
+      await lendingProtocol.setReserveFactor(mockUSDC.address, 10000);
+      await lendingProtocol.setFlashLoanFee(mockUSDC.address, 500);
+      const flashBorrower = await (
+        await ethers.getContractFactory('MockFlashBorrower')
+      ).deploy(lendingProtocol.address);
+      await mockUSDC.transfer(flashBorrower.address, usdc('2500'));
+      await flashBorrower.flashBorrow(mockUSDC.address, usdc('50000'));
+      const reserves = await lendingProtocol.totalReserves(mockUSDC.address);
+
+      const depositBefore = await lendingProtocol.getCurrentDepositAmount(
+        mockUSDC.address,
+        depositor.address,
+      );
+      const receipt = await (await lendingProtocol.realizeBadDebt(borrower.address)).wait();
+      const { amount, socializedLoss } = badDebtEvent(receipt, mockUSDC.address);
+
+      expect(socializedLoss).to.equal(0);
+      expect(await lendingProtocol.totalReserves(mockUSDC.address)).to.be.closeTo(
+        reserves.sub(amount),
+        usdc('0.01'),
+      );
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, depositor.address),
+      ).to.be.closeTo(depositBefore, usdc('0.01'));
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { CollateralSwap } from '../../typechain/contracts/core/CollateralSwap';
+import { MockConstantProductAMM } from '../../typechain/contracts/mocks/MockConstantProductAMM';
+import { MockMaliciousSwapAdapter } from '../../typechain/contracts/mocks/MockMaliciousSwapAdapter';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+describe('CollateralSwap', function () {
+  let borrower: SignerWithAddress;
+  let other: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let collateralSwap: CollateralSwap;
+  let amm: MockConstantProductAMM;
+  let priceOracle: MockPriceOracle;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, borrower, other] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    await lendingProtocol.setStableRateConfig(mockUSDC.address, true, 100, 500);
+
+    // Pool priced like the oracle, 100 WETH against 200k USDC
+    const amm = (await (
+      await ethers.getContractFactory('MockConstantProductAMM')
+    ).deploy(mockWETH.address, mockUSDC.address)) as MockConstantProductAMM;
+    await mockWETH.deposit({ value: ethers.utils.parseEther('100') });
+    await mockWETH.approve(amm.address, ethers.constants.MaxUint256);
+    await mockUSDC.approve(amm.address, ethers.constants.MaxUint256);
+    await amm.addLiquidity(ethers.utils.parseEther('100'), usdc('200000'));
+
+    const collateralSwap = (await (
+      await ethers.getContractFactory('CollateralSwap')
+    ).deploy(lendingProtocol.address, amm.address)) as CollateralSwap;
+    await lendingProtocol.grantRole(
+      await lendingProtocol.POSITION_MANAGER_ROLE(),
+      collateralSwap.address,
+    );
+
+    // Liquidity from the deployer, then 1 WETH of collateral backing variable and stable USDC debt
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await lendingProtocol.deposit(mockWETH.address, ethers.utils.parseEther('20'), {
+      value: ethers.utils.parseEther('20'),
+    });
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, ethers.utils.parseEther('1'), {
+        value: ethers.utils.parseEther('1'),
+      });
+    await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1000'));
+    await lendingProtocol.connect(borrower).borrowStable(mockUSDC.address, usdc('200'));
+
+    return {
+      borrower,
+      other,
+      lendingProtocol,
+      collateralSwap,
+      amm,
+      priceOracle,
+      mockWETH,
+      mockUSDC,
+    };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, other, lendingProtocol, collateralSwap, amm, priceOracle, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  async function expectNoBalancesLeft() {
+    expect(await ethers.provider.getBalance(collateralSwap.address)).to.equal(0);
+    expect(await mockWETH.balanceOf(collateralSwap.address)).to.equal(0);
+    expect(await mockUSDC.balanceOf(collateralSwap.address)).to.equal(0);
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, collateralSwap.address),
+    ).to.equal(0);
+  }
+
+  it('should swap all WETH collateral to USDC while the debt stays open', async function () {
+    // Withdrawing first would leave the debt uncovered
+    await expect(
+      lendingProtocol.connect(borrower).withdraw(mockWETH.address, ethers.utils.parseEther('1')),
+    ).to.be.revertedWith('Unhealthy position');
+
+    await time.increase(86400);
+    const variableDebt = await lendingProtocol.getCurrentBorrowAmount(
+      mockUSDC.address,
+      borrower.address,
+    );
+    const expectedOut = await collateralSwap.quote(
+      mockWETH.address,
+      mockUSDC.address,
+      ethers.utils.parseEther('1'),
+    );
+
+    await expect(
+      collateralSwap
+        .connect(borrower)
+        .swapCollateral(
+          mockWETH.address,
+          mockUSDC.address,
+          ethers.constants.MaxUint256,
+          usdc('1950'),
+        ),
+    ).to.emit(collateralSwap, 'CollateralSwapped');
+
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+    ).to.equal(0);
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, borrower.address),
+    ).to.equal(expectedOut);
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+    ).to.be.gte(variableDebt);
+    expect(
+      await lendingProtocol.getCurrentStableBorrowAmount(mockUSDC.address, borrower.address),
+    ).to.be.gt(usdc('200'));
+    expect(await lendingProtocol.getHealthFactor(borrower.address)).to.be.gte(10000);
+    await expectNoBalancesLeft();
+  });
+
+  it('should swap USDC collateral back to WETH', async function () {
+    await collateralSwap
+      .connect(borrower)
+      .swapCollateral(mockWETH.address, mockUSDC.address, ethers.constants.MaxUint256, 0);
+    const expectedOut = await collateralSwap.quote(
+      mockUSDC.address,
+      mockWETH.address,
+      usdc('1000'),
+    );
+    const usdcReserve = await amm.reserve1();
+
+    await collateralSwap
+      .connect(borrower)
+      .swapCollateral(mockUSDC.address, mockWETH.address, usdc('1000'), 0);
+
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+    ).to.equal(expectedOut);
+    expect(await amm.reserve1()).to.equal(usdcReserve.add(usdc('1000')));
+    await expectNoBalancesLeft();
+  });
+
+  it('should revert when the swap returns less than the minimum', async function () {
+    await expect(
+      collateralSwap
+        .connect(borrower)
+        .swapCollateral(
+          mockWETH.address,
+          mockUSDC.address,
+          ethers.utils.parseEther('1'),
+          usdc('2000'),
+        ),
+    ).to.be.revertedWith('Insufficient output amount');
+  });
+
+  it('should revert when the position ends up unhealthy', async function () {
+    // At an oracle price above the pool's, the swapped collateral is worth less than before
+    await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther('2300'));
+    await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('450'));
+
+    await expect(
+      collateralSwap
+        .connect(borrower)
+        .swapCollateral(mockWETH.address, mockUSDC.address, ethers.constants.MaxUint256, 0),
+    ).to.be.revertedWith('Unhealthy position');
+  });
+
+  it('should only take swap callbacks from the adapter during a swap', async function () {
+    await expect(
+      collateralSwap.onSwap(mockWETH.address, mockUSDC.address, 1, 1),
+    ).to.be.revertedWith('Unexpected swap callback');
+    await expect(
+      collateralSwap.connect(other).swapCollateral(mockWETH.address, mockUSDC.address, 1, 0),
+    ).to.be.revertedWith('No collateral to swap');
+    await expect(collateralSwap.connect(other).setSwapAdapter(other.address)).to.be.revertedWith(
+      'Ownable: caller is not the owner',
+    );
+  });
+
+  describe('with a malicious adapter', function () {
+    let adapter: MockMaliciousSwapAdapter;
+
+    // Attack values from MockMaliciousSwapAdapter.Attack
+    const NONE = 0,
+      INFLATE_INPUT = 1,
+      UNDERPAY = 2,
+      SKIP_CALLBACK = 3,
+      CALLBACK_TWICE = 4,
+      UNDERPULL = 5;
+
+    beforeEach(async function () {
+      // Pays 2000 USDC per WETH out of its own balance
+      adapter = (await (
+        await ethers.getContractFactory('MockMaliciousSwapAdapter')
+      ).deploy(usdc('2000'))) as MockMaliciousSwapAdapter;
+      await mockUSDC.transfer(adapter.address, usdc('10000'));
+      await collateralSwap.setSwapAdapter(adapter.address);
+    });
+
+    async function swapAllWeth(minAmountOut = usdc('1900')) {
+      return collateralSwap
+        .connect(borrower)
+        .swapCollateral(
+          mockWETH.address,
+          mockUSDC.address,
+          ethers.constants.MaxUint256,
+          minAmountOut,
+        );
+    }
+
+    it('should swap when the adapter behaves', async function () {
+      await adapter.setAttack(NONE);
+      await swapAllWeth();
+
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, borrower.address),
+      ).to.equal(usdc('2000'));
+      expect(await mockWETH.balanceOf(adapter.address)).to.equal(ethers.utils.parseEther('1'));
+      await expectNoBalancesLeft();
+    });
+
+    it('should reject a callback claiming more input than requested', async function () {
+      await adapter.setAttack(INFLATE_INPUT);
+      await expect(swapAllWeth()).to.be.revertedWith('Swap does not match request');
+    });
+
+    it('should measure the output instead of trusting the reported amount', async function () {
+      await adapter.setAttack(UNDERPAY);
+      await expect(swapAllWeth()).to.be.revertedWith('Insufficient output amount');
+    });
+
+    it('should revert when the adapter skips the callback', async function () {
+      await adapter.setAttack(SKIP_CALLBACK);
+      await expect(swapAllWeth()).to.be.revertedWith('Swap not executed');
+    });
+
+    it('should reject a second callback', async function () {
+      await adapter.setAttack(CALLBACK_TWICE);
+      await expect(swapAllWeth()).to.be.revertedWith('Unexpected swap callback');
+    });
+
+    it('should revert when the adapter does not collect the whole input', async function () {
+      await adapter.setAttack(UNDERPULL);
+      await expect(swapAllWeth()).to.be.revertedWith('Swap not settled');
+    });
+
+    it('should leave the position untouched after a rejected swap', async function () {
+      await adapter.setAttack(INFLATE_INPUT);
+      await expect(swapAllWeth()).to.be.reverted;
+
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+      ).to.equal(ethers.utils.parseEther('1'));
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, borrower.address),
+      ).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('Borrow delegation', function () {
+  let borrower: SignerWithAddress;
+  let delegatee: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, borrower, delegatee] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await lendingProtocol.deposit(mockWETH.address, eth('10'), { value: eth('10') });
+
+    // 1 ETH of collateral, good for 1500 USDC
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, eth('1'), { value: eth('1') });
+
+    return { borrower, delegatee, lendingProtocol, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, delegatee, lendingProtocol, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  it('should send the tokens to the delegatee and the debt to the borrower', async function () {
+    await lendingProtocol
+      .connect(borrower)
+      .approveDelegation(delegatee.address, mockUSDC.address, usdc('1000'));
+
+    await lendingProtocol
+      .connect(delegatee)
+      .borrowBehalf(borrower.address, mockUSDC.address, usdc('400'));
+
+    expect(await mockUSDC.balanceOf(delegatee.address)).to.equal(usdc('400'));
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+    ).to.equal(usdc('400'));
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, delegatee.address),
+    ).to.equal(0);
+  });
+
+  it('should spend the allowance down', async function () {
+    await lendingProtocol
+      .connect(borrower)
+      .approveDelegation(delegatee.address, mockUSDC.address, usdc('1000'));
+
+    await expect(
+      lendingProtocol
+        .connect(delegatee)
+        .borrowBehalf(borrower.address, mockUSDC.address, usdc('600')),
+    )
+      .to.emit(lendingProtocol, 'BorrowAllowanceDelegated')
+      .withArgs(borrower.address, delegatee.address, mockUSDC.address, usdc('400'));
+    expect(
+      await lendingProtocol.borrowAllowance(borrower.address, delegatee.address, mockUSDC.address),
+    ).to.equal(usdc('400'));
+
+    await expect(
+      lendingProtocol
+        .connect(delegatee)
+        .borrowBehalf(borrower.address, mockUSDC.address, usdc('401')),
+    ).to.be.revertedWith('Borrow allowance exceeded');
+  });
+
+  it('should not spend down an unlimited allowance', async function () {
+    await lendingProtocol
+      .connect(borrower)
+      .approveDelegation(delegatee.address, mockUSDC.address, ethers.constants.MaxUint256);
+
+    await lendingProtocol
+      .connect(delegatee)
+      .borrowBehalf(borrower.address, mockUSDC.address, usdc('600'));
+    expect(
+      await lendingProtocol.borrowAllowance(borrower.address, delegatee.address, mockUSDC.address),
+    ).to.equal(ethers.constants.MaxUint256);
+  });
+
+  it('should keep allowances per token and per delegatee', async function () {
+    const [, , , stranger] = await ethers.getSigners();
+    await lendingProtocol
+      .connect(borrower)
+      .approveDelegation(delegatee.address, mockUSDC.address, usdc('1000'));
+
+    await expect(
+      lendingProtocol
+        .connect(delegatee)
+        .borrowBehalf(borrower.address, mockWETH.address, eth('0.1')),
+    ).to.be.revertedWith('Borrow allowance exceeded');
+    await expect(
+      lendingProtocol.connect(stranger).borrowBehalf(borrower.address, mockUSDC.address, usdc('1')),
+    ).to.be.revertedWith('Borrow allowance exceeded');
+  });
+
+  it("should still check the borrower's collateral", async function () {
+    await lendingProtocol
+      .connect(borrower)
+      .approveDelegation(delegatee.address, mockUSDC.address, ethers.constants.MaxUint256);
+
+    await expect(
+      lendingProtocol
+        .connect(delegatee)
+        .borrowBehalf(borrower.address, mockUSDC.address, usdc('1600')),
+    ).to.be.revertedWith('Insufficient collateral');
+  });
+
+  it('should stop the delegatee once the allowance is revoked', async function () {
+    await lendingProtocol
+      .connect(borrower)
+      .approveDelegation(delegatee.address, mockUSDC.address, usdc('1000'));
+    await lendingProtocol
+      .connect(borrower)
+      .approveDelegation(delegatee.address, mockUSDC.address, 0);
+
+    await expect(
+      lendingProtocol
+        .connect(delegatee)
+        .borrowBehalf(borrower.address, mockUSDC.address, usdc('1')),
+    ).to.be.revertedWith('Borrow allowance exceeded');
+  });
+
+  it('should reject the zero address', async function () {
+    await expect(
+      lendingProtocol
+        .connect(borrower)
+        .approveDelegation(ethers.constants.AddressZero, mockUSDC.address, usdc('1')),
+    ).to.be.revertedWith('Invalid delegatee address');
+    await expect(
+      lendingProtocol
+        .connect(delegatee)
+        .borrowBehalf(ethers.constants.AddressZero, mockUSDC.address, usdc('1')),
+    ).to.be.revertedWith('Invalid borrower address');
+  });
+});
@@ -0,0 +1,153 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('eMode', function () {
+  let user: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let mockWETH: MockWETH;
+  let mockStable: MockUSDC;
+
+  const STABLECOINS = 1;
+
+  async function deployFixture() {
+    const [, user] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+    // A second dollar stablecoin to borrow against USDC
+    const mockStable = (await (await ethers.getContractFactory('MockUSDC')).deploy()) as MockUSDC;
+
+    await priceOracle.updatePrice(mockStable.address, eth('1'));
+    await lendingProtocol.setTokenConfig(mockStable.address, true, 8000, 8500, 500, 500);
+
+    await lendingProtocol.setEModeCategory(STABLECOINS, 9700, 9800, 'Stablecoins');
+    await lendingProtocol.setTokenEModeCategory(mockUSDC.address, STABLECOINS);
+    await lendingProtocol.setTokenEModeCategory(mockStable.address, STABLECOINS);
+
+    // Liquidity in every market
+    await mockStable.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockStable.address, usdc('100000'));
+    await lendingProtocol.deposit(mockWETH.address, eth('10'), { value: eth('10') });
+
+    await mockUSDC.transfer(user.address, usdc('1000'));
+    await mockUSDC.connect(user).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.connect(user).deposit(mockUSDC.address, usdc('1000'));
+
+    return { user, lendingProtocol, mockWETH, mockStable };
+  }
+
+  beforeEach(async function () {
+    ({ user, lendingProtocol, mockWETH, mockStable } = await loadFixture(deployFixture));
+  });
+
+  describe('borrowing power', function () {
+    it('should use the category collateral factor', async function () {
+      await expect(
+        lendingProtocol.connect(user).borrow(mockStable.address, usdc('900')),
+      ).to.be.revertedWith('Insufficient collateral');
+
+      await expect(lendingProtocol.connect(user).setUserEMode(STABLECOINS))
+        .to.emit(lendingProtocol, 'UserEModeSet')
+        .withArgs(user.address, STABLECOINS);
+      await lendingProtocol.connect(user).borrow(mockStable.address, usdc('960'));
+
+      await expect(
+        lendingProtocol.connect(user).borrow(mockStable.address, usdc('20')),
+      ).to.be.revertedWith('Insufficient collateral');
+    });
+
+    it('should use the category liquidation threshold', async function () {
+      await lendingProtocol.connect(user).setUserEMode(STABLECOINS);
+      await lendingProtocol.connect(user).borrow(mockStable.address, usdc('950'));
+
+      // 98% of 1000 against 950 of debt
+      expect(await lendingProtocol.getLiquidationHealthFactor(user.address)).to.be.closeTo(
+        10315,
+        1,
+      );
+    });
+
+    it('should keep market parameters for collateral outside the category', async function () {
+      await lendingProtocol.connect(user).deposit(mockWETH.address, eth('1'), { value: eth('1') });
+      await lendingProtocol.connect(user).setUserEMode(STABLECOINS);
+
+      // 970 from USDC in eMode plus 1500 from WETH at its own 75%
+      await lendingProtocol.connect(user).borrow(mockStable.address, usdc('2460'));
+      await expect(
+        lendingProtocol.connect(user).borrow(mockStable.address, usdc('20')),
+      ).to.be.revertedWith('Insufficient collateral');
+    });
+  });
+
+  describe('restrictions', function () {
+    it('should only borrow markets of the category', async function () {
+      await lendingProtocol.connect(user).setUserEMode(STABLECOINS);
+
+      await expect(
+        lendingProtocol.connect(user).borrow(mockWETH.address, eth('0.1')),
+      ).to.be.revertedWith('Borrow not in eMode category');
+    });
+
+    it('should not enter a category with debt outside it', async function () {
+      await lendingProtocol.connect(user).borrow(mockWETH.address, eth('0.1'));
+
+      await expect(lendingProtocol.connect(user).setUserEMode(STABLECOINS)).to.be.revertedWith(
+        'Debt outside eMode category',
+      );
+    });
+
+    it('should not leave the category while the position depends on it', async function () {
+      await lendingProtocol.connect(user).setUserEMode(STABLECOINS);
+      await lendingProtocol.connect(user).borrow(mockStable.address, usdc('900'));
+
+      await expect(lendingProtocol.connect(user).setUserEMode(0)).to.be.revertedWith(
+        'Unhealthy position',
+      );
+
+      await mockStable.connect(user).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+      await lendingProtocol.connect(user).repay(mockStable.address, usdc('200'));
+      await lendingProtocol.connect(user).setUserEMode(0);
+      expect(await lendingProtocol.userEModeCategory(user.address)).to.equal(0);
+    });
+
+    it('should not enter a category that does not exist', async function () {
+      await expect(lendingProtocol.connect(user).setUserEMode(2)).to.be.revertedWith(
+        'eMode category not found',
+      );
+    });
+  });
+
+  describe('configuration', function () {
+    it('should validate categories', async function () {
+      await expect(lendingProtocol.setEModeCategory(0, 9000, 9300, 'Zero')).to.be.revertedWith(
+        'Invalid eMode category',
+      );
+      await expect(lendingProtocol.setEModeCategory(2, 9500, 9300, 'ETH')).to.be.revertedWith(
+        'Invalid collateral factor',
+      );
+      await expect(lendingProtocol.setEModeCategory(2, 9000, 10001, 'ETH')).to.be.revertedWith(
+        'Invalid liquidation threshold',
+      );
+      await expect(lendingProtocol.setTokenEModeCategory(mockWETH.address, 2)).to.be.revertedWith(
+        'eMode category not found',
+      );
+    });
+
+    it('should only let the admin change categories', async function () {
+      await expect(lendingProtocol.connect(user).setEModeCategory(2, 9000, 9300, 'ETH')).to.be
+        .reverted;
+      await expect(
+        lendingProtocol.connect(user).setTokenEModeCategory(mockWETH.address, STABLECOINS),
+      ).to.be.reverted;
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockFlashBorrower } from '../../typechain/contracts/mocks/MockFlashBorrower';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+describe('Flash loans', function () {
+  let depositor: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let flashBorrower: MockFlashBorrower;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [depositor] = await ethers.getSigners();
+    const { lendingProtocol, mockUSDC } = await deployLendingFixture();
+
+    await lendingProtocol.setReserveFactor(mockUSDC.address, 1000);
+    await lendingProtocol.setFlashLoanFee(mockUSDC.address, 9);
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('1000'));
+
+    // The borrower holds enough to pay the fee
+    const flashBorrower = (await (
+      await ethers.getContractFactory('MockFlashBorrower')
+    ).deploy(lendingProtocol.address)) as MockFlashBorrower;
+    await mockUSDC.transfer(flashBorrower.address, usdc('10'));
+
+    return { depositor, lendingProtocol, flashBorrower, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ depositor, lendingProtocol, flashBorrower, mockUSDC } = await loadFixture(deployFixture));
+  });
+
+  it('should lend the whole idle liquidity and charge the fee', async function () {
+    expect(await lendingProtocol.maxFlashLoan(mockUSDC.address)).to.equal(usdc('1000'));
+    expect(await lendingProtocol.flashFee(mockUSDC.address, usdc('1000'))).to.equal(usdc('0.9'));
+
+    await expect(flashBorrower.flashBorrow(mockUSDC.address, usdc('1000')))
+      .to.emit(lendingProtocol, 'FlashLoan')
+      .withArgs(
+        flashBorrower.address,
+        flashBorrower.address,
+        mockUSDC.address,
+        usdc('1000'),
+        usdc('0.9'),
+      );
+
+    expect(await flashBorrower.lastAmount()).to.equal(usdc('1000'));
+    expect(await flashBorrower.balanceDuringLoan()).to.equal(usdc('1010'));
+    expect(await mockUSDC.balanceOf(flashBorrower.address)).to.equal(usdc('9.1'));
+    expect(await mockUSDC.balanceOf(lendingProtocol.address)).to.equal(usdc('1000.9'));
+  });
+
+  it('should split the fee between reserves and depositors', async function () {
+    await flashBorrower.flashBorrow(mockUSDC.address, usdc('1000'));
+
+    // 10% reserve factor on a 0.9 USDC fee
+    expect(await lendingProtocol.totalReserves(mockUSDC.address)).to.equal(usdc('0.09'));
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, depositor.address),
+    ).to.be.closeTo(usdc('1000.81'), 1);
+  });
+
+  it('should not lend out the reserves', async function () {
+    await flashBorrower.flashBorrow(mockUSDC.address, usdc('1000'));
+
+    const available = await lendingProtocol.maxFlashLoan(mockUSDC.address);
+    expect(available).to.equal(usdc('1000.81'));
+    await expect(flashBorrower.flashBorrow(mockUSDC.address, available.add(1))).to.be.revertedWith(
+      'Insufficient liquidity',
+    );
+    await flashBorrower.flashBorrow(mockUSDC.address, available);
+  });
+
+  it('should revert when the loan is not paid back', async function () {
+    await flashBorrower.setRepayLoan(false);
+
+    await expect(flashBorrower.flashBorrow(mockUSDC.address, usdc('100'))).to.be.revertedWith(
+      'ERC20: insufficient allowance',
+    );
+    expect(await mockUSDC.balanceOf(lendingProtocol.address)).to.equal(usdc('1000'));
+  });
+
+  it('should not allow a flash loan from inside a flash loan', async function () {
+    await flashBorrower.setReentryCall(
+      lendingProtocol.interface.encodeFunctionData('flashLoan', [
+        flashBorrower.address,
+        mockUSDC.address,
+        usdc('100'),
+        '0x',
+      ]),
+    );
+
+    await expect(flashBorrower.flashBorrow(mockUSDC.address, usdc('100'))).to.be.revertedWith(
+      'ReentrancyGuard: reentrant call',
+    );
+  });
+
+  it('should not let the receiver use the loan on the protocol itself', async function () {
+    const amount = usdc('100');
+    const calls = [
+      lendingProtocol.interface.encodeFunctionData('deposit', [mockUSDC.address, amount]),
+      lendingProtocol.interface.encodeFunctionData('withdraw', [mockUSDC.address, amount]),
+      lendingProtocol.interface.encodeFunctionData('borrow', [mockUSDC.address, amount]),
+      lendingProtocol.interface.encodeFunctionData('repay', [mockUSDC.address, amount]),
+      lendingProtocol.interface.encodeFunctionData('liquidate', [
+        depositor.address,
+        mockUSDC.address,
+        mockUSDC.address,
+        amount,
+      ]),
+    ];
+
+    for (const call of calls) {
+      await flashBorrower.setReentryCall(call);
+      await expect(flashBorrower.flashBorrow(mockUSDC.address, amount)).to.be.revertedWith(
+        'ReentrancyGuard: reentrant call',
+      );
+    }
+  });
+
+  it('should report nothing for unsupported tokens and reject their loans', async function () {
+    const otherToken = await (await ethers.getContractFactory('MockUSDC')).deploy();
+
+    expect(await lendingProtocol.maxFlashLoan(otherToken.address)).to.equal(0);
+    await expect(flashBorrower.flashBorrow(otherToken.address, 1)).to.be.reverted;
+  });
+});
@@ -0,0 +1,208 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { BigNumber } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { EnhancedLendingLens } from '../../typechain/contracts/core/EnhancedLendingLens';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const ONE_DAY = 86400;
+const SECONDS_PER_YEAR = 365 * ONE_DAY;
+const BORROW_RATE = 500; // basis points, fixed since no rate model is set
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+async function setNextTimestamp(timestamp: number) {
+  await ethers.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+}
+
+async function mineAt(timestamp: number) {
+  await setNextTimestamp(timestamp);
+  await ethers.provider.send('evm_mine', []);
+}
+
+// Relative difference of two amounts, in parts per million
+function ppmDifference(a: BigNumber, b: BigNumber): number {
+  const diff = a.gt(b) ? a.sub(b) : b.sub(a);
+  return diff.mul(1000000).div(a).toNumber();
+}
+
+describe('Per-second interest accrual', function () {
+  let borrower: SignerWithAddress;
+  let stableBorrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let lendingLens: EnhancedLendingLens;
+  let mockUSDC: MockUSDC;
+  let borrowTime: number;
+
+  async function deployFixture() {
+    const [, borrower, stableBorrower] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+    const lendingLens = (await (
+      await ethers.getContractFactory('EnhancedLendingLens')
+    ).deploy(lendingProtocol.address)) as EnhancedLendingLens;
+
+    await lendingProtocol.setTokenConfig(mockUSDC.address, true, 8000, 8500, 500, BORROW_RATE);
+    await lendingProtocol.setReserveFactor(mockUSDC.address, 1000);
+    // No premium, so stable debt is taken at the variable rate
+    await lendingProtocol.setStableRateConfig(mockUSDC.address, true, 0, 500);
+
+    // USDC liquidity from the deployer, 1 WETH of collateral from each borrower
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    for (const account of [borrower, stableBorrower]) {
+      await lendingProtocol
+        .connect(account)
+        .deposit(mockWETH.address, ethers.utils.parseEther('1'), {
+          value: ethers.utils.parseEther('1'),
+        });
+    }
+
+    await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1000'));
+    const borrowTime = (await ethers.provider.getBlock('latest')).timestamp;
+
+    return { borrower, stableBorrower, lendingProtocol, lendingLens, mockUSDC, borrowTime };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, stableBorrower, lendingProtocol, lendingLens, mockUSDC, borrowTime } =
+      await loadFixture(deployFixture));
+  });
+
+  // setReserveFactor accrues the market before it changes anything
+  async function accrueAt(timestamp: number) {
+    await setNextTimestamp(timestamp);
+    await lendingProtocol.setReserveFactor(mockUSDC.address, 1000);
+  }
+
+  describe('Accrual', function () {
+    it('should not drop interest when the market is updated more often than every five minutes', async function () {
+      for (let i = 1; i <= 10; i++) {
+        await accrueAt(borrowTime + i * 60);
+      }
+
+      // Ten minutes of interest, previously lost to repeated sub-interval updates
+      expect(await lendingProtocol.globalInterestIndices(mockUSDC.address)).to.be.gt(
+        await lendingProtocol.INITIAL_INTEREST_INDEX(),
+      );
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.be.gt(usdc('1000'));
+    });
+
+    it('should project the same index the next update stores', async function () {
+      await mineAt(borrowTime + 1000);
+      const projected = await lendingProtocol.getCurrentGlobalIndex(mockUSDC.address);
+
+      ({ lendingProtocol, mockUSDC, borrowTime } = await loadFixture(deployFixture));
+      await accrueAt(borrowTime + 1000);
+      expect(await lendingProtocol.globalInterestIndices(mockUSDC.address)).to.equal(projected);
+    });
+
+    it('should converge whether the market is updated every few minutes or once a day', async function () {
+      for (let elapsed = 420; elapsed < ONE_DAY; elapsed += 420) {
+        await accrueAt(borrowTime + elapsed);
+      }
+      await accrueAt(borrowTime + ONE_DAY);
+      const frequentIndex = await lendingProtocol.globalInterestIndices(mockUSDC.address);
+
+      ({ lendingProtocol, mockUSDC, borrowTime } = await loadFixture(deployFixture));
+      await accrueAt(borrowTime + ONE_DAY);
+      const dailyIndex = await lendingProtocol.globalInterestIndices(mockUSDC.address);
+
+      expect(ppmDifference(frequentIndex, dailyIndex)).to.be.lte(1);
+    });
+
+    it('should match continuous compounding over a day', async function () {
+      await accrueAt(borrowTime + ONE_DAY);
+
+      const index = await lendingProtocol.globalInterestIndices(mockUSDC.address);
+      const expected = Math.exp(((BORROW_RATE / 10000) * ONE_DAY) / SECONDS_PER_YEAR);
+      const actual = parseFloat(ethers.utils.formatEther(index));
+
+      expect(Math.abs(actual - expected) / expected).to.be.lt(1e-6);
+    });
+
+    it('should accrue the displayed annual rate over a year', async function () {
+      await accrueAt(borrowTime + SECONDS_PER_YEAR);
+
+      // 500 basis points is shown as 5% APR, so a year of per-second compounding is e^0.05
+      const debt = await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address);
+      const expected = usdc((1000 * Math.exp(BORROW_RATE / 10000)).toFixed(6));
+      expect(ppmDifference(debt, expected)).to.be.lte(1);
+    });
+
+    it('should accrue stable and variable debt equally at equal rates', async function () {
+      await lendingProtocol.connect(stableBorrower).borrowStable(mockUSDC.address, usdc('1000'));
+      const stableBorrowTime = (await ethers.provider.getBlock('latest')).timestamp;
+
+      // Bring the variable debt to the same start as the stable debt
+      await accrueAt(stableBorrowTime + 1);
+      const variableStart = await lendingProtocol.getCurrentBorrowAmount(
+        mockUSDC.address,
+        borrower.address,
+      );
+      const stableStart = await lendingProtocol.getCurrentStableBorrowAmount(
+        mockUSDC.address,
+        stableBorrower.address,
+      );
+
+      for (let i = 1; i <= 24; i++) {
+        await accrueAt(stableBorrowTime + 1 + i * 3600);
+      }
+
+      const variableDebt = await lendingProtocol.getCurrentBorrowAmount(
+        mockUSDC.address,
+        borrower.address,
+      );
+      const stableDebt = await lendingProtocol.getCurrentStableBorrowAmount(
+        mockUSDC.address,
+        stableBorrower.address,
+      );
+      const variableGrowth = variableDebt.mul(ethers.constants.WeiPerEther).div(variableStart);
+      const stableGrowth = stableDebt.mul(ethers.constants.WeiPerEther).div(stableStart);
+
+      expect(variableGrowth).to.be.gt(ethers.constants.WeiPerEther);
+      expect(ppmDifference(variableGrowth, stableGrowth)).to.be.lte(1);
+    });
+  });
+
+  describe('Diagnostics', function () {
+    it('should report the per-second rate and where the market was compounded to', async function () {
+      await accrueAt(borrowTime + 600);
+      await mineAt(borrowTime + 900);
+
+      const diagnostics = await lendingLens.getInterestDiagnostics(
+        mockUSDC.address,
+        borrower.address,
+      );
+      expect(diagnostics.marketLastUpdate).to.equal(borrowTime + 600);
+      expect(diagnostics.timeElapsed).to.equal(900);
+      expect(diagnostics.borrowRate).to.equal(BORROW_RATE);
+      expect(diagnostics.ratePerSecond).to.equal(
+        BigNumber.from(10).pow(27).mul(BORROW_RATE).div(SECONDS_PER_YEAR).div(10000),
+      );
+      expect(diagnostics.estimatedNewIndex).to.equal(
+        await lendingProtocol.getCurrentGlobalIndex(mockUSDC.address),
+      );
+    });
+
+    it('should break down interest accrued in less than five minutes', async function () {
+      await mineAt(borrowTime + 120);
+
+      const details = await lendingLens.getDetailedInterestAccrual(
+        mockUSDC.address,
+        borrower.address,
+      );
+      expect(details.principal).to.equal(usdc('1000'));
+      expect(details.secondsAccrued).to.equal(120);
+      expect(details.currentAmount).to.equal(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+      );
+      expect(details.interestAccrued).to.be.gt(0);
+    });
+  });
+});
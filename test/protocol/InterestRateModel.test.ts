@@ -0,0 +1,117 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { JumpRateModel } from '../../typechain/contracts/core/JumpRateModel';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+const ONE_YEAR = 365 * 86400;
+
+describe('Interest rate models', function () {
+  let borrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let rateModel: JumpRateModel;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, borrower] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    // 2% base, +4% up to the 80% kink, +75% from the kink to full utilization
+    const rateModel = (await (
+      await ethers.getContractFactory('JumpRateModel')
+    ).deploy(200, 400, 7500, 8000)) as JumpRateModel;
+
+    // 10000 USDC to borrow from, 10 ETH of collateral
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('10000'));
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, eth('10'), { value: eth('10') });
+
+    return { borrower, lendingProtocol, rateModel, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, lendingProtocol, rateModel, mockUSDC } = await loadFixture(deployFixture));
+  });
+
+  describe('JumpRateModel', function () {
+    it('should charge the base rate at zero utilization', async function () {
+      expect(await rateModel.getBorrowRate(0, usdc('10000'))).to.equal(200);
+      expect(await rateModel.getBorrowRate(0, 0)).to.equal(200);
+    });
+
+    it('should rise along the gentle slope below the optimal utilization', async function () {
+      // 40% is half way to the kink
+      expect(await rateModel.getBorrowRate(usdc('4000'), usdc('10000'))).to.equal(400);
+    });
+
+    it('should charge base rate plus slope at the kink', async function () {
+      expect(await rateModel.getBorrowRate(usdc('8000'), usdc('10000'))).to.equal(600);
+    });
+
+    it('should jump above the optimal utilization', async function () {
+      // 90% is half way from the kink to full utilization
+      expect(await rateModel.getBorrowRate(usdc('9000'), usdc('10000'))).to.equal(4350);
+      expect(await rateModel.getBorrowRate(usdc('10000'), usdc('10000'))).to.equal(8100);
+    });
+
+    it('should cap utilization at 100%', async function () {
+      expect(await rateModel.getUtilization(usdc('12000'), usdc('10000'))).to.equal(10000);
+      expect(await rateModel.getBorrowRate(usdc('12000'), usdc('10000'))).to.equal(8100);
+    });
+
+    it('should reject a kink outside (0, 100%)', async function () {
+      const factory = await ethers.getContractFactory('JumpRateModel');
+      await expect(factory.deploy(200, 400, 7500, 0)).to.be.revertedWith('Invalid kink');
+      await expect(factory.deploy(200, 400, 7500, 10000)).to.be.revertedWith('Invalid kink');
+    });
+  });
+
+  describe('setInterestRateModel', function () {
+    it("should price borrows off the market's utilization", async function () {
+      await expect(lendingProtocol.setInterestRateModel(mockUSDC.address, rateModel.address))
+        .to.emit(lendingProtocol, 'InterestRateModelUpdated')
+        .withArgs(mockUSDC.address, rateModel.address);
+
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('4000'));
+      expect(await lendingProtocol.getBorrowRate(mockUSDC.address)).to.equal(400);
+
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('5000'));
+      expect(await lendingProtocol.getBorrowRate(mockUSDC.address)).to.equal(4350);
+    });
+
+    it('should fall back to the fixed rate when the model is cleared', async function () {
+      await lendingProtocol.setInterestRateModel(mockUSDC.address, rateModel.address);
+      await lendingProtocol.setInterestRateModel(mockUSDC.address, ethers.constants.AddressZero);
+
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('9000'));
+      expect(await lendingProtocol.getBorrowRate(mockUSDC.address)).to.equal(500);
+    });
+
+    it('should accrue at the old rate up to the switch', async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('4000'));
+      await time.increase(ONE_YEAR);
+
+      await lendingProtocol.setInterestRateModel(mockUSDC.address, rateModel.address);
+
+      // A year at the fixed 5%, compounded, not at the model's 4%
+      const debt = await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address);
+      expect(debt).to.be.closeTo(usdc('4205.08'), usdc('1'));
+    });
+
+    it('should only let the admin set a model', async function () {
+      await expect(
+        lendingProtocol.connect(borrower).setInterestRateModel(mockUSDC.address, rateModel.address),
+      ).to.be.reverted;
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { BigNumber, ContractReceipt } from 'ethers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { PositionManager } from '../../typechain/contracts/core/PositionManager';
+import { LeverageRouter } from '../../typechain/contracts/core/LeverageRouter';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('LeverageRouter', function () {
+  let user: SignerWithAddress;
+  let other: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let positionManager: PositionManager;
+  let leverageRouter: LeverageRouter;
+  let mockWETH: MockWETH;
+
+  async function deployFixture() {
+    const [deployer, user, other] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH } = await deployLendingFixture();
+
+    const positionManager = (await (
+      await ethers.getContractFactory('PositionManager')
+    ).deploy(lendingProtocol.address)) as PositionManager;
+    await lendingProtocol.grantRole(
+      await lendingProtocol.POSITION_MANAGER_ROLE(),
+      positionManager.address,
+    );
+    const leverageRouter = (await (
+      await ethers.getContractFactory('LeverageRouter')
+    ).deploy(positionManager.address)) as LeverageRouter;
+
+    // WETH liquidity to borrow from
+    await lendingProtocol
+      .connect(deployer)
+      .deposit(mockWETH.address, eth('50'), { value: eth('50') });
+
+    return { user, other, lendingProtocol, positionManager, leverageRouter, mockWETH };
+  }
+
+  beforeEach(async function () {
+    ({ user, other, lendingProtocol, positionManager, leverageRouter, mockWETH } =
+      await loadFixture(deployFixture));
+  });
+
+  function leveragedEvent(receipt: ContractReceipt) {
+    const event = receipt.events?.find((e) => e.event === 'Leveraged');
+    if (!event || !event.args) throw new Error('No Leveraged event');
+    return event.args;
+  }
+
+  async function expectRouterEmpty() {
+    expect(await ethers.provider.getBalance(leverageRouter.address)).to.equal(0);
+    expect(await mockWETH.balanceOf(leverageRouter.address)).to.equal(0);
+    expect(await positionManager.balanceOf(leverageRouter.address)).to.equal(0);
+  }
+
+  describe('leverage', function () {
+    it('should open a 3x position in a new NFT owned by the caller', async function () {
+      const receipt = await (
+        await leverageRouter.connect(user).leverage(30000, 11000, { value: eth('1') })
+      ).wait();
+      const { tokenId, owner, collateral, debt, healthFactor } = leveragedEvent(receipt);
+      const account = await positionManager.positionAccount(tokenId);
+
+      expect(owner).to.equal(user.address);
+      expect(await positionManager.ownerOf(tokenId)).to.equal(user.address);
+      expect(collateral).to.equal(eth('3'));
+      expect(debt).to.equal(eth('2'));
+      expect(await lendingProtocol.getCurrentDepositAmount(mockWETH.address, account)).to.equal(
+        eth('3'),
+      );
+      expect(await lendingProtocol.getCurrentBorrowAmount(mockWETH.address, account)).to.equal(
+        eth('2'),
+      );
+      // 80% liquidation threshold x 3 / 2
+      expect(healthFactor).to.equal(12000);
+      await expectRouterEmpty();
+    });
+
+    it('should revert when the health factor would end below the minimum', async function () {
+      // 3.7x ends at 0.8 x 3.7 / 2.7, about 1.096
+      await expect(
+        leverageRouter.connect(user).leverage(37000, 11000, { value: eth('1') }),
+      ).to.be.revertedWith('Health factor below minimum');
+    });
+
+    it('should reject invalid parameters', async function () {
+      await expect(leverageRouter.connect(user).leverage(30000, 11000)).to.be.revertedWith(
+        'Amount must be > 0',
+      );
+      await expect(
+        leverageRouter.connect(user).leverage(10000, 11000, { value: eth('1') }),
+      ).to.be.revertedWith('Leverage must be above 1x');
+      await expect(
+        leverageRouter.connect(user).leverage(30000, 9000, { value: eth('1') }),
+      ).to.be.revertedWith('Min health factor below 1');
+    });
+
+    it('should stop after MAX_LOOPS borrows when the target is out of reach', async function () {
+      // With a 75% collateral factor the loop converges just below 4x, so 3.99x is never reached
+      const receipt = await (
+        await leverageRouter.connect(user).leverage(39900, 10000, { value: eth('1') })
+      ).wait();
+      const { collateral } = leveragedEvent(receipt);
+
+      const borrowTopic = lendingProtocol.interface.getEventTopic('Borrow');
+      const borrows = receipt.logs.filter(
+        (log) => log.address === lendingProtocol.address && log.topics[0] === borrowTopic,
+      );
+      expect(borrows.length).to.equal((await leverageRouter.MAX_LOOPS()).toNumber());
+      expect(collateral).to.be.lt(eth('3.99'));
+      expect(collateral).to.be.gt(eth('3.9'));
+    });
+  });
+
+  describe('deleverage', function () {
+    let tokenId: BigNumber;
+    let account: string;
+
+    beforeEach(async function () {
+      const receipt = await (
+        await leverageRouter.connect(user).leverage(30000, 11000, { value: eth('1') })
+      ).wait();
+      tokenId = leveragedEvent(receipt).tokenId;
+      account = await positionManager.positionAccount(tokenId);
+    });
+
+    it('should only deleverage for the NFT owner, after approving the router', async function () {
+      await expect(
+        leverageRouter.connect(other).deleverage(tokenId, ethers.constants.MaxUint256),
+      ).to.be.revertedWith('Not position owner');
+      // Without approval the PositionManager rejects the router
+      await expect(
+        leverageRouter.connect(user).deleverage(tokenId, ethers.constants.MaxUint256),
+      ).to.be.revertedWith('Not position owner');
+    });
+
+    it("should repay all debt out of the position's collateral", async function () {
+      await positionManager.connect(user).approve(leverageRouter.address, tokenId);
+      await expect(
+        leverageRouter.connect(user).deleverage(tokenId, ethers.constants.MaxUint256),
+      ).to.emit(leverageRouter, 'Deleveraged');
+
+      expect(await lendingProtocol.getCurrentBorrowAmount(mockWETH.address, account)).to.equal(0);
+      // What is left is the user's own ETH, still deposited in the position
+      const collateral = await lendingProtocol.getCurrentDepositAmount(mockWETH.address, account);
+      expect(collateral).to.be.closeTo(eth('1'), eth('0.001'));
+      expect(await positionManager.ownerOf(tokenId)).to.equal(user.address);
+      await expectRouterEmpty();
+    });
+
+    it('should repay only the requested amount', async function () {
+      await positionManager.connect(user).approve(leverageRouter.address, tokenId);
+      await leverageRouter.connect(user).deleverage(tokenId, eth('0.5'));
+
+      expect(await lendingProtocol.getCurrentBorrowAmount(mockWETH.address, account)).to.be.closeTo(
+        eth('1.5'),
+        eth('0.0001'),
+      );
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockWETH.address, account),
+      ).to.be.closeTo(eth('2.5'), eth('0.0001'));
+    });
+  });
+
+  describe('eMode', function () {
+    it('should size withdrawals with the eMode collateral factor', async function () {
+      await lendingProtocol.setEModeCategory(1, 9000, 9300, 'ETH');
+      await lendingProtocol.setTokenEModeCategory(mockWETH.address, 1);
+
+      // 85% loan to value is only possible in eMode, then the position moves into an NFT
+      await lendingProtocol.connect(user).setUserEMode(1);
+      await lendingProtocol.connect(user).deposit(mockWETH.address, eth('1'), { value: eth('1') });
+      await lendingProtocol.connect(user).borrow(mockWETH.address, eth('0.85'));
+      await positionManager.connect(user).wrap();
+      const tokenId = (await positionManager.tokensOfOwner(user.address))[0];
+      const account = await positionManager.positionAccount(tokenId);
+      expect(await lendingProtocol.userEModeCategory(account)).to.equal(1);
+
+      // Headroom of 0.05 ETH of borrow capacity frees 0.05 / 0.9 ETH, less the 0.1% buffer
+      expect(await leverageRouter.availableWithdrawal(account)).to.be.closeTo(
+        eth('0.05').mul(9990).div(9000),
+        eth('0.000001'),
+      );
+
+      await positionManager.connect(user).approve(leverageRouter.address, tokenId);
+      await leverageRouter.connect(user).deleverage(tokenId, ethers.constants.MaxUint256);
+      expect(await lendingProtocol.getCurrentBorrowAmount(mockWETH.address, account)).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { BigNumber } from 'ethers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('Liquidation with a chosen collateral', function () {
+  let liquidator: SignerWithAddress;
+  let borrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let priceOracle: MockPriceOracle;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [liquidator, borrower] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    // 5% liquidation penalty on both markets
+    await lendingProtocol.setTokenConfig(mockWETH.address, true, 7500, 8000, 500, 500);
+
+    // The deployer supplies liquidity and liquidates
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await lendingProtocol.deposit(mockWETH.address, eth('50'), { value: eth('50') });
+
+    await mockUSDC.transfer(borrower.address, usdc('10000'));
+    await mockUSDC.connect(borrower).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+
+    return { liquidator, borrower, lendingProtocol, priceOracle, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ liquidator, borrower, lendingProtocol, priceOracle, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  // Same formula as LiquidationLogic: debt value plus the 5% bonus, in the collateral's decimals
+  async function expectedSeize(
+    debtToken: string,
+    debtDecimals: number,
+    collateralToken: string,
+    collateralDecimals: number,
+    amount: BigNumber,
+  ) {
+    return amount
+      .mul(await priceOracle.getPrice(debtToken))
+      .div(BigNumber.from(10).pow(debtDecimals))
+      .mul(10500)
+      .mul(BigNumber.from(10).pow(collateralDecimals))
+      .div(await priceOracle.getPrice(collateralToken))
+      .div(10000);
+  }
+
+  describe('USDC debt against WETH collateral', function () {
+    beforeEach(async function () {
+      await lendingProtocol
+        .connect(borrower)
+        .deposit(mockWETH.address, eth('1'), { value: eth('1') });
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1500'));
+    });
+
+    it('should not liquidate a healthy position', async function () {
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('100'),
+        ),
+      ).to.be.revertedWith('Position not liquidatable');
+    });
+
+    it('should seize WETH worth the repaid USDC plus the bonus', async function () {
+      // 80% of 1800 against 1500 of debt
+      await priceOracle.updatePrice(mockWETH.address, eth('1800'));
+      const amount = usdc('500');
+      const seize = await expectedSeize(mockUSDC.address, 6, mockWETH.address, 18, amount);
+      // 500 x 1.05 / 1800 ETH
+      expect(seize).to.equal(eth('525').div(1800));
+
+      const wethBefore = await mockWETH.balanceOf(liquidator.address);
+      await expect(
+        lendingProtocol.liquidate(borrower.address, mockUSDC.address, mockWETH.address, amount),
+      )
+        .to.emit(lendingProtocol, 'CollateralSeized')
+        .withArgs(borrower.address, mockWETH.address, liquidator.address, seize);
+
+      expect((await mockWETH.balanceOf(liquidator.address)).sub(wethBefore)).to.equal(seize);
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+      ).to.equal(eth('1').sub(seize));
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.be.closeTo(usdc('1000'), usdc('0.01'));
+    });
+
+    it('should cap the repayment at the close factor', async function () {
+      await priceOracle.updatePrice(mockWETH.address, eth('1800'));
+
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('800'),
+        ),
+      ).to.be.revertedWith('Amount too high');
+    });
+  });
+
+  describe('WETH debt against USDC collateral', function () {
+    beforeEach(async function () {
+      await lendingProtocol.connect(borrower).deposit(mockUSDC.address, usdc('3000'));
+      await lendingProtocol.connect(borrower).borrow(mockWETH.address, eth('1.2'));
+    });
+
+    it('should seize USDC in 6 decimals for ETH repaid in 18', async function () {
+      // 85% of 3000 against 1.2 ETH at 2200
+      await priceOracle.updatePrice(mockWETH.address, eth('2200'));
+      const amount = eth('0.5');
+      const seize = await expectedSeize(mockWETH.address, 18, mockUSDC.address, 6, amount);
+      // 0.5 x 2200 x 1.05
+      expect(seize).to.equal(usdc('1155'));
+
+      const usdcBefore = await mockUSDC.balanceOf(liquidator.address);
+      await lendingProtocol.liquidate(
+        borrower.address,
+        mockWETH.address,
+        mockUSDC.address,
+        amount,
+        { value: amount },
+      );
+
+      expect((await mockUSDC.balanceOf(liquidator.address)).sub(usdcBefore)).to.equal(seize);
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, borrower.address),
+      ).to.equal(usdc('1845'));
+    });
+
+    it('should require the repaid ETH as value', async function () {
+      await priceOracle.updatePrice(mockWETH.address, eth('2200'));
+
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockWETH.address,
+          mockUSDC.address,
+          eth('0.5'),
+          { value: eth('0.4') },
+        ),
+      ).to.be.revertedWith('Invalid ETH amount');
+    });
+  });
+
+  describe('with collateral in both markets', function () {
+    beforeEach(async function () {
+      await lendingProtocol
+        .connect(borrower)
+        .deposit(mockWETH.address, eth('1'), { value: eth('1') });
+      await lendingProtocol.connect(borrower).deposit(mockUSDC.address, usdc('100'));
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1580'));
+      // 80% of 1700 plus 85% of 100 against 1580 of debt
+      await priceOracle.updatePrice(mockWETH.address, eth('1700'));
+    });
+
+    it('should seize only from the market the liquidator picked', async function () {
+      await lendingProtocol.liquidate(
+        borrower.address,
+        mockUSDC.address,
+        mockUSDC.address,
+        usdc('90'),
+      );
+
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, borrower.address),
+      ).to.equal(usdc('5.5'));
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+      ).to.equal(eth('1'));
+    });
+
+    it("should not seize more than the chosen market's deposit", async function () {
+      // 200 x 1.05 is more than the 100 USDC deposited, although the WETH would cover it
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockUSDC.address,
+          usdc('200'),
+        ),
+      ).to.be.revertedWith('Insufficient collateral in market');
+
+      await lendingProtocol.liquidate(
+        borrower.address,
+        mockUSDC.address,
+        mockWETH.address,
+        usdc('200'),
+      );
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+      ).to.equal(
+        eth('1').sub(await expectedSeize(mockUSDC.address, 6, mockWETH.address, 18, usdc('200'))),
+      );
+    });
+  });
+});
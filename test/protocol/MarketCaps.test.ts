@@ -0,0 +1,128 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { EnhancedLendingLens } from '../../typechain/contracts/core/EnhancedLendingLens';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('Market caps', function () {
+  let user: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let lens: EnhancedLendingLens;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, user] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+    const lens = (await (
+      await ethers.getContractFactory('EnhancedLendingLens')
+    ).deploy(lendingProtocol.address)) as EnhancedLendingLens;
+
+    await lendingProtocol.setStableRateConfig(mockUSDC.address, true, 200, 500);
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('10000'));
+    await lendingProtocol.connect(user).deposit(mockWETH.address, eth('5'), { value: eth('5') });
+
+    await lendingProtocol.setMarketCaps(mockUSDC.address, usdc('12000'), usdc('3000'));
+
+    return { user, lendingProtocol, lens, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ user, lendingProtocol, lens, mockWETH, mockUSDC } = await loadFixture(deployFixture));
+  });
+
+  describe('supply cap', function () {
+    it('should accept deposits up to the cap and reject the rest', async function () {
+      await expect(
+        lendingProtocol.deposit(mockUSDC.address, usdc('2000.000001')),
+      ).to.be.revertedWith('Supply cap exceeded');
+
+      await lendingProtocol.deposit(mockUSDC.address, usdc('2000'));
+      expect(await lendingProtocol.totalDeposits(mockUSDC.address)).to.equal(usdc('12000'));
+    });
+
+    it('should apply to ETH deposits in the WETH market', async function () {
+      await lendingProtocol.setMarketCaps(mockWETH.address, eth('6'), 0);
+
+      await expect(
+        lendingProtocol.connect(user).deposit(mockWETH.address, eth('2'), { value: eth('2') }),
+      ).to.be.revertedWith('Supply cap exceeded');
+      await lendingProtocol.connect(user).deposit(mockWETH.address, eth('1'), { value: eth('1') });
+    });
+
+    it('should not stop withdrawals from a market over its cap', async function () {
+      await lendingProtocol.setMarketCaps(mockUSDC.address, usdc('5000'), 0);
+
+      await lendingProtocol.withdraw(mockUSDC.address, usdc('1000'));
+      await expect(lendingProtocol.deposit(mockUSDC.address, usdc('1'))).to.be.revertedWith(
+        'Supply cap exceeded',
+      );
+    });
+  });
+
+  describe('borrow cap', function () {
+    it('should count variable and stable debt against the cap', async function () {
+      await lendingProtocol.connect(user).borrow(mockUSDC.address, usdc('2000'));
+      await lendingProtocol.connect(user).borrowStable(mockUSDC.address, usdc('900'));
+
+      await expect(
+        lendingProtocol.connect(user).borrow(mockUSDC.address, usdc('200')),
+      ).to.be.revertedWith('Borrow cap exceeded');
+      await expect(
+        lendingProtocol.connect(user).borrowStable(mockUSDC.address, usdc('200')),
+      ).to.be.revertedWith('Borrow cap exceeded');
+
+      await lendingProtocol.connect(user).borrow(mockUSDC.address, usdc('99'));
+    });
+  });
+
+  describe('headroom', function () {
+    it('should report the room left under both caps', async function () {
+      await lendingProtocol.connect(user).borrow(mockUSDC.address, usdc('1000'));
+      await lendingProtocol.connect(user).borrowStable(mockUSDC.address, usdc('500'));
+
+      const [supplyHeadroom, borrowHeadroom] = await lens.getCapHeadroom(mockUSDC.address);
+      expect(supplyHeadroom).to.be.closeTo(usdc('2000'), usdc('0.01'));
+      expect(borrowHeadroom).to.be.closeTo(usdc('1500'), usdc('0.01'));
+    });
+
+    it('should report max uint for an uncapped market', async function () {
+      const [supplyHeadroom, borrowHeadroom] = await lens.getCapHeadroom(mockWETH.address);
+      expect(supplyHeadroom).to.equal(ethers.constants.MaxUint256);
+      expect(borrowHeadroom).to.equal(ethers.constants.MaxUint256);
+    });
+
+    it('should report zero once a lowered cap is already exceeded', async function () {
+      await lendingProtocol.setMarketCaps(mockUSDC.address, usdc('5000'), usdc('3000'));
+
+      const [supplyHeadroom] = await lens.getCapHeadroom(mockUSDC.address);
+      expect(supplyHeadroom).to.equal(0);
+    });
+  });
+
+  describe('configuration', function () {
+    it('should only let the admin set caps on listed markets', async function () {
+      await expect(lendingProtocol.connect(user).setMarketCaps(mockUSDC.address, 0, 0)).to.be
+        .reverted;
+      await expect(
+        lendingProtocol.setMarketCaps(ethers.Wallet.createRandom().address, 1, 1),
+      ).to.be.revertedWith('Token not listed');
+
+      await expect(lendingProtocol.setMarketCaps(mockUSDC.address, 0, 0))
+        .to.emit(lendingProtocol, 'MarketCapsUpdated')
+        .withArgs(mockUSDC.address, 0, 0);
+      await lendingProtocol.deposit(mockUSDC.address, usdc('50000'));
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('Market registry', function () {
+  let borrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let priceOracle: MockPriceOracle;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+  let mockUSDT: MockUSDC;
+
+  async function deployFixture() {
+    const [, borrower] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    // A second 6-decimal stablecoin, not listed until a test enables it
+    const mockUSDT = (await (await ethers.getContractFactory('MockUSDC')).deploy()) as MockUSDC;
+    await priceOracle.updatePrice(mockUSDT.address, eth('1'));
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await mockUSDC.transfer(borrower.address, usdc('10000'));
+    await mockUSDC.connect(borrower).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await mockUSDT.transfer(borrower.address, usdc('10000'));
+    await mockUSDT.connect(borrower).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+
+    return { borrower, lendingProtocol, priceOracle, mockWETH, mockUSDC, mockUSDT };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, lendingProtocol, priceOracle, mockWETH, mockUSDC, mockUSDT } =
+      await loadFixture(deployFixture));
+  });
+
+  describe('listing', function () {
+    it('should list a market the first time it is enabled', async function () {
+      await expect(lendingProtocol.setTokenConfig(mockUSDT.address, true, 8000, 8500, 500, 500))
+        .to.emit(lendingProtocol, 'TokenListed')
+        .withArgs(mockUSDT.address, 6);
+
+      expect(await lendingProtocol.isListed(mockUSDT.address)).to.equal(true);
+      expect(await lendingProtocol.tokenDecimals(mockUSDT.address)).to.equal(6);
+      expect(await lendingProtocol.getSupportedTokens()).to.deep.equal([
+        mockWETH.address,
+        mockUSDC.address,
+        mockUSDT.address,
+      ]);
+    });
+
+    it('should not list a market twice', async function () {
+      await expect(
+        lendingProtocol.setTokenConfig(mockUSDC.address, true, 7000, 8000, 500, 600),
+      ).not.to.emit(lendingProtocol, 'TokenListed');
+
+      expect(await lendingProtocol.getSupportedTokens()).to.have.lengthOf(2);
+    });
+
+    it('should not list a market configured as disabled', async function () {
+      await lendingProtocol.setTokenConfig(mockUSDT.address, false, 8000, 8500, 500, 500);
+
+      expect(await lendingProtocol.isListed(mockUSDT.address)).to.equal(false);
+      expect(await lendingProtocol.getSupportedTokens()).to.have.lengthOf(2);
+    });
+
+    it('should keep a disabled market listed so its positions still count', async function () {
+      await lendingProtocol.connect(borrower).deposit(mockUSDC.address, usdc('1000'));
+      await lendingProtocol.setTokenConfig(mockUSDC.address, false, 8000, 8500, 500, 500);
+
+      expect(await lendingProtocol.getSupportedTokens()).to.include(mockUSDC.address);
+      expect(
+        (await lendingProtocol.getAccountLiquidity(borrower.address)).collateralValue,
+      ).to.equal(eth('1000'));
+      await expect(
+        lendingProtocol.connect(borrower).deposit(mockUSDC.address, usdc('1')),
+      ).to.be.revertedWith('Token not supported');
+    });
+  });
+
+  describe('delistToken', function () {
+    beforeEach(async function () {
+      await lendingProtocol.setTokenConfig(mockUSDT.address, true, 8000, 8500, 500, 500);
+    });
+
+    it('should remove an empty, disabled market', async function () {
+      await lendingProtocol.setTokenConfig(mockUSDT.address, false, 8000, 8500, 500, 500);
+
+      await expect(lendingProtocol.delistToken(mockUSDT.address))
+        .to.emit(lendingProtocol, 'TokenDelisted')
+        .withArgs(mockUSDT.address);
+
+      expect(await lendingProtocol.isListed(mockUSDT.address)).to.equal(false);
+      expect(await lendingProtocol.getSupportedTokens()).to.deep.equal([
+        mockWETH.address,
+        mockUSDC.address,
+      ]);
+    });
+
+    it('should list the market again when it is re-enabled', async function () {
+      await lendingProtocol.setTokenConfig(mockUSDT.address, false, 8000, 8500, 500, 500);
+      await lendingProtocol.delistToken(mockUSDT.address);
+
+      await expect(
+        lendingProtocol.setTokenConfig(mockUSDT.address, true, 8000, 8500, 500, 500),
+      ).to.emit(lendingProtocol, 'TokenListed');
+      expect(await lendingProtocol.getSupportedTokens()).to.include(mockUSDT.address);
+    });
+
+    it('should refuse a market that is still enabled', async function () {
+      await expect(lendingProtocol.delistToken(mockUSDT.address)).to.be.revertedWith(
+        'Disable token first',
+      );
+    });
+
+    it('should refuse a market with deposits left', async function () {
+      await lendingProtocol.connect(borrower).deposit(mockUSDT.address, usdc('100'));
+      await lendingProtocol.setTokenConfig(mockUSDT.address, false, 8000, 8500, 500, 500);
+
+      await expect(lendingProtocol.delistToken(mockUSDT.address)).to.be.revertedWith(
+        'Market not empty',
+      );
+    });
+
+    it('should refuse a market with debt left', async function () {
+      await lendingProtocol.deposit(mockUSDC.address, usdc('1000'));
+      await lendingProtocol
+        .connect(borrower)
+        .deposit(mockWETH.address, eth('1'), { value: eth('1') });
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('500'));
+      // The supplier takes out everything that is not lent out
+      await lendingProtocol.withdraw(mockUSDC.address, usdc('500'));
+      await lendingProtocol.setTokenConfig(mockUSDC.address, false, 8000, 8500, 500, 500);
+
+      await expect(lendingProtocol.delistToken(mockUSDC.address)).to.be.revertedWith(
+        'Market not empty',
+      );
+    });
+
+    it('should refuse a market that was never listed', async function () {
+      await expect(lendingProtocol.delistToken(borrower.address)).to.be.revertedWith(
+        'Token not listed',
+      );
+    });
+
+    it('should only let the admin delist', async function () {
+      await lendingProtocol.setTokenConfig(mockUSDT.address, false, 8000, 8500, 500, 500);
+
+      await expect(lendingProtocol.connect(borrower).delistToken(mockUSDT.address)).to.be.reverted;
+    });
+  });
+
+  describe('health factor across markets', function () {
+    beforeEach(async function () {
+      await lendingProtocol.setTokenConfig(mockUSDT.address, true, 8000, 8500, 500, 500);
+      await lendingProtocol.deposit(mockUSDC.address, usdc('10000'));
+
+      // 2000 of WETH, 1000 of USDC and 1000 of USDT
+      await lendingProtocol
+        .connect(borrower)
+        .deposit(mockWETH.address, eth('1'), { value: eth('1') });
+      await lendingProtocol.connect(borrower).deposit(mockUSDC.address, usdc('1000'));
+      await lendingProtocol.connect(borrower).deposit(mockUSDT.address, usdc('1000'));
+    });
+
+    it('should sum collateral from every market, weighted by each market', async function () {
+      const { collateralValue, borrowCapacity, liquidationLimit } =
+        await lendingProtocol.getAccountLiquidity(borrower.address);
+
+      expect(collateralValue).to.equal(eth('4000'));
+      // 1500 + 800 + 800 and 1600 + 850 + 850
+      expect(borrowCapacity).to.equal(eth('3100'));
+      expect(liquidationLimit).to.equal(eth('3300'));
+    });
+
+    it('should allow a borrow that no single market could back', async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('3000'));
+
+      // 3100 / 3000
+      expect(await lendingProtocol.getHealthFactor(borrower.address)).to.be.closeTo(10333, 1);
+      await expect(
+        lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('101')),
+      ).to.be.revertedWith('Insufficient collateral');
+    });
+
+    it('should sum debt from every market', async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1000'));
+      await lendingProtocol.connect(borrower).borrow(mockWETH.address, eth('0.5'));
+
+      const { totalDebt } = await lendingProtocol.getAccountLiquidity(borrower.address);
+      expect(totalDebt).to.be.closeTo(eth('2000'), eth('0.01'));
+    });
+
+    it('should let a price drop in one market make the whole account liquidatable', async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('3000'));
+      // WETH's liquidation limit falls to 1200, 2900 in total against 3000 of debt
+      await priceOracle.updatePrice(mockWETH.address, eth('1500'));
+
+      expect(await lendingProtocol.getLiquidationHealthFactor(borrower.address)).to.be.lt(10000);
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockUSDT.address,
+          usdc('500'),
+        ),
+      ).to.emit(lendingProtocol, 'CollateralSeized');
+    });
+  });
+});
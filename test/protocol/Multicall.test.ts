@@ -0,0 +1,129 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+describe('Multicall batches', function () {
+  let borrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, borrower] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+
+    // The borrower holds WETH tokens, approved to the protocol
+    await mockWETH.connect(borrower).deposit({ value: ethers.utils.parseEther('2') });
+    await mockWETH.connect(borrower).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+
+    return { borrower, lendingProtocol, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, lendingProtocol, mockWETH, mockUSDC } = await loadFixture(deployFixture));
+  });
+
+  it('should deposit WETH tokens and borrow against them in one batch', async function () {
+    await lendingProtocol
+      .connect(borrower)
+      .multicall([
+        lendingProtocol.interface.encodeFunctionData('deposit', [
+          mockWETH.address,
+          ethers.utils.parseEther('1'),
+        ]),
+        lendingProtocol.interface.encodeFunctionData('borrow', [mockUSDC.address, usdc('1000')]),
+      ]);
+
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+    ).to.equal(ethers.utils.parseEther('1'));
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+    ).to.equal(usdc('1000'));
+    expect(await mockWETH.balanceOf(borrower.address)).to.equal(ethers.utils.parseEther('1'));
+    expect(await mockUSDC.balanceOf(borrower.address)).to.equal(usdc('1000'));
+  });
+
+  it('should revert the whole batch when the borrow is over the limit', async function () {
+    await expect(
+      lendingProtocol
+        .connect(borrower)
+        .multicall([
+          lendingProtocol.interface.encodeFunctionData('deposit', [
+            mockWETH.address,
+            ethers.utils.parseEther('1'),
+          ]),
+          lendingProtocol.interface.encodeFunctionData('borrow', [mockUSDC.address, usdc('1600')]),
+        ]),
+    ).to.be.reverted;
+
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+    ).to.equal(0);
+    expect(await mockWETH.balanceOf(borrower.address)).to.equal(ethers.utils.parseEther('2'));
+  });
+
+  it('should repay and withdraw in one batch', async function () {
+    await lendingProtocol
+      .connect(borrower)
+      .multicall([
+        lendingProtocol.interface.encodeFunctionData('deposit', [
+          mockWETH.address,
+          ethers.utils.parseEther('1'),
+        ]),
+        lendingProtocol.interface.encodeFunctionData('borrow', [mockUSDC.address, usdc('1000')]),
+      ]);
+    await mockUSDC.transfer(borrower.address, usdc('10'));
+    await mockUSDC.connect(borrower).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+
+    await lendingProtocol
+      .connect(borrower)
+      .multicall([
+        lendingProtocol.interface.encodeFunctionData('repay', [
+          mockUSDC.address,
+          ethers.constants.MaxUint256,
+        ]),
+        lendingProtocol.interface.encodeFunctionData('withdraw', [
+          mockWETH.address,
+          ethers.constants.MaxUint256,
+        ]),
+      ]);
+
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+    ).to.equal(0);
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+    ).to.equal(0);
+  });
+
+  it('should still take WETH deposits as ETH outside a batch', async function () {
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, ethers.utils.parseEther('1'), {
+        value: ethers.utils.parseEther('1'),
+      });
+    await expect(
+      lendingProtocol.connect(borrower).deposit(mockWETH.address, ethers.utils.parseEther('1'), {
+        value: ethers.utils.parseEther('0.5'),
+      }),
+    ).to.be.revertedWith('Invalid ETH amount');
+
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockWETH.address, borrower.address),
+    ).to.equal(ethers.utils.parseEther('1'));
+    expect(await mockWETH.balanceOf(borrower.address)).to.equal(ethers.utils.parseEther('2'));
+  });
+});
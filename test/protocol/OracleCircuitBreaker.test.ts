@@ -0,0 +1,232 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { PriceOracleSentinel } from '../../typechain/contracts/core/PriceOracleSentinel';
+import { MockPriceOracle } from '../../typechain/contracts/mocks/MockPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const ONE_HOUR = 3600;
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send('evm_increaseTime', [seconds]);
+  await ethers.provider.send('evm_mine', []);
+}
+
+describe('Oracle circuit breaker', function () {
+  let borrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let priceSentinel: PriceOracleSentinel;
+  let priceOracle: MockPriceOracle;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [deployer, borrower] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+    const priceSentinel = (await (
+      await ethers.getContractFactory('PriceOracleSentinel')
+    ).deploy(lendingProtocol.address)) as PriceOracleSentinel;
+
+    // 1 hour max age and a 10% max jump on both markets
+    await priceSentinel.setPriceGuard(mockWETH.address, ONE_HOUR, 1000);
+    await priceSentinel.setPriceGuard(mockUSDC.address, ONE_HOUR, 1000);
+    await priceSentinel.checkReferencePrice(mockWETH.address);
+    await priceSentinel.checkReferencePrice(mockUSDC.address);
+    await lendingProtocol.setPriceSentinel(priceSentinel.address);
+
+    // USDC liquidity from the deployer, 1 WETH of collateral from the borrower
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, ethers.utils.parseEther('1'), {
+        value: ethers.utils.parseEther('1'),
+      });
+
+    return { deployer, borrower, lendingProtocol, priceSentinel, priceOracle, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, lendingProtocol, priceSentinel, priceOracle, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  describe('Stale prices', function () {
+    it("should block borrows once a position's price is older than the max age", async function () {
+      await increaseTime(ONE_HOUR + 1);
+
+      expect(await priceSentinel.isPriceFresh(mockWETH.address)).to.equal(false);
+      await expect(
+        lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('100')),
+      ).to.be.revertedWith('Stale price');
+    });
+
+    it('should block withdrawals while a price is stale', async function () {
+      await increaseTime(ONE_HOUR + 1);
+
+      await expect(
+        lendingProtocol
+          .connect(borrower)
+          .withdraw(mockWETH.address, ethers.utils.parseEther('0.1')),
+      ).to.be.revertedWith('Stale price');
+    });
+
+    it('should still accept deposits and repayments while a price is stale', async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('100'));
+      await increaseTime(ONE_HOUR + 1);
+
+      await lendingProtocol
+        .connect(borrower)
+        .deposit(mockWETH.address, ethers.utils.parseEther('0.5'), {
+          value: ethers.utils.parseEther('0.5'),
+        });
+      await mockUSDC
+        .connect(borrower)
+        .approve(lendingProtocol.address, ethers.constants.MaxUint256);
+      await expect(lendingProtocol.connect(borrower).repay(mockUSDC.address, usdc('50'))).to.emit(
+        lendingProtocol,
+        'Repay',
+      );
+    });
+
+    it('should allow borrows again after the oracle is updated', async function () {
+      await increaseTime(ONE_HOUR + 1);
+      await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther('2000'));
+      await priceOracle.updatePrice(mockUSDC.address, ethers.utils.parseEther('1'));
+
+      await expect(lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('100'))).to.emit(
+        lendingProtocol,
+        'Borrow',
+      );
+    });
+
+    it('should ignore stale markets the user has no position in', async function () {
+      await increaseTime(ONE_HOUR + 1);
+      await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther('2000'));
+
+      // USDC is stale but the borrower only holds WETH
+      await expect(
+        lendingProtocol
+          .connect(borrower)
+          .withdraw(mockWETH.address, ethers.utils.parseEther('0.1')),
+      ).to.emit(lendingProtocol, 'Withdraw');
+    });
+
+    it('should not check prices when no sentinel is set', async function () {
+      await lendingProtocol.setPriceSentinel(ethers.constants.AddressZero);
+      await increaseTime(ONE_HOUR + 1);
+
+      await expect(lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('100'))).to.emit(
+        lendingProtocol,
+        'Borrow',
+      );
+    });
+  });
+
+  describe('Price jumps', function () {
+    beforeEach(async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1400'));
+      await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    });
+
+    it('should report a jump beyond the max deviation', async function () {
+      await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther('1700'));
+
+      await expect(priceSentinel.checkReferencePrice(mockWETH.address))
+        .to.emit(priceSentinel, 'PriceDeviationDetected')
+        .withArgs(
+          mockWETH.address,
+          ethers.utils.parseEther('2000'),
+          ethers.utils.parseEther('1700'),
+        );
+
+      const status = await priceSentinel.getPriceStatus(mockWETH.address);
+      expect(status.liquidationsHalted).to.equal(true);
+      expect(status.deviation).to.equal(1500);
+      expect((await priceSentinel.priceGuards(mockWETH.address)).referencePrice).to.equal(
+        ethers.utils.parseEther('2000'),
+      );
+    });
+
+    it('should halt liquidations after an implausible jump', async function () {
+      // 15% drop makes the position liquidatable, but exceeds the 10% limit
+      await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther('1700'));
+      expect(await lendingProtocol.getLiquidationHealthFactor(borrower.address)).to.be.lt(10000);
+
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('500'),
+        ),
+      ).to.be.revertedWith('Price deviation too high');
+    });
+
+    it('should resume liquidations once the guardian accepts the new price', async function () {
+      await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther('1700'));
+
+      await expect(priceSentinel.connect(borrower).resetReferencePrice(mockWETH.address)).to.be
+        .reverted;
+      await expect(priceSentinel.resetReferencePrice(mockWETH.address))
+        .to.emit(priceSentinel, 'ReferencePriceUpdated')
+        .withArgs(mockWETH.address, ethers.utils.parseEther('1700'));
+
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('500'),
+        ),
+      ).to.emit(lendingProtocol, 'Liquidate');
+    });
+
+    it('should follow moves within the max deviation', async function () {
+      await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther('1900'));
+      await priceSentinel.checkReferencePrice(mockWETH.address);
+      await priceOracle.updatePrice(mockWETH.address, ethers.utils.parseEther('1720'));
+
+      // Each step is under 10% even though the total drop is not
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('500'),
+        ),
+      ).to.emit(lendingProtocol, 'Liquidate');
+      expect((await priceSentinel.priceGuards(mockWETH.address)).referencePrice).to.equal(
+        ethers.utils.parseEther('1720'),
+      );
+    });
+  });
+
+  describe('Configuration', function () {
+    it('should only let the admin configure price guards', async function () {
+      await expect(priceSentinel.connect(borrower).setPriceGuard(mockWETH.address, ONE_HOUR, 1000))
+        .to.be.reverted;
+      await expect(lendingProtocol.connect(borrower).setPriceSentinel(ethers.constants.AddressZero))
+        .to.be.reverted;
+    });
+
+    it('should reject a max deviation above 100%', async function () {
+      await expect(
+        priceSentinel.setPriceGuard(mockWETH.address, ONE_HOUR, 10001),
+      ).to.be.revertedWith('Invalid price deviation');
+    });
+
+    it('should emit PriceGuardUpdated', async function () {
+      await expect(priceSentinel.setPriceGuard(mockWETH.address, 600, 500))
+        .to.emit(priceSentinel, 'PriceGuardUpdated')
+        .withArgs(mockWETH.address, 600, 500);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { BigNumber } from 'ethers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('Permit deposits and repayments', function () {
+  let user: SignerWithAddress;
+  let other: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, user, other] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await mockUSDC.transfer(user.address, usdc('1000'));
+
+    return { user, other, lendingProtocol, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ user, other, lendingProtocol, mockWETH, mockUSDC } = await loadFixture(deployFixture));
+  });
+
+  async function signPermit(owner: SignerWithAddress, value: BigNumber, deadline?: number) {
+    const permitDeadline = deadline ?? (await time.latest()) + 3600;
+    const signature = await owner._signTypedData(
+      {
+        name: await mockUSDC.name(),
+        version: '1',
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: mockUSDC.address,
+      },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      {
+        owner: owner.address,
+        spender: lendingProtocol.address,
+        value,
+        nonce: await mockUSDC.nonces(owner.address),
+        deadline: permitDeadline,
+      },
+    );
+    const { v, r, s } = ethers.utils.splitSignature(signature);
+    return { deadline: permitDeadline, v, r, s };
+  }
+
+  describe('depositWithPermit', function () {
+    it('should deposit without a prior approve', async function () {
+      const amount = usdc('500');
+      const { deadline, v, r, s } = await signPermit(user, amount);
+
+      await lendingProtocol
+        .connect(user)
+        .depositWithPermit(mockUSDC.address, amount, deadline, v, r, s);
+
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, user.address),
+      ).to.equal(amount);
+      expect(await mockUSDC.allowance(user.address, lendingProtocol.address)).to.equal(0);
+      expect(await mockUSDC.nonces(user.address)).to.equal(1);
+    });
+
+    it('should still deposit when the permit was front-run', async function () {
+      const amount = usdc('500');
+      const { deadline, v, r, s } = await signPermit(user, amount);
+      await mockUSDC
+        .connect(other)
+        .permit(user.address, lendingProtocol.address, amount, deadline, v, r, s);
+
+      await lendingProtocol
+        .connect(user)
+        .depositWithPermit(mockUSDC.address, amount, deadline, v, r, s);
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, user.address),
+      ).to.equal(amount);
+    });
+
+    it('should revert on an expired permit without an allowance', async function () {
+      const amount = usdc('500');
+      const { deadline, v, r, s } = await signPermit(user, amount, (await time.latest()) - 1);
+
+      await expect(
+        lendingProtocol
+          .connect(user)
+          .depositWithPermit(mockUSDC.address, amount, deadline, v, r, s),
+      ).to.be.revertedWith('ERC20: insufficient allowance');
+    });
+
+    it("should not use another account's permit", async function () {
+      const amount = usdc('500');
+      const { deadline, v, r, s } = await signPermit(user, amount);
+
+      // The permit is checked against msg.sender, so it does not verify for other
+      await expect(
+        lendingProtocol
+          .connect(other)
+          .depositWithPermit(mockUSDC.address, amount, deadline, v, r, s),
+      ).to.be.revertedWith('ERC20: insufficient allowance');
+      expect(await mockUSDC.balanceOf(user.address)).to.equal(usdc('1000'));
+    });
+  });
+
+  describe('repayWithPermit', function () {
+    it('should repay debt without a prior approve', async function () {
+      await lendingProtocol.connect(user).deposit(mockWETH.address, eth('1'), { value: eth('1') });
+      await lendingProtocol.connect(user).borrow(mockUSDC.address, usdc('300'));
+
+      const amount = usdc('100');
+      const { deadline, v, r, s } = await signPermit(user, amount);
+      await lendingProtocol
+        .connect(user)
+        .repayWithPermit(mockUSDC.address, amount, deadline, v, r, s);
+
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, user.address),
+      ).to.be.closeTo(usdc('200'), usdc('0.01'));
+      expect(await mockUSDC.allowance(user.address, lendingProtocol.address)).to.equal(0);
+    });
+  });
+});
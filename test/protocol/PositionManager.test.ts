@@ -0,0 +1,243 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { PositionManager } from '../../typechain/contracts/core/PositionManager';
+import { PositionAccount } from '../../typechain/contracts/core/PositionAccount';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('PositionManager', function () {
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let positionManager: PositionManager;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, alice, bob] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await mockUSDC.transfer(alice.address, usdc('1000'));
+    await mockUSDC.transfer(bob.address, usdc('1000'));
+
+    const positionManager = (await (
+      await ethers.getContractFactory('PositionManager')
+    ).deploy(lendingProtocol.address)) as PositionManager;
+    await lendingProtocol.grantRole(
+      await lendingProtocol.POSITION_MANAGER_ROLE(),
+      positionManager.address,
+    );
+
+    // Alice has 1 ETH deposited and 500 USDC borrowed
+    await lendingProtocol.connect(alice).deposit(mockWETH.address, eth('1'), { value: eth('1') });
+    await lendingProtocol.connect(alice).borrow(mockUSDC.address, usdc('500'));
+
+    return { alice, bob, lendingProtocol, positionManager, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ alice, bob, lendingProtocol, positionManager, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  async function wrap(owner: SignerWithAddress) {
+    await positionManager.connect(owner).wrap();
+    const tokenIds = await positionManager.tokensOfOwner(owner.address);
+    const tokenId = tokenIds[tokenIds.length - 1];
+    return { tokenId, account: await positionManager.positionAccount(tokenId) };
+  }
+
+  describe('mint and wrap', function () {
+    it('should mint an empty position with its own account', async function () {
+      await expect(positionManager.connect(bob).mint()).to.emit(positionManager, 'PositionMinted');
+
+      const account = await positionManager.positionAccount(1);
+      expect(await positionManager.ownerOf(1)).to.equal(bob.address);
+      expect(await positionManager.accountToken(account)).to.equal(1);
+      expect(await lendingProtocol.getCurrentDepositAmount(mockWETH.address, account)).to.equal(0);
+    });
+
+    it("should move the caller's whole position into the NFT's account", async function () {
+      const { tokenId, account } = await wrap(alice);
+
+      expect(tokenId).to.equal(1);
+      expect(await positionManager.ownerOf(tokenId)).to.equal(alice.address);
+      expect(await lendingProtocol.getCurrentDepositAmount(mockWETH.address, account)).to.equal(
+        eth('1'),
+      );
+      expect(await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, account)).to.be.closeTo(
+        usdc('500'),
+        usdc('0.01'),
+      );
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockWETH.address, alice.address),
+      ).to.equal(0);
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, alice.address),
+      ).to.equal(0);
+    });
+
+    it('should not let position accounts be reinitialized or called directly', async function () {
+      const { account } = await wrap(alice);
+      const positionAccount = (await ethers.getContractAt(
+        'PositionAccount',
+        account,
+      )) as PositionAccount;
+
+      expect(await positionAccount.manager()).to.equal(positionManager.address);
+      await expect(
+        positionAccount.connect(alice).initialize(alice.address, lendingProtocol.address),
+      ).to.be.revertedWith('Initializable: contract is already initialized');
+      await expect(
+        positionAccount.connect(alice).withdraw(mockWETH.address, eth('1'), alice.address),
+      ).to.be.revertedWith('Only position manager');
+    });
+  });
+
+  describe('position actions', function () {
+    it('should deposit, withdraw, borrow and repay on the position', async function () {
+      const { tokenId, account } = await wrap(alice);
+
+      await positionManager
+        .connect(alice)
+        .deposit(tokenId, mockWETH.address, eth('1'), { value: eth('1') });
+      expect(await lendingProtocol.getCurrentDepositAmount(mockWETH.address, account)).to.equal(
+        eth('2'),
+      );
+
+      const ethBefore = await alice.getBalance();
+      const receipt = await (
+        await positionManager.connect(alice).withdraw(tokenId, mockWETH.address, eth('0.5'))
+      ).wait();
+      const gas = receipt.gasUsed.mul(receipt.effectiveGasPrice);
+      expect((await alice.getBalance()).sub(ethBefore).add(gas)).to.equal(eth('0.5'));
+
+      await positionManager.connect(alice).borrow(tokenId, mockUSDC.address, usdc('100'));
+      expect(await mockUSDC.balanceOf(alice.address)).to.equal(usdc('1600'));
+
+      await mockUSDC.connect(alice).approve(positionManager.address, ethers.constants.MaxUint256);
+      await positionManager
+        .connect(alice)
+        .repay(tokenId, mockUSDC.address, ethers.constants.MaxUint256);
+      expect(await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, account)).to.equal(0);
+    });
+
+    it('should borrow WETH as tokens and take ETH repayments', async function () {
+      const { tokenId, account } = await wrap(alice);
+
+      await positionManager.connect(alice).borrow(tokenId, mockWETH.address, eth('0.1'));
+      expect(await mockWETH.balanceOf(alice.address)).to.equal(eth('0.1'));
+
+      await positionManager
+        .connect(alice)
+        .repay(tokenId, mockWETH.address, 0, { value: eth('0.04') });
+      expect(await lendingProtocol.getCurrentBorrowAmount(mockWETH.address, account)).to.be.closeTo(
+        eth('0.06'),
+        eth('0.0001'),
+      );
+    });
+
+    it('should pass back ETH sent above the debt', async function () {
+      const { tokenId, account } = await wrap(alice);
+      await positionManager.connect(alice).borrow(tokenId, mockWETH.address, eth('0.1'));
+
+      const ethBefore = await alice.getBalance();
+      const receipt = await (
+        await positionManager
+          .connect(alice)
+          .repay(tokenId, mockWETH.address, 0, { value: eth('0.5') })
+      ).wait();
+      const gas = receipt.gasUsed.mul(receipt.effectiveGasPrice);
+
+      expect(await lendingProtocol.getCurrentBorrowAmount(mockWETH.address, account)).to.equal(0);
+      expect(ethBefore.sub(gas).sub(await alice.getBalance())).to.be.closeTo(
+        eth('0.1'),
+        eth('0.0001'),
+      );
+      expect(await ethers.provider.getBalance(positionManager.address)).to.equal(0);
+    });
+  });
+
+  describe('ownership', function () {
+    it('should hand control of the position to the new holder on transfer', async function () {
+      const { tokenId } = await wrap(alice);
+      await positionManager.connect(alice).transferFrom(alice.address, bob.address, tokenId);
+
+      await expect(
+        positionManager.connect(alice).borrow(tokenId, mockUSDC.address, usdc('1')),
+      ).to.be.revertedWith('Not position owner');
+      await expect(
+        positionManager.connect(alice).withdraw(tokenId, mockWETH.address, eth('0.1')),
+      ).to.be.revertedWith('Not position owner');
+      await expect(positionManager.connect(alice).unwrap(tokenId)).to.be.revertedWith(
+        'Not position owner',
+      );
+
+      await positionManager.connect(bob).borrow(tokenId, mockUSDC.address, usdc('100'));
+      expect(await mockUSDC.balanceOf(bob.address)).to.equal(usdc('1100'));
+    });
+
+    it('should let an approved address act on the position', async function () {
+      const { tokenId, account } = await wrap(alice);
+
+      await expect(
+        positionManager.connect(bob).withdraw(tokenId, mockWETH.address, eth('0.1')),
+      ).to.be.revertedWith('Not position owner');
+
+      await positionManager.connect(alice).approve(bob.address, tokenId);
+      await positionManager.connect(bob).withdraw(tokenId, mockWETH.address, eth('0.1'));
+      expect(await lendingProtocol.getCurrentDepositAmount(mockWETH.address, account)).to.equal(
+        eth('0.9'),
+      );
+
+      await positionManager.connect(alice).approve(ethers.constants.AddressZero, tokenId);
+      await positionManager.connect(alice).setApprovalForAll(bob.address, true);
+      await positionManager.connect(bob).withdraw(tokenId, mockWETH.address, eth('0.1'));
+    });
+
+    it('should not let the protocol move positions for anyone else', async function () {
+      await expect(lendingProtocol.connect(alice).movePosition(alice.address, bob.address)).to.be
+        .reverted;
+    });
+  });
+
+  describe('unwrap', function () {
+    it('should burn the NFT and move the position to its holder', async function () {
+      const { tokenId, account } = await wrap(alice);
+      await positionManager.connect(alice).transferFrom(alice.address, bob.address, tokenId);
+
+      await expect(positionManager.connect(bob).unwrap(tokenId))
+        .to.emit(positionManager, 'PositionUnwrapped')
+        .withArgs(tokenId, bob.address);
+
+      await expect(positionManager.ownerOf(tokenId)).to.be.revertedWith('ERC721: invalid token ID');
+      expect(await lendingProtocol.getCurrentDepositAmount(mockWETH.address, bob.address)).to.equal(
+        eth('1'),
+      );
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, bob.address),
+      ).to.be.closeTo(usdc('500'), usdc('0.01'));
+      expect(await lendingProtocol.getCurrentDepositAmount(mockWETH.address, account)).to.equal(0);
+    });
+
+    it('should revert when the holder already has a position', async function () {
+      const { tokenId } = await wrap(alice);
+      await lendingProtocol.connect(alice).deposit(mockWETH.address, eth('1'), { value: eth('1') });
+
+      await expect(positionManager.connect(alice).unwrap(tokenId)).to.be.revertedWith(
+        'Receiver has a position',
+      );
+    });
+  });
+});
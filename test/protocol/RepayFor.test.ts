@@ -0,0 +1,125 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+describe('repayFor', function () {
+  let borrower: SignerWithAddress;
+  let payer: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, borrower, payer] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await lendingProtocol.deposit(mockWETH.address, eth('10'), { value: eth('10') });
+
+    // The borrower owes 1000 USDC and 0.2 WETH, the payer holds USDC approved to the protocol
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, eth('2'), { value: eth('2') });
+    await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1000'));
+    await lendingProtocol.connect(borrower).borrow(mockWETH.address, eth('0.2'));
+    await mockUSDC.transfer(payer.address, usdc('5000'));
+    await mockUSDC.connect(payer).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+
+    return { borrower, payer, lendingProtocol, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, payer, lendingProtocol, mockWETH, mockUSDC } = await loadFixture(deployFixture));
+  });
+
+  it("should reduce the borrower's debt with the payer's tokens", async function () {
+    await expect(
+      lendingProtocol.connect(payer).repayFor(borrower.address, mockUSDC.address, usdc('400')),
+    )
+      .to.emit(lendingProtocol, 'RepayFor')
+      .withArgs(mockUSDC.address, payer.address, borrower.address, usdc('400'));
+
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+    ).to.be.closeTo(usdc('600'), usdc('0.01'));
+    expect(await mockUSDC.balanceOf(payer.address)).to.equal(usdc('4600'));
+    expect(await mockUSDC.balanceOf(borrower.address)).to.equal(usdc('1000'));
+  });
+
+  it('should repay the whole debt with max uint', async function () {
+    await lendingProtocol
+      .connect(payer)
+      .repayFor(borrower.address, mockUSDC.address, ethers.constants.MaxUint256);
+
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+    ).to.equal(0);
+    expect(await mockUSDC.balanceOf(payer.address)).to.be.closeTo(usdc('4000'), usdc('0.01'));
+  });
+
+  it('should repay WETH debt with ETH', async function () {
+    await lendingProtocol
+      .connect(payer)
+      .repayFor(borrower.address, mockWETH.address, eth('0.1'), { value: eth('0.1') });
+
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockWETH.address, borrower.address),
+    ).to.be.closeTo(eth('0.1'), eth('0.0001'));
+  });
+
+  it('should only pull the debt when more is offered', async function () {
+    await lendingProtocol.connect(payer).repayFor(borrower.address, mockUSDC.address, usdc('2000'));
+
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+    ).to.equal(0);
+    expect(await mockUSDC.balanceOf(payer.address)).to.be.closeTo(usdc('4000'), usdc('0.01'));
+  });
+
+  it('should refund ETH sent above the debt', async function () {
+    const balanceBefore = await payer.getBalance();
+
+    const tx = await lendingProtocol
+      .connect(payer)
+      .repayFor(borrower.address, mockWETH.address, eth('1'), { value: eth('1') });
+    const receipt = await tx.wait();
+    const gasCost = receipt.gasUsed.mul(receipt.effectiveGasPrice);
+
+    expect(
+      await lendingProtocol.getCurrentBorrowAmount(mockWETH.address, borrower.address),
+    ).to.equal(0);
+    // Only the 0.2 WETH of debt and a few seconds of interest are kept
+    expect(balanceBefore.sub(gasCost).sub(await payer.getBalance())).to.be.closeTo(
+      eth('0.2'),
+      eth('0.0001'),
+    );
+  });
+
+  it('should reject the zero address as borrower', async function () {
+    await expect(
+      lendingProtocol
+        .connect(payer)
+        .repayFor(ethers.constants.AddressZero, mockUSDC.address, usdc('1')),
+    ).to.be.revertedWith('Invalid borrower address');
+  });
+
+  it("should not touch the payer's own position", async function () {
+    await lendingProtocol.connect(payer).deposit(mockUSDC.address, usdc('1000'));
+
+    await lendingProtocol.connect(payer).repayFor(borrower.address, mockUSDC.address, usdc('100'));
+    expect(
+      await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, payer.address),
+    ).to.be.closeTo(usdc('1000'), usdc('0.01'));
+  });
+});
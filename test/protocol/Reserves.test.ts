@@ -0,0 +1,163 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+const ONE_YEAR = 365 * 86400;
+
+describe('Protocol reserves', function () {
+  let supplier: SignerWithAddress;
+  let borrower: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, supplier, borrower, treasury] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+    await lendingProtocol.setReserveFactor(mockUSDC.address, 2000);
+
+    // Half of the supplier's 10000 USDC is borrowed at 5% APR
+    await mockUSDC.transfer(supplier.address, usdc('10000'));
+    await mockUSDC.connect(supplier).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.connect(supplier).deposit(mockUSDC.address, usdc('10000'));
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, eth('10'), { value: eth('10') });
+    await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('5000'));
+
+    return { supplier, borrower, treasury, lendingProtocol, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ supplier, borrower, treasury, lendingProtocol, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  // Books the market's pending interest without changing any position
+  async function accrue() {
+    return lendingProtocol.setReserveFactor(
+      mockUSDC.address,
+      (await lendingProtocol.tokenConfigs(mockUSDC.address)).reserveFactor,
+    );
+  }
+
+  describe('reserve factor', function () {
+    it("should divert the reserve factor's share of interest into reserves", async function () {
+      await time.increase(ONE_YEAR);
+      await expect(accrue()).to.emit(lendingProtocol, 'ReservesAccrued');
+
+      const interest = (
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address)
+      ).sub(usdc('5000'));
+      const reserves = await lendingProtocol.totalReserves(mockUSDC.address);
+      const supplierYield = (
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, supplier.address)
+      ).sub(usdc('10000'));
+
+      // About 256 USDC of interest: 20% to reserves, the rest to the supplier
+      expect(reserves).to.be.closeTo(interest.mul(2000).div(10000), usdc('0.5'));
+      expect(supplierYield).to.be.closeTo(interest.sub(reserves), usdc('0.5'));
+    });
+
+    it('should accrue at the old split before changing it', async function () {
+      await time.increase(ONE_YEAR);
+
+      await expect(lendingProtocol.setReserveFactor(mockUSDC.address, 5000))
+        .to.emit(lendingProtocol, 'ReservesAccrued')
+        .and.to.emit(lendingProtocol, 'ReserveFactorUpdated')
+        .withArgs(mockUSDC.address, 5000);
+
+      // A year of 5% on 5000 USDC, 20% of it kept
+      expect(await lendingProtocol.totalReserves(mockUSDC.address)).to.be.closeTo(
+        usdc('51.27'),
+        usdc('0.5'),
+      );
+    });
+
+    it('should leave all interest to suppliers at a zero reserve factor', async function () {
+      await lendingProtocol.setReserveFactor(mockUSDC.address, 0);
+      const reserves = await lendingProtocol.totalReserves(mockUSDC.address);
+      await time.increase(ONE_YEAR);
+
+      await expect(accrue()).not.to.emit(lendingProtocol, 'ReservesAccrued');
+      expect(await lendingProtocol.totalReserves(mockUSDC.address)).to.equal(reserves);
+    });
+
+    it('should reject a reserve factor above 100%', async function () {
+      await expect(lendingProtocol.setReserveFactor(mockUSDC.address, 10001)).to.be.revertedWith(
+        'Invalid reserve factor',
+      );
+    });
+
+    it('should only let the admin set the reserve factor', async function () {
+      await expect(lendingProtocol.connect(supplier).setReserveFactor(mockUSDC.address, 5000)).to.be
+        .reverted;
+    });
+  });
+
+  describe('withdrawReserves', function () {
+    beforeEach(async function () {
+      await time.increase(ONE_YEAR);
+      await accrue();
+    });
+
+    it('should send reserves to the receiver', async function () {
+      const reserves = await lendingProtocol.totalReserves(mockUSDC.address);
+
+      await expect(lendingProtocol.withdrawReserves(mockUSDC.address, treasury.address, reserves))
+        .to.emit(lendingProtocol, 'ReservesWithdrawn')
+        .withArgs(mockUSDC.address, treasury.address, reserves);
+
+      expect(await mockUSDC.balanceOf(treasury.address)).to.equal(reserves);
+      // Only the few seconds of interest booked by the withdrawal itself are left
+      expect(await lendingProtocol.totalReserves(mockUSDC.address)).to.be.lt(usdc('0.01'));
+    });
+
+    it("should not touch the suppliers' deposits", async function () {
+      const depositBefore = await lendingProtocol.getCurrentDepositAmount(
+        mockUSDC.address,
+        supplier.address,
+      );
+      const reserves = await lendingProtocol.totalReserves(mockUSDC.address);
+
+      await lendingProtocol.withdrawReserves(mockUSDC.address, treasury.address, reserves);
+
+      expect(
+        await lendingProtocol.getCurrentDepositAmount(mockUSDC.address, supplier.address),
+      ).to.be.closeTo(depositBefore, usdc('0.01'));
+    });
+
+    it('should cap withdrawals at the accrued reserves', async function () {
+      const reserves = await lendingProtocol.totalReserves(mockUSDC.address);
+
+      await expect(
+        lendingProtocol.withdrawReserves(
+          mockUSDC.address,
+          treasury.address,
+          reserves.add(usdc('1')),
+        ),
+      ).to.be.revertedWith('Amount exceeds reserves');
+    });
+
+    it('should reject the zero address as receiver', async function () {
+      await expect(
+        lendingProtocol.withdrawReserves(mockUSDC.address, ethers.constants.AddressZero, 1),
+      ).to.be.revertedWith('Invalid receiver');
+    });
+
+    it('should only let the admin withdraw reserves', async function () {
+      await expect(
+        lendingProtocol.connect(supplier).withdrawReserves(mockUSDC.address, supplier.address, 1),
+      ).to.be.reverted;
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+// EnhancedLendingProtocol.Action
+const BORROW = 2;
+
+describe('Stable rate borrowing', function () {
+  let guardian: SignerWithAddress;
+  let borrower: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, guardian, borrower, keeper] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+
+    await lendingProtocol.grantRole(await lendingProtocol.GUARDIAN_ROLE(), guardian.address);
+
+    // Stable debt costs the 5% variable rate plus 2%, and can be rebalanced 3% away from that
+    await lendingProtocol.setStableRateConfig(mockUSDC.address, true, 200, 300);
+
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+
+    // The borrower has 1 ETH deposited and USDC to repay with
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, eth('1'), { value: eth('1') });
+    await mockUSDC.transfer(borrower.address, usdc('1000'));
+    await mockUSDC.connect(borrower).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+
+    return { guardian, borrower, keeper, lendingProtocol, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ guardian, borrower, keeper, lendingProtocol, mockUSDC } = await loadFixture(deployFixture));
+  });
+
+  describe('swapBorrowRateMode', function () {
+    it('should move variable debt to the current stable rate', async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1000'));
+
+      await expect(
+        lendingProtocol.connect(borrower).swapBorrowRateMode(mockUSDC.address, true),
+      ).to.emit(lendingProtocol, 'BorrowRateModeSwapped');
+
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.equal(0);
+      expect(
+        await lendingProtocol.getCurrentStableBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.be.closeTo(usdc('1000'), usdc('0.01'));
+      expect((await lendingProtocol.stableDebts(mockUSDC.address, borrower.address)).rate).to.equal(
+        700,
+      );
+    });
+
+    it('should move stable debt back to the variable rate', async function () {
+      await lendingProtocol.connect(borrower).borrowStable(mockUSDC.address, usdc('1000'));
+
+      await expect(
+        lendingProtocol.connect(borrower).swapBorrowRateMode(mockUSDC.address, false),
+      ).to.emit(lendingProtocol, 'BorrowRateModeSwapped');
+
+      expect(
+        await lendingProtocol.getCurrentStableBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.equal(0);
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.be.closeTo(usdc('1000'), usdc('0.01'));
+    });
+
+    it('should revert without debt in the rate mode being left', async function () {
+      await expect(
+        lendingProtocol.connect(borrower).swapBorrowRateMode(mockUSDC.address, true),
+      ).to.be.revertedWith('No debt to swap');
+      await expect(
+        lendingProtocol.connect(borrower).swapBorrowRateMode(mockUSDC.address, false),
+      ).to.be.revertedWith('No debt to swap');
+    });
+
+    it('should stop swaps in both directions while borrowing is paused', async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('500'));
+      await lendingProtocol.connect(borrower).borrowStable(mockUSDC.address, usdc('500'));
+      await lendingProtocol.connect(guardian).setActionPaused(mockUSDC.address, BORROW, true);
+
+      await expect(
+        lendingProtocol.connect(borrower).swapBorrowRateMode(mockUSDC.address, true),
+      ).to.be.revertedWith('Action paused for this market');
+      await expect(
+        lendingProtocol.connect(borrower).swapBorrowRateMode(mockUSDC.address, false),
+      ).to.be.revertedWith('Action paused for this market');
+
+      await lendingProtocol.setActionPaused(mockUSDC.address, BORROW, false);
+      await lendingProtocol.connect(borrower).swapBorrowRateMode(mockUSDC.address, true);
+    });
+  });
+
+  describe('rebalanceStableRate', function () {
+    beforeEach(async function () {
+      await lendingProtocol.connect(borrower).borrowStable(mockUSDC.address, usdc('1000'));
+    });
+
+    it('should revert while the rate is within the threshold', async function () {
+      // The stable rate for new debt becomes 9%, 2% from the borrower's 7%
+      await lendingProtocol.setTokenConfig(mockUSDC.address, true, 8000, 8500, 500, 700);
+
+      await expect(
+        lendingProtocol.connect(keeper).rebalanceStableRate(mockUSDC.address, borrower.address),
+      ).to.be.revertedWith('Rate within threshold');
+    });
+
+    it('should reset the rate once it drifts past the threshold', async function () {
+      // The stable rate for new debt becomes 12%, 5% from the borrower's 7%
+      await lendingProtocol.setTokenConfig(mockUSDC.address, true, 8000, 8500, 500, 1000);
+
+      await expect(
+        lendingProtocol.connect(keeper).rebalanceStableRate(mockUSDC.address, borrower.address),
+      )
+        .to.emit(lendingProtocol, 'StableRateRebalanced')
+        .withArgs(mockUSDC.address, borrower.address, 700, 1200);
+      expect((await lendingProtocol.stableDebts(mockUSDC.address, borrower.address)).rate).to.equal(
+        1200,
+      );
+    });
+
+    it('should revert for a user without stable debt', async function () {
+      await expect(
+        lendingProtocol.rebalanceStableRate(mockUSDC.address, keeper.address),
+      ).to.be.revertedWith('No stable debt');
+    });
+  });
+
+  describe('repayStable', function () {
+    beforeEach(async function () {
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('200'));
+      await lendingProtocol.connect(borrower).borrowStable(mockUSDC.address, usdc('500'));
+    });
+
+    it('should reduce only the stable debt', async function () {
+      await lendingProtocol.connect(borrower).repayStable(mockUSDC.address, usdc('200'));
+
+      expect(
+        await lendingProtocol.getCurrentStableBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.be.closeTo(usdc('300'), usdc('0.01'));
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.be.closeTo(usdc('200'), usdc('0.01'));
+    });
+
+    it('should clear the stable debt and its rate when repaid in full', async function () {
+      await lendingProtocol
+        .connect(borrower)
+        .repayStable(mockUSDC.address, ethers.constants.MaxUint256);
+
+      const debt = await lendingProtocol.stableDebts(mockUSDC.address, borrower.address);
+      expect(debt.principal).to.equal(0);
+      expect(debt.rate).to.equal(0);
+      expect((await lendingProtocol.stableMarkets(mockUSDC.address)).totalDebt).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { EnhancedLendingLens } from '../../typechain/contracts/core/EnhancedLendingLens';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const eth = (amount: string) => ethers.utils.parseEther(amount);
+
+const THIRTY_DAYS = 30 * 86400;
+const SECONDS_PER_YEAR = 365 * 86400;
+
+describe('Supplier yield', function () {
+  let supplier: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let lens: EnhancedLendingLens;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [, supplier, borrower] = await ethers.getSigners();
+
+    const { lendingProtocol, mockWETH, mockUSDC } = await deployLendingFixture();
+    const lens = (await (
+      await ethers.getContractFactory('EnhancedLendingLens')
+    ).deploy(lendingProtocol.address)) as EnhancedLendingLens;
+
+    await lendingProtocol.setReserveFactor(mockUSDC.address, 1000);
+
+    // Half of the supplier's 10000 USDC is borrowed at 5% APR
+    await mockUSDC.transfer(supplier.address, usdc('10000'));
+    await mockUSDC.connect(supplier).approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.connect(supplier).deposit(mockUSDC.address, usdc('10000'));
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, eth('10'), { value: eth('10') });
+    await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('5000'));
+
+    return { supplier, lendingProtocol, lens, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ supplier, lendingProtocol, lens, mockUSDC } = await loadFixture(deployFixture));
+  });
+
+  it('should quote the borrow rate times utilization, less the reserve factor', async function () {
+    // 500 bps * 50% utilization * 90% to suppliers
+    expect(await lens.getSupplyRate(mockUSDC.address)).to.equal(225);
+  });
+
+  it('should grow deposits at the quoted supply rate', async function () {
+    const supplyRate = await lens.getSupplyRate(mockUSDC.address);
+    await time.increase(THIRTY_DAYS);
+
+    const deposit = await lendingProtocol.getCurrentDepositAmount(
+      mockUSDC.address,
+      supplier.address,
+    );
+    const expectedYield = usdc('10000')
+      .mul(supplyRate)
+      .mul(THIRTY_DAYS)
+      .div(SECONDS_PER_YEAR)
+      .div(10000);
+
+    // About 18.49 USDC, the quote is simple interest so allow 1% for compounding
+    expect(deposit.sub(usdc('10000'))).to.be.closeTo(expectedYield, expectedYield.div(100));
+  });
+
+  it('should pay the yield out on withdrawal', async function () {
+    await time.increase(THIRTY_DAYS);
+
+    // Liquidity from another supplier, so the pool holds more than the borrower left
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('10000'));
+
+    await lendingProtocol.connect(supplier).withdraw(mockUSDC.address, usdc('10018'));
+    expect(await mockUSDC.balanceOf(supplier.address)).to.equal(usdc('10018'));
+  });
+});
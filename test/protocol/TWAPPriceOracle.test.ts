@@ -0,0 +1,191 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingProtocol } from '../../scripts/utils/lendingLibraries';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { TWAPPriceOracle } from '../../typechain/contracts/core/TWAPPriceOracle';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const ONE_HOUR = 3600;
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+const price = (amount: string) => ethers.utils.parseEther(amount);
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send('evm_increaseTime', [seconds]);
+  await ethers.provider.send('evm_mine', []);
+}
+
+describe('TWAP price oracle', function () {
+  let borrower: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let twapOracle: TWAPPriceOracle;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [deployer, borrower] = await ethers.getSigners();
+
+    const mockWETH = (await (await ethers.getContractFactory('MockWETH')).deploy()) as MockWETH;
+    const mockUSDC = (await (await ethers.getContractFactory('MockUSDC')).deploy()) as MockUSDC;
+    const twapOracle = (await (
+      await ethers.getContractFactory('TWAPPriceOracle')
+    ).deploy(ONE_HOUR)) as TWAPPriceOracle;
+    const lendingProtocol = (await deployLendingProtocol(
+      mockWETH.address,
+      twapOracle.address,
+    )) as EnhancedLendingProtocol;
+
+    await twapOracle.updatePrice(mockWETH.address, price('2000'));
+    await twapOracle.updatePrice(mockUSDC.address, price('1'));
+    await lendingProtocol.setTokenConfig(mockWETH.address, true, 7500, 8000, 1000, 500);
+    await lendingProtocol.setTokenConfig(mockUSDC.address, true, 8000, 8500, 500, 500);
+
+    // USDC liquidity from the deployer, 1 WETH of collateral from the borrower
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, price('1'), { value: price('1') });
+
+    // A full window of history at $2000
+    await increaseTime(ONE_HOUR);
+
+    return { deployer, borrower, lendingProtocol, twapOracle, mockWETH, mockUSDC };
+  }
+
+  beforeEach(async function () {
+    ({ borrower, lendingProtocol, twapOracle, mockWETH, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  describe('Averaging', function () {
+    it('should weight each price by the time it was in effect', async function () {
+      await twapOracle.updatePrice(mockWETH.address, price('2600'));
+      await increaseTime(ONE_HOUR / 2);
+
+      // Half the window at $2000 and half at $2600, give or take the update's own block
+      const twap = await twapOracle.getPrice(mockWETH.address);
+      expect(twap).to.be.closeTo(price('2300'), price('1'));
+      expect(await twapOracle.getSpotPrice(mockWETH.address)).to.equal(price('2600'));
+    });
+
+    it('should converge to a new price once it has held for the whole window', async function () {
+      await twapOracle.updatePrice(mockWETH.address, price('1800'));
+      await increaseTime(ONE_HOUR);
+
+      expect(await twapOracle.getPrice(mockWETH.address)).to.equal(price('1800'));
+    });
+
+    it('should average over the available history before the window is covered', async function () {
+      const token = ethers.Wallet.createRandom().address;
+      await twapOracle.updatePrice(token, price('100'));
+      expect(await twapOracle.getPrice(token)).to.equal(price('100'));
+
+      await increaseTime(99);
+      await twapOracle.updatePrice(token, price('200'));
+      await increaseTime(100);
+
+      // 100 seconds at $100, counting the update's own block, and 100 seconds at $200
+      expect(await twapOracle.getPrice(token)).to.equal(price('150'));
+    });
+
+    it('should keep working once the ring buffer wraps around', async function () {
+      const maxObservations = (await twapOracle.MAX_OBSERVATIONS()).toNumber();
+      for (let i = 0; i < maxObservations + 5; i++) {
+        await twapOracle.updatePrice(mockWETH.address, price('2100'));
+        await increaseTime(ONE_HOUR / maxObservations);
+      }
+
+      expect(await twapOracle.observationCount(mockWETH.address)).to.equal(maxObservations);
+      expect(await twapOracle.getPrice(mockWETH.address)).to.equal(price('2100'));
+    });
+
+    it('should replace the latest observation when updated twice in one block', async function () {
+      await ethers.provider.send('evm_setAutomine', [false]);
+      await twapOracle.updatePrice(mockWETH.address, price('5000'));
+      await twapOracle.updatePrice(mockWETH.address, price('2000'));
+      await ethers.provider.send('evm_mine', []);
+      await ethers.provider.send('evm_setAutomine', [true]);
+
+      await increaseTime(ONE_HOUR / 2);
+      expect(await twapOracle.getPrice(mockWETH.address)).to.equal(price('2000'));
+    });
+
+    it('should revert for a token without observations', async function () {
+      await expect(twapOracle.getPrice(ethers.Wallet.createRandom().address)).to.be.revertedWith(
+        'Price not available',
+      );
+    });
+  });
+
+  describe('Window', function () {
+    it('should let the owner change the window', async function () {
+      await expect(twapOracle.setWindow(ONE_HOUR * 2))
+        .to.emit(twapOracle, 'WindowUpdated')
+        .withArgs(ONE_HOUR * 2);
+      expect(await twapOracle.window()).to.equal(ONE_HOUR * 2);
+    });
+
+    it('should reject a zero window and non-owner updates', async function () {
+      await expect(twapOracle.setWindow(0)).to.be.revertedWith('Invalid window');
+      await expect(twapOracle.connect(borrower).setWindow(ONE_HOUR)).to.be.revertedWith(
+        'Ownable: caller is not the owner',
+      );
+      await expect(
+        twapOracle.connect(borrower).updatePrice(mockWETH.address, price('1')),
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+  });
+
+  describe('Liquidations', function () {
+    beforeEach(async function () {
+      // $1400 of debt against $1600 of liquidation value
+      await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('1400'));
+    });
+
+    it('should not let a single price spike make a healthy position liquidatable', async function () {
+      // At spot, $1000 WETH would put the position well under water
+      await twapOracle.updatePrice(mockWETH.address, price('1000'));
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('500'),
+        ),
+      ).to.be.revertedWith('Position not liquidatable');
+
+      // Even a spike that holds for a minute before being corrected
+      await increaseTime(60);
+      await twapOracle.updatePrice(mockWETH.address, price('2000'));
+
+      expect(await lendingProtocol.getLiquidationHealthFactor(borrower.address)).to.be.gte(10000);
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('500'),
+        ),
+      ).to.be.revertedWith('Position not liquidatable');
+    });
+
+    it('should still allow liquidation once a lower price is sustained', async function () {
+      await twapOracle.updatePrice(mockWETH.address, price('1500'));
+      await increaseTime(ONE_HOUR);
+
+      expect(await lendingProtocol.getLiquidationHealthFactor(borrower.address)).to.be.lt(10000);
+      await expect(
+        lendingProtocol.liquidate(
+          borrower.address,
+          mockUSDC.address,
+          mockWETH.address,
+          usdc('500'),
+        ),
+      ).to.emit(lendingProtocol, 'Liquidate');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { deployLendingProtocol } from '../../scripts/utils/lendingLibraries';
+import { deployProtocolTimelock, transferAdminToTimelock } from '../../scripts/utils/timelock';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { AggregatedPriceOracle } from '../../typechain/contracts/core/AggregatedPriceOracle';
+import { PriceOracleSentinel } from '../../typechain/contracts/core/PriceOracleSentinel';
+import { CollateralSwap } from '../../typechain/contracts/core/CollateralSwap';
+import { ProtocolTimelock } from '../../typechain/contracts/core/ProtocolTimelock';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const MIN_DELAY = 60;
+
+describe('Protocol timelock', function () {
+  let deployer: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let priceOracle: AggregatedPriceOracle;
+  let priceSentinel: PriceOracleSentinel;
+  let collateralSwap: CollateralSwap;
+  let timelock: ProtocolTimelock;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [deployer] = await ethers.getSigners();
+
+    const mockWETH = await (await ethers.getContractFactory('MockWETH')).deploy();
+    const mockUSDC = (await (await ethers.getContractFactory('MockUSDC')).deploy()) as MockUSDC;
+    const priceOracle = (await (
+      await ethers.getContractFactory('AggregatedPriceOracle')
+    ).deploy()) as AggregatedPriceOracle;
+    const lendingProtocol = (await deployLendingProtocol(
+      mockWETH.address,
+      priceOracle.address,
+    )) as EnhancedLendingProtocol;
+    await lendingProtocol.setTokenConfig(mockUSDC.address, true, 8000, 8500, 500, 500);
+
+    const swapAdapter = await (
+      await ethers.getContractFactory('MockConstantProductAMM')
+    ).deploy(mockWETH.address, mockUSDC.address);
+    const collateralSwap = (await (
+      await ethers.getContractFactory('CollateralSwap')
+    ).deploy(lendingProtocol.address, swapAdapter.address)) as CollateralSwap;
+    const priceSentinel = (await (
+      await ethers.getContractFactory('PriceOracleSentinel')
+    ).deploy(lendingProtocol.address)) as PriceOracleSentinel;
+
+    // The same wiring the deploy scripts run
+    const timelock = (await deployProtocolTimelock(
+      MIN_DELAY,
+      deployer.address,
+    )) as ProtocolTimelock;
+    await transferAdminToTimelock(
+      timelock.address,
+      { lendingProtocol, priceSentinel, priceOracle, collateralSwap },
+      deployer.address,
+    );
+
+    return {
+      deployer,
+      lendingProtocol,
+      priceOracle,
+      priceSentinel,
+      collateralSwap,
+      timelock,
+      mockUSDC,
+    };
+  }
+
+  beforeEach(async function () {
+    ({ deployer, lendingProtocol, priceOracle, priceSentinel, collateralSwap, timelock, mockUSDC } =
+      await loadFixture(deployFixture));
+  });
+
+  async function queueReserveFactor(reserveFactor: number): Promise<string> {
+    await hre.run('timelock:queue', {
+      method: 'setReserveFactor',
+      args: JSON.stringify([mockUSDC.address, reserveFactor]),
+      target: lendingProtocol.address,
+      timelock: timelock.address,
+    });
+    const scheduled = await timelock.queryFilter(timelock.filters.CallScheduled());
+    return scheduled[scheduled.length - 1].args.id;
+  }
+
+  describe('wiring', function () {
+    it('should move the admin and oracle manager roles to the timelock', async function () {
+      const DEFAULT_ADMIN_ROLE = await lendingProtocol.DEFAULT_ADMIN_ROLE();
+      const ORACLE_MANAGER = await lendingProtocol.ORACLE_MANAGER();
+
+      expect(await lendingProtocol.hasRole(DEFAULT_ADMIN_ROLE, timelock.address)).to.equal(true);
+      expect(await lendingProtocol.hasRole(ORACLE_MANAGER, timelock.address)).to.equal(true);
+      expect(await priceSentinel.hasRole(DEFAULT_ADMIN_ROLE, timelock.address)).to.equal(true);
+      expect(await priceOracle.owner()).to.equal(timelock.address);
+      expect(await collateralSwap.owner()).to.equal(timelock.address);
+    });
+
+    it('should leave the deployer without admin rights', async function () {
+      const DEFAULT_ADMIN_ROLE = await lendingProtocol.DEFAULT_ADMIN_ROLE();
+      const ORACLE_MANAGER = await lendingProtocol.ORACLE_MANAGER();
+
+      expect(await lendingProtocol.hasRole(DEFAULT_ADMIN_ROLE, deployer.address)).to.equal(false);
+      expect(await lendingProtocol.hasRole(ORACLE_MANAGER, deployer.address)).to.equal(false);
+      expect(await priceSentinel.hasRole(DEFAULT_ADMIN_ROLE, deployer.address)).to.equal(false);
+    });
+
+    it('should let the deployer keep the guardian role for instant pauses', async function () {
+      const GUARDIAN_ROLE = await lendingProtocol.GUARDIAN_ROLE();
+
+      expect(await lendingProtocol.hasRole(GUARDIAN_ROLE, deployer.address)).to.equal(true);
+      expect(await priceSentinel.hasRole(GUARDIAN_ROLE, deployer.address)).to.equal(true);
+    });
+
+    it('should revert direct admin calls from the deployer', async function () {
+      await expect(lendingProtocol.setReserveFactor(mockUSDC.address, 2000)).to.be.reverted;
+      await expect(lendingProtocol.updateOracle(priceOracle.address)).to.be.reverted;
+      await expect(priceSentinel.setPriceGuard(mockUSDC.address, 3600, 1000)).to.be.reverted;
+      await expect(priceOracle.setAggregationConfig(mockUSDC.address, 500, 2)).to.be.revertedWith(
+        'Ownable: caller is not the owner',
+      );
+      await expect(collateralSwap.setSwapAdapter(deployer.address)).to.be.revertedWith(
+        'Ownable: caller is not the owner',
+      );
+    });
+  });
+
+  describe('queue and execute', function () {
+    it('should refuse to execute before the delay has passed', async function () {
+      const id = await queueReserveFactor(2000);
+
+      let error: Error | undefined;
+      try {
+        await hre.run('timelock:execute', { id, timelock: timelock.address });
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.match(/^Operation not ready, \d+s left$/);
+      expect((await lendingProtocol.tokenConfigs(mockUSDC.address)).reserveFactor).to.equal(0);
+    });
+
+    it('should apply a queued call once the delay has passed', async function () {
+      const id = await queueReserveFactor(2000);
+      await time.increase(MIN_DELAY);
+
+      await hre.run('timelock:execute', { id, timelock: timelock.address });
+
+      expect((await lendingProtocol.tokenConfigs(mockUSDC.address)).reserveFactor).to.equal(2000);
+      expect(await timelock.isOperationDone(id)).to.equal(true);
+    });
+
+    it('should only let the deployer propose', async function () {
+      const [, outsider] = await ethers.getSigners();
+      const data = lendingProtocol.interface.encodeFunctionData('setReserveFactor', [
+        mockUSDC.address,
+        2000,
+      ]);
+
+      await expect(
+        timelock
+          .connect(outsider)
+          .schedule(
+            lendingProtocol.address,
+            0,
+            data,
+            ethers.constants.HashZero,
+            ethers.constants.HashZero,
+            MIN_DELAY,
+          ),
+      ).to.be.reverted;
+    });
+  });
+});
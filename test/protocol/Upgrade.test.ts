@@ -0,0 +1,210 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import 'mocha';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { getLendingProtocolFactory } from '../../scripts/utils/lendingLibraries';
+import { deployLendingFixture } from '../../scripts/utils/lendingFixture';
+import { deployProxy, getImplementationAddress } from '../../scripts/utils/proxy';
+import { EnhancedLendingProtocol } from '../../typechain/contracts/core/EnhancedLendingProtocol';
+import { StakingPool } from '../../typechain/contracts/core/StakingPool';
+import { DelegateManager } from '../../typechain/contracts/core/DelegateManager';
+import { AutoRebalancer } from '../../typechain/contracts/core/AutoRebalancer';
+import { MockWETH } from '../../typechain/contracts/mocks/MockWETH';
+import { MockUSDC } from '../../typechain/contracts/mocks/MockUSDC';
+
+const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+describe('Upgradeable proxies', function () {
+  let deployer: SignerWithAddress;
+  let borrower: SignerWithAddress;
+  let staker: SignerWithAddress;
+  let lendingProtocol: EnhancedLendingProtocol;
+  let stakingPool: StakingPool;
+  let delegateManager: DelegateManager;
+  let autoRebalancer: AutoRebalancer;
+  let mockWETH: MockWETH;
+  let mockUSDC: MockUSDC;
+
+  async function deployFixture() {
+    const [deployer, borrower, staker] = await ethers.getSigners();
+
+    const { lendingProtocol, priceOracle, mockWETH, mockUSDC } = await deployLendingFixture();
+    const stakingPool = (await deployProxy(await ethers.getContractFactory('StakingPool'), [
+      mockWETH.address,
+      mockUSDC.address,
+    ])) as StakingPool;
+    const delegateManager = (await deployProxy(await ethers.getContractFactory('DelegateManager'), [
+      lendingProtocol.address,
+      mockWETH.address,
+    ])) as DelegateManager;
+    const autoRebalancer = (await deployProxy(await ethers.getContractFactory('AutoRebalancer'), [
+      delegateManager.address,
+      lendingProtocol.address,
+      priceOracle.address,
+      mockWETH.address,
+    ])) as AutoRebalancer;
+
+    await lendingProtocol.setReserveFactor(mockUSDC.address, 1000);
+    await lendingProtocol.setStableRateConfig(mockUSDC.address, true, 100, 500);
+
+    // USDC liquidity from the deployer, a WETH-backed variable and stable USDC borrow
+    await mockUSDC.approve(lendingProtocol.address, ethers.constants.MaxUint256);
+    await lendingProtocol.deposit(mockUSDC.address, usdc('100000'));
+    await lendingProtocol
+      .connect(borrower)
+      .deposit(mockWETH.address, ethers.utils.parseEther('1'), {
+        value: ethers.utils.parseEther('1'),
+      });
+    await lendingProtocol.connect(borrower).borrow(mockUSDC.address, usdc('500'));
+    await lendingProtocol.connect(borrower).borrowStable(mockUSDC.address, usdc('300'));
+
+    await mockWETH.connect(staker).deposit({ value: ethers.utils.parseEther('2') });
+    await mockWETH.connect(staker).approve(stakingPool.address, ethers.constants.MaxUint256);
+    await stakingPool.connect(staker).stake(ethers.utils.parseEther('2'));
+    await autoRebalancer.connect(borrower).configureUser(true, 2500, 1600, 3600);
+
+    return {
+      deployer,
+      borrower,
+      staker,
+      lendingProtocol,
+      stakingPool,
+      delegateManager,
+      autoRebalancer,
+      mockWETH,
+      mockUSDC,
+    };
+  }
+
+  beforeEach(async function () {
+    ({
+      deployer,
+      borrower,
+      staker,
+      lendingProtocol,
+      stakingPool,
+      delegateManager,
+      autoRebalancer,
+      mockWETH,
+      mockUSDC,
+    } = await loadFixture(deployFixture));
+  });
+
+  async function snapshotProtocol() {
+    return {
+      wethPosition: await lendingProtocol.userPositions(mockWETH.address, borrower.address),
+      usdcPosition: await lendingProtocol.userPositions(mockUSDC.address, borrower.address),
+      stableDebt: await lendingProtocol.stableDebts(mockUSDC.address, borrower.address),
+      totalDeposits: await lendingProtocol.totalDeposits(mockUSDC.address),
+      totalBorrows: await lendingProtocol.totalBorrows(mockUSDC.address),
+      totalReserves: await lendingProtocol.totalReserves(mockUSDC.address),
+      borrowIndex: await lendingProtocol.globalInterestIndices(mockUSDC.address),
+      supplyIndex: await lendingProtocol.supplyIndices(mockUSDC.address),
+      config: await lendingProtocol.tokenConfigs(mockUSDC.address),
+      markets: await lendingProtocol.getSupportedTokens(),
+      healthFactor: await lendingProtocol.getHealthFactor(borrower.address),
+      usdcBalance: await mockUSDC.balanceOf(lendingProtocol.address),
+      wethBalance: await mockWETH.balanceOf(lendingProtocol.address),
+    };
+  }
+
+  describe('EnhancedLendingProtocol', function () {
+    it('should keep positions and balances across an implementation swap', async function () {
+      const oldImplementation = await getImplementationAddress(lendingProtocol.address);
+      const before = await snapshotProtocol();
+
+      const newImplementation = await (await getLendingProtocolFactory()).deploy();
+      await lendingProtocol.upgradeTo(newImplementation.address);
+
+      expect(await getImplementationAddress(lendingProtocol.address)).to.equal(
+        newImplementation.address,
+      );
+      expect(newImplementation.address).to.not.equal(oldImplementation);
+      expect(await snapshotProtocol()).to.deep.equal(before);
+      expect(await lendingProtocol.weth()).to.equal(mockWETH.address);
+      expect(
+        await lendingProtocol.hasRole(await lendingProtocol.DEFAULT_ADMIN_ROLE(), deployer.address),
+      ).to.equal(true);
+    });
+
+    it('should let positions be unwound after the swap', async function () {
+      const newImplementation = await (await getLendingProtocolFactory()).deploy();
+      await lendingProtocol.upgradeTo(newImplementation.address);
+
+      await mockUSDC.transfer(borrower.address, usdc('100'));
+      await mockUSDC
+        .connect(borrower)
+        .approve(lendingProtocol.address, ethers.constants.MaxUint256);
+      await lendingProtocol.connect(borrower).repay(mockUSDC.address, ethers.constants.MaxUint256);
+      await lendingProtocol
+        .connect(borrower)
+        .repayStable(mockUSDC.address, ethers.constants.MaxUint256);
+      await lendingProtocol
+        .connect(borrower)
+        .withdraw(mockWETH.address, ethers.constants.MaxUint256);
+
+      expect(
+        await lendingProtocol.getCurrentBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.equal(0);
+      expect(
+        await lendingProtocol.getCurrentStableBorrowAmount(mockUSDC.address, borrower.address),
+      ).to.equal(0);
+      expect(
+        (await lendingProtocol.userPositions(mockWETH.address, borrower.address)).depositAmount,
+      ).to.equal(0);
+    });
+
+    it('should only let the admin upgrade', async function () {
+      const newImplementation = await (await getLendingProtocolFactory()).deploy();
+      await expect(lendingProtocol.connect(borrower).upgradeTo(newImplementation.address)).to.be
+        .reverted;
+    });
+
+    it('should not be initialized twice, behind the proxy or directly', async function () {
+      await expect(
+        lendingProtocol.initialize(mockWETH.address, mockWETH.address),
+      ).to.be.revertedWith('Initializable: contract is already initialized');
+
+      const implementation = (await getLendingProtocolFactory()).attach(
+        await getImplementationAddress(lendingProtocol.address),
+      );
+      await expect(
+        implementation.initialize(mockWETH.address, mockWETH.address),
+      ).to.be.revertedWith('Initializable: contract is already initialized');
+    });
+  });
+
+  describe('StakingPool, DelegateManager and AutoRebalancer', function () {
+    it('should keep stakes and configuration across an implementation swap', async function () {
+      const stakeBefore = await stakingPool.stakes(staker.address);
+      const configBefore = await autoRebalancer.userConfigs(borrower.address);
+
+      for (const [proxy, name] of [
+        [stakingPool, 'StakingPool'],
+        [delegateManager, 'DelegateManager'],
+        [autoRebalancer, 'AutoRebalancer'],
+      ] as const) {
+        const newImplementation = await (await ethers.getContractFactory(name)).deploy();
+        await proxy.upgradeTo(newImplementation.address);
+        expect(await getImplementationAddress(proxy.address)).to.equal(newImplementation.address);
+        expect(await proxy.owner()).to.equal(deployer.address);
+      }
+
+      expect(await stakingPool.stakes(staker.address)).to.deep.equal(stakeBefore);
+      expect(await stakingPool.stakingToken()).to.equal(mockWETH.address);
+      expect(await delegateManager.lendingProtocol()).to.equal(lendingProtocol.address);
+      expect(await autoRebalancer.userConfigs(borrower.address)).to.deep.equal(configBefore);
+
+      await stakingPool.connect(staker).withdraw(ethers.utils.parseEther('2'));
+      expect(await mockWETH.balanceOf(staker.address)).to.equal(ethers.utils.parseEther('2'));
+    });
+
+    it('should only let the owner upgrade', async function () {
+      const newImplementation = await (await ethers.getContractFactory('StakingPool')).deploy();
+      await expect(
+        stakingPool.connect(staker).upgradeTo(newImplementation.address),
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+  });
+});
@@ -30,7 +30,8 @@ export const TestData = {
     },
     MESSAGES: {
         REPAYMENT: {
-            SUCCESS: 'Full repayment successful'
+            SUCCESS: 'Full repayment successful',
+            REPAY_ALL_WITHDRAW_SUCCESS: 'withdrew all collateral'
         },
         LIQUIDATION: {
             SUCCESS: 'Liquidation successful'
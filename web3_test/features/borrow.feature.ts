@@ -73,4 +73,12 @@ export class BorrowFeature {
         }, { box: true });
     }
 
+    async setEthPrice(usdPrice: string): Promise<void> {
+        await test.step(`set ETH price to $${usdPrice}`, async () => {
+            await this.blockchainHelper.setTokenPrice('weth', usdPrice);
+            // Give the page a moment to pick up the new price
+            await this.page.waitForTimeout(2000);
+        }, { box: true });
+    }
+
 }
\ No newline at end of file
@@ -46,4 +46,30 @@ export class DepositFeature {
         await this.lendingPage.verifyDepositAmount(parseFloat(amount));
       }, { box: true });
     }
+
+    async depositToken(symbol: string, amount: string): Promise<void> {
+      await test.step(`deposit ${symbol}`, async () => {
+        await this.lendingPage.verifyWalletConnected();
+        await this.lendingPage.selectDepositAsset(symbol);
+        await this.lendingPage.enterDepositAmount(amount);
+        await this.lendingPage.clickDeposit();
+
+        const depositCapture = await this.screenshotHelper.captureTransactionScreen(
+            this.page,
+            this.context,
+            `deposit-${symbol.toLowerCase()}-before-confirmation`
+        );
+
+        this.testInfo.attach(`deposit ${symbol} before confirm`, {
+            path: depositCapture.path,
+            contentType: 'image/png'
+        });
+
+        await this.lendingPage.confirmDepositWithPermit();
+        await this.lendingPage.verifySupplyBalance(amount, symbol);
+
+        // Later ETH deposits expect the ETH market to be selected
+        await this.lendingPage.selectDepositAsset('WETH');
+      }, { box: true });
+    }
 }
\ No newline at end of file
@@ -70,7 +70,7 @@ export class LiquidationFeature {
     /**
      * Liquidate a position with the specified options
      */
-    async liquidatePosition(options: { amountPercentage?: number, exactAmount?: string }): Promise<void> {
+    async liquidatePosition(options: { amountPercentage?: number, exactAmount?: string, collateralSymbol?: string }): Promise<void> {
         await test.step('liquidate position', async () => {
             // Navigate to the liquidate tab
             await this.lendingPage.switchToLiquidateTab();
@@ -134,6 +134,10 @@ export class LiquidationFeature {
                 liquidationAmount = (debtAmount * 50 / 100).toFixed(6);
             }
             
+            if (options.collateralSymbol) {
+                await this.lendingPage.selectLiquidationCollateral(options.collateralSymbol);
+            }
+
             // Input the liquidation amount
             await this.page.getByTestId('liquidation-amount-input').fill(liquidationAmount);
             
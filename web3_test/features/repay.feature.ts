@@ -44,4 +44,36 @@ export class RepayFeature {
             await this.lendingPage.verifyRepaymentSuccess();
         }, { box: true });
     }
+
+    // Runs with `symbol` selected, so debt outside the selected market must be repaid as well
+    async repayAllAndWithdraw(symbol: string): Promise<void> {
+        await test.step(`repay all and withdraw with ${symbol} selected`, async () => {
+            await this.lendingPage.switchToBorrowTab();
+            await this.lendingPage.selectBorrowAsset(symbol);
+            await this.lendingPage.clickRepayAllAndWithdraw();
+
+            const repayAllCapture = await this.screenshotHelper.captureTransactionScreen(
+                this.page,
+                this.context,
+                'repay-all-withdraw-before-confirmation'
+            );
+
+            this.testInfo.attach('repay all and withdraw before confirm', {
+                path: repayAllCapture.path,
+                contentType: 'image/png'
+            });
+
+            await this.lendingPage.confirmRepayAllAndWithdraw();
+
+            const repayAllConfirmedBuffer = await this.screenshotHelper.capturePageScreenshot(this.page, 'repay-all-withdraw-after-confirmed');
+
+            this.testInfo.attach('repay all and withdraw after confirm', {
+                body: repayAllConfirmedBuffer,
+                contentType: 'image/png',
+            });
+
+            await this.lendingPage.verifyRepayAllAndWithdrawSuccess();
+            await this.lendingPage.selectBorrowAsset('WETH');
+        }, { box: true });
+    }
 }
\ No newline at end of file
@@ -1,5 +1,13 @@
 // helpers/blockchain.helper.ts
 import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+
+// Written by the deploy scripts; the suite runs from web3_test
+const NETWORKS_PATH = path.resolve(process.cwd(), '../test/config/networks.json');
+
+const PRICE_FEED_ABI = ['function updatePrice(address token, uint256 price)'];
+const PRICE_SENTINEL_ABI = ['function resetReferencePrice(address token)'];
 
 export class BlockchainHelper {
   private provider: ethers.providers.JsonRpcProvider;
@@ -30,6 +38,26 @@ export class BlockchainHelper {
     }
   }
 
+  /**
+   * Set a token's USD price on every mock feed behind the local aggregator
+   * The deployer, the first Hardhat account, owns the feeds and is the sentinel's guardian. It accepts
+   * the new price as the reference afterwards, so a move past the jump limit does not halt liquidations.
+   */
+  async setTokenPrice(token: 'weth' | 'usdc', usdPrice: string): Promise<void> {
+    const addresses = JSON.parse(fs.readFileSync(NETWORKS_PATH, 'utf8')).local;
+    const deployer = this.provider.getSigner(0);
+    const price = ethers.utils.parseUnits(usdPrice, 18);
+
+    for (const feedAddress of addresses.priceFeeds) {
+      const feed = new ethers.Contract(feedAddress, PRICE_FEED_ABI, deployer);
+      await (await feed.updatePrice(addresses[token], price)).wait();
+    }
+
+    const priceSentinel = new ethers.Contract(addresses.priceSentinel, PRICE_SENTINEL_ABI, deployer);
+    await (await priceSentinel.resetReferencePrice(addresses[token])).wait();
+    console.log(`Set ${token} price to $${usdPrice}`);
+  }
+
   async getCurrentBlockTimestamp(): Promise<number> {
     const block = await this.provider.getBlock('latest');
     return block.timestamp;
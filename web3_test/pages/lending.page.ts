@@ -10,9 +10,13 @@ export default class LendingPage extends BasePage {
     readonly connectedWalletButton: Locator;
     readonly depositInput: Locator;
     readonly depositButton: Locator;
+    readonly depositAssetSelect: Locator;
+    readonly supplyBalance: Locator;
     readonly borrowInput: Locator;
     readonly borrowButton: Locator;
     readonly repayFullButton: Locator;
+    readonly repayAllWithdrawButton: Locator;
+    readonly borrowAssetSelect: Locator;
     readonly withdrawInput: Locator;
     readonly withdrawButton: Locator;
     readonly borrowRepayTab: Locator;
@@ -25,6 +29,7 @@ export default class LendingPage extends BasePage {
     readonly ownLiquidatablePosition: Locator;
     readonly liquidationAmountInput: Locator;
     readonly liquidateButton: Locator;
+    readonly liquidationCollateralSelect: Locator;
     readonly liquidationSuccessMessage: Locator;
     readonly healthFactorText: Locator;
     readonly currentAccountAddress: Locator;
@@ -45,9 +50,13 @@ export default class LendingPage extends BasePage {
     this.connectedWalletButton = page.getByRole('button', { name: TestData.SELECTORS.BUTTONS.CONNECTED_WALLET });
     this.depositInput = page.getByTestId('deposit-input');
     this.depositButton = page.getByTestId('deposit-button');
+    this.depositAssetSelect = page.getByTestId('deposit-asset-select');
+    this.supplyBalance = page.getByTestId('supply-balance');
     this.borrowInput = page.getByTestId('borrow-input');
     this.borrowButton = page.getByTestId('borrow-button');
     this.repayFullButton = page.getByTestId('repay-full-button');
+    this.repayAllWithdrawButton = page.getByTestId('repay-all-withdraw-button');
+    this.borrowAssetSelect = page.getByTestId('borrow-asset-select');
     this.withdrawInput = page.getByPlaceholder(TestData.SELECTORS.INPUTS.WITHDRAW);
     this.withdrawButton = page.getByRole('button', { name: TestData.SELECTORS.BUTTONS.WITHDRAW });
     this.borrowRepayTab = page.getByTestId('borrow-repay-tab');
@@ -60,6 +69,7 @@ export default class LendingPage extends BasePage {
     this.ownLiquidatablePosition = page.getByTestId('own-liquidatable-position');
     this.liquidationAmountInput = page.getByTestId('liquidation-amount-input');
     this.liquidateButton = page.getByTestId('liquidate-button');
+    this.liquidationCollateralSelect = page.getByTestId('liquidation-collateral-select');
     this.liquidationSuccessMessage = page.getByTestId('success-message');
     this.healthFactorText = page.getByTestId('health-factor');
     this.currentAccountAddress = page.getByRole('button', { name: TestData.SELECTORS.BUTTONS.CONNECTED_WALLET });
@@ -110,6 +120,22 @@ export default class LendingPage extends BasePage {
     await this.waitForTimeout(TestData.TIMEOUTS.MEDIUM);
   }
 
+  async selectDepositAsset(symbol: string): Promise<void> {
+    await this.depositAssetSelect.selectOption(symbol);
+    await this.waitForTimeout(TestData.TIMEOUTS.SHORT);
+  }
+
+  // ERC-20 deposits sign a permit first, then send the deposit
+  async confirmDepositWithPermit(): Promise<void> {
+    await this.metamask.confirmSignature();
+    await this.confirmDeposit();
+  }
+
+  async verifySupplyBalance(amount: string, symbol: string): Promise<void> {
+    await expect(this.supplyBalance).toContainText(`${amount}`);
+    await expect(this.supplyBalance).toContainText(symbol);
+  }
+
   async verifyDepositAmount(amount: number): Promise<void> {
     const expectedAmount = amount.toFixed(1);
     await this.page.getByText(new RegExp(TestData.MESSAGES.AMOUNTS.formatDeposit(expectedAmount))).waitFor({ state: 'visible' });
@@ -191,6 +217,30 @@ export default class LendingPage extends BasePage {
     await this.page.getByText(TestData.MESSAGES.AMOUNTS.formatBorrow(0.0)).waitFor({ state: 'visible' });
   }
 
+  async selectBorrowAsset(symbol: string): Promise<void> {
+    await this.borrowAssetSelect.selectOption(symbol);
+    await this.waitForTimeout(TestData.TIMEOUTS.SHORT);
+  }
+
+  async clickRepayAllAndWithdraw(): Promise<void> {
+    await this.repayAllWithdrawButton.click();
+  }
+
+  async confirmRepayAllAndWithdraw(): Promise<void> {
+    // Wrapping ETH and approving the repayment come first when needed, then the batch itself
+    const success = this.page.getByText(TestData.MESSAGES.REPAYMENT.REPAY_ALL_WITHDRAW_SUCCESS);
+    for (let attempt = 0; attempt < 3 && !(await success.isVisible()); attempt++) {
+      await this.metamask.confirmTransaction();
+      await this.waitForTimeout(TestData.TIMEOUTS.LONG);
+    }
+  }
+
+  async verifyRepayAllAndWithdrawSuccess(): Promise<void> {
+    await this.page.getByText(TestData.MESSAGES.REPAYMENT.REPAY_ALL_WITHDRAW_SUCCESS).waitFor({ state: 'visible' });
+    await this.page.getByText(TestData.MESSAGES.AMOUNTS.formatBorrow(0.0)).waitFor({ state: 'visible' });
+    await this.page.getByText(new RegExp(TestData.MESSAGES.AMOUNTS.formatDeposit(0.0))).waitFor({ state: 'visible' });
+  }
+
   // Withdraw actions
   async switchToDepositTab(): Promise<void> {
     await this.depositWithdrawTab.click();
@@ -358,6 +408,14 @@ export default class LendingPage extends BasePage {
     await expect(this.liquidationDetailsCard).toBeVisible();
   }
 
+  /**
+   * Pick which of the borrower's deposits the liquidation seizes
+   */
+  async selectLiquidationCollateral(symbol: string): Promise<void> {
+    await this.liquidationCollateralSelect.selectOption(symbol);
+    await this.waitForTimeout(TestData.TIMEOUTS.SHORT);
+  }
+
   /**
    * Enter a specific liquidation amount
    */
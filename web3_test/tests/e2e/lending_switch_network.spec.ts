@@ -96,9 +96,15 @@ test.describe('Lending Liquidation Test', () => {
             await lendingPage.verifyDepositAmount(parseFloat('1.0'));
         });
        
-        // Step 9: Borrow ETH with first account (75% of collateral, which should be risky)
-        await test.step('9. Borrow ETH with first account (75% of collateral, which should be risky)', async () => {
-            await borrowFeature.borrowETH('0.75');
+        // Step 9: Add USDC collateral and borrow more ETH than the ETH deposit alone covers
+        // ETH collateral cannot make an ETH loan liquidatable, its value moves with the debt, so the
+        // USDC-backed part of the loan is what an ETH price rise pushes under water.
+        // At $2000: borrow limit 1500 + 4800 = $6300, liquidation limit 1600 + 5100 = $6700 against $6200 of debt
+        await test.step('9. Deposit 6000 USDC and borrow 3.1 ETH with first account at an ETH price of $2000', async () => {
+            await borrowFeature.setEthPrice('2000');
+            await lendingPage.switchToDepositTab();
+            await depositFeature.depositToken('USDC', '6000');
+            await borrowFeature.borrowETH('3.1');
         });
         
         // Step 10: Advance time by 60 days to accumulate significant interest
@@ -106,8 +112,9 @@ test.describe('Lending Liquidation Test', () => {
             await borrowFeature.verifyInterestAccumulation(60, 'days');
         });
         
-        // Step 11: Switch to liquidate tab and verify current account is in liquidation status but can't liquidate self
-        await test.step("11. Switch to liquidate tab and verify current account is in liquidation status but can't liquidate self", async () => {
+        // Step 11: ETH rises 15%, the debt is now worth about $7170 against a $6940 liquidation limit
+        await test.step("11. Raise ETH to $2300, switch to liquidate tab and verify current account is in liquidation status but can't liquidate self", async () => {
+            await borrowFeature.setEthPrice('2300');
             await liquidationFeature.verifyOwnPositionNotLiquidatable();
         });
 
@@ -118,27 +125,36 @@ test.describe('Lending Liquidation Test', () => {
             await lendingPage.verifyBorrowAmount('0.0')
         });
 
-        // Step 13: Switch network back and change account
-        await test.step("13. Switch network back and change to liquidator account, should see liquidate position of account 1 and pay half of his debt", async () => {
+        // Step 13: Borrow ETH on optimism, then repay all & withdraw with USDC selected
+        await test.step("13. Borrow ETH on optimism, then repay all & withdraw with USDC selected, the ETH debt is repaid too", async () => {
+            await lendingPage.switchToDepositTab();
+            await depositFeature.depositETH('1.0');
+            await borrowFeature.borrowETH('0.2');
+            await repayFeature.repayAllAndWithdraw('USDC');
+        });
+
+        // Step 14: Switch network back and change account
+        await test.step("14. Switch network back and change to liquidator account, should see liquidate position of account 1, pay half of the debt and seize USDC", async () => {
             await networkFeature.switchNetwork(TestData.NETWORK_LIST.NETWORK_ETH.NETWORK_NAME, TestData.NETWORK_LIST.NETWORK_ETH.CHAIN_ID);
             await walletFeature.switchWalletAccount('ACCOUNT_2');
             
-            // Liquidate first account's position
+            // Liquidate first account's position, half the debt plus the bonus is more than its ETH deposit
             await liquidationFeature.liquidatePosition({
-                amountPercentage: 50 // 50% of the user's debt
+                amountPercentage: 50, // 50% of the user's debt
+                collateralSymbol: 'USDC'
             });
         });
 
-        // Step 14: Switch back to first account
-        await test.step("14. Switch back to first account to repay full amount the remaining debt, the health factor threshold should back to aboce 1", async () => {
+        // Step 15: Switch back to first account
+        await test.step("15. Switch back to first account to repay full amount the remaining debt, the health factor threshold should back to aboce 1", async () => {
             await walletFeature.switchWalletAccount('ACCOUNT_1');
             await lendingPage.switchToBorrowTab();
             await repayFeature.repayFullAmount();
             await liquidationFeature.verifyHealthFactorAboveThreshold(1.0);
         });
 
-        // Step 15: Withdraw
-        await test.step('15. Withdraw all collateral to clear test step', async () => {
+        // Step 16: Withdraw
+        await test.step('16. Withdraw all collateral to clear test step', async () => {
             await withdrawFeature.withdrawAll();
         });
 